@@ -0,0 +1,361 @@
+// Local stand-in for a NodePass master, for developing the panel (and running integration
+// checks) without a real master. Start with `npm run mock-master`, then add a master in the
+// panel pointing at the printed API URL with the printed API key. Tests start their own copy
+// with startMockMaster().
+//
+// Environment (command line only):
+//   MOCK_MASTER_PORT     listen port (default 9090)
+//   MOCK_MASTER_PREFIX   API path prefix (default /api)
+//   MOCK_MASTER_API_KEY  accepted X-API-Key (default mock-api-key)
+//   MOCK_MASTER_TICK_MS  interval between scripted log lines (default 3000)
+//   MOCK_MASTER_NO_PUT   set to 1 to answer PUT /instances/{id} with 405, like older masters
+//   MOCK_MASTER_VERSION  version reported by /info and /openapi.json (default v1.10.0-mock)
+
+import http from 'node:http';
+import { randomBytes } from 'node:crypto';
+import type { Instance, InstanceEventType } from '../src/types/nodepass';
+
+export interface MockMasterOptions {
+  port?: number; // 0 picks a free port.
+  prefix?: string;
+  apiKey?: string;
+  tickMs?: number; // 0 disables the timer; call tick() instead.
+  supportsPut?: boolean;
+  version?: string;
+  quiet?: boolean;
+}
+
+export interface MockMaster {
+  readonly apiUrl: string;
+  readonly apiKey: string; // Changes when the key is rotated.
+  // Emits the next round of scripted log lines (handshakes, then traffic) right away.
+  tick(): void;
+  // Sends `shutdown` to open event streams and closes the server.
+  stop(): Promise<void>;
+}
+
+const API_KEY_INSTANCE_ID = '********';
+const EVENT_HISTORY_LIMIT = 500;
+
+interface MockInstance extends Instance {
+  handshakePending: boolean;
+}
+
+interface SseClient {
+  res: http.ServerResponse;
+  keepAlive: ReturnType<typeof setInterval>;
+}
+
+// --- helpers -------------------------------------------------------------------------------
+
+const newInstanceId = () => randomBytes(4).toString('hex');
+
+function toPublic(instance: MockInstance): Instance {
+  const { handshakePending: _ignored, ...rest } = instance;
+  return rest;
+}
+
+function logTimestamp(date = new Date()): string {
+  const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}.${pad(date.getMilliseconds(), 3)}`;
+}
+
+function parseInstanceUrl(url: unknown): { type: Instance['type']; tunnel: string } | null {
+  if (typeof url !== 'string') return null;
+  const match = url.match(/^(server|client):\/\/(?:[^@/]*@)?([^/?#]*)\/([^?#]*)/);
+  if (!match || !match[2]) return null;
+  return { type: match[1] as Instance['type'], tunnel: match[2] };
+}
+
+function writeEvent(res: http.ServerResponse, id: number, payload: string) {
+  res.write(`id: ${id}\nevent: instance\ndata: ${payload}\n\n`);
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function readJson(req: http.IncomingMessage): Promise<any> {
+  return new Promise((resolve, reject) => {
+    let raw = '';
+    req.on('data', chunk => { raw += chunk; });
+    req.on('end', () => {
+      try { resolve(raw ? JSON.parse(raw) : {}); } catch (e) { reject(e); }
+    });
+    req.on('error', reject);
+  });
+}
+
+// --- master --------------------------------------------------------------------------------
+
+export function startMockMaster(options: MockMasterOptions = {}): Promise<MockMaster> {
+  const prefix = (options.prefix ?? '/api').replace(/\/+$/, '');
+  const tickMs = options.tickMs ?? 3000;
+  const supportsPut = options.supportsPut ?? true;
+  const version = options.version ?? 'v1.10.0-mock';
+  const log = options.quiet ? () => {} : (message: string) => console.log(`[mock-master] ${message}`);
+  let apiKey = options.apiKey ?? 'mock-api-key';
+
+  const instances = new Map<string, MockInstance>();
+  const sseClients = new Set<SseClient>();
+  const eventHistory: { id: number; payload: string }[] = [];
+  let nextEventId = 1;
+  const startedAt = Date.now();
+
+  function apiKeyInstance(): Instance {
+    // Real masters expose the API key as a pseudo-instance; type/status are empty there.
+    return { id: API_KEY_INSTANCE_ID, type: '' as Instance['type'], status: '' as Instance['status'], url: apiKey, tcprx: 0, tcptx: 0, udprx: 0, udptx: 0 };
+  }
+
+  function listInstances(): Instance[] {
+    return [apiKeyInstance(), ...Array.from(instances.values()).map(toPublic)];
+  }
+
+  // --- events ------------------------------------------------------------------------------
+
+  function broadcast(type: InstanceEventType, instance?: Instance, logs?: string) {
+    const payload = JSON.stringify({ type, time: new Date().toISOString(), instance, logs });
+    const id = nextEventId++;
+    eventHistory.push({ id, payload });
+    if (eventHistory.length > EVENT_HISTORY_LIMIT) eventHistory.shift();
+    for (const client of sseClients) writeEvent(client.res, id, payload);
+  }
+
+  function emitLog(instance: MockInstance, level: string, message: string) {
+    broadcast('log', toPublic(instance), `${logTimestamp()} ${level} ${message}`);
+  }
+
+  function scriptedTick() {
+    for (const instance of instances.values()) {
+      if (instance.status !== 'running') continue;
+      if (instance.handshakePending) {
+        instance.handshakePending = false;
+        const latency = 5 + Math.floor(Math.random() * 80);
+        const peer = instance.type === 'server' ? 'client' : 'server';
+        emitLog(instance, 'INFO', `Tunnel handshaked: ${instance.type} <-> ${peer} in ${latency} ms`);
+        continue;
+      }
+      const tcpRx = Math.floor(Math.random() * 64 * 1024);
+      const tcpTx = Math.floor(Math.random() * 64 * 1024);
+      const udpRx = Math.random() < 0.3 ? Math.floor(Math.random() * 8 * 1024) : 0;
+      const udpTx = udpRx ? Math.floor(Math.random() * 8 * 1024) : 0;
+      instance.tcprx += tcpRx;
+      instance.tcptx += tcpTx;
+      instance.udprx += udpRx;
+      instance.udptx += udpTx;
+      emitLog(instance, 'EVENT', `Exchange complete: TRAFFIC_STATS|TCP_RX=${tcpRx}|TCP_TX=${tcpTx}|UDP_RX=${udpRx}|UDP_TX=${udpTx}`);
+      broadcast('update', toPublic(instance));
+    }
+  }
+
+  function openEventStream(req: http.IncomingMessage, res: http.ServerResponse) {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+    });
+    res.write('retry: 3000\n\n');
+
+    // Resume from Last-Event-ID when we still have the history; otherwise resend the snapshot.
+    const lastEventId = Number(req.headers['last-event-id']);
+    const resumeIndex = Number.isFinite(lastEventId) ? eventHistory.findIndex(e => e.id === lastEventId) : -1;
+    if (resumeIndex !== -1) {
+      for (const entry of eventHistory.slice(resumeIndex + 1)) writeEvent(res, entry.id, entry.payload);
+    } else {
+      for (const instance of listInstances()) {
+        writeEvent(res, nextEventId++, JSON.stringify({ type: 'initial', time: new Date().toISOString(), instance }));
+      }
+    }
+
+    const client: SseClient = { res, keepAlive: setInterval(() => res.write(': keep-alive\n\n'), 15000) };
+    sseClients.add(client);
+    req.on('close', () => {
+      clearInterval(client.keepAlive);
+      sseClients.delete(client);
+    });
+  }
+
+  // --- HTTP --------------------------------------------------------------------------------
+
+  function findTunnelClash(parsed: { type: Instance['type']; tunnel: string }, exceptId?: string): MockInstance | undefined {
+    if (parsed.type !== 'server') return undefined;
+    return Array.from(instances.values()).find(inst => inst.id !== exceptId && inst.type === 'server' && parseInstanceUrl(inst.url)?.tunnel === parsed.tunnel);
+  }
+
+  async function handleInstances(req: http.IncomingMessage, res: http.ServerResponse, id: string | undefined) {
+    if (!id) {
+      if (req.method === 'GET') return sendJson(res, 200, listInstances());
+      if (req.method === 'POST') {
+        const body = await readJson(req);
+        const parsed = parseInstanceUrl(body.url);
+        if (!parsed) return sendJson(res, 400, { error: 'Invalid URL format' });
+        const clash = findTunnelClash(parsed);
+        if (clash) return sendJson(res, 409, { error: `Tunnel address already in use by instance ${clash.id}` });
+        const instance: MockInstance = { id: newInstanceId(), type: parsed.type, status: 'running', url: body.url, tcprx: 0, tcptx: 0, udprx: 0, udptx: 0, handshakePending: true };
+        instances.set(instance.id, instance);
+        broadcast('create', toPublic(instance));
+        emitLog(instance, 'INFO', `Instance started: ${instance.url}`);
+        return sendJson(res, 201, toPublic(instance));
+      }
+      return sendJson(res, 405, { error: 'Method not allowed' });
+    }
+
+    if (id === API_KEY_INSTANCE_ID) {
+      if (req.method === 'GET') return sendJson(res, 200, apiKeyInstance());
+      if (req.method === 'PATCH') {
+        const body = await readJson(req);
+        if (body.action !== 'restart') return sendJson(res, 400, { error: 'Only restart is supported for the API key' });
+        apiKey = randomBytes(16).toString('hex');
+        log(`API key rotated: ${apiKey}`);
+        return sendJson(res, 200, apiKeyInstance());
+      }
+      return sendJson(res, 405, { error: 'Method not allowed' });
+    }
+
+    const instance = instances.get(id);
+    if (!instance) return sendJson(res, 404, { error: 'Instance not found' });
+
+    if (req.method === 'GET') return sendJson(res, 200, toPublic(instance));
+    if (req.method === 'PATCH') {
+      const body = await readJson(req);
+      const action = body.action;
+      if (action !== 'start' && action !== 'stop' && action !== 'restart') {
+        return sendJson(res, 400, { error: 'Invalid action' });
+      }
+      instance.status = action === 'stop' ? 'stopped' : 'running';
+      if (action !== 'stop') instance.handshakePending = true;
+      broadcast('update', toPublic(instance));
+      emitLog(instance, 'INFO', `Instance ${action === 'stop' ? 'stopped' : action === 'start' ? 'started' : 'restarted'}`);
+      return sendJson(res, 200, toPublic(instance));
+    }
+    if (req.method === 'PUT' && supportsPut) {
+      const body = await readJson(req);
+      const parsed = parseInstanceUrl(body.url);
+      if (!parsed) return sendJson(res, 400, { error: 'Invalid URL format' });
+      const clash = findTunnelClash(parsed, instance.id);
+      if (clash) return sendJson(res, 409, { error: `Tunnel address already in use by instance ${clash.id}` });
+      instance.type = parsed.type;
+      instance.url = body.url;
+      instance.handshakePending = instance.status === 'running';
+      broadcast('update', toPublic(instance));
+      emitLog(instance, 'INFO', `Instance updated: ${instance.url}`);
+      return sendJson(res, 200, toPublic(instance));
+    }
+    if (req.method === 'DELETE') {
+      instances.delete(id);
+      broadcast('delete', toPublic(instance));
+      res.writeHead(204);
+      return res.end();
+    }
+    return sendJson(res, 405, { error: 'Method not allowed' });
+  }
+
+  function masterInfo() {
+    return {
+      ver: version,
+      os: process.platform,
+      arch: process.arch,
+      name: 'mock-master',
+      uptime: Math.floor((Date.now() - startedAt) / 1000),
+      cpu: Math.round(Math.random() * 300) / 10,
+      mem_total: 8 * 1024 ** 3,
+      mem_used: Math.floor((2 + Math.random()) * 1024 ** 3),
+      log: 'info',
+      tls: '0',
+    };
+  }
+
+  // Just enough of the document for the panel's capability probe: paths, methods and version.
+  function openApiDocument() {
+    const instanceMethods: Record<string, object> = { get: {}, patch: {}, delete: {} };
+    if (supportsPut) instanceMethods.put = {};
+    return {
+      openapi: '3.1.0',
+      info: { title: 'NodePass API (mock)', version },
+      paths: {
+        [`${prefix}/instances`]: { get: {}, post: {} },
+        [`${prefix}/instances/{id}`]: instanceMethods,
+        [`${prefix}/events`]: { get: {} },
+        [`${prefix}/info`]: { get: {} },
+      },
+    };
+  }
+
+  const server = http.createServer(async (req, res) => {
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PATCH, PUT, DELETE, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-API-Key, Last-Event-ID, Cache-Control');
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204);
+      return res.end();
+    }
+
+    const path = new URL(req.url || '/', 'http://localhost').pathname;
+    if (!path.startsWith(`${prefix}/`)) return sendJson(res, 404, { error: 'Not found' });
+    if (req.headers['x-api-key'] !== apiKey) return sendJson(res, 401, { error: 'Unauthorized' });
+
+    const [resource, id, ...rest] = path.substring(prefix.length + 1).split('/');
+    try {
+      if (resource === 'events' && !id && req.method === 'GET') return openEventStream(req, res);
+      if (resource === 'info' && !id && req.method === 'GET') return sendJson(res, 200, masterInfo());
+      if (resource === 'openapi.json' && !id && req.method === 'GET') return sendJson(res, 200, openApiDocument());
+      if (resource === 'instances' && rest.length === 0) return await handleInstances(req, res, id ? decodeURIComponent(id) : undefined);
+      return sendJson(res, 404, { error: 'Not found' });
+    } catch (e: any) {
+      return sendJson(res, 400, { error: e?.message || 'Bad request' });
+    }
+  });
+
+  const ticker = tickMs > 0 ? setInterval(scriptedTick, tickMs) : null;
+
+  function stop(): Promise<void> {
+    broadcast('shutdown');
+    if (ticker) clearInterval(ticker);
+    for (const client of sseClients) {
+      clearInterval(client.keepAlive);
+      client.res.end();
+    }
+    sseClients.clear();
+    return new Promise(resolve => {
+      server.close(() => resolve());
+      server.closeAllConnections(); // Idle keep-alive sockets would hold close() open.
+    });
+  }
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port ?? 9090, () => {
+      const address = server.address();
+      const port = typeof address === 'object' && address ? address.port : options.port;
+      const apiUrl = `http://localhost:${port}${prefix}`;
+      log(`API URL: ${apiUrl}`);
+      log(`API key: ${apiKey}`);
+      resolve({
+        apiUrl,
+        get apiKey() { return apiKey; },
+        tick: scriptedTick,
+        stop,
+      });
+    });
+  });
+}
+
+// `npm run mock-master`
+if (require.main === module) {
+  startMockMaster({
+    port: Number(process.env.MOCK_MASTER_PORT || 9090),
+    prefix: process.env.MOCK_MASTER_PREFIX,
+    apiKey: process.env.MOCK_MASTER_API_KEY,
+    tickMs: Number(process.env.MOCK_MASTER_TICK_MS || 3000),
+    supportsPut: process.env.MOCK_MASTER_NO_PUT !== '1',
+    version: process.env.MOCK_MASTER_VERSION,
+  }).then(master => {
+    const shutdown = () => { void master.stop().then(() => process.exit(0)); };
+    process.on('SIGINT', shutdown);
+    process.on('SIGTERM', shutdown);
+  }, error => {
+    console.error('[mock-master] failed to start:', error);
+    process.exit(1);
+  });
+}
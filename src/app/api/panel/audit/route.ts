@@ -0,0 +1,61 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { isServerStorageEnabled } from '@/lib/server/panel-store';
+import { requirePanelUser } from '@/lib/server/panel-auth';
+import { appendAuditEntry, queryAuditLog } from '@/lib/server/audit-log';
+import { isAuditAction, parseAuditEntryInput, type AuditLogQuery } from '@/lib/audit-log';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const MAX_QUERY_LIMIT = 10000;
+
+function notEnabled() {
+  return NextResponse.json({ error: '面板未启用服务器存储，审计日志保存在浏览器中。' }, { status: 404 });
+}
+
+function parseTime(value: string | null): string | undefined {
+  if (!value) return undefined;
+  const time = new Date(value);
+  return Number.isNaN(time.getTime()) ? undefined : time.toISOString();
+}
+
+// ?master=<id>&action=<action>&from=<ISO>&to=<ISO>&limit=<n>; newest first.
+export async function GET(request: NextRequest) {
+  if (!isServerStorageEnabled()) return notEnabled();
+  const guard = await requirePanelUser(request);
+  if (guard instanceof NextResponse) return guard;
+  const params = request.nextUrl.searchParams;
+  const action = params.get('action');
+  if (action && !isAuditAction(action)) {
+    return NextResponse.json({ error: `未知的审计操作类型: ${action}` }, { status: 400 });
+  }
+  const limit = Number(params.get('limit'));
+  const query: AuditLogQuery = {
+    masterId: params.get('master') || undefined,
+    action: isAuditAction(action) ? action : undefined,
+    from: parseTime(params.get('from')),
+    to: parseTime(params.get('to')),
+    limit: Number.isInteger(limit) && limit > 0 ? Math.min(limit, MAX_QUERY_LIMIT) : undefined,
+  };
+  try {
+    return NextResponse.json({ entries: await queryAuditLog(query) });
+  } catch (error: any) {
+    console.error('读取审计日志失败:', error);
+    return NextResponse.json({ error: `读取审计日志失败: ${error.message}` }, { status: 500 });
+  }
+}
+
+// Only admins can change anything, so only admins produce entries. Time and actor are set here.
+export async function POST(request: NextRequest) {
+  if (!isServerStorageEnabled()) return notEnabled();
+  const guard = await requirePanelUser(request, { role: 'admin' });
+  if (guard instanceof NextResponse) return guard;
+  const input = parseAuditEntryInput(await request.json().catch(() => null));
+  if (!input) return NextResponse.json({ error: '无效的审计日志条目。' }, { status: 400 });
+  try {
+    return NextResponse.json({ entry: await appendAuditEntry(input, guard?.username) });
+  } catch (error: any) {
+    console.error('写入审计日志失败:', error);
+    return NextResponse.json({ error: `写入审计日志失败: ${error.message}` }, { status: 500 });
+  }
+}
@@ -0,0 +1,77 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import {
+  SESSION_COOKIE_NAME,
+  authenticate,
+  clearSessionCookie,
+  createSession,
+  deleteSession,
+  getClientAddress,
+  getLoginLockout,
+  getSessionUser,
+  hasPanelUsers,
+  isPanelAuthEnabled,
+  recordLoginAttempt,
+  setSessionCookie,
+} from '@/lib/server/panel-auth';
+import type { PanelSessionInfo } from '@/lib/panel-auth';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const DISABLED: PanelSessionInfo = { enabled: false, needsSetup: false, user: null };
+
+// Who is signed in, and whether the panel still needs its first admin account.
+export async function GET(request: NextRequest) {
+  if (!isPanelAuthEnabled()) return NextResponse.json<PanelSessionInfo>(DISABLED);
+  try {
+    const [user, hasUsers] = await Promise.all([getSessionUser(request), hasPanelUsers()]);
+    return NextResponse.json<PanelSessionInfo>({ enabled: true, needsSetup: !hasUsers, user });
+  } catch (error: any) {
+    console.error('读取面板会话失败:', error);
+    return NextResponse.json({ error: `读取面板会话失败: ${error.message}` }, { status: 500 });
+  }
+}
+
+// Login. Repeated failures lock the username and client address out for a while (429).
+export async function POST(request: NextRequest) {
+  if (!isPanelAuthEnabled()) return NextResponse.json({ error: '面板未启用登录。' }, { status: 404 });
+  const body = await request.json().catch(() => null);
+  if (typeof body?.username !== 'string' || typeof body?.password !== 'string') {
+    return NextResponse.json({ error: '请输入用户名和密码。' }, { status: 400 });
+  }
+  const username = body.username.trim();
+  const address = getClientAddress(request);
+  try {
+    const retryAfter = await getLoginLockout(username, address);
+    if (retryAfter > 0) {
+      return NextResponse.json(
+        { error: `登录失败次数过多，请在 ${retryAfter} 秒后重试。` },
+        { status: 429, headers: { 'Retry-After': String(retryAfter) } }
+      );
+    }
+    const user = await authenticate(username, body.password);
+    await recordLoginAttempt(username, address, !!user);
+    if (!user) return NextResponse.json({ error: '用户名或密码错误。' }, { status: 401 });
+    const { token, expiresAt } = await createSession(user.id);
+    const response = NextResponse.json<PanelSessionInfo>({ enabled: true, needsSetup: false, user });
+    setSessionCookie(response, request, token, expiresAt);
+    return response;
+  } catch (error: any) {
+    console.error('面板登录失败:', error);
+    return NextResponse.json({ error: `登录失败: ${error.message}` }, { status: 500 });
+  }
+}
+
+// Logout.
+export async function DELETE(request: NextRequest) {
+  if (!isPanelAuthEnabled()) return NextResponse.json<PanelSessionInfo>(DISABLED);
+  const token = request.cookies.get(SESSION_COOKIE_NAME)?.value;
+  try {
+    if (token) await deleteSession(token);
+  } catch (error: any) {
+    console.error('删除面板会话失败:', error);
+  }
+  const response = NextResponse.json<PanelSessionInfo>({ enabled: true, needsSetup: false, user: null });
+  clearSessionCookie(response);
+  return response;
+}
@@ -0,0 +1,26 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { PanelAuthError, createPanelUser, createSession, isPanelAuthEnabled, setSessionCookie } from '@/lib/server/panel-auth';
+import type { PanelSessionInfo } from '@/lib/panel-auth';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// First-run setup: creates the initial admin account and signs it in. Refused once any account exists.
+export async function POST(request: NextRequest) {
+  if (!isPanelAuthEnabled()) return NextResponse.json({ error: '面板未启用登录。' }, { status: 404 });
+  const body = await request.json().catch(() => null);
+  if (typeof body?.username !== 'string' || typeof body?.password !== 'string') {
+    return NextResponse.json({ error: '请输入用户名和密码。' }, { status: 400 });
+  }
+  try {
+    const user = await createPanelUser(body.username.trim(), body.password, 'admin', { onlyIfFirst: true });
+    const { token, expiresAt } = await createSession(user.id);
+    const response = NextResponse.json<PanelSessionInfo>({ enabled: true, needsSetup: false, user });
+    setSessionCookie(response, request, token, expiresAt);
+    return response;
+  } catch (error: any) {
+    if (error instanceof PanelAuthError) return NextResponse.json({ error: error.message }, { status: error.status });
+    console.error('创建管理员账户失败:', error);
+    return NextResponse.json({ error: `创建管理员账户失败: ${error.message}` }, { status: 500 });
+  }
+}
@@ -0,0 +1,77 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { getPanelStore, isPanelStateKey, isServerStorageEnabled } from '@/lib/server/panel-store';
+import { isMasterProxyEnabled, redactApiConfigs, restoreServerHeldTokens } from '@/lib/server/master-proxy';
+import { requirePanelUser } from '@/lib/server/panel-auth';
+import type { PanelStateKey } from '@/lib/panel-storage';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: Promise<{ key: string }>;
+}
+
+// Common checks; returns the key or an error response.
+async function resolveKey(context: RouteContext): Promise<PanelStateKey | NextResponse> {
+  if (!isServerStorageEnabled()) {
+    return NextResponse.json({ error: '面板未启用服务器存储模式。' }, { status: 404 });
+  }
+  const { key } = await context.params;
+  if (!isPanelStateKey(key)) {
+    return NextResponse.json({ error: `未知的状态键 "${key}"。` }, { status: 404 });
+  }
+  return key;
+}
+
+export async function GET(request: NextRequest, context: RouteContext) {
+  const key = await resolveKey(context);
+  if (key instanceof NextResponse) return key;
+  const guard = await requirePanelUser(request);
+  if (guard instanceof NextResponse) return guard;
+  try {
+    const store = getPanelStore();
+    const [entry, revision] = await Promise.all([store.get(key), store.getRevision()]);
+    // With the proxy enabled master API keys never leave the server.
+    const value = key === 'api-configs' && isMasterProxyEnabled() ? redactApiConfigs(entry?.value) : entry?.value;
+    return NextResponse.json({ value: value ?? null, revision });
+  } catch (error: any) {
+    console.error(`读取面板状态 "${key}" 失败:`, error);
+    return NextResponse.json({ error: `读取面板状态失败: ${error.message}` }, { status: 500 });
+  }
+}
+
+export async function PUT(request: NextRequest, context: RouteContext) {
+  const key = await resolveKey(context);
+  if (key instanceof NextResponse) return key;
+  const guard = await requirePanelUser(request, { role: 'admin' });
+  if (guard instanceof NextResponse) return guard;
+  let body: any;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: '请求体必须是 JSON。' }, { status: 400 });
+  }
+  if (!body || !('value' in body)) {
+    return NextResponse.json({ error: '请求体缺少 value 字段。' }, { status: 400 });
+  }
+  try {
+    const value = key === 'api-configs' ? await restoreServerHeldTokens(body.value) : body.value;
+    return NextResponse.json({ revision: await getPanelStore().set(key, value) });
+  } catch (error: any) {
+    console.error(`保存面板状态 "${key}" 失败:`, error);
+    return NextResponse.json({ error: `保存面板状态失败: ${error.message}` }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  const key = await resolveKey(context);
+  if (key instanceof NextResponse) return key;
+  const guard = await requirePanelUser(request, { role: 'admin' });
+  if (guard instanceof NextResponse) return guard;
+  try {
+    return NextResponse.json({ revision: await getPanelStore().delete(key) });
+  } catch (error: any) {
+    console.error(`删除面板状态 "${key}" 失败:`, error);
+    return NextResponse.json({ error: `删除面板状态失败: ${error.message}` }, { status: 500 });
+  }
+}
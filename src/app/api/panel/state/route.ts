@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server';
+import { getPanelStore, isServerStorageEnabled } from '@/lib/server/panel-store';
+import { isMasterProxyEnabled } from '@/lib/server/master-proxy';
+import type { PanelStateInfo } from '@/lib/panel-storage';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Storage mode and current revision. Browsers poll this to notice changes made elsewhere.
+export async function GET() {
+  if (!isServerStorageEnabled()) {
+    return NextResponse.json<PanelStateInfo>({ mode: 'local', revision: 0 });
+  }
+  try {
+    return NextResponse.json<PanelStateInfo>({
+      mode: 'server',
+      revision: await getPanelStore().getRevision(),
+      proxy: isMasterProxyEnabled(),
+    });
+  } catch (error: any) {
+    console.error('读取面板状态失败:', error);
+    return NextResponse.json({ error: `读取面板状态失败: ${error.message}` }, { status: 500 });
+  }
+}
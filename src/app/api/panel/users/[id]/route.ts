@@ -0,0 +1,46 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { PanelAuthError, deletePanelUser, isPanelAuthEnabled, requirePanelUser, updatePanelUser } from '@/lib/server/panel-auth';
+import { isPanelRole } from '@/lib/panel-auth';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+function errorResponse(error: any, action: string) {
+  if (error instanceof PanelAuthError) return NextResponse.json({ error: error.message }, { status: error.status });
+  console.error(`${action}失败:`, error);
+  return NextResponse.json({ error: `${action}失败: ${error.message}` }, { status: 500 });
+}
+
+// Change role and/or reset the password.
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  if (!isPanelAuthEnabled()) return NextResponse.json({ error: '面板未启用登录。' }, { status: 404 });
+  const guard = await requirePanelUser(request, { role: 'admin' });
+  if (guard instanceof NextResponse) return guard;
+  const { id } = await context.params;
+  const body = await request.json().catch(() => null);
+  if (!body || (body.role !== undefined && !isPanelRole(body.role)) || (body.password !== undefined && typeof body.password !== 'string')) {
+    return NextResponse.json({ error: '请求体只能包含 role (admin 或 viewer) 和 password。' }, { status: 400 });
+  }
+  try {
+    return NextResponse.json({ user: await updatePanelUser(id, { role: body.role, password: body.password }) });
+  } catch (error: any) {
+    return errorResponse(error, '更新面板用户');
+  }
+}
+
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  if (!isPanelAuthEnabled()) return NextResponse.json({ error: '面板未启用登录。' }, { status: 404 });
+  const guard = await requirePanelUser(request, { role: 'admin' });
+  if (guard instanceof NextResponse) return guard;
+  const { id } = await context.params;
+  try {
+    await deletePanelUser(id);
+    return NextResponse.json({ ok: true });
+  } catch (error: any) {
+    return errorResponse(error, '删除面板用户');
+  }
+}
@@ -0,0 +1,36 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { PanelAuthError, createPanelUser, isPanelAuthEnabled, listPanelUsers, requirePanelUser } from '@/lib/server/panel-auth';
+import { isPanelRole } from '@/lib/panel-auth';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Account management; admins only.
+export async function GET(request: NextRequest) {
+  if (!isPanelAuthEnabled()) return NextResponse.json({ error: '面板未启用登录。' }, { status: 404 });
+  const guard = await requirePanelUser(request, { role: 'admin' });
+  if (guard instanceof NextResponse) return guard;
+  try {
+    return NextResponse.json({ users: await listPanelUsers() });
+  } catch (error: any) {
+    console.error('读取面板用户失败:', error);
+    return NextResponse.json({ error: `读取面板用户失败: ${error.message}` }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  if (!isPanelAuthEnabled()) return NextResponse.json({ error: '面板未启用登录。' }, { status: 404 });
+  const guard = await requirePanelUser(request, { role: 'admin' });
+  if (guard instanceof NextResponse) return guard;
+  const body = await request.json().catch(() => null);
+  if (typeof body?.username !== 'string' || typeof body?.password !== 'string' || !isPanelRole(body?.role)) {
+    return NextResponse.json({ error: '请求体需要 username、password 和 role (admin 或 viewer)。' }, { status: 400 });
+  }
+  try {
+    return NextResponse.json({ user: await createPanelUser(body.username.trim(), body.password, body.role) });
+  } catch (error: any) {
+    if (error instanceof PanelAuthError) return NextResponse.json({ error: error.message }, { status: error.status });
+    console.error('创建面板用户失败:', error);
+    return NextResponse.json({ error: `创建面板用户失败: ${error.message}` }, { status: 500 });
+  }
+}
@@ -0,0 +1,68 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import type { NamedApiConfig } from '@/hooks/use-api-key';
+import {
+  MasterProxyError,
+  assertSameOriginJsonRequest,
+  forwardToMaster,
+  getProxiedMaster,
+  isMasterProxyEnabled,
+  withoutApiKeyInstance,
+} from '@/lib/server/master-proxy';
+import { requirePanelUser } from '@/lib/server/panel-auth';
+import { describeProxiedMutation, readUrlBefore, recordProxiedMutation, type ProxiedMutation } from '@/lib/server/proxy-audit';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: Promise<{ masterId: string; path: string[] }>;
+}
+
+// Forwards /api/proxy/<masterId>/<path> to <master apiUrl>/<path>, including the /events stream.
+// Instance operations are written to the audit log here (see proxy-audit.ts).
+async function handle(request: NextRequest, context: RouteContext) {
+  if (!isMasterProxyEnabled()) {
+    return NextResponse.json({ error: '面板未启用主控代理。' }, { status: 404 });
+  }
+  // Viewers may read (including the event stream) but not create, stop or delete anything.
+  const readOnly = request.method === 'GET' || request.method === 'HEAD';
+  const guard = await requirePanelUser(request, { role: readOnly ? undefined : 'admin' });
+  if (guard instanceof NextResponse) return guard;
+  const { masterId, path } = await context.params;
+  if (path.some(segment => segment === '.' || segment === '..')) {
+    return NextResponse.json({ error: '无效的代理路径。' }, { status: 400 });
+  }
+  let audit: { master: NamedApiConfig; mutation: ProxiedMutation; urlBefore?: string } | null = null;
+  const actor = guard?.username;
+  try {
+    const body = readOnly ? undefined : await request.arrayBuffer();
+    if (body) assertSameOriginJsonRequest(request.headers, body);
+    const master = await getProxiedMaster(masterId);
+    const mutation = body ? describeProxiedMutation(request.method, path, request.headers, body) : null;
+    if (mutation) audit = { master, mutation, urlBefore: await readUrlBefore(master, mutation, request.signal) };
+    const response = await forwardToMaster(master, {
+      method: request.method,
+      path: `/${path.map(encodeURIComponent).join('/')}`,
+      search: request.nextUrl.search,
+      headers: request.headers,
+      body,
+      signal: request.signal,
+    });
+    if (audit) await recordProxiedMutation(audit.master, audit.mutation, response.clone(), { urlBefore: audit.urlBefore, actor });
+    return guard?.role === 'viewer' ? await withoutApiKeyInstance(response) : response;
+  } catch (error: any) {
+    if (audit) await recordProxiedMutation(audit.master, audit.mutation, error, { urlBefore: audit.urlBefore, actor });
+    if (error instanceof MasterProxyError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    if (request.signal.aborted) return new NextResponse(null, { status: 499 });
+    console.error(`代理主控 "${masterId}" 请求失败:`, error);
+    return NextResponse.json({ error: `代理请求失败: ${error.message}` }, { status: 500 });
+  }
+}
+
+export const GET = handle;
+export const POST = handle;
+export const PUT = handle;
+export const PATCH = handle;
+export const DELETE = handle;
@@ -0,0 +1,256 @@
+"use client";
+
+import type { NextPage } from 'next';
+import React, { useMemo, useState } from 'react';
+import { AppLayout } from '@/components/layout/AppLayout';
+import { useApiConfig } from '@/hooks/use-api-key';
+import { useAuditLog } from '@/hooks/use-audit-log';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertTriangle, Download, Loader2, RefreshCw, ScrollText, X } from 'lucide-react';
+import {
+  AUDIT_ACTIONS,
+  AUDIT_ACTION_LABELS,
+  DEFAULT_AUDIT_QUERY_LIMIT,
+  MAX_LOCAL_AUDIT_ENTRIES,
+  auditEntriesToCsv,
+  auditEntriesToJson,
+  type AuditAction,
+  type AuditEntry,
+  type AuditLogQuery,
+} from '@/lib/audit-log';
+
+const ALL = '__all__';
+
+function downloadText(content: string, fileName: string, mimeType: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// <input type="datetime-local"> values are local time without a zone, to the minute. The end of the
+// range includes the whole selected minute.
+function localInputToIso(value: string, endOfMinute = false): string | undefined {
+  if (!value) return undefined;
+  const time = new Date(value).getTime();
+  return Number.isNaN(time) ? undefined : new Date(endOfMinute ? time + 59999 : time).toISOString();
+}
+
+function formatTime(iso: string): string {
+  return new Date(iso).toLocaleString('zh-CN', { hour12: false });
+}
+
+function UrlChange({ entry }: { entry: AuditEntry }) {
+  if (!entry.urlBefore && !entry.urlAfter) return <span className="text-muted-foreground">-</span>;
+  if (!entry.urlBefore || !entry.urlAfter || entry.urlBefore === entry.urlAfter) {
+    return <span className="break-all">{entry.urlAfter || entry.urlBefore}</span>;
+  }
+  return (
+    <div className="space-y-0.5">
+      <div className="break-all text-muted-foreground line-through">{entry.urlBefore}</div>
+      <div className="break-all">{entry.urlAfter}</div>
+    </div>
+  );
+}
+
+const AuditPage: NextPage = () => {
+  const { apiConfigsList } = useApiConfig();
+  const { toast } = useToast();
+  const [masterId, setMasterId] = useState(ALL);
+  const [action, setAction] = useState<AuditAction | typeof ALL>(ALL);
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+
+  const query = useMemo<AuditLogQuery>(() => ({
+    masterId: masterId === ALL ? undefined : masterId,
+    action: action === ALL ? undefined : action,
+    from: localInputToIso(from),
+    to: localInputToIso(to, true),
+    limit: DEFAULT_AUDIT_QUERY_LIMIT,
+  }), [masterId, action, from, to]);
+
+  const { data: entries, isLoading, isFetching, error, refetch, storageStatus } = useAuditLog(query);
+
+  // Deleted masters keep their history, so offer every master that shows up in the entries too.
+  const masterOptions = useMemo(() => {
+    const options = new Map(apiConfigsList.map(config => [config.id, config.name]));
+    entries?.forEach(entry => {
+      if (entry.masterId && !options.has(entry.masterId)) options.set(entry.masterId, entry.masterName || entry.masterId);
+    });
+    return Array.from(options, ([id, name]) => ({ id, name }));
+  }, [apiConfigsList, entries]);
+
+  const showActor = entries?.some(entry => entry.actor) ?? false;
+  const hasFilters = masterId !== ALL || action !== ALL || !!from || !!to;
+
+  const handleExport = (format: 'csv' | 'json') => {
+    if (!entries || entries.length === 0) {
+      toast({ title: '无记录可导出', description: '当前筛选条件下没有审计记录。', variant: 'destructive' });
+      return;
+    }
+    const stamp = new Date().toISOString().slice(0, 10);
+    if (format === 'csv') {
+      // BOM so spreadsheet applications pick UTF-8 for the Chinese master names.
+      downloadText(`\uFEFF${auditEntriesToCsv(entries)}`, `nodepass-audit-${stamp}.csv`, 'text/csv;charset=utf-8');
+    } else {
+      downloadText(auditEntriesToJson(entries), `nodepass-audit-${stamp}.json`, 'application/json');
+    }
+    toast({ title: '审计日志已导出', description: `已导出 ${entries.length} 条记录。` });
+  };
+
+  const clearFilters = () => {
+    setMasterId(ALL);
+    setAction(ALL);
+    setFrom('');
+    setTo('');
+  };
+
+  return (
+    <AppLayout>
+      <div className="flex flex-wrap justify-between items-center gap-2 mb-6">
+        <div>
+          <h1 className="text-2xl font-bold font-title flex items-center">
+            <ScrollText className="mr-2 h-6 w-6 text-primary" />
+            审计日志
+          </h1>
+          <p className="text-muted-foreground font-sans text-sm">
+            {storageStatus === 'server'
+              ? '记录保存在面板服务器上，所有浏览器共享。'
+              : `记录保存在此浏览器 (IndexedDB) 中，最多保留最近 ${MAX_LOCAL_AUDIT_ENTRIES} 条。`}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" onClick={() => refetch()} disabled={isFetching} className="font-sans">
+            <RefreshCw className={`mr-2 h-4 w-4 ${isFetching ? 'animate-spin' : ''}`} />
+            刷新
+          </Button>
+          <Button variant="outline" onClick={() => handleExport('csv')} disabled={!entries?.length} className="font-sans">
+            <Download className="mr-2 h-4 w-4" />
+            导出 CSV
+          </Button>
+          <Button variant="outline" onClick={() => handleExport('json')} disabled={!entries?.length} className="font-sans">
+            <Download className="mr-2 h-4 w-4" />
+            导出 JSON
+          </Button>
+        </div>
+      </div>
+
+      <Card className="shadow-lg">
+        <CardHeader>
+          <CardTitle className="font-title text-lg">筛选</CardTitle>
+          <CardDescription className="font-sans">导出内容与当前筛选结果一致。</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-[1fr_1fr_1fr_1fr_auto] items-end">
+            <div className="space-y-1">
+              <Label className="font-sans">主控</Label>
+              <Select value={masterId} onValueChange={setMasterId}>
+                <SelectTrigger className="font-sans"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL} className="font-sans">全部主控</SelectItem>
+                  {masterOptions.map(option => (
+                    <SelectItem key={option.id} value={option.id} className="font-sans">{option.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label className="font-sans">操作</Label>
+              <Select value={action} onValueChange={(value) => setAction(value as AuditAction | typeof ALL)}>
+                <SelectTrigger className="font-sans"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL} className="font-sans">全部操作</SelectItem>
+                  {AUDIT_ACTIONS.map(item => (
+                    <SelectItem key={item} value={item} className="font-sans">{AUDIT_ACTION_LABELS[item]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="audit-from" className="font-sans">开始时间</Label>
+              <Input id="audit-from" type="datetime-local" value={from} onChange={(e) => setFrom(e.target.value)} className="font-sans" />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="audit-to" className="font-sans">结束时间</Label>
+              <Input id="audit-to" type="datetime-local" value={to} onChange={(e) => setTo(e.target.value)} className="font-sans" />
+            </div>
+            <Button variant="ghost" onClick={clearFilters} disabled={!hasFilters} className="font-sans">
+              <X className="mr-2 h-4 w-4" />
+              清除
+            </Button>
+          </div>
+
+          {error && (
+            <p className="text-sm text-destructive font-sans flex items-center">
+              <AlertTriangle className="mr-2 h-4 w-4" />
+              加载审计日志失败: {error.message}
+            </p>
+          )}
+
+          {isLoading || storageStatus === 'detecting' ? (
+            <div className="flex justify-center py-10">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : entries && entries.length === 0 ? (
+            <p className="text-center text-muted-foreground font-sans py-10">
+              {hasFilters ? '没有符合筛选条件的审计记录。' : '暂无审计记录。创建、修改、删除或启停实例以及修改主控配置时会自动记录。'}
+            </p>
+          ) : entries && (
+            <>
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="font-sans whitespace-nowrap">时间</TableHead>
+                      <TableHead className="font-sans whitespace-nowrap">操作</TableHead>
+                      <TableHead className="font-sans">主控</TableHead>
+                      <TableHead className="font-sans">实例</TableHead>
+                      <TableHead className="font-sans">URL (变更前 → 变更后)</TableHead>
+                      <TableHead className="font-sans">结果</TableHead>
+                      {showActor && <TableHead className="font-sans">操作者</TableHead>}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {entries.map(entry => (
+                      <TableRow key={entry.id}>
+                        <TableCell className="font-mono text-xs whitespace-nowrap">{formatTime(entry.time)}</TableCell>
+                        <TableCell className="font-sans text-sm whitespace-nowrap">
+                          {AUDIT_ACTION_LABELS[entry.action] ?? entry.action}
+                          {entry.batchId && <div className="text-[10px] text-muted-foreground font-mono" title="同一批量操作的记录共享此批次 ID">{entry.batchId}</div>}
+                        </TableCell>
+                        <TableCell className="font-sans text-sm">{entry.masterName || entry.masterId || '-'}</TableCell>
+                        <TableCell className="font-mono text-xs">{entry.instanceId || '-'}</TableCell>
+                        <TableCell className="font-mono text-xs max-w-md"><UrlChange entry={entry} /></TableCell>
+                        <TableCell className="font-sans text-sm">
+                          <Badge variant={entry.result === 'success' ? 'default' : 'destructive'}>
+                            {entry.result === 'success' ? '成功' : '失败'}
+                          </Badge>
+                          {entry.error && <div className="text-xs text-destructive mt-1 break-all">{entry.error}</div>}
+                        </TableCell>
+                        {showActor && <TableCell className="font-sans text-sm">{entry.actor || '-'}</TableCell>}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+              {entries.length >= DEFAULT_AUDIT_QUERY_LIMIT && (
+                <p className="text-xs text-muted-foreground font-sans">仅显示最近 {DEFAULT_AUDIT_QUERY_LIMIT} 条记录，请缩小时间范围查看更早的记录。</p>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </AppLayout>
+  );
+};
+
+export default AuditPage;
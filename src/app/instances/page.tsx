@@ -0,0 +1,336 @@
+"use client";
+
+import type { NextPage } from 'next';
+import React, { useMemo, useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { AppLayout } from '@/components/layout/AppLayout';
+import { useApiConfig, type NamedApiConfig } from '@/hooks/use-api-key';
+import { useAllMastersInstances, type MasterInstance } from '@/hooks/use-all-masters-instances';
+import { usePanelSession } from '@/hooks/use-panel-session';
+import { useVirtualRows } from '@/hooks/use-virtual-rows';
+import { recordAudit } from '@/hooks/use-audit-log';
+import { useToast } from '@/hooks/use-toast';
+import { NodePassClient, formatApiErrorMessage, getApiErrorRemediation } from '@/lib/api';
+import type { UpdateInstanceRequest } from '@/types/nodepass';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertTriangle, Eye, LayoutList, Loader2, Pencil, RefreshCw, ServerIcon, SmartphoneIcon, Trash2 } from 'lucide-react';
+import { MasterFilterBar } from '@/components/nodepass/MasterFilterBar';
+import { MasterHealthDot } from '@/components/nodepass/MasterHealthIndicator';
+import { InstanceQueryInput } from '@/components/nodepass/InstanceQueryInput';
+import { InstanceStatusBadge } from '@/components/nodepass/InstanceStatusBadge';
+import { InstanceControls } from '@/components/nodepass/InstanceControls';
+import { InstanceDetailsModal } from '@/components/nodepass/InstanceDetailsModal';
+import { DeleteInstanceDialog } from '@/components/nodepass/DeleteInstanceDialog';
+import { CreateInstanceDialog } from '@/components/nodepass/create-instance-dialog';
+import { INSTANCE_ACTION_LABELS } from '@/components/nodepass/BulkInstanceActionDialog';
+import { EMPTY_MASTER_FILTER, filterMasters, type MasterFilter } from '@/lib/master-groups';
+import { matchesInstanceQuery, parseInstanceQuery } from '@/lib/instance-query';
+import { parseNodePassUrl } from '@/lib/url-utils';
+
+const VIRTUALIZE_ROW_THRESHOLD = 100;
+const ESTIMATED_ROW_HEIGHT = 57;
+
+function formatBytes(bytes: number) {
+  if (bytes === 0) return '0 B';
+  const k = 1024;
+  const sizes = ['B', 'KB', 'MB', 'GB', 'TB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(1)) + ' ' + sizes[i];
+}
+
+const rowKey = ({ master, instance }: MasterInstance) => `${master.id}-${instance.id}`;
+
+const AllInstancesPage: NextPage = () => {
+  const { apiConfigsList, isLoading: isLoadingApiConfig, getApiRootUrl, getToken } = useApiConfig();
+  const { canManage } = usePanelSession();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [masterFilter, setMasterFilter] = useState<MasterFilter>(EMPTY_MASTER_FILTER);
+  const [instanceQuery, setInstanceQuery] = useState('');
+  const [rowForDetails, setRowForDetails] = useState<MasterInstance | null>(null);
+  const [rowForEdit, setRowForEdit] = useState<MasterInstance | null>(null);
+  const [rowForDelete, setRowForDelete] = useState<MasterInstance | null>(null);
+
+  // 与流量统计页相同：主控筛选只作用于显示，实例仍按全部主控获取
+  const { rows, failures, isLoading, isFetching, loadedCount, refetchAll } = useAllMastersInstances(apiConfigsList);
+  const visibleMasterIds = useMemo(
+    () => new Set(filterMasters(apiConfigsList, masterFilter).map(c => c.id)),
+    [apiConfigsList, masterFilter]
+  );
+  const masterNames = useMemo(() => apiConfigsList.map(c => c.name), [apiConfigsList]);
+  const visibleRows = useMemo(() => {
+    const parsed = parseInstanceQuery(instanceQuery);
+    return rows.filter(({ master, instance }) =>
+      visibleMasterIds.has(master.id) && matchesInstanceQuery(instance, parsed, { masterId: master.id, masterName: master.name }));
+  }, [rows, visibleMasterIds, instanceQuery]);
+  const visibleFailures = failures.filter(failure => visibleMasterIds.has(failure.master.id));
+
+  const virtualRows = useVirtualRows({
+    count: visibleRows.length,
+    estimateRowHeight: ESTIMATED_ROW_HEIGHT,
+    enabled: visibleRows.length > VIRTUALIZE_ROW_THRESHOLD,
+  });
+
+  // Rows are re-read from the latest data so open dialogs follow live status changes.
+  const findCurrent = (row: MasterInstance | null) =>
+    row ? rows.find(candidate => rowKey(candidate) === rowKey(row)) ?? row : null;
+
+  const invalidateMaster = (master: NamedApiConfig) => {
+    queryClient.invalidateQueries({ queryKey: ['instances', master.id] });
+    queryClient.invalidateQueries({ queryKey: ['allInstancesForTraffic'] });
+  };
+
+  const updateInstanceMutation = useMutation({
+    mutationFn: ({ master, instanceId, action }: { master: NamedApiConfig; instanceId: string; action: UpdateInstanceRequest['action']; urlBefore: string }) =>
+      new NodePassClient(master).updateInstance(instanceId, { action }),
+    onSuccess: (data, { master, action, urlBefore }) => {
+      const actionText = INSTANCE_ACTION_LABELS[action];
+      toast({ title: `实例操作: ${actionText}`, description: `主控 “${master.name}” 的实例 ${data.id} 状态已改为 ${data.status}。` });
+      recordAudit({ masterId: master.id, masterName: master.name, action: `instance.${action}`, result: 'success', instanceId: data.id, urlBefore, urlAfter: data.url });
+      invalidateMaster(master);
+    },
+    onError: (error: any, { master, instanceId, action, urlBefore }) => {
+      const actionText = INSTANCE_ACTION_LABELS[action];
+      toast({ title: '实例操作失败', description: `主控 “${master.name}” 的实例 ${instanceId} ${actionText}失败: ${formatApiErrorMessage(error)}`, variant: 'destructive' });
+      recordAudit({ masterId: master.id, masterName: master.name, action: `instance.${action}`, result: 'failure', instanceId, urlBefore, error: error.message || '未知错误' });
+    },
+  });
+
+  const deleteInstanceMutation = useMutation({
+    mutationFn: ({ master, instance }: MasterInstance) => new NodePassClient(master).deleteInstance(instance.id),
+    onSuccess: (_, { master, instance }) => {
+      toast({ title: '实例已删除', description: `主控 “${master.name}” 的实例 ${instance.id} 已删除。` });
+      recordAudit({ masterId: master.id, masterName: master.name, action: 'instance.delete', result: 'success', instanceId: instance.id, urlBefore: instance.url });
+      invalidateMaster(master);
+      setRowForDelete(null);
+    },
+    onError: (error: any, { master, instance }) => {
+      toast({ title: '删除实例出错', description: `删除主控 “${master.name}” 的实例 ${instance.id} 失败: ${formatApiErrorMessage(error)}`, variant: 'destructive' });
+      recordAudit({ masterId: master.id, masterName: master.name, action: 'instance.delete', result: 'failure', instanceId: instance.id, urlBefore: instance.url, error: error.message || '未知错误' });
+    },
+  });
+
+  const isSameRow = (row: MasterInstance, master: NamedApiConfig | undefined, instanceId: string | undefined) =>
+    master?.id === row.master.id && instanceId === row.instance.id;
+
+  const renderRow = (row: MasterInstance) => {
+    const { master, instance } = row;
+    const parsedUrl = parseNodePassUrl(instance.url);
+    return (
+      <TableRow
+        key={rowKey(row)}
+        data-virtual-row
+        className="text-foreground/90 hover:text-foreground"
+        onDoubleClick={() => setRowForDetails(row)}
+      >
+        <TableCell className="max-w-[160px]">
+          <div className="flex items-center gap-2 font-sans">
+            <MasterHealthDot masterId={master.id} />
+            <span className="truncate" title={master.name}>{master.name}</span>
+          </div>
+          {master.group && <span className="block pl-4 text-[10px] text-muted-foreground truncate">{master.group}</span>}
+        </TableCell>
+        <TableCell className="font-medium font-mono text-xs break-all" title={instance.id}>{instance.id}</TableCell>
+        <TableCell>
+          <Badge variant={instance.type === 'server' ? 'default' : 'accent'} className="items-center whitespace-nowrap text-xs font-sans">
+            {instance.type === 'server' ? <ServerIcon size={12} className="mr-1" /> : <SmartphoneIcon size={12} className="mr-1" />}
+            {instance.type === 'server' ? '服务端' : '客户端'}
+          </Badge>
+        </TableCell>
+        <TableCell><InstanceStatusBadge status={instance.status} /></TableCell>
+        <TableCell className="truncate max-w-[200px] text-xs font-mono" title={parsedUrl.tunnelAddress ?? undefined}>{parsedUrl.tunnelAddress || 'N/A'}</TableCell>
+        <TableCell className="truncate max-w-[200px] text-xs font-mono" title={parsedUrl.targetAddress ?? undefined}>{parsedUrl.targetAddress || 'N/A'}</TableCell>
+        <TableCell className="text-left">
+          <div className="text-xs whitespace-nowrap font-mono">
+            <div>TCP: {formatBytes(instance.tcprx)} / {formatBytes(instance.tcptx)}</div>
+            <div>UDP: {formatBytes(instance.udprx)} / {formatBytes(instance.udptx)}</div>
+          </div>
+        </TableCell>
+        <TableCell className="text-right">
+          <div className="flex justify-end items-center space-x-1">
+            <InstanceControls
+              instance={instance}
+              onAction={(instanceId, action) => updateInstanceMutation.mutate({ master, instanceId, action, urlBefore: instance.url })}
+              isLoading={updateInstanceMutation.isPending && isSameRow(row, updateInstanceMutation.variables?.master, updateInstanceMutation.variables?.instanceId)}
+            />
+            <button className="p-2 rounded-md hover:bg-muted" onClick={() => setRowForDetails(row)} aria-label="查看详情">
+              <Eye className="h-4 w-4" />
+            </button>
+            {canManage && (
+              <button className="p-2 rounded-md hover:bg-muted" onClick={() => setRowForEdit(row)} aria-label="编辑">
+                <Pencil className="h-4 w-4" />
+              </button>
+            )}
+            {canManage && (
+              <button
+                className="p-2 rounded-md hover:bg-destructive/10 text-destructive"
+                onClick={() => setRowForDelete(row)}
+                aria-label="删除"
+                disabled={deleteInstanceMutation.isPending && isSameRow(row, deleteInstanceMutation.variables?.master, deleteInstanceMutation.variables?.instance.id)}
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            )}
+          </div>
+        </TableCell>
+      </TableRow>
+    );
+  };
+
+  const getTableBodyContent = () => {
+    if (visibleRows.length > 0) {
+      return (
+        <>
+          {virtualRows.paddingTop > 0 && <tr aria-hidden style={{ height: virtualRows.paddingTop }} />}
+          {visibleRows.slice(virtualRows.start, virtualRows.end).map(renderRow)}
+          {virtualRows.paddingBottom > 0 && <tr aria-hidden style={{ height: virtualRows.paddingBottom }} />}
+        </>
+      );
+    }
+    const message = isLoading
+      ? <span className="inline-flex items-center"><Loader2 className="mr-2 h-4 w-4 animate-spin" />加载实例...</span>
+      : rows.length === 0 ? '已加载的主控下没有实例。' : '没有与筛选条件匹配的实例。';
+    return (
+      <TableRow>
+        <TableCell colSpan={8} className="text-center h-24 font-sans text-muted-foreground">{message}</TableCell>
+      </TableRow>
+    );
+  };
+
+  if (isLoadingApiConfig) {
+    return (
+      <AppLayout>
+        <div className="flex-grow container mx-auto px-4 py-8 flex items-center justify-center h-[calc(100vh-var(--header-height)-var(--footer-height)-4rem)]">
+          <Loader2 className="h-12 w-12 animate-spin text-primary" />
+          <p className="ml-4 text-lg font-sans">加载主控配置...</p>
+        </div>
+      </AppLayout>
+    );
+  }
+
+  const detailsRow = findCurrent(rowForDetails);
+  const editRow = findCurrent(rowForEdit);
+
+  return (
+    <AppLayout>
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-2xl font-bold font-title">全部主控实例</h1>
+        <Button variant="outline" onClick={refetchAll} disabled={isFetching || apiConfigsList.length === 0} className="font-sans">
+          <RefreshCw className={`mr-2 h-4 w-4 ${isFetching ? 'animate-spin' : ''}`} />
+          {isFetching ? '刷新中...' : '刷新数据'}
+        </Button>
+      </div>
+
+      {apiConfigsList.length > 1 && (
+        <div className="mb-6">
+          <MasterFilterBar configs={apiConfigsList} filter={masterFilter} onFilterChange={setMasterFilter} />
+        </div>
+      )}
+
+      {visibleFailures.length > 0 && (
+        <div className="space-y-3 mb-6">
+          {visibleFailures.map(({ master, error, refetch }) => (
+            <Alert key={master.id} variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertTitle className="font-sans">主控 “{master.name}” 的实例未能加载</AlertTitle>
+              <AlertDescription className="font-sans flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+                <span>
+                  {error ? formatApiErrorMessage(error) : '缺少 API 地址或密钥，已跳过。'}
+                  {error && getApiErrorRemediation(error) && <span className="block text-xs opacity-80">{getApiErrorRemediation(error)}</span>}
+                </span>
+                {error && (
+                  <Button variant="outline" size="sm" onClick={refetch} className="font-sans shrink-0">
+                    <RefreshCw className="mr-2 h-3.5 w-3.5" />
+                    重试
+                  </Button>
+                )}
+              </AlertDescription>
+            </Alert>
+          ))}
+        </div>
+      )}
+
+      {apiConfigsList.length === 0 ? (
+        <Card className="text-center py-10 shadow-lg card-hover-shadow">
+          <CardHeader><CardTitle className="font-title">无数据显示</CardTitle></CardHeader>
+          <CardContent><p className="text-muted-foreground font-sans">请先配置主控连接。</p></CardContent>
+        </Card>
+      ) : (
+        <Card className="shadow-lg">
+          <CardHeader className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+            <div>
+              <CardTitle className="flex items-center font-title"><LayoutList className="mr-2 h-5 w-5 text-primary" />实例列表</CardTitle>
+              <CardDescription className="font-sans mt-1">
+                显示 {visibleRows.length} 个实例，已加载 {loadedCount} / {apiConfigsList.length} 个主控。
+              </CardDescription>
+            </div>
+            <InstanceQueryInput
+              value={instanceQuery}
+              onChange={setInstanceQuery}
+              masterNames={masterNames}
+              placeholder="搜索，如 master:hk status:error"
+              className="w-full sm:w-80"
+            />
+          </CardHeader>
+          <CardContent>
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="font-sans">主控</TableHead>
+                    <TableHead className="font-sans">ID</TableHead>
+                    <TableHead className="font-sans">类型</TableHead>
+                    <TableHead className="font-sans">状态</TableHead>
+                    <TableHead className="font-sans">隧道地址</TableHead>
+                    <TableHead className="font-sans">目标地址</TableHead>
+                    <TableHead className="text-left whitespace-nowrap font-sans">流量 (TCP | UDP)</TableHead>
+                    <TableHead className="text-right font-sans">操作</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody ref={virtualRows.bodyRef}>
+                  {getTableBodyContent()}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <InstanceDetailsModal
+        instance={detailsRow?.instance ?? null}
+        open={!!detailsRow}
+        onOpenChange={(open) => !open && setRowForDetails(null)}
+        apiRoot={detailsRow ? getApiRootUrl(detailsRow.master.id) : null}
+        apiToken={detailsRow ? getToken(detailsRow.master.id) : null}
+        onEdit={canManage ? () => {
+          setRowForEdit(detailsRow);
+          setRowForDetails(null);
+        } : undefined}
+      />
+      <CreateInstanceDialog
+        open={!!editRow}
+        onOpenChange={(open) => !open && setRowForEdit(null)}
+        apiId={editRow?.master.id ?? null}
+        apiRoot={editRow ? getApiRootUrl(editRow.master.id) : null}
+        apiToken={editRow ? getToken(editRow.master.id) : null}
+        apiName={editRow?.master.name ?? null}
+        activeApiConfig={editRow?.master ?? null}
+        instanceToEdit={editRow?.instance ?? null}
+      />
+      <DeleteInstanceDialog
+        instance={rowForDelete?.instance ?? null}
+        open={!!rowForDelete}
+        onOpenChange={(open) => !open && setRowForDelete(null)}
+        onConfirmDelete={() => rowForDelete && deleteInstanceMutation.mutate(rowForDelete)}
+        isLoading={deleteInstanceMutation.isPending && !!rowForDelete && isSameRow(rowForDelete, deleteInstanceMutation.variables?.master, deleteInstanceMutation.variables?.instance.id)}
+      />
+    </AppLayout>
+  );
+};
+
+export default AllInstancesPage;
@@ -1,7 +1,7 @@
 
 "use client";
 
-import React, { useState, useEffect, useRef } from 'react';
+import React, { Suspense, useState, useEffect, useRef } from 'react';
 import { AppLayout } from '@/components/layout/AppLayout';
 import { ApiConfigDialog } from '@/components/nodepass/ApiKeyDialog';
 import { CreateInstanceDialog } from '@/components/nodepass/create-instance-dialog'; // Updated import path
@@ -9,6 +9,8 @@ import { InstanceList } from '@/components/nodepass/InstanceList';
 import { EventLog, type AppLogEntry } from '@/components/nodepass/EventLog';
 import { ConnectionsManager } from '@/components/nodepass/ConnectionsManager';
 import { useApiConfig, type NamedApiConfig } from '@/hooks/use-api-key';
+import { usePanelSession } from '@/hooks/use-panel-session';
+import { recordAudit } from '@/hooks/use-audit-log';
 import { Loader2, PlusCircle } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
@@ -20,11 +22,13 @@ export default function HomePage() {
     activeApiConfig,
     apiConfigsList,
     addOrUpdateApiConfig,
+    getApiConfigById,
     isLoading: isLoadingApiConfig,
     setActiveApiConfigId,
     getApiRootUrl,
     getToken
   } = useApiConfig();
+  const { canManage } = usePanelSession();
   const { toast } = useToast();
 
   const [isApiConfigDialogOpenForSetup, setIsApiConfigDialogOpenForSetup] = useState(false);
@@ -58,15 +62,43 @@ export default function HomePage() {
 
 
   const handleSaveApiConfigForSetup = (configToSave: Omit<NamedApiConfig, 'id'> & { id?: string }) => {
+    const actionText = configToSave.id ? '更新' : '添加';
+    const previousConfig = configToSave.id ? getApiConfigById(configToSave.id) : null;
     const savedConfig = addOrUpdateApiConfig(configToSave);
     setActiveApiConfigId(savedConfig.id);
+    recordAudit({
+      action: configToSave.id ? 'master.update' : 'master.add',
+      result: 'success',
+      masterId: savedConfig.id,
+      masterName: savedConfig.name,
+      urlBefore: previousConfig?.apiUrl,
+      urlAfter: savedConfig.apiUrl,
+    });
     setEditingApiConfigForSetup(null);
     setIsApiConfigDialogOpenForSetup(false);
     toast({
-      title: '主控已添加',
+      title: `主控已${actionText}`,
       description: `“${configToSave.name}”已保存并激活。`,
     });
-    addPageLog(`主控 "${savedConfig.name}" 已添加并激活。`, 'SUCCESS', { configId: savedConfig.id, name: savedConfig.name });
+    addPageLog(`主控 "${savedConfig.name}" 已${actionText}并激活。`, 'SUCCESS', { configId: savedConfig.id, name: savedConfig.name });
+  };
+
+  const handleRequestApiKeyUpdate = () => {
+    if (!activeApiConfig) return;
+    setEditingApiConfigForSetup(activeApiConfig);
+    setIsApiConfigDialogOpenForSetup(true);
+  };
+
+  const handleApiKeyRotated = (newToken: string, { verified }: { verified: boolean }) => {
+    if (!activeApiConfig) return;
+    addOrUpdateApiConfig({ ...activeApiConfig, token: newToken, apiKeyUnverified: verified ? undefined : true });
+    addPageLog(
+      verified
+        ? `主控 "${activeApiConfig.name}" 的连接配置已使用新 API 密钥更新。`
+        : `主控 "${activeApiConfig.name}" 的连接配置已使用新 API 密钥更新，但密钥未通过验证，请检查后重新保存连接配置。`,
+      verified ? 'INFO' : 'ERROR',
+      { configId: activeApiConfig.id }
+    );
   };
 
   const handleOpenApiConfigDialogForSetup = () => {
@@ -95,17 +127,22 @@ export default function HomePage() {
     <AppLayout onLog={addPageLog}>
         {activeApiConfig ? (
           <div className="space-y-8">
-            <InstanceList
-              key={activeApiConfig.id} 
-              apiId={currentApiId}
-              apiName={currentApiName}
-              apiRoot={currentApiRoot}
-              apiToken={currentToken}
-              activeApiConfig={activeApiConfig}
-              apiConfigsList={apiConfigsList} // Pass the full list
-              onLog={addPageLog}
-              onOpenCreateInstanceDialog={() => setIsCreateInstanceDialogOpen(true)}
-            />
+            {/* InstanceList uses useSearchParams, which needs a Suspense boundary. */}
+            <Suspense>
+              <InstanceList
+                key={activeApiConfig.id} 
+                apiId={currentApiId}
+                apiName={currentApiName}
+                apiRoot={currentApiRoot}
+                apiToken={currentToken}
+                activeApiConfig={activeApiConfig}
+                apiConfigsList={apiConfigsList} // Pass the full list
+                onLog={addPageLog}
+                onOpenCreateInstanceDialog={() => setIsCreateInstanceDialogOpen(true)}
+                onRequestApiKeyUpdate={handleRequestApiKeyUpdate}
+                onApiKeyRotated={handleApiKeyRotated}
+              />
+            </Suspense>
           </div>
         ) : (
            <div className="flex flex-col items-center justify-center text-center h-[calc(100vh-var(--header-height)-var(--footer-height)-8rem-20rem)]"> {/* Adjusted height */}
@@ -118,7 +155,7 @@ export default function HomePage() {
                 : '请先通过头部菜单添加主控连接以开始使用。'}
             </p>
             {apiConfigsList.length === 0 && (
-              <Button onClick={handleOpenApiConfigDialogForSetup} size="lg" className="font-sans">
+              <Button onClick={handleOpenApiConfigDialogForSetup} size="lg" className="font-sans" disabled={!canManage}>
                 添加首个主控连接
               </Button>
             )}
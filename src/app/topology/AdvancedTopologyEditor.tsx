@@ -27,10 +27,13 @@ import { ComponentsPalette, type DraggableNodeType } from './components/Componen
 import type { NamedApiConfig } from '@/hooks/use-api-key';
 import { useApiConfig } from '@/hooks/use-api-key';
 import { useToast } from '@/hooks/use-toast';
+import { recordAudit } from '@/hooks/use-audit-log';
 import { Separator } from '@/components/ui/separator';
 import { Button } from '@/components/ui/button';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { nodePassApi, type Instance as ApiInstanceType, getEventsUrl } from '@/lib/api';
+import { NodePassClient, type Instance as ApiInstanceType, formatApiErrorMessage, getApiErrorSummary } from '@/lib/api';
+import { checkEventStream } from '@/lib/event-stream';
+import { createAuditBatchId } from '@/lib/audit-log';
 import { buildUrlFromFormValues, type BuildUrlParams } from '@/components/nodepass/create-instance-dialog/utils';
 import { extractPort, parseNodePassUrl, isWildcardHostname } from '@/lib/url-utils';
 import { SubmitTopologyConfirmationDialog, type InstanceUrlConfigWithName } from './components/SubmitTopologyConfirmationDialog';
@@ -67,7 +70,7 @@ export function AdvancedTopologyEditor() {
   const [contextMenu, setContextMenu] = useState<TopologyContextMenu | null>(null);
   const menuRef = useRef<HTMLDivElement>(null);
   const editorContainerRef = useRef<HTMLDivElement>(null);
-  const { apiConfigsList, getApiConfigById, getApiRootUrl, getToken, activeApiConfig } = useApiConfig();
+  const { apiConfigsList, getApiConfigById, activeApiConfig } = useApiConfig();
   const queryClient = useQueryClient();
 
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -406,8 +409,8 @@ export function AdvancedTopologyEditor() {
 
 
   const createInstanceMutation = useMutation({
-    mutationFn: (params: { data: { url: string }, useApiRoot: string, useApiToken: string, originalNodeId: string }) => {
-      return nodePassApi.createInstance(params.data, params.useApiRoot, params.useApiToken);
+    mutationFn: (params: { data: { url: string }, client: NodePassClient, originalNodeId: string, batchId: string }) => {
+      return params.client.createInstance(params.data, { audit: { action: 'topology.submit', batchId: params.batchId } });
     },
     onMutate: (variables) => {
       setNodesInternal(nds => nds.map(n => {
@@ -434,10 +437,10 @@ export function AdvancedTopologyEditor() {
       queryClient.invalidateQueries({ queryKey: ['allInstancesForTraffic']});
     },
     onError: (error: any, variables) => {
-      toast({ title: `创建实例失败 (节点 ${variables.originalNodeId.substring(0,8)}...)`, description: error.message || '未知错误', variant: 'destructive' });
+      toast({ title: `创建实例失败 (节点 ${variables.originalNodeId.substring(0,8)}...)`, description: formatApiErrorMessage(error), variant: 'destructive' });
       setNodesInternal(nds => nds.map(n => {
         if (n.id === variables.originalNodeId) {
-           return { ...n, data: { ...n.data, submissionStatus: 'error', submissionMessage: error.message.substring(0,30) || '失败' } };
+           return { ...n, data: { ...n.data, submissionStatus: 'error', submissionMessage: getApiErrorSummary(error) } };
         }
         return n;
       }));
@@ -576,6 +579,13 @@ export function AdvancedTopologyEditor() {
                 toast({ title: "警告: 无法自动配置跨主控客户端(C)地址", description: "未能计算出有效的服务端隧道地址。请检查源S节点及其主控配置。客户端(C)已设为隧道模式，请手动配置其隧道地址。", variant: "warning" });
             }
         }
+
+        // Keep the pair's tunnel key in sync so the client can handshake with the server.
+        const serverTunnelKey = serverNodeForClientConfig.data.tunnelKey;
+        if (serverTunnelKey !== clientNodeForUpdate.data.tunnelKey) {
+          const baseNodes = nodesToUpdateForAddress.length > 0 ? nodesToUpdateForAddress : allCurrentNodes;
+          nodesToUpdateForAddress = baseNodes.map(n => n.id === clientNodeForUpdate!.id ? { ...n, data: { ...n.data, tunnelKey: serverTunnelKey } } : n) as Node[];
+        }
       } else if ((sourceNode.data.role === 'S' || sourceNode.data.role === 'C') && targetNode.data.role === 'T') {
         let tNodeUpdated = false;
         let scNodeUpdated = false;
@@ -910,6 +920,7 @@ export function AdvancedTopologyEditor() {
           }
           urlParams = {
             instanceType: instanceTypeForBuild,
+            tunnelKey: node.data.tunnelKey,
             tunnelAddress: node.data.tunnelAddress,
             targetAddress: node.data.targetAddress,
             logLevel: (node.data.logLevel as any) || masterConfigForNode.masterDefaultLogLevel || 'info',
@@ -938,9 +949,14 @@ export function AdvancedTopologyEditor() {
               setNodesInternal(nds => nds.map(n => n.id === node.id ? { ...n, data: { ...n.data, submissionStatus: 'error', submissionMessage: '地址不完整' } } : n));
               continue;
             }
+            const connectedServerNode = getEdges()
+              .filter(edge => edge.source === node.id || edge.target === node.id)
+              .map(edge => allCurrentNodes.find(n => n.id === (edge.source === node.id ? edge.target : edge.source)))
+              .find(n => n?.data.role === 'S');
             urlParams = {
               instanceType: instanceTypeForBuild,
               isSingleEndedForward: false,
+              tunnelKey: connectedServerNode ? connectedServerNode.data.tunnelKey : node.data.tunnelKey,
               tunnelAddress: node.data.tunnelAddress,
               targetAddress: node.data.targetAddress,
               logLevel: (node.data.logLevel as any) || masterConfigForNode.masterDefaultLogLevel || 'info',
@@ -965,7 +981,7 @@ export function AdvancedTopologyEditor() {
       }
     }
     return instancesToCreate;
-  }, [getNodes, getApiConfigById, setNodesInternal, activeApiConfig]);
+  }, [getNodes, getEdges, getApiConfigById, setNodesInternal, activeApiConfig]);
 
 
   const handleTriggerSubmitTopology = useCallback(async () => {
@@ -980,20 +996,9 @@ export function AdvancedTopologyEditor() {
         setIsSubmitting(false); return;
     }
 
-    const ssePreCheckAbortController = new AbortController(); let sseCheckSuccess = false;
-    const checkConnectionPromise = (async () => { try {
-        const apiRootForCheck = getApiRootUrl(masterForSseCheck.id); const tokenForCheck = getToken(masterForSseCheck.id);
-        if (!apiRootForCheck || !tokenForCheck) throw new Error("API配置不完整。");
-        const eventsUrl = getEventsUrl(apiRootForCheck); if (!eventsUrl) throw new Error("无法生成事件URL。");
-        const response = await fetch(eventsUrl, { method: 'GET', headers: { 'X-API-Key': tokenForCheck, 'Accept': 'text/event-stream', 'Cache-Control': 'no-cache' }, signal: ssePreCheckAbortController.signal, mode: 'cors', credentials: 'omit' });
-        if (!response.ok || !response.body) { const errorText = response.statusText || `HTTP error ${response.status}`; throw new Error(errorText); }
-        const reader = response.body.getReader(); const { done } = await reader.read(); if (!done) sseCheckSuccess = true;
-        if (!ssePreCheckAbortController.signal.aborted) ssePreCheckAbortController.abort("Pre-check complete");
-        reader.releaseLock(); if (response.body.locked) await response.body.cancel().catch(e => console.warn("Error cancelling pre-check stream body:", e));
-    } catch (error: any) { if (error.name !== 'AbortError') console.warn("SSE Pre-check connection error:", error.message); sseCheckSuccess = false; } })();
-    const timeoutPromise = new Promise(resolve => setTimeout(() => { if (!sseCheckSuccess && !ssePreCheckAbortController.signal.aborted) ssePreCheckAbortController.abort("Pre-check timeout"); resolve(null); }, 10000));
-    await Promise.race([checkConnectionPromise, timeoutPromise]);
-    if (!sseCheckSuccess) { if (!ssePreCheckAbortController.signal.aborted) ssePreCheckAbortController.abort("Pre-check timeout or failure post-race"); toast({ title: "连接检查失败", description: "无法连接到主控事件流，请检查主控状态或网络。提交已取消。", variant: "destructive" }); setIsSubmitting(false); return; }
+    const sseCheckSuccess = !!masterForSseCheck.apiUrl && !!masterForSseCheck.token
+      && await checkEventStream({ url: new NodePassClient(masterForSseCheck).getEventsUrl(), token: masterForSseCheck.token }, 10000);
+    if (!sseCheckSuccess) { toast({ title: "连接检查失败", description: "无法连接到主控事件流，请检查主控状态或网络。提交已取消。", variant: "destructive" }); setIsSubmitting(false); return; }
 
     setNodesInternal(nds => nds.map(n => ({ ...n, data: { ...n.data, submissionStatus: undefined, submissionMessage: undefined } })));
     const instancesToCreate = prepareInstancesForSubmission();
@@ -1002,34 +1007,31 @@ export function AdvancedTopologyEditor() {
       setIsSubmitting(false); return;
     }
     setInstancesForConfirmation(instancesToCreate); setIsSubmitConfirmOpen(true);
-  }, [activeApiConfig, apiConfigsList, getApiRootUrl, getToken, toast, prepareInstancesForSubmission, setNodesInternal]);
-
-
-  const listenForHandshakeViaSSE = useCallback(async (masterForSse: NamedApiConfig, signal: AbortSignal) => {
-    const sseApiRoot = getApiRootUrl(masterForSse.id); const sseApiToken = getToken(masterForSse.id);
-    if (!sseApiRoot || !sseApiToken) { toast({ title: "SSE 错误", description: `无法监听握手: 主控 ${masterForSse.name} 的API配置无效。`, variant: "destructive" }); return; }
-    const eventsSSEUrl = getEventsUrl(sseApiRoot); if (!eventsSSEUrl) return;
-    try {
-        const response = await fetch(eventsSSEUrl, { method: 'GET', headers: { 'X-API-Key': sseApiToken, 'Accept': 'text/event-stream', 'Cache-Control': 'no-cache' }, signal, mode: 'cors', credentials: 'omit' });
-        if (!response.ok || !response.body) { const errorText = response.statusText || `HTTP error ${response.status}`; throw new Error(errorText); }
-        const reader = response.body.getReader(); const decoder = new TextDecoder(); let buffer = '';
-        while (true) {
-            if (signal.aborted) break; const { value, done } = await reader.read(); if (signal.aborted || done) break;
-            buffer += decoder.decode(value, { stream: true }); const messageBlocks = buffer.split('\n\n'); buffer = messageBlocks.pop() || '';
-            for (const block of messageBlocks) {
-                if (signal.aborted) break; if (block.trim() === '') continue;
-                let eventName = 'message'; let eventDataStr = ''; const lines = block.split('\n');
-                for (const line of lines) { if (line.startsWith('event:')) eventName = line.substring('event:'.length).trim(); else if (line.startsWith('data:')) eventDataStr += line.substring('data:'.length).trimStart(); }
-                if (eventName === 'instance' && eventDataStr) { try {
-                    const jsonData = JSON.parse(eventDataStr); if (jsonData.type === 'log' && typeof jsonData.logs === 'string') {
-                        const match = jsonData.logs.match(handshakeLogRegex); if (match && match[1]) {
-                            const latency = match[1]; toast({ title: "✅ 隧道握手成功", description: `延迟: ${latency}ms` });
-                            if (sseHandshakeAbortControllerRef.current && !sseHandshakeAbortControllerRef.current.signal.aborted) sseHandshakeAbortControllerRef.current.abort("Handshake detected");
-                            return; } }
-                } catch (e) { console.warn("SSE: Error parsing instance event data:", e, "Raw data:", eventDataStr); } } } }
-    } catch (error: any) { if (error.name !== 'AbortError') { console.error("SSE: Handshake listener error:", error); toast({ title: "SSE 监听错误", description: `监听隧道握手时出错: ${error.message}`, variant: "destructive" }); }
-    } finally { if (sseHandshakeAbortControllerRef.current && sseHandshakeAbortControllerRef.current.signal === signal && !signal.aborted) sseHandshakeAbortControllerRef.current.abort("Listener function completed or errored"); }
-  }, [getApiRootUrl, getToken, toast, handshakeLogRegex]);
+  }, [activeApiConfig, apiConfigsList, toast, prepareInstancesForSubmission, setNodesInternal]);
+
+
+  const listenForHandshakeViaSSE = useCallback((masterForSse: NamedApiConfig, signal: AbortSignal) => {
+    if (!masterForSse.apiUrl || !masterForSse.token) { toast({ title: "SSE 错误", description: `无法监听握手: 主控 ${masterForSse.name} 的API配置无效。`, variant: "destructive" }); return; }
+    const stream = new NodePassClient(masterForSse).createEventStream();
+    const unsubscribe = stream.subscribe({
+      onEvent: (event) => {
+        if (event.type !== 'log' || typeof event.logs !== 'string') return;
+        const match = event.logs.match(handshakeLogRegex);
+        if (match && match[1]) {
+          toast({ title: "✅ 隧道握手成功", description: `延迟: ${match[1]}ms` });
+          if (sseHandshakeAbortControllerRef.current && !sseHandshakeAbortControllerRef.current.signal.aborted) sseHandshakeAbortControllerRef.current.abort("Handshake detected");
+        }
+      },
+      onInvalidEvent: (error, message) => console.warn("SSE: Error parsing instance event data:", error, "Raw data:", message.data),
+      onDisconnect: ({ error, retryInMs }) => {
+        if (!error || retryInMs !== null) return;
+        console.error("SSE: Handshake listener error:", error);
+        toast({ title: "SSE 监听错误", description: `监听隧道握手时出错: ${error.message}`, variant: "destructive" });
+      },
+    });
+    if (signal.aborted) unsubscribe();
+    else signal.addEventListener('abort', unsubscribe, { once: true });
+  }, [toast, handshakeLogRegex]);
 
   const executeActualSubmission = useCallback(async () => {
     setIsSubmitConfirmOpen(false);
@@ -1043,13 +1045,18 @@ export function AdvancedTopologyEditor() {
         setTimeout(() => { if (newAbortController && !newAbortController.signal.aborted) { if (newAbortController.signal.reason !== "Handshake detected") toast({ title: "监听超时", description: "25秒内未检测到隧道握手事件。请检查Master日志。", variant: "default" }); newAbortController.abort("Handshake listener timeout"); if (sseHandshakeAbortControllerRef.current === newAbortController) sseHandshakeAbortControllerRef.current = null; } }, 25000);
     }
 
+    const batchId = createAuditBatchId();
     const submissionPromises = instancesForConfirmation.map(inst => {
-      const apiR = getApiRootUrl(inst.masterId); const apiT = getToken(inst.masterId);
-      if (!apiR || !apiT) { setNodesInternal(nds => nds.map(n => n.id === inst.nodeId ? { ...n, data: { ...n.data, submissionStatus: 'error', submissionMessage: '主控API无效' } } : n)); return Promise.reject(new Error(`主控 ${inst.masterName} API配置无效。`)); }
-      return createInstanceMutation.mutateAsync({ data: { url: inst.url }, useApiRoot: apiR, useApiToken: apiT, originalNodeId: inst.nodeId });
+      const audit = { action: 'topology.submit' as const, masterId: inst.masterId, masterName: inst.masterName, urlAfter: inst.url, batchId };
+      const masterConfig = getApiConfigById(inst.masterId);
+      if (!masterConfig?.apiUrl || !masterConfig.token) { setNodesInternal(nds => nds.map(n => n.id === inst.nodeId ? { ...n, data: { ...n.data, submissionStatus: 'error', submissionMessage: '主控API无效' } } : n)); recordAudit({ ...audit, result: 'failure', error: '主控API配置无效' }); return Promise.reject(new Error(`主控 ${inst.masterName} API配置无效。`)); }
+      return createInstanceMutation.mutateAsync({ data: { url: inst.url }, client: new NodePassClient(masterConfig), originalNodeId: inst.nodeId, batchId }).then(
+        created => { recordAudit({ ...audit, result: 'success', instanceId: created.id }); return created; },
+        error => { recordAudit({ ...audit, result: 'failure', error: error?.message || '未知错误' }); throw error; },
+      );
     });
     try { await Promise.allSettled(submissionPromises); } catch (e) { console.error("拓扑提交出错:", e); toast({ title: '拓扑提交过程中发生意外错误', variant: 'destructive' }); } finally { setIsSubmitting(false); }
-  }, [instancesForConfirmation, getApiRootUrl, getToken, toast, createInstanceMutation, setNodesInternal, activeApiConfig, apiConfigsList, listenForHandshakeViaSSE]);
+  }, [instancesForConfirmation, getApiConfigById, toast, createInstanceMutation, setNodesInternal, activeApiConfig, apiConfigsList, listenForHandshakeViaSSE]);
 
   useEffect(() => { return () => { if (sseHandshakeAbortControllerRef.current && !sseHandshakeAbortControllerRef.current.signal.aborted) { sseHandshakeAbortControllerRef.current.abort("Component unmounting"); sseHandshakeAbortControllerRef.current = null; } }; }, []);
 
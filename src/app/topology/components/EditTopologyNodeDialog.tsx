@@ -12,7 +12,8 @@ import { Input } from '@/components/ui/input';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import type { Node, CustomNodeData, MasterSubRole } from '../topologyTypes';
-import { extractHostname, extractPort, formatHostForDisplay } from '@/lib/url-utils';
+import { extractHostname, extractPort, formatHostForDisplay, generateTunnelKey } from '@/lib/url-utils';
+import { RefreshCw } from 'lucide-react';
 import { MASTER_TLS_MODE_DISPLAY_MAP } from '@/components/nodepass/create-instance-dialog/constants';
 import { useApiConfig, type NamedApiConfig } from '@/hooks/use-api-key';
 
@@ -47,6 +48,7 @@ const masterSchema = baseSchema.extend({
 
 const serverSchema = baseSchema.extend({
   tunnelAddressS: z.string().min(1, "隧道地址不能为空。").regex(hostPortRegex, hostPortErrorMsg),
+  tunnelKeyS: z.optional(z.string().regex(/^[A-Za-z0-9._~-]*$/, "隧道密钥只能包含字母、数字和 . _ ~ - 字符。")),
   targetAddressS: z.string().min(1, "目标地址不能为空。").regex(hostPortRegex, hostPortErrorMsg),
   logLevelS: z.enum(["master", "debug", "info", "warn", "error", "event"]),
   tlsModeS: z.enum(["master", "0", "1", "2"]),
@@ -113,7 +115,7 @@ export function EditTopologyNodeDialog({
 
   const otherApiConfigs = apiConfigsList.filter(c => c.id !== node?.data.masterId && c.id !== activeApiConfig?.id);
 
-  const form = useForm<FormValues>({
+  const form = useForm<FormValues, any, FormValues>({
     resolver: zodResolver(currentSchema),
     defaultValues: {},
   });
@@ -139,6 +141,7 @@ export function EditTopologyNodeDialog({
           ...defaultVals,
           label: data.label,
           tunnelAddressS: data.tunnelAddress || "",
+          tunnelKeyS: data.tunnelKey || "",
           targetAddressS: data.targetAddress || "",
           logLevelS: (data.logLevel as any) || "master",
           tlsModeS: (data.tlsMode as any) || "master",
@@ -199,6 +202,7 @@ export function EditTopologyNodeDialog({
         ...updatedData,
         label: values.label,
         tunnelAddress: values.tunnelAddressS,
+        tunnelKey: values.tunnelKeyS?.trim() || undefined,
         targetAddress: values.targetAddressS,
         logLevel: values.logLevelS,
         tlsMode: values.tlsModeS,
@@ -316,6 +320,8 @@ export function EditTopologyNodeDialog({
               <>
                 <FormField control={form.control} name="tunnelAddressS" render={({ field }) => (
                   <FormItem><FormLabel className="font-sans">隧道地址</FormLabel><FormControl><Input {...field} placeholder="例: [::]:10101 或 0.0.0.0:10101" className="font-mono" /></FormControl><FormMessage /></FormItem>)} />
+                <FormField control={form.control} name="tunnelKeyS" render={({ field }) => (
+                  <FormItem><FormLabel className="font-sans">隧道密钥 (可选)</FormLabel><div className="flex items-center gap-1"><FormControl><Input {...field} value={field.value || ""} placeholder="留空则不设置密钥" className="font-mono" autoComplete="off" /></FormControl><Button type="button" variant="ghost" size="icon" className="flex-shrink-0" title="生成随机密钥" onClick={() => form.setValue('tunnelKeyS', generateTunnelKey(), { shouldDirty: true, shouldValidate: true })}><RefreshCw className="h-4 w-4" /></Button></div><FormDescription className="font-sans text-xs">连接到此服务端的客户端(C)会自动使用相同密钥。</FormDescription><FormMessage /></FormItem>)} />
                 <FormField control={form.control} name="targetAddressS" render={({ field }) => (
                   <FormItem><FormLabel className="font-sans">目标地址</FormLabel><FormControl><Input {...field} placeholder="例: 192.168.1.10:80" className="font-mono" /></FormControl><FormMessage /></FormItem>)} />
                 <FormField control={form.control} name="logLevelS" render={({ field }) => (
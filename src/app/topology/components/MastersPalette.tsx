@@ -7,8 +7,13 @@ import { Cog, RefreshCw, Loader2 } from 'lucide-react'; // MoreVertical removed
 import { Skeleton } from '@/components/ui/skeleton';
 // Button and DropdownMenu components are no longer needed here
 import { useQuery } from '@tanstack/react-query';
-import { nodePassApi } from '@/lib/api';
+import { NodePassClient } from '@/lib/api';
 import { useToast } from '@/hooks/use-toast';
+import { MasterFilterBar } from '@/components/nodepass/MasterFilterBar';
+import { MasterHealthDot } from '@/components/nodepass/MasterHealthIndicator';
+import { useMasterHealth } from '@/hooks/use-master-health';
+import { formatUptimePercent } from '@/lib/master-health';
+import { EMPTY_MASTER_FILTER, filterMasters, groupMasters, type MasterFilter } from '@/lib/master-groups';
 // parseNodePassUrl, extractHostname, isWildcardHostname removed as they are not used for total count
 
 interface MasterPaletteItemProps {
@@ -16,8 +21,8 @@ interface MasterPaletteItemProps {
 }
 
 const MasterPaletteItem: React.FC<MasterPaletteItemProps> = ({ config }) => {
-  const { getApiRootUrl, getToken } = useApiConfig();
   const { toast } = useToast();
+  const { summary: health } = useMasterHealth(config.id);
   // queryClient removed as individual refresh is no longer here
 
   const { data: instanceCounts, isLoading: isLoadingInstances, error, refetch } = useQuery<
@@ -25,13 +30,11 @@ const MasterPaletteItem: React.FC<MasterPaletteItemProps> = ({ config }) => {
     Error
   >({
     queryKey: ['masterInstancesCount', config.id],
-    queryFn: async () => {
-      const apiRoot = getApiRootUrl(config.id);
-      const token = getToken(config.id);
-      if (!apiRoot || !token) {
+    queryFn: async ({ signal }) => {
+      if (!config.apiUrl || !config.token) {
         throw new Error(`API configuration for master ${config.name} is incomplete.`);
       }
-      const fetchedInstances = await nodePassApi.getInstances(apiRoot, token);
+      const fetchedInstances = await new NodePassClient(config).getInstances({ signal });
       const totalInstanceCount = fetchedInstances.filter(inst => inst.id !== '********').length;
       return { totalInstanceCount };
     },
@@ -73,6 +76,10 @@ const MasterPaletteItem: React.FC<MasterPaletteItemProps> = ({ config }) => {
         <span className="truncate mr-1">{config.name}</span>
         {config.id && <span className="text-muted-foreground text-[10px]">{countsDisplay}</span>}
       </div>
+      <div className="flex items-center gap-1.5 flex-shrink-0 ml-1">
+        {health.uptimePercent !== null && <span className="text-muted-foreground text-[10px] tabular-nums">{formatUptimePercent(health.uptimePercent)}</span>}
+        <MasterHealthDot masterId={config.id} />
+      </div>
     </div>
   );
 };
@@ -80,6 +87,9 @@ const MasterPaletteItem: React.FC<MasterPaletteItemProps> = ({ config }) => {
 
 export function MastersPalette() {
   const { apiConfigsList, isLoading } = useApiConfig();
+  const [filter, setFilter] = React.useState<MasterFilter>(EMPTY_MASTER_FILTER);
+  const sections = React.useMemo(() => groupMasters(filterMasters(apiConfigsList, filter)), [apiConfigsList, filter]);
+  const showGroups = apiConfigsList.some(c => c.group);
 
   return (
     <div className="h-full">
@@ -93,12 +103,25 @@ export function MastersPalette() {
         <p className="text-xs text-muted-foreground font-sans text-center">未配置任何主控。</p>
       ) : (
         <div className="space-y-2">
-          {apiConfigsList.map((config) => (
-            <MasterPaletteItem
-              key={config.id}
-              config={config}
-            />
+          {apiConfigsList.length > 1 && (
+            <MasterFilterBar configs={apiConfigsList} filter={filter} onFilterChange={setFilter} compact />
+          )}
+          {sections.map(section => (
+            <div key={section.group ?? ''} className="space-y-2">
+              {showGroups && (
+                <p className="text-[10px] font-semibold text-muted-foreground font-sans pt-1">{section.label}</p>
+              )}
+              {section.configs.map((config) => (
+                <MasterPaletteItem
+                  key={config.id}
+                  config={config}
+                />
+              ))}
+            </div>
           ))}
+          {sections.length === 0 && (
+            <p className="text-xs text-muted-foreground font-sans text-center">无匹配的主控。</p>
+          )}
         </div>
       )}
     </div>
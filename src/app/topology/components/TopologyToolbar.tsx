@@ -4,6 +4,7 @@
 import React from 'react';
 import { Button } from '@/components/ui/button';
 import { LocateFixed, Trash2, Send, RefreshCw } from 'lucide-react'; 
+import { usePanelSession } from '@/hooks/use-panel-session';
 
 interface TopologyToolbarProps {
   onCenterView: () => void;
@@ -24,6 +25,8 @@ export function TopologyToolbar({
   isSubmitting,
   isRefreshingCounts,
 }: TopologyToolbarProps) {
+  // Viewers can still lay out and clear the (local) canvas, but not create instances from it.
+  const { canManage } = usePanelSession();
   return (
     <div className="flex flex-row flex-wrap gap-2 items-center">
       <Button onClick={onRefreshAllInstanceCounts} size="sm" variant="outline" className="font-sans" disabled={isSubmitting || isRefreshingCounts}>
@@ -34,7 +37,14 @@ export function TopologyToolbar({
         <LocateFixed className="mr-2 h-4 w-4" />
         居中
       </Button>
-      <Button onClick={onSubmitTopology} size="sm" variant="default" className="font-sans" disabled={!canSubmit || isSubmitting}>
+      <Button
+        onClick={onSubmitTopology}
+        size="sm"
+        variant="default"
+        className="font-sans"
+        disabled={!canSubmit || isSubmitting || !canManage}
+        title={canManage ? undefined : '只读账户无法提交拓扑'}
+      >
         <Send className="mr-2 h-4 w-4" />
         {isSubmitting ? "提交中..." : "提交"}
       </Button>
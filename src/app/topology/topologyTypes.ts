@@ -28,6 +28,7 @@ export interface CustomNodeData {
   defaultTlsMode?: string; 
   tunnelAddress?: string; 
   targetAddress?: string; 
+  tunnelKey?: string; // S: own key; C: copied from the connected S
   submissionStatus?: 'pending' | 'success' | 'error';
   submissionMessage?: string;
   logLevel?: string; 
@@ -5,7 +5,7 @@ import type { NextPage } from 'next';
 import React, { useEffect, useState, useCallback, useMemo } from 'react';
 import { AppLayout } from '@/components/layout/AppLayout';
 import { useApiConfig } from '@/hooks/use-api-key';
-import { nodePassApi } from '@/lib/api';
+import { NodePassClient } from '@/lib/api';
 import type { Instance } from '@/types/nodepass';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
@@ -14,9 +14,13 @@ import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip as RechartsTooltip,
 import { ChartContainer, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
 import { Loader2, RefreshCw, AlertTriangle, BarChartHorizontalBig, List } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
-import { Server, Smartphone } from 'lucide-react';
+import { Server, Smartphone, Folder } from 'lucide-react';
 import { useQuery } from '@tanstack/react-query';
 import { useToast } from '@/hooks/use-toast';
+import { MasterFilterBar } from '@/components/nodepass/MasterFilterBar';
+import { EMPTY_MASTER_FILTER, filterMasters, groupMasters, isMasterFilterActive, type MasterFilter } from '@/lib/master-groups';
+import { InstanceQueryInput } from '@/components/nodepass/InstanceQueryInput';
+import { matchesInstanceQuery, parseInstanceQuery } from '@/lib/instance-query';
 
 
 interface InstanceWithApiDetails extends Instance {
@@ -57,9 +61,11 @@ const chartConfig = {
 
 
 const TrafficPage: NextPage = () => {
-  const { apiConfigsList, isLoading: isLoadingApiConfig, getApiRootUrl, getToken } = useApiConfig();
+  const { apiConfigsList, isLoading: isLoadingApiConfig } = useApiConfig();
   const { toast } = useToast();
   const [lastRefreshed, setLastRefreshed] = useState<Date | null>(null);
+  const [masterFilter, setMasterFilter] = useState<MasterFilter>(EMPTY_MASTER_FILTER);
+  const [instanceQuery, setInstanceQuery] = useState('');
 
   const { data: allInstancesData, isLoading: isLoadingData, error: fetchErrorGlobal, refetch } = useQuery<
     InstanceWithApiDetails[],
@@ -67,7 +73,7 @@ const TrafficPage: NextPage = () => {
     InstanceWithApiDetails[]
   >({
     queryKey: ['allInstancesForTraffic', apiConfigsList.map(c => c.id).join(',')],
-    queryFn: async () => {
+    queryFn: async ({ signal }) => {
       if (apiConfigsList.length === 0) {
         return [];
       }
@@ -75,16 +81,13 @@ const TrafficPage: NextPage = () => {
       
       const results = await Promise.allSettled(
         apiConfigsList.map(async (config) => {
-          const apiRootVal = getApiRootUrl(config.id);
-          const tokenVal = getToken(config.id);
-          
-          if (!apiRootVal || !tokenVal) {
+          if (!config.apiUrl || !config.token) {
             console.warn(`TrafficPage: API config "${config.name}" (ID: ${config.id}) is invalid. Skipping.`);
             return []; 
           }
           
           try {
-            const data = await nodePassApi.getInstances(apiRootVal, tokenVal);
+            const data = await new NodePassClient(config).getInstances({ signal });
             return data.map(inst => ({ ...inst, apiId: config.id, apiName: config.name }));
           } catch (error: any) {
             const errorMessage = error instanceof Error ? error.message : String(error);
@@ -116,7 +119,40 @@ const TrafficPage: NextPage = () => {
     }
   });
 
-  const allInstances = allInstancesData || [];
+  // 筛选只作用于显示，数据仍按全部主控获取
+  const visibleMasterIds = useMemo(
+    () => new Set(filterMasters(apiConfigsList, masterFilter).map(c => c.id)),
+    [apiConfigsList, masterFilter]
+  );
+  const allInstances = useMemo(
+    () => (allInstancesData || []).filter(inst => visibleMasterIds.has(inst.apiId)),
+    [allInstancesData, visibleMasterIds]
+  );
+  // 查询只筛选实例明细表，图表和分组汇总仍按主控筛选结果统计
+  const detailInstances = useMemo(() => {
+    const parsed = parseInstanceQuery(instanceQuery);
+    return allInstances.filter(inst => matchesInstanceQuery(inst, parsed, { masterId: inst.apiId, masterName: inst.apiName }));
+  }, [allInstances, instanceQuery]);
+  const masterNames = useMemo(() => apiConfigsList.map(c => c.name), [apiConfigsList]);
+  const masterGroupById = useMemo(
+    () => new Map(apiConfigsList.map(c => [c.id, c.group])),
+    [apiConfigsList]
+  );
+
+  const groupTrafficData = useMemo(() => {
+    if (!apiConfigsList.some(c => c.group)) return [];
+    return groupMasters(apiConfigsList.filter(c => visibleMasterIds.has(c.id))).map(section => {
+      const ids = new Set(section.configs.map(c => c.id));
+      const instances = allInstances.filter(inst => ids.has(inst.apiId));
+      return {
+        label: section.label,
+        masterCount: section.configs.length,
+        instanceCount: instances.length,
+        tcp: instances.reduce((sum, inst) => sum + inst.tcprx + inst.tcptx, 0),
+        udp: instances.reduce((sum, inst) => sum + inst.udprx + inst.udptx, 0),
+      };
+    });
+  }, [apiConfigsList, visibleMasterIds, allInstances]);
 
   const overallTrafficData = useMemo(() => {
     if (allInstances.length === 0) return [];
@@ -176,6 +212,12 @@ const TrafficPage: NextPage = () => {
         </div>
       </div>
 
+      {apiConfigsList.length > 1 && (
+        <div className="mb-6">
+          <MasterFilterBar configs={apiConfigsList} filter={masterFilter} onFilterChange={setMasterFilter} />
+        </div>
+      )}
+
       {isLoadingData && !isLoadingApiConfig && (
         <div className="flex-grow container mx-auto px-4 py-8 flex items-center justify-center h-[calc(100vh-var(--header-height)-var(--footer-height)-4rem)]">
           <Loader2 className="h-16 w-16 animate-spin text-primary" />
@@ -186,7 +228,7 @@ const TrafficPage: NextPage = () => {
       {!isLoadingData && allInstances.length === 0 && !fetchErrorGlobal && (
         <Card className="text-center py-10 shadow-lg card-hover-shadow">
           <CardHeader><CardTitle className="font-title">无数据显示</CardTitle></CardHeader>
-          <CardContent><p className="text-muted-foreground font-sans">{apiConfigsList.length > 0 ? "未找到任何实例或所有实例流量为0。" : "请先配置主控连接。"}</p></CardContent>
+          <CardContent><p className="text-muted-foreground font-sans">{apiConfigsList.length === 0 ? "请先配置主控连接。" : isMasterFilterActive(masterFilter) ? "筛选的主控下没有实例。" : "未找到任何实例或所有实例流量为0。"}</p></CardContent>
         </Card>
       )}
 
@@ -223,10 +265,56 @@ const TrafficPage: NextPage = () => {
             </CardContent>
           </Card>
 
+          {groupTrafficData.length > 0 && (
+            <Card className="shadow-lg card-hover-shadow">
+              <CardHeader>
+                <CardTitle className="flex items-center font-title"><Folder className="mr-2 h-5 w-5 text-primary" />按分组汇总</CardTitle>
+                <CardDescription className="font-sans mt-1">各主控分组的实例数与总流量 (接收 + 发送)。</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="font-sans">分组</TableHead>
+                        <TableHead className="text-right font-sans">主控数</TableHead>
+                        <TableHead className="text-right font-sans">实例数</TableHead>
+                        <TableHead className="text-right font-sans">TCP 总流量</TableHead>
+                        <TableHead className="text-right font-sans">UDP 总流量</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {groupTrafficData.map(row => (
+                        <TableRow key={row.label}>
+                          <TableCell className="font-sans">{row.label}</TableCell>
+                          <TableCell className="text-right font-mono text-xs">{row.masterCount}</TableCell>
+                          <TableCell className="text-right font-mono text-xs">{row.instanceCount}</TableCell>
+                          <TableCell className="text-right font-mono text-xs">{formatBytes(row.tcp)}</TableCell>
+                          <TableCell className="text-right font-mono text-xs">{formatBytes(row.udp)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
           <Card className="shadow-lg card-hover-shadow">
-            <CardHeader>
-              <CardTitle className="flex items-center font-title"><List className="mr-2 h-5 w-5 text-primary" />各实例流量详情</CardTitle>
-              <CardDescription className="font-sans mt-1">每个单独实例的流量统计。</CardDescription>
+            <CardHeader className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+              <div>
+                <CardTitle className="flex items-center font-title"><List className="mr-2 h-5 w-5 text-primary" />各实例流量详情</CardTitle>
+                <CardDescription className="font-sans mt-1">
+                  每个单独实例的流量统计。{instanceQuery.trim() && `匹配 ${detailInstances.length} / ${allInstances.length} 个实例。`}
+                </CardDescription>
+              </div>
+              <InstanceQueryInput
+                value={instanceQuery}
+                onChange={setInstanceQuery}
+                masterNames={masterNames}
+                placeholder="搜索，如 master:hk traffic>1GB"
+                className="w-full sm:w-80"
+              />
             </CardHeader>
             <CardContent>
               <div className="overflow-x-auto">
@@ -243,9 +331,19 @@ const TrafficPage: NextPage = () => {
                     </TableRow>
                   </TableHeader>
                   <TableBody>
-                    {allInstances.map((instance) => (
+                    {detailInstances.length === 0 && (
+                      <TableRow>
+                        <TableCell colSpan={7} className="text-center h-24 font-sans text-muted-foreground">没有与查询匹配的实例。</TableCell>
+                      </TableRow>
+                    )}
+                    {detailInstances.map((instance) => (
                       <TableRow key={`${instance.apiId}-${instance.id}`}>
-                        <TableCell className="truncate max-w-[150px] font-sans">{instance.apiName}</TableCell>
+                        <TableCell className="truncate max-w-[150px] font-sans">
+                          {instance.apiName}
+                          {masterGroupById.get(instance.apiId) && (
+                            <span className="block text-[10px] text-muted-foreground">{masterGroupById.get(instance.apiId)}</span>
+                          )}
+                        </TableCell>
                         <TableCell className="font-mono text-xs break-all">{instance.id}</TableCell>
                         <TableCell>
                            <Badge
@@ -3,8 +3,12 @@
 
 import React, { type ReactNode } from 'react';
 import { Header } from '@/components/layout/Header';
+import { VaultGate } from '@/components/layout/VaultGate';
+import { AuthGate } from '@/components/layout/AuthGate';
 import { useApiConfig, type NamedApiConfig } from '@/hooks/use-api-key';
 import { useToast } from '@/hooks/use-toast';
+import { recordAudit } from '@/hooks/use-audit-log';
+import { useMasterHealthMonitor } from '@/hooks/use-master-health';
 import { ApiConfigDialog } from '@/components/nodepass/ApiKeyDialog';
 import type { AppLogEntry } from '@/components/nodepass/EventLog';
 
@@ -16,18 +20,30 @@ interface AppLayoutProps {
 export function AppLayout({ children, onLog }: AppLayoutProps) {
   const { 
     activeApiConfig, 
+    apiConfigsList,
     addOrUpdateApiConfig, 
+    getApiConfigById,
     clearActiveApiConfig, 
     setActiveApiConfigId 
   } = useApiConfig();
   const { toast } = useToast();
+  useMasterHealthMonitor(apiConfigsList);
   const [isApiConfigDialogOpen, setIsApiConfigDialogOpen] = React.useState(false);
   const [editingApiConfig, setEditingApiConfig] = React.useState<NamedApiConfig | null>(null);
 
   const handleSaveApiConfig = (configToSave: Omit<NamedApiConfig, 'id'> & { id?: string }) => {
     const isNew = !configToSave.id;
+    const previousConfig = configToSave.id ? getApiConfigById(configToSave.id) : null;
     const savedConfig = addOrUpdateApiConfig(configToSave);
     setActiveApiConfigId(savedConfig.id); 
+    recordAudit({
+      action: isNew ? 'master.add' : 'master.update',
+      result: 'success',
+      masterId: savedConfig.id,
+      masterName: savedConfig.name,
+      urlBefore: previousConfig?.apiUrl,
+      urlAfter: savedConfig.apiUrl,
+    });
     setEditingApiConfig(null);
     setIsApiConfigDialogOpen(false);
     const actionText = isNew ? '添加' : '更新';
@@ -63,7 +79,9 @@ export function AppLayout({ children, onLog }: AppLayoutProps) {
         onLog={onLog}
       />
       <main className="flex flex-col flex-grow container mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        {children}
+        <AuthGate onLog={onLog}>
+          <VaultGate onLog={onLog}>{children}</VaultGate>
+        </AuthGate>
       </main>
       <ApiConfigDialog
         open={isApiConfigDialogOpen}
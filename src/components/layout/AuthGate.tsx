@@ -0,0 +1,138 @@
+"use client";
+
+import React, { useState, type ReactNode } from 'react';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { LogIn, Loader2, UserPlus } from 'lucide-react';
+import { completePanelSetup, signInToPanel, usePanelSession } from '@/hooks/use-panel-session';
+import { MIN_PANEL_PASSWORD_LENGTH, PANEL_ROLE_LABELS } from '@/lib/panel-auth';
+import type { AppLogEntry } from '@/components/nodepass/EventLog';
+
+interface AuthGateProps {
+  children: ReactNode;
+  onLog?: (message: string, type: AppLogEntry['type']) => void;
+}
+
+// Renders the page only when panel login is disabled or someone is signed in; otherwise shows the
+// login form, or the first-run form that creates the initial admin account.
+export function AuthGate({ children, onLog }: AuthGateProps) {
+  const session = usePanelSession();
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (session.status === 'disabled' || session.status === 'signed-in') return <>{children}</>;
+
+  if (session.status === 'loading') {
+    return (
+      <div className="flex flex-grow items-center justify-center py-10">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  const isSetup = session.needsSetup;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!username.trim() || !password) return;
+    if (isSetup) {
+      if (password.length < MIN_PANEL_PASSWORD_LENGTH) {
+        setError(`密码至少需要 ${MIN_PANEL_PASSWORD_LENGTH} 个字符。`);
+        return;
+      }
+      if (password !== confirmPassword) {
+        setError('两次输入的密码不一致。');
+        return;
+      }
+    }
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      if (isSetup) {
+        await completePanelSetup(username.trim(), password);
+        onLog?.(`已创建管理员账户 "${username.trim()}" 并登录。`, 'ACTION');
+      } else {
+        await signInToPanel(username.trim(), password);
+        onLog?.(`已以 "${username.trim()}" 身份登录面板。`, 'INFO');
+      }
+      setPassword('');
+      setConfirmPassword('');
+    } catch (err: any) {
+      setError(err.message || (isSetup ? '创建账户失败。' : '登录失败。'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-grow items-center justify-center py-10">
+      <Card className="w-full max-w-sm shadow-lg">
+        <form onSubmit={handleSubmit}>
+          <CardHeader>
+            <CardTitle className="font-title flex items-center">
+              {isSetup ? <UserPlus className="mr-2 h-5 w-5 text-primary" /> : <LogIn className="mr-2 h-5 w-5 text-primary" />}
+              {isSetup ? '创建管理员账户' : '登录面板'}
+            </CardTitle>
+            <CardDescription className="font-sans">
+              {isSetup
+                ? `面板已启用登录，但还没有任何账户。此处创建的账户将成为${PANEL_ROLE_LABELS.admin}。`
+                : '此面板需要登录后才能访问。'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div className="space-y-1">
+              <Label htmlFor="panel-username" className="font-sans">用户名</Label>
+              <Input
+                id="panel-username"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                autoFocus
+                autoComplete="username"
+                className="font-sans"
+                disabled={isSubmitting}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="panel-password" className="font-sans">密码</Label>
+              <Input
+                id="panel-password"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                autoComplete={isSetup ? 'new-password' : 'current-password'}
+                className="font-sans"
+                disabled={isSubmitting}
+              />
+            </div>
+            {isSetup && (
+              <div className="space-y-1">
+                <Label htmlFor="panel-confirm-password" className="font-sans">确认密码</Label>
+                <Input
+                  id="panel-confirm-password"
+                  type="password"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  autoComplete="new-password"
+                  className="font-sans"
+                  disabled={isSubmitting}
+                />
+              </div>
+            )}
+            {error && <p className="text-sm text-destructive font-sans">{error}</p>}
+          </CardContent>
+          <CardFooter className="flex justify-end">
+            <Button type="submit" disabled={!username.trim() || !password || isSubmitting} className="font-sans">
+              {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {isSetup ? '创建并登录' : '登录'}
+            </Button>
+          </CardFooter>
+        </form>
+      </Card>
+    </div>
+  );
+}
@@ -3,7 +3,7 @@
 
 import React from 'react';
 import Link from 'next/link';
-import { Moon, Sun, Settings, LogOut, PlusCircle, ListTree, BarChartHorizontalBig, Check, HelpCircle, Share2, Grid2X2 } from 'lucide-react';
+import { Moon, Sun, Settings, LogOut, PlusCircle, ListTree, BarChartHorizontalBig, Check, HelpCircle, Share2, Grid2X2, Lock, Users, UserRound, ScrollText, LayoutList } from 'lucide-react';
 import { useTheme } from 'next-themes';
 import { Button } from '@/components/ui/button';
 import {
@@ -19,11 +19,21 @@ import {
   DropdownMenuSubContent,
 } from "@/components/ui/dropdown-menu"
 import { useApiConfig, type NamedApiConfig } from '@/hooks/use-api-key';
+import { lockVault } from '@/hooks/use-credential-vault';
+import { signOutOfPanel, usePanelSession } from '@/hooks/use-panel-session';
+import { PANEL_ROLE_LABELS } from '@/lib/panel-auth';
+import { PanelUsersDialog } from '@/components/nodepass/PanelUsersDialog';
+import { MasterHealthDot } from '@/components/nodepass/MasterHealthIndicator';
+import { groupMasters, matchesMasterQuery } from '@/lib/master-groups';
+import { Input } from '@/components/ui/input';
 import { useToast } from '@/hooks/use-toast';
 import { useRouter } from 'next/navigation';
 import type { AppLogEntry } from '@/components/nodepass/EventLog';
 import { AppLogo } from './AppLogo'; 
 
+// 主控数量超过此值时，切换菜单中显示搜索框
+const SWITCHER_SEARCH_THRESHOLD = 5;
+
 interface HeaderProps {
   onManageApiConfigs: (configToEdit?: NamedApiConfig | null) => void;
   onClearActiveConfig?: () => void;
@@ -33,9 +43,17 @@ interface HeaderProps {
 
 export function Header({ onManageApiConfigs, onClearActiveConfig, hasActiveApiConfig, onLog }: HeaderProps) {
   const { setTheme, theme } = useTheme();
-  const { apiConfigsList, activeApiConfig, setActiveApiConfigId } = useApiConfig();
+  const { apiConfigsList, activeApiConfig, setActiveApiConfigId, vaultStatus } = useApiConfig();
   const { toast } = useToast();
   const router = useRouter();
+  const session = usePanelSession();
+  const [isUsersDialogOpen, setIsUsersDialogOpen] = React.useState(false);
+  const [switcherQuery, setSwitcherQuery] = React.useState('');
+  const switcherSections = React.useMemo(
+    () => groupMasters(apiConfigsList.filter(config => matchesMasterQuery(config, switcherQuery))),
+    [apiConfigsList, switcherQuery]
+  );
+  const showSwitcherGroups = apiConfigsList.some(c => c.group);
 
   const handleSwitchApiConfig = (id: string) => {
     const newActiveConf = apiConfigsList.find(c => c.id === id);
@@ -45,7 +63,17 @@ export function Header({ onManageApiConfigs, onClearActiveConfig, hasActiveApiCo
       description: `已连接到 “${newActiveConf?.name}”。`,
     });
     onLog?.(`活动主控已切换至: "${newActiveConf?.name}"`, 'INFO');
-    window.location.href = '/';
+    router.push('/');
+  };
+
+  const handleSignOut = async () => {
+    const username = session.user?.username;
+    try {
+      await signOutOfPanel();
+      onLog?.(`账户 "${username}" 已退出登录。`, 'INFO');
+    } catch (error: any) {
+      toast({ title: '退出登录失败', description: error.message, variant: 'destructive' });
+    }
   };
 
   return (
@@ -81,7 +109,7 @@ export function Header({ onManageApiConfigs, onClearActiveConfig, hasActiveApiCo
             </DropdownMenuTrigger>
             <DropdownMenuContent align="end" className="w-64 font-sans">
               <DropdownMenuLabel>主控管理</DropdownMenuLabel>
-              <DropdownMenuItem onClick={() => onManageApiConfigs(null)}>
+              <DropdownMenuItem onClick={() => onManageApiConfigs(null)} disabled={!session.canManage}>
                 <PlusCircle className="mr-2 h-4 w-4" />
                 <span>添加新主控</span>
               </DropdownMenuItem>
@@ -92,6 +120,12 @@ export function Header({ onManageApiConfigs, onClearActiveConfig, hasActiveApiCo
                   <span>管理所有主控</span>
                 </Link>
               </DropdownMenuItem>
+              <DropdownMenuItem asChild>
+                <Link href="/instances">
+                  <LayoutList className="mr-2 h-4 w-4" />
+                  <span>全部主控实例</span>
+                </Link>
+              </DropdownMenuItem>
 
               {apiConfigsList.length > 0 && (
                 <DropdownMenuSub>
@@ -100,17 +134,39 @@ export function Header({ onManageApiConfigs, onClearActiveConfig, hasActiveApiCo
                     <span>切换活动主控</span>
                   </DropdownMenuSubTrigger>
                   <DropdownMenuPortal>
-                    <DropdownMenuSubContent className="max-h-60 overflow-y-auto">
-                      {apiConfigsList.map(config => (
-                        <DropdownMenuItem
-                          key={config.id}
-                          onClick={() => handleSwitchApiConfig(config.id)}
-                          disabled={activeApiConfig?.id === config.id}
-                        >
-                          {activeApiConfig?.id === config.id && <Check className="mr-2 h-4 w-4 text-green-500" />}
-                          <span className={`truncate ${activeApiConfig?.id !== config.id ? 'ml-6' : ''}`}>{config.name}</span>
-                        </DropdownMenuItem>
+                    <DropdownMenuSubContent className="max-h-80 w-60 overflow-y-auto">
+                      {apiConfigsList.length > SWITCHER_SEARCH_THRESHOLD && (
+                        <div className="p-1">
+                          <Input
+                            value={switcherQuery}
+                            onChange={(e) => setSwitcherQuery(e.target.value)}
+                            onKeyDown={(e) => e.stopPropagation()} // 避免菜单的键盘导航吞掉输入
+                            placeholder="搜索名称、分组、标签"
+                            className="h-8 text-xs font-sans"
+                          />
+                        </div>
+                      )}
+                      {switcherSections.map(section => (
+                        <React.Fragment key={section.group ?? ''}>
+                          {showSwitcherGroups && (
+                            <DropdownMenuLabel className="text-xs font-normal text-muted-foreground">{section.label}</DropdownMenuLabel>
+                          )}
+                          {section.configs.map(config => (
+                            <DropdownMenuItem
+                              key={config.id}
+                              onClick={() => handleSwitchApiConfig(config.id)}
+                              disabled={activeApiConfig?.id === config.id}
+                            >
+                              {activeApiConfig?.id === config.id && <Check className="mr-2 h-4 w-4 text-green-500" />}
+                              <span className={`truncate ${activeApiConfig?.id !== config.id ? 'ml-6' : ''}`}>{config.name}</span>
+                              <MasterHealthDot masterId={config.id} className="ml-auto" />
+                            </DropdownMenuItem>
+                          ))}
+                        </React.Fragment>
                       ))}
+                      {switcherSections.length === 0 && (
+                        <p className="px-2 py-1.5 text-xs text-muted-foreground font-sans">无匹配的主控</p>
+                      )}
                     </DropdownMenuSubContent>
                   </DropdownMenuPortal>
                 </DropdownMenuSub>
@@ -130,6 +186,12 @@ export function Header({ onManageApiConfigs, onClearActiveConfig, hasActiveApiCo
                   <span>流量统计</span>
                 </Link>
               </DropdownMenuItem>
+              <DropdownMenuItem asChild>
+                <Link href="/audit">
+                  <ScrollText className="mr-2 h-4 w-4" />
+                  <span>审计日志</span>
+                </Link>
+              </DropdownMenuItem>
               
               <DropdownMenuSeparator />
               <DropdownMenuItem asChild>
@@ -138,6 +200,33 @@ export function Header({ onManageApiConfigs, onClearActiveConfig, hasActiveApiCo
                   <span>帮助与说明</span>
                 </Link>
               </DropdownMenuItem>
+              {vaultStatus === 'unlocked' && (
+                <DropdownMenuItem onClick={() => { lockVault(); onLog?.('凭据保险库已锁定。', 'INFO'); }}>
+                  <Lock className="mr-2 h-4 w-4" />
+                  <span>锁定凭据保险库</span>
+                </DropdownMenuItem>
+              )}
+
+              {session.status === 'signed-in' && session.user && (
+                <>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuLabel className="flex items-center font-normal">
+                    <UserRound className="mr-2 h-4 w-4" />
+                    <span className="truncate">{session.user.username}</span>
+                    <span className="ml-auto text-xs text-muted-foreground">{PANEL_ROLE_LABELS[session.user.role]}</span>
+                  </DropdownMenuLabel>
+                  {session.user.role === 'admin' && (
+                    <DropdownMenuItem onClick={() => setIsUsersDialogOpen(true)}>
+                      <Users className="mr-2 h-4 w-4" />
+                      <span>面板账户</span>
+                    </DropdownMenuItem>
+                  )}
+                  <DropdownMenuItem onClick={handleSignOut}>
+                    <LogOut className="mr-2 h-4 w-4" />
+                    <span>退出登录</span>
+                  </DropdownMenuItem>
+                </>
+              )}
 
               {hasActiveApiConfig && onClearActiveConfig && (
                  <>
@@ -152,6 +241,7 @@ export function Header({ onManageApiConfigs, onClearActiveConfig, hasActiveApiCo
           </DropdownMenu>
         </div>
       </div>
+      <PanelUsersDialog open={isUsersDialogOpen} onOpenChange={setIsUsersDialogOpen} onLog={onLog} />
     </header>
   );
 }
@@ -0,0 +1,140 @@
+
+"use client";
+
+import React, { useState, type ReactNode } from 'react';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Lock, Loader2, Eye, EyeOff } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { resetVault, unlockVault, useCredentialVault, useVaultAutoLock } from '@/hooks/use-credential-vault';
+import { VaultPassphraseError } from '@/lib/credential-vault';
+import type { AppLogEntry } from '@/components/nodepass/EventLog';
+
+interface VaultGateProps {
+  children: ReactNode;
+  onLog?: (message: string, type: AppLogEntry['type']) => void;
+}
+
+// Renders the page only while the credential vault is disabled or unlocked; otherwise asks for the passphrase.
+export function VaultGate({ children, onLog }: VaultGateProps) {
+  const vault = useCredentialVault();
+  const { toast } = useToast();
+  const [passphrase, setPassphrase] = useState('');
+  const [showPassphrase, setShowPassphrase] = useState(false);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isResetDialogOpen, setIsResetDialogOpen] = useState(false);
+
+  useVaultAutoLock();
+
+  if (vault.status !== 'locked') return <>{children}</>;
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!passphrase) return;
+    setIsUnlocking(true);
+    setError(null);
+    try {
+      await unlockVault(passphrase);
+      setPassphrase('');
+      onLog?.('凭据保险库已解锁。', 'INFO');
+    } catch (err: any) {
+      setError(err instanceof VaultPassphraseError ? err.message : `解锁失败: ${err.message || '未知错误'}`);
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  const handleReset = () => {
+    resetVault();
+    setIsResetDialogOpen(false);
+    toast({
+      title: '保险库已重置',
+      description: '已删除加密的主控配置，请重新添加主控。',
+      variant: 'destructive',
+    });
+    onLog?.('凭据保险库已重置，加密的主控配置已删除。', 'ACTION');
+  };
+
+  return (
+    <div className="flex flex-grow items-center justify-center py-10">
+      <Card className="w-full max-w-sm shadow-lg">
+        <form onSubmit={handleUnlock}>
+          <CardHeader>
+            <CardTitle className="font-title flex items-center">
+              <Lock className="mr-2 h-5 w-5 text-primary" />
+              凭据保险库已锁定
+            </CardTitle>
+            <CardDescription className="font-sans">
+              主控配置和 API 密钥已加密保存，请输入保险库密码解锁。
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            <Label htmlFor="vault-passphrase" className="font-sans">密码</Label>
+            <div className="relative">
+              <Input
+                id="vault-passphrase"
+                type={showPassphrase ? 'text' : 'password'}
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+                autoFocus
+                autoComplete="current-password"
+                className="pr-10 font-sans"
+                disabled={isUnlocking}
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="absolute right-1 top-1/2 -translate-y-1/2 h-7 w-7"
+                onClick={() => setShowPassphrase(!showPassphrase)}
+                aria-label={showPassphrase ? '隐藏密码' : '显示密码'}
+              >
+                {showPassphrase ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+              </Button>
+            </div>
+            {error && <p className="text-sm text-destructive font-sans">{error}</p>}
+          </CardContent>
+          <CardFooter className="flex justify-between">
+            <Button type="button" variant="link" size="sm" className="px-0 text-muted-foreground font-sans" onClick={() => setIsResetDialogOpen(true)}>
+              忘记密码？
+            </Button>
+            <Button type="submit" disabled={!passphrase || isUnlocking} className="font-sans">
+              {isUnlocking && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              解锁
+            </Button>
+          </CardFooter>
+        </form>
+      </Card>
+
+      <AlertDialog open={isResetDialogOpen} onOpenChange={setIsResetDialogOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle className="font-title">重置凭据保险库？</AlertDialogTitle>
+            <AlertDialogDescription className="font-sans">
+              密码无法找回。重置将永久删除所有已加密的主控配置，之后需要重新添加主控及其 API 密钥。
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel className="font-sans">取消</AlertDialogCancel>
+            <AlertDialogAction onClick={handleReset} className="bg-destructive text-destructive-foreground hover:bg-destructive/90 font-sans">
+              重置
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
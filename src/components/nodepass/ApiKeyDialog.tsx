@@ -13,9 +13,13 @@ import {
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { KeyRound, Eye, EyeOff, Info } from 'lucide-react'; 
-import type { NamedApiConfig, MasterLogLevel, MasterTlsMode } from '@/hooks/use-api-key'; 
+import { useApiConfig, type NamedApiConfig, type MasterLogLevel, type MasterTlsMode } from '@/hooks/use-api-key';
+import { collectGroups, collectTags, normalizeGroup, normalizeTags } from '@/lib/master-groups';
+import { SERVER_HELD_TOKEN, isServerHeldToken } from '@/lib/panel-storage';
 import type { AppLogEntry } from './EventLog';
 
 interface ApiConfigDialogProps {
@@ -34,14 +38,28 @@ export function ApiConfigDialog({ open, onOpenChange, onSave, currentConfig, isE
   const [showToken, setShowToken] = useState(false);
   const [masterLogLevelInput, setMasterLogLevelInput] = useState<MasterLogLevel>('master');
   const [masterTlsModeInput, setMasterTlsModeInput] = useState<MasterTlsMode>('master');
+  const [groupInput, setGroupInput] = useState('');
+  const [tagsInput, setTagsInput] = useState('');
+  const [tlsCertificateInput, setTlsCertificateInput] = useState('');
+  const [tlsSkipVerifyInput, setTlsSkipVerifyInput] = useState(false);
+  const { apiConfigsList, storageMode, isProxied } = useApiConfig();
+  // 代理模式下浏览器拿不到已保存的密钥，令牌留空表示保持面板服务器上的密钥不变
+  const keepsServerToken = isServerHeldToken(currentConfig?.token);
+  const hasToken = !!tokenInput.trim() || keepsServerToken;
+  const existingGroups = React.useMemo(() => collectGroups(apiConfigsList), [apiConfigsList]);
+  const existingTags = React.useMemo(() => collectTags(apiConfigsList), [apiConfigsList]);
 
   useEffect(() => {
     if (open) {
       setNameInput(currentConfig?.name || '');
       setApiUrlInput(currentConfig?.apiUrl || 'http://localhost:3000/api/v1'); // Default to include /api/v1
-      setTokenInput(currentConfig?.token || '');
+      setTokenInput(isServerHeldToken(currentConfig?.token) ? '' : currentConfig?.token || '');
       setMasterLogLevelInput(currentConfig?.masterDefaultLogLevel || 'master');
       setMasterTlsModeInput(currentConfig?.masterDefaultTlsMode || 'master');
+      setGroupInput(currentConfig?.group || '');
+      setTagsInput((currentConfig?.tags ?? []).join(', '));
+      setTlsCertificateInput(currentConfig?.tlsCertificate || '');
+      setTlsSkipVerifyInput(!!currentConfig?.tlsSkipVerify);
       setShowToken(false);
     } else {
       // Reset on close
@@ -50,20 +68,28 @@ export function ApiConfigDialog({ open, onOpenChange, onSave, currentConfig, isE
       setTokenInput('');
       setMasterLogLevelInput('master');
       setMasterTlsModeInput('master');
+      setGroupInput('');
+      setTagsInput('');
+      setTlsCertificateInput('');
+      setTlsSkipVerifyInput(false);
       setShowToken(false);
     }
   }, [open, currentConfig]);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (nameInput.trim() && apiUrlInput.trim() && tokenInput.trim()) {
+    if (nameInput.trim() && apiUrlInput.trim() && hasToken) {
       onSave({
         id: currentConfig?.id, 
         name: nameInput.trim(),
         apiUrl: apiUrlInput.trim(),
-        token: tokenInput.trim(),
+        token: tokenInput.trim() || SERVER_HELD_TOKEN,
         masterDefaultLogLevel: masterLogLevelInput,
         masterDefaultTlsMode: masterTlsModeInput,
+        group: normalizeGroup(groupInput),
+        tags: normalizeTags(tagsInput),
+        tlsCertificate: tlsCertificateInput.trim() || undefined,
+        tlsSkipVerify: tlsSkipVerifyInput || undefined,
       });
       onOpenChange(false);
     }
@@ -79,7 +105,7 @@ export function ApiConfigDialog({ open, onOpenChange, onSave, currentConfig, isE
               {isEditing ? '编辑主控' : '添加新主控'}
             </DialogTitle>
             <DialogDescription className="font-sans">
-              为此 NodePass 主控配置连接。信息将保存在浏览器本地。
+              为此 NodePass 主控配置连接。{storageMode === 'server' ? '信息将保存在面板服务器上。' : '信息将保存在浏览器本地。'}
             </DialogDescription>
           </DialogHeader>
           <div className="grid gap-4 py-4 max-h-[60vh] overflow-y-auto pr-2">
@@ -112,9 +138,9 @@ export function ApiConfigDialog({ open, onOpenChange, onSave, currentConfig, isE
                   id="token"
                   value={tokenInput}
                   onChange={(e) => setTokenInput(e.target.value)}
-                  placeholder="输入令牌"
+                  placeholder={keepsServerToken ? '已保存在面板服务器，留空则保持不变' : '输入令牌'}
                   type={showToken ? 'text' : 'password'}
-                  required
+                  required={!keepsServerToken}
                   className="pr-10 font-sans"
                 />
                 <Button
@@ -130,6 +156,60 @@ export function ApiConfigDialog({ open, onOpenChange, onSave, currentConfig, isE
               </div>
             </div>
 
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="config-group" className="font-sans">分组 (可选)</Label>
+                <Input
+                  id="config-group"
+                  value={groupInput}
+                  onChange={(e) => setGroupInput(e.target.value)}
+                  placeholder="例: 华东节点"
+                  list="config-group-options"
+                  className="font-sans"
+                />
+                <datalist id="config-group-options">
+                  {existingGroups.map(group => <option key={group} value={group} />)}
+                </datalist>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="config-tags" className="font-sans">标签 (可选)</Label>
+                <Input
+                  id="config-tags"
+                  value={tagsInput}
+                  onChange={(e) => setTagsInput(e.target.value)}
+                  placeholder="逗号分隔，例: 生产, 香港"
+                  className="font-sans"
+                />
+              </div>
+            </div>
+            {existingTags.length > 0 && (
+              <p className="text-xs text-muted-foreground font-sans -mt-2">已有标签: {existingTags.join('、')}</p>
+            )}
+
+            {isProxied && apiUrlInput.trim().toLowerCase().startsWith('https:') && (
+              <div className="space-y-2 rounded-md border p-3">
+                <p className="text-xs text-muted-foreground font-sans">
+                  面板服务器代理此主控的请求。主控使用自签名证书时，可粘贴其证书 (PEM) 作为信任证书。
+                </p>
+                <div className="space-y-1">
+                  <Label htmlFor="tls-certificate" className="font-sans">信任证书 (可选)</Label>
+                  <Textarea
+                    id="tls-certificate"
+                    value={tlsCertificateInput}
+                    onChange={(e) => setTlsCertificateInput(e.target.value)}
+                    placeholder="-----BEGIN CERTIFICATE-----"
+                    rows={3}
+                    disabled={tlsSkipVerifyInput}
+                    className="font-mono text-xs"
+                  />
+                </div>
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="tls-skip-verify" className="font-sans">跳过证书校验 (不安全)</Label>
+                  <Switch id="tls-skip-verify" checked={tlsSkipVerifyInput} onCheckedChange={setTlsSkipVerifyInput} />
+                </div>
+              </div>
+            )}
+
             <div className="my-3 border-t border-border"></div>
             <p className="text-sm text-muted-foreground font-sans pb-2">
               以下可选字段用于记录此主控的默认启动配置，供创建实例时参考。
@@ -175,7 +255,7 @@ export function ApiConfigDialog({ open, onOpenChange, onSave, currentConfig, isE
           </div>
           <DialogFooter className="font-sans">
             <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>取消</Button>
-            <Button type="submit" disabled={!nameInput.trim() || !apiUrlInput.trim() || !tokenInput.trim()}>保存配置</Button>
+            <Button type="submit" disabled={!nameInput.trim() || !apiUrlInput.trim() || !hasToken}>保存配置</Button>
           </DialogFooter>
         </form>
       </DialogContent>
@@ -6,6 +6,8 @@ import type { Instance } from '@/types/nodepass';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { ConfirmationDialog } from './ConfirmationDialog'; 
 import { Trash2 } from 'lucide-react';
+import { maskTunnelKeyInUrl } from '@/lib/url-utils';
+import { usePanelSession } from '@/hooks/use-panel-session';
 
 interface BulkDeleteInstancesDialogProps {
   selectedInstances: Pick<Instance, 'id' | 'url'>[];
@@ -22,8 +24,23 @@ export function BulkDeleteInstancesDialog({
   onConfirmDelete,
   isLoading,
 }: BulkDeleteInstancesDialogProps) {
+  const { canManage } = usePanelSession();
   if (!open) return null;
 
+  if (!canManage) {
+    return (
+      <ConfirmationDialog
+        open={open}
+        onOpenChange={onOpenChange}
+        title="无删除权限"
+        description="当前账户为只读角色，无法删除实例。"
+        onConfirm={() => onOpenChange(false)}
+        confirmText="关闭"
+        isLoading={false}
+      />
+    );
+  }
+
   if (selectedInstances.length === 0 && open) {
     return (
       <ConfirmationDialog
@@ -47,11 +64,14 @@ export function BulkDeleteInstancesDialog({
   const listContent = selectedInstances.length > 0 ? (
     <ScrollArea className="max-h-[200px] my-2 rounded-md border p-2 bg-muted/30">
       <ul className="space-y-1 text-xs">
-        {selectedInstances.map(instance => (
-          <li key={instance.id} className="font-mono truncate" title={instance.url}>
-            ID: {instance.id.substring(0, 12)}... (URL: {instance.url.length > 30 ? instance.url.substring(0, 27) + '...' : instance.url})
-          </li>
-        ))}
+        {selectedInstances.map(instance => {
+          const displayUrl = maskTunnelKeyInUrl(instance.url);
+          return (
+            <li key={instance.id} className="font-mono truncate" title={displayUrl}>
+              ID: {instance.id.substring(0, 12)}... (URL: {displayUrl.length > 30 ? displayUrl.substring(0, 27) + '...' : displayUrl})
+            </li>
+          );
+        })}
       </ul>
     </ScrollArea>
   ) : null;
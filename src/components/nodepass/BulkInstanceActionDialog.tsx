@@ -0,0 +1,213 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from 'react';
+import type { Instance, UpdateInstanceRequest } from '@/types/nodepass';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { CheckCircle, CircleDashed, Loader2, MinusCircle, Play, RotateCcw, Square, XCircle } from 'lucide-react';
+import { maskTunnelKeyInUrl } from '@/lib/url-utils';
+import { createAuditBatchId } from '@/lib/audit-log';
+import { runWithConcurrency } from '@/lib/task-queue';
+
+export type InstanceAction = UpdateInstanceRequest['action'];
+
+export const INSTANCE_ACTION_LABELS: Record<InstanceAction, string> = {
+  start: '启动',
+  stop: '停止',
+  restart: '重启',
+};
+
+const ACTION_ICONS: Record<InstanceAction, React.ElementType> = {
+  start: Play,
+  stop: Square,
+  restart: RotateCcw,
+};
+
+// Enough to finish a page of instances quickly without flooding a small master.
+const BULK_ACTION_CONCURRENCY = 3;
+
+type ItemState = 'pending' | 'running' | 'success' | 'failed' | 'skipped' | 'cancelled';
+
+interface ItemProgress {
+  state: ItemState;
+  detail?: string; // New status on success, error message on failure.
+}
+
+export interface BulkActionSummary {
+  action: InstanceAction;
+  succeeded: number;
+  failed: number;
+  skipped: number;
+  cancelled: number;
+  failures: { instanceId: string; error: string }[];
+}
+
+// Mirrors InstanceControls, which disables start on running and stop on stopped instances.
+function isAlreadyInState(instance: Instance, action: InstanceAction) {
+  return (action === 'start' && instance.status === 'running') || (action === 'stop' && instance.status === 'stopped');
+}
+
+const STATE_ICONS: Record<ItemState, React.ReactNode> = {
+  pending: <CircleDashed className="h-3.5 w-3.5 text-muted-foreground" />,
+  running: <Loader2 className="h-3.5 w-3.5 animate-spin text-primary" />,
+  success: <CheckCircle className="h-3.5 w-3.5 text-green-500" />,
+  failed: <XCircle className="h-3.5 w-3.5 text-destructive" />,
+  skipped: <MinusCircle className="h-3.5 w-3.5 text-muted-foreground" />,
+  cancelled: <MinusCircle className="h-3.5 w-3.5 text-muted-foreground" />,
+};
+
+const STATE_LABELS: Record<ItemState, string> = {
+  pending: '等待中',
+  running: '执行中',
+  success: '成功',
+  failed: '失败',
+  skipped: '已跳过',
+  cancelled: '已取消',
+};
+
+interface BulkInstanceActionDialogProps {
+  action: InstanceAction | null; // Null while closed.
+  instances: Instance[];
+  onOpenChange: (open: boolean) => void;
+  // Performs the action on one instance; `batchId` ties the audit entries of one run together.
+  runAction: (instance: Instance, action: InstanceAction, batchId: string) => Promise<Instance>;
+  onComplete: (summary: BulkActionSummary) => void;
+}
+
+export function BulkInstanceActionDialog({ action, instances, onOpenChange, runAction, onComplete }: BulkInstanceActionDialogProps) {
+  const [phase, setPhase] = useState<'confirm' | 'running' | 'done'>('confirm');
+  const [progress, setProgress] = useState<Record<string, ItemProgress>>({});
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Fresh run each time the dialog opens.
+  useEffect(() => {
+    if (!action) return;
+    setPhase('confirm');
+    setProgress({});
+  }, [action]);
+
+  if (!action) return null;
+
+  const actionText = INSTANCE_ACTION_LABELS[action];
+  const ActionIcon = ACTION_ICONS[action];
+  const toSkip = instances.filter(instance => isAlreadyInState(instance, action));
+  const settledCount = Object.values(progress).filter(item => item.state !== 'pending' && item.state !== 'running').length;
+
+  const setItem = (instanceId: string, item: ItemProgress) => setProgress(prev => ({ ...prev, [instanceId]: item }));
+
+  const handleRun = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const batchId = createAuditBatchId();
+    const targets = instances.filter(instance => !isAlreadyInState(instance, action));
+    setProgress(Object.fromEntries(instances.map(instance => [
+      instance.id,
+      isAlreadyInState(instance, action) ? { state: 'skipped', detail: `已是 ${instance.status}` } : { state: 'pending' },
+    ])));
+    setPhase('running');
+
+    const outcomes = await runWithConcurrency(targets, BULK_ACTION_CONCURRENCY, instance => runAction(instance, action, batchId), {
+      signal: controller.signal,
+      onStart: instance => setItem(instance.id, { state: 'running' }),
+      onSettle: (instance, _index, outcome) => {
+        if (outcome.status === 'fulfilled') setItem(instance.id, { state: 'success', detail: outcome.value?.status });
+        else if (outcome.status === 'rejected') setItem(instance.id, { state: 'failed', detail: (outcome.reason as Error)?.message || '未知错误' });
+        else setItem(instance.id, { state: 'cancelled' });
+      },
+    });
+
+    abortRef.current = null;
+    setPhase('done');
+    onComplete({
+      action,
+      succeeded: outcomes.filter(outcome => outcome.status === 'fulfilled').length,
+      failed: outcomes.filter(outcome => outcome.status === 'rejected').length,
+      skipped: instances.length - targets.length,
+      cancelled: outcomes.filter(outcome => outcome.status === 'cancelled').length,
+      failures: outcomes.flatMap((outcome, index) => outcome.status === 'rejected'
+        ? [{ instanceId: targets[index].id, error: (outcome.reason as Error)?.message || '未知错误' }]
+        : []),
+    });
+  };
+
+  // Closing is blocked while the queue runs; "取消剩余" stops it instead.
+  const handleOpenChange = (open: boolean) => {
+    if (!open && phase === 'running') return;
+    onOpenChange(open);
+  };
+
+  return (
+    <Dialog open onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="font-title flex items-center">
+            <ActionIcon className="mr-2 h-5 w-5 text-primary" />
+            批量{actionText}实例
+          </DialogTitle>
+          <DialogDescription className="font-sans">
+            {phase === 'confirm'
+              ? <>将{actionText} <span className="font-semibold">{instances.length - toSkip.length}</span> 个选中的实例，最多同时执行 {BULK_ACTION_CONCURRENCY} 个。{toSkip.length > 0 && ` ${toSkip.length} 个实例已处于目标状态，将被跳过。`}</>
+              : `已完成 ${settledCount} / ${instances.length}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {phase !== 'confirm' && <Progress value={instances.length > 0 ? (settledCount / instances.length) * 100 : 0} className="h-2" />}
+
+        <ScrollArea className="max-h-[280px] rounded-md border p-2 bg-muted/30">
+          <ul className="space-y-1 text-xs">
+            {instances.map(instance => {
+              const item = progress[instance.id];
+              const displayUrl = maskTunnelKeyInUrl(instance.url);
+              return (
+                <li key={instance.id} className="flex items-start gap-2">
+                  <span className="mt-0.5 flex-shrink-0" title={item ? STATE_LABELS[item.state] : undefined}>
+                    {item ? STATE_ICONS[item.state] : STATE_ICONS.pending}
+                  </span>
+                  <div className="min-w-0 flex-grow">
+                    <div className="font-mono truncate" title={displayUrl}>
+                      {instance.id.substring(0, 12)} <span className="text-muted-foreground">{displayUrl}</span>
+                    </div>
+                    {item?.detail && (
+                      <div className={`font-sans break-all ${item.state === 'failed' ? 'text-destructive' : 'text-muted-foreground'}`}>
+                        {STATE_LABELS[item.state]}: {item.detail}
+                      </div>
+                    )}
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        </ScrollArea>
+
+        <DialogFooter>
+          {phase === 'confirm' && (
+            <>
+              <Button variant="outline" onClick={() => onOpenChange(false)} className="font-sans">取消</Button>
+              <Button onClick={handleRun} disabled={instances.length === toSkip.length} className="font-sans">
+                <ActionIcon className="mr-2 h-4 w-4" />
+                {actionText} {instances.length - toSkip.length} 个实例
+              </Button>
+            </>
+          )}
+          {phase === 'running' && (
+            <Button variant="outline" onClick={() => abortRef.current?.abort()} className="font-sans">
+              取消剩余
+            </Button>
+          )}
+          {phase === 'done' && (
+            <Button onClick={() => onOpenChange(false)} className="font-sans">关闭</Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,7 +1,7 @@
 
 "use client";
 
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useMemo } from 'react';
 import { useRouter } from 'next/navigation';
 import { useApiConfig, type NamedApiConfig } from '@/hooks/use-api-key';
 import { Button } from '@/components/ui/button';
@@ -15,8 +15,11 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import { ApiConfigDialog } from '@/components/nodepass/ApiKeyDialog';
-import { PlusCircle, Edit3, Trash2, Power, CheckCircle, Loader2, Upload, Download } from 'lucide-react'; 
+import { PlusCircle, Edit3, Trash2, Power, CheckCircle, Loader2, Upload, Download, Info, Lock, ClipboardPaste, Folder, Server } from 'lucide-react'; 
 import { useToast } from '@/hooks/use-toast';
+import { usePanelSession } from '@/hooks/use-panel-session';
+import { recordAudit } from '@/hooks/use-audit-log';
+import { createAuditBatchId } from '@/lib/audit-log';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -29,6 +32,22 @@ import {
   AlertDialogTrigger,
 } from '@/components/ui/alert-dialog';
 import type { AppLogEntry } from './EventLog';
+import { MasterInfoDialog, MasterInfoSummary } from './MasterInfoPanel';
+import { MasterHealthSummaryView } from './MasterHealthIndicator';
+import { VaultSettingsDialog } from './VaultSettingsDialog';
+import { MasterFilterBar } from './MasterFilterBar';
+import { Badge } from '@/components/ui/badge';
+import { EMPTY_MASTER_FILTER, filterMasters, groupMasters, type MasterFilter } from '@/lib/master-groups';
+import { ImportConnectionsDialog, type ImportSummary } from './ImportConnectionsDialog';
+import { ExportConnectionsDialog } from './ExportConnectionsDialog';
+import { ImportSourceDialog, type PendingImportSource } from './ImportSourceDialog';
+import {
+  ConnectionsPassphraseRequiredError,
+  buildImportPreview,
+  parseConnectionsContent,
+  type ImportPreviewEntry,
+} from '@/lib/connections-import';
+import { VaultPassphraseError } from '@/lib/credential-vault';
 
 interface ConnectionsManagerProps {
   onLog?: (message: string, type: AppLogEntry['type']) => void;
@@ -41,16 +60,34 @@ export function ConnectionsManager({ onLog }: ConnectionsManagerProps) {
     apiConfigsList,
     activeApiConfig,
     addOrUpdateApiConfig,
+    upsertApiConfigs,
     deleteApiConfig,
     setActiveApiConfigId,
     isLoading: isLoadingApiConfig,
+    storageMode,
+    storageError,
   } = useApiConfig();
+  const { canManage } = usePanelSession();
 
   const [isApiConfigDialogOpen, setIsApiConfigDialogOpen] = useState(false);
   const [editingApiConfig, setEditingApiConfig] = useState<NamedApiConfig | null>(null);
   const [deletingConfig, setDeletingConfig] = useState<NamedApiConfig | null>(null);
+  const [infoConfig, setInfoConfig] = useState<NamedApiConfig | null>(null);
+  const [isVaultDialogOpen, setIsVaultDialogOpen] = useState(false);
+  const [importPreview, setImportPreview] = useState<{ fileName: string; entries: ImportPreviewEntry[] } | null>(null);
+  const [isExportDialogOpen, setIsExportDialogOpen] = useState(false);
+  const [isImportSourceDialogOpen, setIsImportSourceDialogOpen] = useState(false);
+  const [encryptedImportSource, setEncryptedImportSource] = useState<PendingImportSource | null>(null);
+  const [importSourceError, setImportSourceError] = useState<string | null>(null);
+  const [isParsingImport, setIsParsingImport] = useState(false);
+  const [masterFilter, setMasterFilter] = useState<MasterFilter>(EMPTY_MASTER_FILTER);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  const filteredConfigs = useMemo(() => filterMasters(apiConfigsList, masterFilter), [apiConfigsList, masterFilter]);
+  const masterSections = useMemo(() => groupMasters(filteredConfigs), [filteredConfigs]);
+  // Group header rows only once at least one master has a group.
+  const showGroupHeaders = apiConfigsList.some(c => c.group);
+
   const handleOpenApiConfigDialog = (configToEdit?: NamedApiConfig | null) => {
     setEditingApiConfig(configToEdit || null);
     setIsApiConfigDialogOpen(true);
@@ -58,7 +95,16 @@ export function ConnectionsManager({ onLog }: ConnectionsManagerProps) {
 
   const handleSaveApiConfig = (configToSave: Omit<NamedApiConfig, 'id'> & { id?: string }) => {
     const isNew = !configToSave.id;
+    const previousConfig = apiConfigsList.find(c => c.id === configToSave.id);
     const savedConfig = addOrUpdateApiConfig(configToSave);
+    recordAudit({
+      action: isNew ? 'master.add' : 'master.update',
+      result: 'success',
+      masterId: savedConfig.id,
+      masterName: savedConfig.name,
+      urlBefore: previousConfig?.apiUrl,
+      urlAfter: savedConfig.apiUrl,
+    });
     setEditingApiConfig(null);
     setIsApiConfigDialogOpen(false);
     const actionText = isNew ? '添加' : '更新';
@@ -77,13 +123,14 @@ export function ConnectionsManager({ onLog }: ConnectionsManagerProps) {
       description: `已连接到 “${config?.name}”。`,
     });
     onLog?.(`活动主控已切换至: "${config?.name}"`, 'INFO');
-    window.location.href = '/'; // Force reload to ensure all components pick up new active config
+    router.push('/'); // 其他 useApiConfig 实例会同步新的活动主控，查询按主控 ID 重新获取
   };
 
   const handleDeleteConfirm = () => {
     if (deletingConfig) {
       const name = deletingConfig.name;
       deleteApiConfig(deletingConfig.id);
+      recordAudit({ action: 'master.delete', result: 'success', masterId: deletingConfig.id, masterName: name, urlBefore: deletingConfig.apiUrl });
       toast({
         title: '主控已删除',
         description: `“${name}”已被删除。`,
@@ -104,18 +151,71 @@ export function ConnectionsManager({ onLog }: ConnectionsManagerProps) {
       onLog?.('尝试导出主控配置失败: 列表为空。', 'WARNING');
       return;
     }
-    const jsonString = `data:text/json;charset=utf-8,${encodeURIComponent(
-      JSON.stringify(apiConfigsList, null, 2)
-    )}`;
-    const link = document.createElement('a');
-    link.href = jsonString;
-    link.download = 'nodepass-connections.json';
-    link.click();
+    setIsExportDialogOpen(true);
+  };
+
+  // Parses file or pasted content and opens the preview. Encrypted exports go through the passphrase prompt first.
+  const startImport = async (sourceName: string, content: string, passphrase?: string) => {
+    setIsParsingImport(true);
+    setImportSourceError(null);
+    try {
+      const entries = buildImportPreview(await parseConnectionsContent(content, passphrase), apiConfigsList);
+      if (entries.length === 0) throw new Error("导入内容中没有主控配置。");
+      setIsImportSourceDialogOpen(false);
+      setEncryptedImportSource(null);
+      setImportPreview({ fileName: sourceName, entries });
+    } catch (error: any) {
+      if (error instanceof ConnectionsPassphraseRequiredError) {
+        setEncryptedImportSource({ name: sourceName, content });
+        setIsImportSourceDialogOpen(true);
+      } else if (error instanceof VaultPassphraseError) {
+        setImportSourceError(error.message);
+      } else if (isImportSourceDialogOpen) {
+        setImportSourceError(error.message || '无法解析导入内容。');
+      } else {
+        toast({
+          title: '导入失败',
+          description: error.message || '解析文件失败或文件格式不正确。',
+          variant: 'destructive',
+        });
+        onLog?.(`主控配置导入失败: ${error.message || '未知错误'}`, 'ERROR');
+      }
+    } finally {
+      setIsParsingImport(false);
+    }
+  };
+
+  const handleImportSourceDialogChange = (open: boolean) => {
+    setIsImportSourceDialogOpen(open);
+    if (!open) {
+      setEncryptedImportSource(null);
+      setImportSourceError(null);
+    }
+  };
+
+  const handleImportConfirm = (configs: NamedApiConfig[], summary: ImportSummary) => {
+    upsertApiConfigs(configs);
+    const batchId = createAuditBatchId();
+    configs.forEach(config => recordAudit({
+      action: 'master.import',
+      result: 'success',
+      masterId: config.id,
+      masterName: config.name,
+      urlBefore: apiConfigsList.find(c => c.id === config.id)?.apiUrl,
+      urlAfter: config.apiUrl,
+      batchId,
+    }));
+    setImportPreview(null);
+    const parts = [`新增 ${summary.added} 条`];
+    if (summary.overwritten > 0) parts.push(`覆盖 ${summary.overwritten} 条`);
+    if (summary.copied > 0) parts.push(`副本 ${summary.copied} 条`);
+    if (summary.skipped > 0) parts.push(`跳过 ${summary.skipped} 条`);
+    const importSummary = parts.join('，') + '。';
     toast({
-      title: '配置已导出',
-      description: '主控连接配置已成功下载。',
+      title: '导入完成',
+      description: importSummary,
     });
-    onLog?.('主控配置已导出。', 'INFO');
+    onLog?.(`主控配置导入完成: ${importSummary}`, 'INFO');
   };
 
   const handleImportFileSelected = (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -124,62 +224,16 @@ export function ConnectionsManager({ onLog }: ConnectionsManagerProps) {
 
     const reader = new FileReader();
     reader.onload = (e) => {
-      try {
-        const content = e.target?.result;
-        if (typeof content !== 'string') throw new Error("无法读取文件内容。");
-        
-        const importedConfigsUntyped = JSON.parse(content) as any[]; // Read as any first
-        if (!Array.isArray(importedConfigsUntyped)) throw new Error("导入文件格式无效，应为JSON数组。");
-
-        let importedCount = 0;
-        let skippedCount = 0;
-        let invalidCount = 0;
-
-        importedConfigsUntyped.forEach(importedConfig => {
-          if (
-            typeof importedConfig.id === 'string' &&
-            typeof importedConfig.name === 'string' &&
-            typeof importedConfig.apiUrl === 'string' &&
-            typeof importedConfig.token === 'string'
-          ) {
-            const existingConfig = apiConfigsList.find(c => c.id === importedConfig.id);
-            if (existingConfig) {
-              skippedCount++;
-            } else {
-              const { prefixPath, ...restOfImportedConfig } = importedConfig; // Destructure out prefixPath
-              const configToAdd: Omit<NamedApiConfig, 'id'> & { id?: string } = {
-                ...restOfImportedConfig, // Use the rest
-                id: importedConfig.id, // Keep original ID for matching
-                masterDefaultLogLevel: importedConfig.masterDefaultLogLevel || 'master',
-                masterDefaultTlsMode: importedConfig.masterDefaultTlsMode || 'master',
-              };
-              addOrUpdateApiConfig(configToAdd);
-              importedCount++;
-            }
-          } else {
-            console.warn("跳过无效的导入配置项:", importedConfig);
-            invalidCount++;
-          }
-        });
-        
-        let importSummary = `成功导入 ${importedCount} 条配置。`;
-        if (skippedCount > 0) importSummary += ` 跳过 ${skippedCount} 条重复ID配置。`;
-        if (invalidCount > 0) importSummary += ` ${invalidCount} 条配置格式无效被忽略。`;
-        
-        toast({
-          title: '导入完成',
-          description: importSummary,
-        });
-        onLog?.(`主控配置导入完成: ${importSummary}`, 'INFO');
-
-      } catch (error: any) {
+      const content = e.target?.result;
+      if (typeof content !== 'string') {
         toast({
           title: '导入失败',
-          description: error.message || '解析文件失败或文件格式不正确。',
+          description: '无法读取文件内容。',
           variant: 'destructive',
         });
-        onLog?.(`主控配置导入失败: ${error.message || '未知错误'}`, 'ERROR');
+        return;
       }
+      startImport(file.name, content);
     };
     reader.onerror = () => {
        toast({
@@ -207,8 +261,15 @@ export function ConnectionsManager({ onLog }: ConnectionsManagerProps) {
   return (
     <div className="space-y-8">
       <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        {apiConfigsList.length > 0 && (
+          <MasterFilterBar configs={apiConfigsList} filter={masterFilter} onFilterChange={setMasterFilter} />
+        )}
         <div className="flex flex-wrap gap-2 sm:ml-auto">
-          <Button onClick={() => fileInputRef.current?.click()} variant="outline" size="sm" className="font-sans">
+          <Button onClick={() => setIsVaultDialogOpen(true)} variant="outline" size="sm" className="font-sans">
+            <Lock className="mr-2 h-4 w-4" />
+            凭据保险库
+          </Button>
+          <Button onClick={() => fileInputRef.current?.click()} variant="outline" size="sm" className="font-sans" disabled={!canManage}>
             <Upload className="mr-2 h-4 w-4" />
             导入配置
           </Button>
@@ -217,19 +278,32 @@ export function ConnectionsManager({ onLog }: ConnectionsManagerProps) {
             ref={fileInputRef}
             onChange={handleImportFileSelected}
             style={{ display: 'none' }}
-            accept=".json"
+            accept=".json,.txt"
           />
+          <Button onClick={() => setIsImportSourceDialogOpen(true)} variant="outline" size="sm" className="font-sans" disabled={!canManage}>
+            <ClipboardPaste className="mr-2 h-4 w-4" />
+            粘贴导入
+          </Button>
           <Button onClick={handleExportConfigs} variant="outline" size="sm" className="font-sans">
             <Download className="mr-2 h-4 w-4" />
             导出配置
           </Button>
-          <Button onClick={() => handleOpenApiConfigDialog(null)} size="sm" className="font-sans">
+          <Button onClick={() => handleOpenApiConfigDialog(null)} size="sm" className="font-sans" disabled={!canManage}>
             <PlusCircle className="mr-2 h-4 w-4" />
             添加新主控
           </Button>
         </div>
       </div>
 
+      {storageMode === 'server' && (
+        <p className={`text-xs font-sans flex items-center -mt-4 ${storageError ? 'text-destructive' : 'text-muted-foreground'}`}>
+          <Server className="mr-1.5 h-3.5 w-3.5" />
+          {storageError
+            ? `面板服务器同步失败: ${storageError}`
+            : '服务器存储模式：主控配置保存在面板服务器上，访问此面板的所有浏览器共享同一份列表。'}
+        </p>
+      )}
+
       {apiConfigsList.length === 0 ? (
         <Card className="text-center py-10 shadow-lg card-hover-shadow">
           <CardHeader>
@@ -248,81 +322,143 @@ export function ConnectionsManager({ onLog }: ConnectionsManagerProps) {
                 <TableHead className="w-[60px] text-center font-sans">状态</TableHead>
                 <TableHead className="font-sans">主控名称</TableHead>
                 <TableHead className="font-sans">主控 API 地址</TableHead>
-                {/* API Prefix column removed */}
-                <TableHead className="text-right w-[250px] font-sans">操作</TableHead>
+                <TableHead className="font-sans">主控信息</TableHead>
+                <TableHead className="font-sans">健康 (延迟 / 可用率)</TableHead>
+                <TableHead className="text-right w-[330px] font-sans">操作</TableHead>
               </TableRow>
             </TableHeader>
             <TableBody>
-              {apiConfigsList.map((config) => (
-                <TableRow key={config.id} className={activeApiConfig?.id === config.id ? 'bg-muted/50' : ''}>
-                  <TableCell className="text-center">
-                    {activeApiConfig?.id === config.id && (
-                      <CheckCircle className="h-5 w-5 text-green-500 inline-block" />
-                    )}
+              {filteredConfigs.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-muted-foreground py-8 font-sans">
+                    没有符合筛选条件的主控。
                   </TableCell>
-                  <TableCell className="font-medium break-all font-sans">{config.name}</TableCell>
-                  <TableCell className="text-xs break-all font-mono">{config.apiUrl}</TableCell>
-                  {/* API Prefix TableCell removed */}
-                  <TableCell className="text-right">
-                    <div className="flex justify-end items-center gap-2">
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        onClick={() => handleOpenApiConfigDialog(config)}
-                        aria-label={`编辑主控 ${config.name}`}
-                        className="font-sans"
-                      >
-                        <Edit3 className="mr-1 h-3.5 w-3.5" />
-                        编辑
-                      </Button>
-                      <AlertDialog>
-                        <AlertDialogTrigger asChild>
-                          <Button
+                </TableRow>
+              )}
+              {masterSections.map(section => (
+                <React.Fragment key={section.group ?? ''}>
+                  {showGroupHeaders && (
+                    <TableRow className="bg-muted/30 hover:bg-muted/30">
+                      <TableCell colSpan={6} className="py-1.5 text-xs font-semibold text-muted-foreground font-sans">
+                        <Folder className="inline-block mr-1.5 h-3.5 w-3.5 align-text-bottom" />
+                        {section.label} ({section.configs.length})
+                      </TableCell>
+                    </TableRow>
+                  )}
+                  {section.configs.map((config) => (
+                    <TableRow key={config.id} className={activeApiConfig?.id === config.id ? 'bg-muted/50' : ''}>
+                      <TableCell className="text-center">
+                        {activeApiConfig?.id === config.id && (
+                          <CheckCircle className="h-5 w-5 text-green-500 inline-block" />
+                        )}
+                      </TableCell>
+                      <TableCell className="font-medium break-all font-sans">
+                        {config.name}
+                        {config.apiKeyUnverified && (
+                          <Badge
                             variant="destructive"
+                            className="ml-1.5 text-[10px] px-1.5 py-0 font-normal"
+                            title="轮换后的新 API 密钥未通过验证，请确认密钥后编辑并重新保存此连接"
+                          >
+                            密钥未验证
+                          </Badge>
+                        )}
+                        {config.tags && config.tags.length > 0 && (
+                          <div className="flex flex-wrap gap-1 mt-1">
+                            {config.tags.map(tag => (
+                              <Badge
+                                key={tag}
+                                variant="outline"
+                                className="text-[10px] px-1.5 py-0 font-normal cursor-pointer"
+                                onClick={() => setMasterFilter({ ...masterFilter, tag })}
+                                title={`筛选标签 “${tag}”`}
+                              >
+                                {tag}
+                              </Badge>
+                            ))}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-xs break-all font-mono">{config.apiUrl}</TableCell>
+                      <TableCell>
+                        <MasterInfoSummary config={config} />
+                      </TableCell>
+                      <TableCell>
+                        <MasterHealthSummaryView masterId={config.id} />
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end items-center gap-2">
+                          <Button
+                            variant="outline"
                             size="sm"
-                            onClick={() => setDeletingConfig(config)}
-                            aria-label={`删除主控 ${config.name}`}
-                            disabled={activeApiConfig?.id === config.id}
+                            onClick={() => setInfoConfig(config)}
+                            aria-label={`查看主控 ${config.name} 信息`}
                             className="font-sans"
                           >
-                            <Trash2 className="mr-1 h-3.5 w-3.5" />
-                            删除
+                            <Info className="mr-1 h-3.5 w-3.5" />
+                            信息
                           </Button>
-                        </AlertDialogTrigger>
-                        {deletingConfig && deletingConfig.id === config.id && (
-                          <AlertDialogContent>
-                            <AlertDialogHeader>
-                              <AlertDialogTitle className="font-title">确认删除</AlertDialogTitle>
-                              <AlertDialogDescription className="font-sans">
-                                确定删除主控 “{deletingConfig.name}”？此操作无法撤销。
-                              </AlertDialogDescription>
-                            </AlertDialogHeader>
-                            <AlertDialogFooter>
-                              <AlertDialogCancel onClick={() => setDeletingConfig(null)} className="font-sans">取消</AlertDialogCancel>
-                              <AlertDialogAction
-                                onClick={handleDeleteConfirm}
-                                className="bg-destructive hover:bg-destructive/90 font-sans text-destructive-foreground"
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleOpenApiConfigDialog(config)}
+                            aria-label={`编辑主控 ${config.name}`}
+                            disabled={!canManage}
+                            className="font-sans"
+                          >
+                            <Edit3 className="mr-1 h-3.5 w-3.5" />
+                            编辑
+                          </Button>
+                          <AlertDialog>
+                            <AlertDialogTrigger asChild>
+                              <Button
+                                variant="destructive"
+                                size="sm"
+                                onClick={() => setDeletingConfig(config)}
+                                aria-label={`删除主控 ${config.name}`}
+                                disabled={activeApiConfig?.id === config.id || !canManage}
+                                className="font-sans"
                               >
+                                <Trash2 className="mr-1 h-3.5 w-3.5" />
                                 删除
-                              </AlertDialogAction>
-                            </AlertDialogFooter>
-                          </AlertDialogContent>
-                        )}
-                      </AlertDialog>
-                      <Button
-                        variant="default"
-                        size="sm"
-                        onClick={() => handleSetActive(config.id)}
-                        disabled={activeApiConfig?.id === config.id}
-                        aria-label={`激活主控 ${config.name}`}
-                        className="font-sans"
-                      >
-                        <Power className="mr-1 h-3.5 w-3.5" />
-                        {activeApiConfig?.id === config.id ? '当前活动' : '设为活动'}
-                      </Button>
-                    </div>
-                  </TableCell>
-                </TableRow>
+                              </Button>
+                            </AlertDialogTrigger>
+                            {deletingConfig && deletingConfig.id === config.id && (
+                              <AlertDialogContent>
+                                <AlertDialogHeader>
+                                  <AlertDialogTitle className="font-title">确认删除</AlertDialogTitle>
+                                  <AlertDialogDescription className="font-sans">
+                                    确定删除主控 “{deletingConfig.name}”？此操作无法撤销。
+                                  </AlertDialogDescription>
+                                </AlertDialogHeader>
+                                <AlertDialogFooter>
+                                  <AlertDialogCancel onClick={() => setDeletingConfig(null)} className="font-sans">取消</AlertDialogCancel>
+                                  <AlertDialogAction
+                                    onClick={handleDeleteConfirm}
+                                    className="bg-destructive hover:bg-destructive/90 font-sans text-destructive-foreground"
+                                  >
+                                    删除
+                                  </AlertDialogAction>
+                                </AlertDialogFooter>
+                              </AlertDialogContent>
+                            )}
+                          </AlertDialog>
+                          <Button
+                            variant="default"
+                            size="sm"
+                            onClick={() => handleSetActive(config.id)}
+                            disabled={activeApiConfig?.id === config.id}
+                            aria-label={`激活主控 ${config.name}`}
+                            className="font-sans"
+                          >
+                            <Power className="mr-1 h-3.5 w-3.5" />
+                            {activeApiConfig?.id === config.id ? '当前活动' : '设为活动'}
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </React.Fragment>
               ))}
             </TableBody>
           </Table>
@@ -337,6 +473,38 @@ export function ConnectionsManager({ onLog }: ConnectionsManagerProps) {
         isEditing={!!editingApiConfig}
         onLog={onLog}
       />
+      <MasterInfoDialog
+        config={infoConfig}
+        open={!!infoConfig}
+        onOpenChange={(open) => !open && setInfoConfig(null)}
+      />
+      <ImportConnectionsDialog
+        open={!!importPreview}
+        onOpenChange={(open) => !open && setImportPreview(null)}
+        fileName={importPreview?.fileName ?? ''}
+        entries={importPreview?.entries ?? []}
+        existingConfigs={apiConfigsList}
+        onImport={handleImportConfirm}
+      />
+      <ImportSourceDialog
+        open={isImportSourceDialogOpen}
+        onOpenChange={handleImportSourceDialogChange}
+        encryptedSource={encryptedImportSource}
+        error={importSourceError}
+        isBusy={isParsingImport}
+        onSubmit={(content, passphrase) => startImport(encryptedImportSource?.name ?? '粘贴内容', content, passphrase)}
+      />
+      <ExportConnectionsDialog
+        open={isExportDialogOpen}
+        onOpenChange={setIsExportDialogOpen}
+        configs={apiConfigsList}
+        onLog={onLog}
+      />
+      <VaultSettingsDialog
+        open={isVaultDialogOpen}
+        onOpenChange={setIsVaultDialogOpen}
+        onLog={onLog}
+      />
     </div>
   );
 }
@@ -5,6 +5,7 @@ import React from 'react';
 import type { Instance } from '@/types/nodepass';
 import { ConfirmationDialog } from './ConfirmationDialog'; // Import the new generic dialog
 import { Trash2 } from 'lucide-react';
+import { maskTunnelKeyInUrl } from '@/lib/url-utils';
 
 interface DeleteInstanceDialogProps {
   instance: Instance | null;
@@ -27,7 +28,7 @@ export function DeleteInstanceDialog({
     <>
       确定删除实例 <span className="font-semibold">{instance.id}</span>？此操作无法撤销。
       <br />
-      URL: <span className="font-semibold break-all">{instance.url}</span>。
+      URL: <span className="font-semibold break-all">{maskTunnelKeyInUrl(instance.url)}</span>。
     </>
   );
 
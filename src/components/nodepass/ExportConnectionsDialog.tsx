@@ -0,0 +1,264 @@
+
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import { QRCodeSVG } from 'qrcode.react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Textarea } from '@/components/ui/textarea';
+import { AlertTriangle, Copy, Download, Loader2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import type { NamedApiConfig } from '@/hooks/use-api-key';
+import {
+  buildConnectionUri,
+  buildConnectionsBundle,
+  encryptConnectionsBundle,
+} from '@/lib/connections-export';
+import { isServerHeldToken } from '@/lib/panel-storage';
+import type { AppLogEntry } from './EventLog';
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+interface ExportConnectionsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  configs: NamedApiConfig[];
+  onLog?: (message: string, type: AppLogEntry['type']) => void;
+}
+
+function downloadJson(data: unknown, fileName: string) {
+  const link = document.createElement('a');
+  link.href = `data:text/json;charset=utf-8,${encodeURIComponent(JSON.stringify(data, null, 2))}`;
+  link.download = fileName;
+  link.click();
+}
+
+export function ExportConnectionsDialog({ open, onOpenChange, configs, onLog }: ExportConnectionsDialogProps) {
+  const { toast } = useToast();
+  const hasServerHeldTokens = configs.some(config => isServerHeldToken(config.token));
+  const [selectedIds, setSelectedIds] = useState(new Set<string>());
+  const [includeTokens, setIncludeTokens] = useState(true);
+  const [encrypt, setEncrypt] = useState(false);
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const [uriConfigId, setUriConfigId] = useState<string>('');
+  const [uriIncludesToken, setUriIncludesToken] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setSelectedIds(new Set(configs.map(c => c.id)));
+      setIncludeTokens(true);
+      setEncrypt(false);
+      setPassphrase('');
+      setConfirmPassphrase('');
+      setError(null);
+      setUriConfigId(configs[0]?.id ?? '');
+      setUriIncludesToken(false);
+    }
+  }, [open, configs]);
+
+  const toggleSelected = (id: string, checked: boolean) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (checked) next.add(id);
+      else next.delete(id);
+      return next;
+    });
+  };
+
+  const handleExportFile = async () => {
+    const selected = configs.filter(c => selectedIds.has(c.id));
+    if (encrypt) {
+      if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+        setError(`密码至少需要 ${MIN_PASSPHRASE_LENGTH} 个字符。`);
+        return;
+      }
+      if (passphrase !== confirmPassphrase) {
+        setError('两次输入的密码不一致。');
+        return;
+      }
+    }
+    setIsExporting(true);
+    setError(null);
+    try {
+      const bundle = buildConnectionsBundle(selected, { includeTokens });
+      if (encrypt) {
+        downloadJson(await encryptConnectionsBundle(bundle, passphrase), 'nodepass-connections.encrypted.json');
+      } else {
+        downloadJson(bundle, 'nodepass-connections.json');
+      }
+      const details = [`${selected.length} 个主控`, includeTokens ? '含 API 密钥' : '不含 API 密钥'];
+      if (encrypt) details.push('已加密');
+      toast({ title: '配置已导出', description: `已导出 ${details.join('，')}。` });
+      onLog?.(`主控配置已导出 (${details.join('，')})。`, 'INFO');
+      onOpenChange(false);
+    } catch (err: any) {
+      setError(`导出失败: ${err.message || '未知错误'}`);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const uriConfig = configs.find(c => c.id === uriConfigId) ?? null;
+  const connectionUri = uriConfig ? buildConnectionUri(uriConfig, { includeTokens: uriIncludesToken }) : '';
+
+  const handleCopyUri = async () => {
+    if (!navigator.clipboard) {
+      toast({ title: '复制失败', description: '浏览器不支持剪贴板。', variant: 'destructive' });
+      return;
+    }
+    try {
+      await navigator.clipboard.writeText(connectionUri);
+      toast({ title: '已复制', description: '主控连接链接已复制到剪贴板。' });
+    } catch {
+      toast({ title: '复制失败', description: '无法写入剪贴板。', variant: 'destructive' });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="font-title flex items-center">
+            <Download className="mr-2 h-5 w-5 text-primary" />
+            导出主控配置
+          </DialogTitle>
+          <DialogDescription className="font-sans">
+            导出为文件，或将单个主控生成连接链接/二维码分享给他人。
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue="file">
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="file" className="font-sans">导出文件</TabsTrigger>
+            <TabsTrigger value="uri" className="font-sans">连接链接/二维码</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="file" className="space-y-4 pt-2">
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label className="font-sans">选择主控 ({selectedIds.size}/{configs.length})</Label>
+                <Button
+                  variant="link"
+                  size="sm"
+                  className="h-auto p-0 text-xs font-sans"
+                  onClick={() => setSelectedIds(selectedIds.size === configs.length ? new Set() : new Set(configs.map(c => c.id)))}
+                >
+                  {selectedIds.size === configs.length ? '全不选' : '全选'}
+                </Button>
+              </div>
+              <ScrollArea className="max-h-48 border rounded-md">
+                <div className="p-2 space-y-1">
+                  {configs.map(config => (
+                    <label key={config.id} className="flex items-center gap-2 p-1 rounded hover:bg-muted/50 cursor-pointer text-sm">
+                      <Checkbox checked={selectedIds.has(config.id)} onCheckedChange={(checked) => toggleSelected(config.id, checked === true)} />
+                      <span className="font-sans truncate">{config.name}</span>
+                      <span className="font-mono text-xs text-muted-foreground truncate ml-auto">{config.apiUrl}</span>
+                    </label>
+                  ))}
+                </div>
+              </ScrollArea>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <Label htmlFor="export-include-tokens" className="font-sans">包含 API 密钥</Label>
+              <Switch id="export-include-tokens" checked={includeTokens} onCheckedChange={setIncludeTokens} />
+            </div>
+            {includeTokens && hasServerHeldTokens && (
+              <p className="text-xs text-muted-foreground font-sans -mt-2">
+                已启用面板服务器代理，API 密钥仅保存在面板服务器上，导出内容不包含这些密钥。
+              </p>
+            )}
+            <div className="flex items-center justify-between">
+              <Label htmlFor="export-encrypt" className="font-sans">使用密码加密</Label>
+              <Switch id="export-encrypt" checked={encrypt} onCheckedChange={setEncrypt} />
+            </div>
+            {encrypt && (
+              <div className="grid grid-cols-2 gap-2">
+                <Input
+                  type="password"
+                  placeholder="密码"
+                  value={passphrase}
+                  onChange={(e) => setPassphrase(e.target.value)}
+                  autoComplete="new-password"
+                  className="font-sans"
+                />
+                <Input
+                  type="password"
+                  placeholder="确认密码"
+                  value={confirmPassphrase}
+                  onChange={(e) => setConfirmPassphrase(e.target.value)}
+                  autoComplete="new-password"
+                  className="font-sans"
+                />
+              </div>
+            )}
+            {includeTokens && !encrypt && (
+              <p className="text-xs text-yellow-600 dark:text-yellow-400 font-sans flex items-start">
+                <AlertTriangle className="h-3.5 w-3.5 mr-1 mt-0.5 shrink-0" />
+                文件将以明文包含 API 密钥，请妥善保管或启用加密。
+              </p>
+            )}
+            {error && <p className="text-sm text-destructive font-sans">{error}</p>}
+
+            <div className="flex justify-end">
+              <Button onClick={handleExportFile} disabled={selectedIds.size === 0 || isExporting} className="font-sans">
+                {isExporting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Download className="mr-2 h-4 w-4" />}
+                导出 {selectedIds.size} 个主控
+              </Button>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="uri" className="space-y-4 pt-2">
+            <Select value={uriConfigId} onValueChange={setUriConfigId}>
+              <SelectTrigger className="font-sans">
+                <SelectValue placeholder="选择主控" />
+              </SelectTrigger>
+              <SelectContent>
+                {configs.map(config => (
+                  <SelectItem key={config.id} value={config.id} className="font-sans">{config.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="uri-include-token" className="font-sans">包含 API 密钥</Label>
+              <Switch id="uri-include-token" checked={uriIncludesToken} onCheckedChange={setUriIncludesToken} disabled={isServerHeldToken(uriConfig?.token)} />
+            </div>
+            {uriConfig && (
+              <>
+                <div className="flex justify-center rounded-md border bg-white p-4">
+                  <QRCodeSVG value={connectionUri} size={192} level="M" />
+                </div>
+                <div className="flex gap-2">
+                  <Textarea readOnly value={connectionUri} rows={3} className="font-mono text-xs resize-none" />
+                  <Button variant="outline" size="icon" onClick={handleCopyUri} aria-label="复制连接链接">
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                </div>
+                <p className="text-xs text-muted-foreground font-sans">
+                  对方可在“导入配置 → 粘贴导入”中粘贴此链接添加主控。
+                  {uriIncludesToken && !isServerHeldToken(uriConfig.token) && <span className="text-yellow-600 dark:text-yellow-400"> 链接和二维码包含 API 密钥，请勿公开分享。</span>}
+                </p>
+              </>
+            )}
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,193 @@
+
+"use client";
+
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Upload } from 'lucide-react';
+import type { NamedApiConfig } from '@/hooks/use-api-key';
+import {
+  IMPORT_ACTION_LABELS,
+  IMPORT_STATUS_LABELS,
+  resolveImportPlan,
+  type ImportAction,
+  type ImportEntryStatus,
+  type ImportPreviewEntry,
+} from '@/lib/connections-import';
+
+export interface ImportSummary {
+  added: number;
+  overwritten: number;
+  copied: number;
+  skipped: number;
+}
+
+interface ImportConnectionsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  fileName: string;
+  entries: ImportPreviewEntry[];
+  existingConfigs: NamedApiConfig[];
+  onImport: (configs: NamedApiConfig[], summary: ImportSummary) => void;
+}
+
+const STATUS_BADGE_CLASSES: Record<ImportEntryStatus, string> = {
+  new: 'bg-green-500/15 text-green-700 dark:text-green-400 border-green-500/30',
+  identical: 'bg-muted text-muted-foreground',
+  changed: 'bg-yellow-500/15 text-yellow-700 dark:text-yellow-400 border-yellow-500/30',
+  invalid: 'bg-destructive/15 text-destructive border-destructive/30',
+};
+
+export function ImportConnectionsDialog({ open, onOpenChange, fileName, entries, existingConfigs, onImport }: ImportConnectionsDialogProps) {
+  const [actions, setActions] = useState<Record<number, ImportAction>>({});
+
+  useEffect(() => {
+    if (open) setActions(Object.fromEntries(entries.map(entry => [entry.index, entry.actions[0]])));
+  }, [open, entries]);
+
+  const statusCounts = useMemo(() => {
+    const counts: Record<ImportEntryStatus, number> = { new: 0, identical: 0, changed: 0, invalid: 0 };
+    entries.forEach(entry => { counts[entry.status]++; });
+    return counts;
+  }, [entries]);
+
+  const summary = useMemo<ImportSummary>(() => {
+    const result: ImportSummary = { added: 0, overwritten: 0, copied: 0, skipped: 0 };
+    entries.forEach(entry => {
+      const action = actions[entry.index] ?? entry.actions[0];
+      if (action === 'add') result.added++;
+      else if (action === 'overwrite') result.overwritten++;
+      else if (action === 'copy') result.copied++;
+      else result.skipped++;
+    });
+    return result;
+  }, [entries, actions]);
+
+  const importCount = summary.added + summary.overwritten + summary.copied;
+
+  const setActionForStatus = (status: ImportEntryStatus, action: ImportAction) => {
+    setActions(prev => {
+      const next = { ...prev };
+      entries.forEach(entry => {
+        if (entry.status === status && entry.actions.includes(action)) next[entry.index] = action;
+      });
+      return next;
+    });
+  };
+
+  const handleImport = () => {
+    onImport(resolveImportPlan(entries, actions, existingConfigs), summary);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle className="font-title flex items-center">
+            <Upload className="mr-2 h-5 w-5 text-primary" />
+            导入预览
+          </DialogTitle>
+          <DialogDescription className="font-sans break-all">
+            “{fileName}” 共 {entries.length} 条配置：新增 {statusCounts.new}，相同 {statusCounts.identical}，有变更 {statusCounts.changed}，无效 {statusCounts.invalid}。
+            与本地配置按 ID 或 API 地址匹配。
+          </DialogDescription>
+        </DialogHeader>
+
+        {statusCounts.changed > 0 && (
+          <div className="flex flex-wrap items-center gap-2 text-xs font-sans">
+            <span className="text-muted-foreground">有变更的配置:</span>
+            <Button variant="outline" size="sm" className="h-7 text-xs" onClick={() => setActionForStatus('changed', 'skip')}>全部跳过</Button>
+            <Button variant="outline" size="sm" className="h-7 text-xs" onClick={() => setActionForStatus('changed', 'overwrite')}>全部覆盖</Button>
+            <Button variant="outline" size="sm" className="h-7 text-xs" onClick={() => setActionForStatus('changed', 'copy')}>全部作为副本</Button>
+          </div>
+        )}
+
+        <ScrollArea className="max-h-[50vh] border rounded-md">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-[40px] font-sans">#</TableHead>
+                <TableHead className="font-sans">主控</TableHead>
+                <TableHead className="font-sans">状态</TableHead>
+                <TableHead className="w-[150px] font-sans">处理方式</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {entries.map(entry => (
+                <TableRow key={entry.index}>
+                  <TableCell className="text-xs text-muted-foreground">{entry.index}</TableCell>
+                  <TableCell className="text-xs">
+                    {entry.config ? (
+                      <>
+                        <p className="font-medium font-sans break-all">{entry.config.name}</p>
+                        <p className="font-mono text-muted-foreground break-all">{entry.config.apiUrl}</p>
+                      </>
+                    ) : (
+                      <span className="text-muted-foreground italic font-sans">(无法解析)</span>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-xs font-sans">
+                    <Badge variant="outline" className={STATUS_BADGE_CLASSES[entry.status]}>{IMPORT_STATUS_LABELS[entry.status]}</Badge>
+                    {entry.match && (
+                      <p className="text-muted-foreground mt-1 break-all">
+                        {entry.matchedBy === 'id' ? '同 ID' : '同 API 地址'}: “{entry.match.name}”
+                      </p>
+                    )}
+                    {entry.changedFields.length > 0 && (
+                      <p className="text-muted-foreground mt-0.5">变更: {entry.changedFields.join('、')}</p>
+                    )}
+                    {entry.errors.length > 0 && (
+                      <p className="text-destructive mt-1">{entry.errors.join('；')}</p>
+                    )}
+                    {entry.status !== 'invalid' && entry.warnings.length > 0 && (
+                      <p className="text-yellow-600 dark:text-yellow-400 mt-1">
+                        {entry.warnings.join('；')}{entry.match ? '，覆盖时保留本地密钥' : '，导入后请编辑补充'}
+                      </p>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Select
+                      value={actions[entry.index] ?? entry.actions[0]}
+                      onValueChange={(value) => setActions(prev => ({ ...prev, [entry.index]: value as ImportAction }))}
+                      disabled={entry.actions.length < 2}
+                    >
+                      <SelectTrigger className="h-8 text-xs font-sans">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {entry.actions.map(action => (
+                          <SelectItem key={action} value={action} className="text-xs font-sans">{IMPORT_ACTION_LABELS[action]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </ScrollArea>
+
+        <DialogFooter className="sm:items-center">
+          <p className="text-xs text-muted-foreground font-sans sm:mr-auto">
+            导入 {summary.added}，覆盖 {summary.overwritten}，副本 {summary.copied}，跳过 {summary.skipped}
+          </p>
+          <Button variant="outline" onClick={() => onOpenChange(false)} className="font-sans">取消</Button>
+          <Button onClick={handleImport} disabled={importCount === 0} className="font-sans">
+            导入 {importCount} 条
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
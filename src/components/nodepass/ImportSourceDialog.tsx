@@ -0,0 +1,110 @@
+
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { ClipboardPaste, KeyRound, Loader2 } from 'lucide-react';
+
+export interface PendingImportSource {
+  name: string;
+  content: string;
+}
+
+interface ImportSourceDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Set when the content is known to be encrypted: only the passphrase is asked for.
+  encryptedSource: PendingImportSource | null;
+  error: string | null;
+  isBusy: boolean;
+  onSubmit: (content: string, passphrase?: string) => void;
+}
+
+// Paste box for connection links / exported JSON, and passphrase prompt for encrypted exports.
+export function ImportSourceDialog({ open, onOpenChange, encryptedSource, error, isBusy, onSubmit }: ImportSourceDialogProps) {
+  const [content, setContent] = useState('');
+  const [passphrase, setPassphrase] = useState('');
+
+  useEffect(() => {
+    if (!open) {
+      setContent('');
+      setPassphrase('');
+    }
+  }, [open]);
+
+  useEffect(() => {
+    setPassphrase('');
+  }, [encryptedSource]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (encryptedSource) onSubmit(encryptedSource.content, passphrase);
+    else onSubmit(content);
+  };
+
+  const canSubmit = encryptedSource ? passphrase.length > 0 : content.trim().length > 0;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle className="font-title flex items-center">
+              {encryptedSource ? <KeyRound className="mr-2 h-5 w-5 text-primary" /> : <ClipboardPaste className="mr-2 h-5 w-5 text-primary" />}
+              {encryptedSource ? '输入导出密码' : '粘贴导入'}
+            </DialogTitle>
+            <DialogDescription className="font-sans break-all">
+              {encryptedSource
+                ? `“${encryptedSource.name}” 已加密，请输入导出时设置的密码。`
+                : '粘贴主控连接链接 (nodepass-master://...，每行一个) 或导出的 JSON 内容。'}
+            </DialogDescription>
+          </DialogHeader>
+
+          {encryptedSource ? (
+            <div className="space-y-1">
+              <Label htmlFor="import-passphrase" className="font-sans">密码</Label>
+              <Input
+                id="import-passphrase"
+                type="password"
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+                autoFocus
+                className="font-sans"
+                disabled={isBusy}
+              />
+            </div>
+          ) : (
+            <Textarea
+              value={content}
+              onChange={(e) => setContent(e.target.value)}
+              rows={6}
+              placeholder="nodepass-master://connect?name=...&url=..."
+              className="font-mono text-xs"
+              disabled={isBusy}
+            />
+          )}
+          {error && <p className="text-sm text-destructive font-sans">{error}</p>}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} className="font-sans">取消</Button>
+            <Button type="submit" disabled={!canSubmit || isBusy} className="font-sans">
+              {isBusy && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {encryptedSource ? '解密' : '预览'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
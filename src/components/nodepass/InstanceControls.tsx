@@ -11,6 +11,7 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import type { Instance, UpdateInstanceRequest } from '@/types/nodepass';
+import { usePanelSession } from '@/hooks/use-panel-session';
 
 interface InstanceControlsProps {
   instance: Instance;
@@ -19,6 +20,7 @@ interface InstanceControlsProps {
 }
 
 export function InstanceControls({ instance, onAction, isLoading }: InstanceControlsProps) {
+  const { canManage } = usePanelSession();
   const handleAction = (action: UpdateInstanceRequest['action']) => {
     onAction(instance.id, action);
   };
@@ -26,7 +28,13 @@ export function InstanceControls({ instance, onAction, isLoading }: InstanceCont
   return (
     <DropdownMenu>
       <DropdownMenuTrigger asChild>
-        <Button variant="ghost" size="icon" className="h-8 w-8" disabled={isLoading}>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8"
+          disabled={isLoading || !canManage}
+          title={canManage ? undefined : '只读账户无法启动、停止或重启实例'}
+        >
           <MoreVertical className="h-4 w-4" />
           <span className="sr-only">实例操作</span>
         </Button>
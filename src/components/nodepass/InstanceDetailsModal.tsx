@@ -12,12 +12,15 @@ import {
 import { Badge } from '@/components/ui/badge';
 import type { Instance } from '@/types/nodepass';
 import { InstanceStatusBadge } from './InstanceStatusBadge';
-import { ArrowDownCircle, ArrowUpCircle, ServerIcon, SmartphoneIcon, Fingerprint, Cable, KeyRound, Eye, EyeOff, ScrollText, Network, AlertTriangle, Info as InfoIcon, MessageSquare, AlertCircle, Bug, HelpCircle, FileText } from 'lucide-react';
+import { ArrowDownCircle, ArrowUpCircle, ServerIcon, SmartphoneIcon, Fingerprint, Cable, KeyRound, Eye, EyeOff, ScrollText, Network, AlertTriangle, Info as InfoIcon, MessageSquare, AlertCircle, Bug, HelpCircle, FileText, Pencil } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { getEventsUrl } from '@/lib/api';
+import { Button } from '@/components/ui/button';
+import { NodePassNetworkError } from '@/lib/api';
+import { subscribeSharedEventStream } from '@/hooks/use-live-instances';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
 import { cn } from "@/lib/utils";
+import { hasTunnelKey, maskTunnelKeyInUrl } from '@/lib/url-utils';
 
 interface InstanceDetailsModalProps {
   instance: Instance | null;
@@ -25,10 +28,10 @@ interface InstanceDetailsModalProps {
   onOpenChange: (open: boolean) => void;
   apiRoot: string | null;
   apiToken: string | null;
+  onEdit?: (instance: Instance) => void;
 }
 
 const MAX_LOG_LINES = 200;
-const RECONNECT_DELAY = 5000;
 
 const INITIAL_MESSAGE_TEXT = "正在初始化实例日志流...";
 const CONNECTED_MESSAGE_TEXT = "SSE事件流已连接。";
@@ -154,12 +157,10 @@ UDP 流量: ${formatBytes(udpRx)} / ${formatBytes(udpTx)}`;
 }
 
 
-export function InstanceDetailsModal({ instance, open, onOpenChange, apiRoot, apiToken }: InstanceDetailsModalProps) {
+export function InstanceDetailsModal({ instance, open, onOpenChange, apiRoot, apiToken, onEdit }: InstanceDetailsModalProps) {
   const [showApiKey, setShowApiKey] = useState(false);
   const { toast } = useToast();
   const [instanceLogs, setInstanceLogs] = useState<ParsedLogEntry[]>([]);
-  const abortControllerRef = useRef<AbortController | null>(null);
-  const reconnectTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const logCounterRef = useRef(0);
   const hasConnectedAtLeastOnceRef = useRef(false);
 
@@ -171,214 +172,102 @@ export function InstanceDetailsModal({ instance, open, onOpenChange, apiRoot, ap
   }, []);
 
 
-  const connectToSse = useCallback(async () => {
-    if (!instance || !apiRoot || !apiToken || !open) {
+  useEffect(() => {
+    if (!open || !instance || !apiRoot || !apiToken) {
+      setInstanceLogs([]);
+      hasConnectedAtLeastOnceRef.current = false;
       return;
     }
-    if(instance.id === '********') {
-      setInstanceLogs([]); 
+    logCounterRef.current = 0;
+    if (instance.id === '********') {
+      setInstanceLogs([]);
       addLogEntry(parseAndFormatLogLine("此为特殊API Key实例，不展示实时日志。", logCounterRef.current++, 'INFO'));
       return;
     }
 
-    if (abortControllerRef.current) {
-      abortControllerRef.current.abort("Starting new connection attempt");
-    }
-    abortControllerRef.current = new AbortController();
-    const signal = abortControllerRef.current.signal;
-
-    if (reconnectTimeoutRef.current) {
-      clearTimeout(reconnectTimeoutRef.current);
-      reconnectTimeoutRef.current = null;
+    if (!hasConnectedAtLeastOnceRef.current) {
+      setInstanceLogs([]);
+      addLogEntry(parseAndFormatLogLine(INITIAL_MESSAGE_TEXT, logCounterRef.current++, 'INFO'));
     }
 
-    const eventsUrl = getEventsUrl(apiRoot);
-    if (!eventsUrl) {
-        addLogEntry(parseAndFormatLogLine(`事件流URL无效，无法连接。 Root: ${apiRoot}`, logCounterRef.current++, 'ERROR'));
-        return;
-    }
-
-    try {
-      if (!hasConnectedAtLeastOnceRef.current) {
-        setInstanceLogs([]); 
-        addLogEntry(parseAndFormatLogLine(INITIAL_MESSAGE_TEXT, logCounterRef.current++, 'INFO'));
-      }
-
-      const response = await fetch(eventsUrl, {
-        method: 'GET',
-        headers: {
-          'X-API-Key': apiToken,
-          'Accept': 'text/event-stream',
-          'Cache-Control': 'no-cache'
-        },
-        signal,
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text().catch(() => `HTTP error ${response.status}`);
-        throw new Error(`HTTP error ${response.status}: ${errorText}`);
-      }
-      if (!response.body) {
-        throw new Error("Response body is null.");
-      }
-      
-      if (!hasConnectedAtLeastOnceRef.current) {
-        setInstanceLogs([]); 
-        addLogEntry(parseAndFormatLogLine(CONNECTED_MESSAGE_TEXT, logCounterRef.current++, 'INFO'));
-        hasConnectedAtLeastOnceRef.current = true;
-      }
-
-
-      const reader = response.body.getReader();
-      const decoder = new TextDecoder();
-      let buffer = '';
-
-      // eslint-disable-next-line no-constant-condition
-      while (true) {
-        if (signal.aborted) break;
-        const { value, done } = await reader.read();
-        if (signal.aborted) break;
-
-        if (done) {
-          if (!signal.aborted) {
-            addLogEntry(parseAndFormatLogLine(`事件流已关闭，${RECONNECT_DELAY / 1000}秒后尝试重连...`, logCounterRef.current++, 'INFO'));
-            if (!signal.aborted) reconnectTimeoutRef.current = setTimeout(connectToSse, RECONNECT_DELAY);
-          }
-          break;
+    const log = (message: string, level?: ParsedLogEntry['level']) =>
+      addLogEntry(parseAndFormatLogLine(message, logCounterRef.current++, level));
+    let shutdownReceived = false;
+
+    // Shares the master's connection with the instance list instead of opening another one.
+    const { unsubscribe } = subscribeSharedEventStream({ apiUrl: apiRoot, token: apiToken }, {
+      onOpen: () => {
+        if (!hasConnectedAtLeastOnceRef.current) {
+          setInstanceLogs([]);
+          log(CONNECTED_MESSAGE_TEXT, 'INFO');
+          hasConnectedAtLeastOnceRef.current = true;
         }
-
-        buffer += decoder.decode(value, { stream: true });
-        const messageBlocks = buffer.split('\n\n');
-        buffer = messageBlocks.pop() || '';
-
-        for (const block of messageBlocks) {
-          if (block.trim() === '') continue;
-
-          let eventName = 'message'; 
-          let eventData = '';
-          const messageLines = block.split('\n');
-
-          for (const line of messageLines) {
-            if (line.startsWith('event:')) {
-              eventName = line.substring('event:'.length).trim();
-            } else if (line.startsWith('data:')) {
-               if (eventData !== '') eventData += '\n'; 
-               eventData += line.substring('data:'.length).trimStart(); 
-            }
-          }
-          
-          if (eventName === 'instance' && eventData) {
-            try {
-              const jsonData = JSON.parse(eventData);
-              const eventInstanceId = jsonData.instance?.id || 
-                                    (Array.isArray(jsonData.instance) && jsonData.instance.length > 0 ? jsonData.instance[0]?.id : null);
-              
-              if (eventInstanceId === '********' && ['initial', 'create', 'update', 'delete'].includes(jsonData.type)) {
-                continue;
-              }
-
-              if (jsonData.type === 'log') {
-                if (jsonData.instance?.id === instance.id) {
-                  let rawLogData = jsonData.logs || '';
-                  if (typeof rawLogData === 'string') {
-                    addLogEntry(parseAndFormatLogLine(rawLogData, logCounterRef.current++)); 
-                  } else {
-                    addLogEntry(parseAndFormatLogLine(`收到实例 ${instance.id} 的日志，但'logs'字段非字符串。类型: ${typeof rawLogData}`, logCounterRef.current++, 'WARN'));
-                  }
-                }
-              } else if (jsonData.type === 'shutdown') {
-                addLogEntry(parseAndFormatLogLine(`主控服务已关闭事件流。连接将不会自动重试。`, logCounterRef.current++, 'INFO'));
-                if (abortControllerRef.current && !abortControllerRef.current.signal.aborted) {
-                    abortControllerRef.current.abort("Server shutdown event received");
-                }
-                if (reconnectTimeoutRef.current) {
-                    clearTimeout(reconnectTimeoutRef.current);
-                    reconnectTimeoutRef.current = null;
-                }
-                return; 
-              } else if (jsonData.type === 'initial') {
-                  if (Array.isArray(jsonData.instance)) {
-                    addLogEntry(parseAndFormatLogLine(`收到初始实例数据 (${jsonData.instance.length} 个)。`, logCounterRef.current++, 'INFO'));
-                  } else if (typeof jsonData.instance === 'object' && jsonData.instance !== null && jsonData.instance.id !== '********') {
-                    addLogEntry(parseAndFormatLogLine(`收到单个实例初始数据: ${jsonData.instance.id}`, logCounterRef.current++, 'INFO'));
-                  }
-              } else if (jsonData.type === 'create' && jsonData.instance && jsonData.instance.id !== '********') {
-                  addLogEntry(parseAndFormatLogLine(`实例已创建: ${jsonData.instance.id}`, logCounterRef.current++, 'INFO'));
-              } else if (jsonData.type === 'update' && jsonData.instance && jsonData.instance.id !== '********') {
-                  addLogEntry(parseAndFormatLogLine(`实例已更新: ${jsonData.instance.id} 状态: ${jsonData.instance.status}`, logCounterRef.current++, 'INFO'));
-              } else if (jsonData.type === 'delete' && jsonData.instance && jsonData.instance.id !== '********') {
-                  addLogEntry(parseAndFormatLogLine(`实例已删除: ${jsonData.instance.id}`, logCounterRef.current++, 'INFO'));
-              } else if (eventInstanceId !== '********') { 
-                addLogEntry(parseAndFormatLogLine(`未识别的 'instance' 事件数据类型: ${jsonData.type}. Data: ${JSON.stringify(jsonData).substring(0,100)}...`, logCounterRef.current++, 'WARN'));
+      },
+      onEvent: (event) => {
+        const eventInstanceId = event.instance?.id ?? event.instances?.[0]?.id;
+        switch (event.type) {
+          case 'log':
+            if (event.instance?.id === instance.id) {
+              if (typeof event.logs === 'string') {
+                log(event.logs);
+              } else {
+                log(`收到实例 ${instance.id} 的日志，但'logs'字段非字符串。`, 'WARN');
               }
-
-            } catch (e: any) {
-                 if (instance.id !== '********') {
-                    addLogEntry(parseAndFormatLogLine(`解析 'instance' 事件数据错误: ${e.message}. Data snippet: ${eventData.substring(0,100)}...`, logCounterRef.current++, 'ERROR'));
-                 }
             }
-          } else if (eventData && eventName !== 'instance' && instance.id !== '********') { 
-             addLogEntry(parseAndFormatLogLine(`收到事件 "${eventName}" (预期 "instance"). Data: ${eventData.substring(0, 50)}...`, logCounterRef.current++, 'WARN'));
-          }
+            break;
+          case 'shutdown':
+            shutdownReceived = true;
+            log(`主控服务已关闭事件流。连接将不会自动重试。`, 'INFO');
+            break;
+          case 'initial':
+            if (event.instances) {
+              log(`收到初始实例数据 (${event.instances.length} 个)。`, 'INFO');
+            } else if (event.instance && eventInstanceId !== '********') {
+              log(`收到单个实例初始数据: ${event.instance.id}`, 'INFO');
+            }
+            break;
+          case 'create':
+            if (event.instance && eventInstanceId !== '********') log(`实例已创建: ${event.instance.id}`, 'INFO');
+            break;
+          case 'update':
+            if (event.instance && eventInstanceId !== '********') log(`实例已更新: ${event.instance.id} 状态: ${event.instance.status}`, 'INFO');
+            break;
+          case 'delete':
+            if (event.instance && eventInstanceId !== '********') log(`实例已删除: ${event.instance.id}`, 'INFO');
+            break;
         }
-      }
-    } catch (error: any) {
-      if (signal.aborted && error.name === 'AbortError') {
-        // This is an expected abort
-      } else {
-        let displayError = typeof error.message === 'string' ? error.message : '未知连接错误。';
-        if (typeof error.message === 'string' && (error.message.toLowerCase().includes('failed to fetch') || error.message.toLowerCase().includes('networkerror'))) {
-            displayError = '网络错误。请检查连接或服务器CORS设置。';
+      },
+      onInvalidEvent: (error, message) => {
+        log(`解析 'instance' 事件数据错误: ${error.message}. Data snippet: ${message.data.substring(0,100)}...`, 'ERROR');
+      },
+      onMessage: (message) => {
+        log(`收到事件 "${message.event}" (预期 "instance"). Data: ${message.data.substring(0, 50)}...`, 'WARN');
+      },
+      onDisconnect: ({ error, retryInMs }) => {
+        if (shutdownReceived) return;
+        const retryText = retryInMs !== null ? ` ${Math.ceil(retryInMs / 1000)}秒后尝试重连...` : '';
+        if (!error) {
+          log(`事件流已关闭。${retryText}`, 'INFO');
+          return;
         }
-        if (instance.id !== '********') {
-          addLogEntry(parseAndFormatLogLine(`事件流连接错误: ${displayError} ${RECONNECT_DELAY / 1000}秒后尝试重连...`, logCounterRef.current++, 'ERROR'));
-          if (!signal.aborted) {
-            reconnectTimeoutRef.current = setTimeout(connectToSse, RECONNECT_DELAY);
-          }
+        let displayError = error.message || '未知连接错误。';
+        if (error instanceof NodePassNetworkError) {
+          displayError = '网络错误。请检查连接或服务器CORS设置。';
         }
-      }
-    }
-  }, [instance, apiRoot, apiToken, open, addLogEntry]);
-
-
-  useEffect(() => {
-    if (open && instance && apiRoot && apiToken ) {
-      logCounterRef.current = 0;
-      connectToSse(); 
-    } else {
-      if (abortControllerRef.current && !abortControllerRef.current.signal.aborted) {
-        abortControllerRef.current.abort("Modal closed or instance invalid");
-      }
-      abortControllerRef.current = null;
-      if (reconnectTimeoutRef.current) {
-        clearTimeout(reconnectTimeoutRef.current);
-        reconnectTimeoutRef.current = null;
-      }
-      if(!open || !instance){ 
-        setInstanceLogs([]);
-        hasConnectedAtLeastOnceRef.current = false;
-      }
-    }
+        log(`事件流连接错误: ${displayError}${retryText}`, 'ERROR');
+      },
+    });
 
-    return () => {
-      if (abortControllerRef.current && !abortControllerRef.current.signal.aborted) {
-        abortControllerRef.current.abort("Component unmounting or dependencies changed");
-      }
-      abortControllerRef.current = null;
-      if (reconnectTimeoutRef.current) {
-        clearTimeout(reconnectTimeoutRef.current);
-        reconnectTimeoutRef.current = null;
-      }
-    };
+    return unsubscribe;
   // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [open, instance, apiRoot, apiToken]); 
+  }, [open, instance?.id, apiRoot, apiToken, addLogEntry]);
 
 
   useEffect(() => {
     if (open) {
       setShowApiKey(false);
     }
-  }, [open, instance]);
+  }, [open, instance?.id]);
 
   const handleCopyToClipboard = async (textToCopy: string, entity: string) => {
     if (!navigator.clipboard) {
@@ -396,6 +285,8 @@ export function InstanceDetailsModal({ instance, open, onOpenChange, apiRoot, ap
 
   if (!instance) return null;
   const isApiKeyInstance = instance.id === '********';
+  const urlHasTunnelKey = !isApiKeyInstance && hasTunnelKey(instance.url);
+  const displayUrl = urlHasTunnelKey && !showApiKey ? maskTunnelKeyInUrl(instance.url) : instance.url;
 
   const detailItems = [
     {
@@ -445,12 +336,12 @@ export function InstanceDetailsModal({ instance, open, onOpenChange, apiRoot, ap
         <div className="flex items-center justify-between w-full">
           <span
             className={`font-mono text-xs break-all ${isApiKeyInstance ? 'flex-grow' : ''} cursor-pointer hover:text-primary transition-colors duration-150`}
-            title={`点击复制: ${instance.url}`}
+            title={isApiKeyInstance ? '点击复制' : `点击复制: ${displayUrl}`}
             onClick={() => handleCopyToClipboard(instance.url, isApiKeyInstance ? 'API 密钥' : 'URL')}
           >
-            {isApiKeyInstance ? (showApiKey ? instance.url : '••••••••••••••••••••••••••••••••') : instance.url}
+            {isApiKeyInstance ? (showApiKey ? instance.url : '••••••••••••••••••••••••••••••••') : displayUrl}
           </span>
-          {isApiKeyInstance && (
+          {(isApiKeyInstance || urlHasTunnelKey) && (
             <button
               className="p-1 ml-2 rounded-md hover:bg-muted flex-shrink-0"
               onClick={(e) => { e.stopPropagation(); setShowApiKey(!showApiKey);}}
@@ -531,7 +422,15 @@ export function InstanceDetailsModal({ instance, open, onOpenChange, apiRoot, ap
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="sm:max-w-lg max-h-[85vh] flex flex-col">
         <DialogHeader>
-          <DialogTitle className="font-title">实例详情</DialogTitle>
+          <div className="flex items-center justify-between pr-6">
+            <DialogTitle className="font-title">实例详情</DialogTitle>
+            {!isApiKeyInstance && onEdit && (
+              <Button variant="outline" size="sm" className="h-7 font-sans" onClick={() => onEdit(instance)}>
+                <Pencil className="mr-1.5 h-3.5 w-3.5" />
+                编辑
+              </Button>
+            )}
+          </div>
           <DialogDescription className="font-sans">
             实例 <span
                     className="font-semibold font-mono cursor-pointer hover:text-primary transition-colors duration-150 break-all"
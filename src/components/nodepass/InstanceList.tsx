@@ -1,7 +1,8 @@
 
 "use client";
 
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect } from 'react';
+import { useSearchParams } from 'next/navigation';
 import {
   Table,
   TableBody,
@@ -10,25 +11,59 @@ import {
   TableHeader,
   TableRow,
 } from '@/components/ui/table';
-import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
-import { AlertTriangle, Eye, Trash2, ServerIcon, SmartphoneIcon, Search, KeyRound, PlusCircle, CheckCircle } from 'lucide-react';
+import { AlertTriangle, Eye, Pencil, Trash2, ServerIcon, SmartphoneIcon, KeyRound, PlusCircle, CheckCircle, RotateCw, Layers, Play, Square, RotateCcw, ArrowUp, ArrowDown, ArrowUpDown, FilterX } from 'lucide-react';
 import type { Instance, UpdateInstanceRequest } from '@/types/nodepass';
 import { InstanceStatusBadge } from './InstanceStatusBadge';
 import { InstanceControls } from './InstanceControls';
+import { usePanelSession } from '@/hooks/use-panel-session';
+import { recordAudit } from '@/hooks/use-audit-log';
+import { createAuditBatchId } from '@/lib/audit-log';
 import { DeleteInstanceDialog } from './DeleteInstanceDialog';
 import { InstanceDetailsModal } from './InstanceDetailsModal';
 import { useToast } from '@/hooks/use-toast';
+import { ToastAction } from '@/components/ui/toast';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { nodePassApi } from '@/lib/api';
+import { NodePassClient, NodePassAuthError, formatApiErrorMessage, getApiErrorRemediation } from '@/lib/api';
+import { ConfirmationDialog } from './ConfirmationDialog';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Badge } from '@/components/ui/badge';
 import type { NamedApiConfig } from '@/hooks/use-api-key';
+import { useLiveInstances } from '@/hooks/use-live-instances';
+import { useMasterCapabilities } from '@/hooks/use-master-capabilities';
+import { useVirtualRows } from '@/hooks/use-virtual-rows';
 import type { AppLogEntry } from './EventLog';
 import { extractHostname, extractPort, parseNodePassUrl, isWildcardHostname, formatHostForDisplay } from '@/lib/url-utils';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Button } from '@/components/ui/button';
 import { BulkDeleteInstancesDialog } from './BulkDeleteInstancesDialog';
+import { BulkInstanceActionDialog, INSTANCE_ACTION_LABELS, type BulkActionSummary, type InstanceAction } from './BulkInstanceActionDialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { CreateInstanceDialog } from './create-instance-dialog';
+import { InstanceQueryInput } from './InstanceQueryInput';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  INSTANCE_STATUS_FILTER_OPTIONS,
+  INSTANCE_TLS_FILTER_OPTIONS,
+  INSTANCE_TYPE_FILTER_OPTIONS,
+  applyInstanceTableView,
+  hasInstanceColumnFilters,
+  parseInstanceTableView,
+  writeInstanceTableView,
+  type InstanceSortKey,
+  type InstanceTableView,
+} from '@/lib/instance-table';
+import { hasFieldTerms, matchesInstanceQuery, parseInstanceQuery } from '@/lib/instance-query';
+
+const ALL = '__all__';
+// Below this the whole list is rendered; above it only the rows near the viewport.
+const VIRTUALIZE_ROW_THRESHOLD = 100;
+const ESTIMATED_ROW_HEIGHT = 57;
 
 
 function formatBytes(bytes: number) {
@@ -39,6 +74,29 @@ function formatBytes(bytes: number) {
   return parseFloat((bytes / Math.pow(k, i)).toFixed(1)) + ' ' + sizes[i];
 }
 
+function SortableHead({ label, sortKey, view, onSort, className }: {
+  label: string;
+  sortKey: InstanceSortKey;
+  view: InstanceTableView;
+  onSort: (sortKey: InstanceSortKey) => void;
+  className?: string;
+}) {
+  const active = view.sort === sortKey;
+  const Icon = !active ? ArrowUpDown : view.dir === 'asc' ? ArrowUp : ArrowDown;
+  return (
+    <TableHead className={className} aria-sort={active ? (view.dir === 'asc' ? 'ascending' : 'descending') : undefined}>
+      <button
+        type="button"
+        onClick={() => onSort(sortKey)}
+        className={`inline-flex items-center gap-1 font-sans hover:text-foreground ${active ? 'text-foreground' : ''}`}
+      >
+        {label}
+        <Icon className={`h-3.5 w-3.5 ${active ? '' : 'opacity-50'}`} />
+      </button>
+    </TableHead>
+  );
+}
+
 interface InstanceListProps {
   apiId: string | null;
   apiName: string | null;
@@ -48,35 +106,58 @@ interface InstanceListProps {
   apiConfigsList: NamedApiConfig[];
   onLog?: (message: string, type: AppLogEntry['type']) => void;
   onOpenCreateInstanceDialog: () => void;
+  onRequestApiKeyUpdate?: () => void;
+  // Called with the new key after the master issued it; the caller persists it. `verified` is false
+  // when the follow-up check with the new key failed, and the connection should be flagged for review.
+  onApiKeyRotated?: (newToken: string, options: { verified: boolean }) => void;
 }
 
-export function InstanceList({ apiId, apiName, apiRoot, apiToken, activeApiConfig, apiConfigsList, onLog, onOpenCreateInstanceDialog }: InstanceListProps) {
+export function InstanceList({ apiId, apiName, apiRoot, apiToken, activeApiConfig, apiConfigsList, onLog, onOpenCreateInstanceDialog, onRequestApiKeyUpdate, onApiKeyRotated }: InstanceListProps) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const { canManage } = usePanelSession();
 
   const [selectedInstanceForDetails, setSelectedInstanceForDetails] = useState<Instance | null>(null);
   const [selectedInstanceForDelete, setSelectedInstanceForDelete] = useState<Instance | null>(null);
-  const [searchTerm, setSearchTerm] = useState('');
+  const [selectedInstanceForEdit, setSelectedInstanceForEdit] = useState<Instance | null>(null);
+  const searchParams = useSearchParams();
+  // Search, filters and sort live in the query string so a view can be bookmarked or shared.
+  const [view, setView] = useState<InstanceTableView>(() => parseInstanceTableView(searchParams));
+  const searchTerm = view.q;
   const [selectedInstanceIds, setSelectedInstanceIds] = useState(new Set<string>());
   const [isBulkDeleteDialogOpen, setIsBulkDeleteDialogOpen] = useState(false);
   const [isBulkDeleting, setIsBulkDeleting] = useState(false);
+  const [isRotateKeyDialogOpen, setIsRotateKeyDialogOpen] = useState(false);
+  // Selection is captured when the dialog opens so live updates do not reshuffle a running batch.
+  const [bulkAction, setBulkAction] = useState<{ action: InstanceAction; instances: Instance[] } | null>(null);
+
+  const client = useMemo(
+    () => (activeApiConfig && apiRoot && apiToken ? new NodePassClient(activeApiConfig) : null),
+    [activeApiConfig, apiRoot, apiToken]
+  );
+  const { isLive } = useLiveInstances(apiId, client ? activeApiConfig : null);
+  const { capabilities } = useMasterCapabilities(client ? activeApiConfig : null);
 
 
   const { data: instances, isLoading: isLoadingInstances, error: instancesError } = useQuery<Instance[], Error>({
     queryKey: ['instances', apiId],
-    queryFn: () => {
-      if (!apiId || !apiRoot || !apiToken) throw new Error("主控配置不完整。");
-      return nodePassApi.getInstances(apiRoot, apiToken);
+    queryFn: ({ signal }) => {
+      if (!apiId || !client) throw new Error("主控配置不完整。");
+      return client.getInstances({ signal });
     },
-    enabled: !!apiId && !!apiRoot && !!apiToken,
-    refetchInterval: 15000,
+    enabled: !!apiId && !!client,
+    // The event stream keeps the cache current; poll only while it is down.
+    refetchInterval: isLive ? false : 15000,
   });
 
+  const auditMaster = { masterId: apiId ?? undefined, masterName: apiName ?? undefined };
+  const getInstanceUrl = (instanceId: string) => instances?.find(inst => inst.id === instanceId)?.url;
+
 
   const updateInstanceMutation = useMutation({
     mutationFn: ({ instanceId, action }: { instanceId: string, action: UpdateInstanceRequest['action']}) => {
-      if (!apiId || !apiRoot || !apiToken) throw new Error("主控配置不完整。");
-      return nodePassApi.updateInstance(instanceId, { action }, apiRoot, apiToken);
+      if (!apiId || !client) throw new Error("主控配置不完整。");
+      return client.updateInstance(instanceId, { action });
     },
     onSuccess: (data, variables) => {
       const actionTextMap = { start: '启动', stop: '停止', restart: '重启' };
@@ -86,6 +167,7 @@ export function InstanceList({ apiId, apiName, apiRoot, apiToken, activeApiConfi
         description: `实例 ${data.id} 状态已改为 ${data.status}。`,
       });
       onLog?.(`实例 ${data.id} ${actionText}成功，状态: ${data.status}`, 'SUCCESS');
+      recordAudit({ ...auditMaster, action: `instance.${variables.action}`, result: 'success', instanceId: data.id, urlBefore: getInstanceUrl(data.id), urlAfter: data.url });
       queryClient.invalidateQueries({ queryKey: ['instances', apiId] });
     },
     onError: (error: any, variables) => {
@@ -93,24 +175,26 @@ export function InstanceList({ apiId, apiName, apiRoot, apiToken, activeApiConfi
       const actionText = actionTextMap[variables.action] || variables.action;
       toast({
         title: '实例操作失败',
-        description: `实例 ${variables.instanceId} ${actionText}失败: ${error.message || '未知错误。'}`,
+        description: `实例 ${variables.instanceId} ${actionText}失败: ${formatApiErrorMessage(error)}`,
         variant: 'destructive',
       });
       onLog?.(`实例 ${variables.instanceId} ${actionText}失败: ${error.message || '未知错误'}`, 'ERROR');
+      recordAudit({ ...auditMaster, action: `instance.${variables.action}`, result: 'failure', instanceId: variables.instanceId, urlBefore: getInstanceUrl(variables.instanceId), error: error.message || '未知错误' });
     },
   });
 
   const deleteInstanceMutation = useMutation({
-    mutationFn: (instanceId: string) => {
-      if (!apiId || !apiRoot || !apiToken) throw new Error("主控配置不完整。");
-      return nodePassApi.deleteInstance(instanceId, apiRoot, apiToken);
+    mutationFn: ({ instanceId, batchId }: { instanceId: string; batchId?: string }) => {
+      if (!apiId || !client) throw new Error("主控配置不完整。");
+      return client.deleteInstance(instanceId, { audit: { batchId } });
     },
-    onSuccess: (_, instanceId) => {
+    onSuccess: (_, { instanceId, batchId }) => {
       toast({
         title: '实例已删除',
         description: `实例 ${instanceId} 已删除。`,
       });
       onLog?.(`实例 ${instanceId} 已删除。`, 'SUCCESS');
+      recordAudit({ ...auditMaster, action: 'instance.delete', result: 'success', instanceId, urlBefore: getInstanceUrl(instanceId), batchId });
       queryClient.invalidateQueries({ queryKey: ['instances', apiId] });
       queryClient.invalidateQueries({ queryKey: ['allInstancesForTraffic']});
       setSelectedInstanceForDelete(null);
@@ -120,13 +204,64 @@ export function InstanceList({ apiId, apiName, apiRoot, apiToken, activeApiConfi
         return newSet;
       });
     },
-    onError: (error: any, instanceId) => {
+    onError: (error: any, { instanceId, batchId }) => {
       toast({
         title: '删除实例出错',
-        description: `删除实例 ${instanceId} 失败: ${error.message || '未知错误。'}`,
+        description: `删除实例 ${instanceId} 失败: ${formatApiErrorMessage(error)}`,
         variant: 'destructive',
       });
        onLog?.(`删除实例 ${instanceId} 失败: ${error.message || '未知错误'}`, 'ERROR');
+      recordAudit({ ...auditMaster, action: 'instance.delete', result: 'failure', instanceId, urlBefore: getInstanceUrl(instanceId), error: error.message || '未知错误', batchId });
+    },
+  });
+
+  const rotateApiKeyMutation = useMutation({
+    mutationFn: async () => {
+      if (!activeApiConfig || !client) throw new Error("主控配置不完整。");
+      const newToken = await client.rotateApiKey();
+      // The old key is already invalid at this point, so the new one is kept even if the check fails.
+      try {
+        await new NodePassClient({ ...activeApiConfig, token: newToken }, { retries: 1 }).getInstances();
+        return { newToken, verificationError: null };
+      } catch (validationError: any) {
+        return { newToken, verificationError: (validationError.message || '未知错误') as string };
+      }
+    },
+    onSuccess: ({ newToken, verificationError }) => {
+      onApiKeyRotated?.(newToken, { verified: !verificationError });
+      if (verificationError) {
+        toast({
+          title: 'API 密钥已轮换，但未能验证',
+          description: `主控 “${apiName}” 已生成新密钥并保存到连接配置，但使用新密钥访问主控失败: ${verificationError}。请复制新密钥备用，并检查主控连接。`,
+          variant: 'destructive',
+          action: (
+            <ToastAction altText="复制新密钥" onClick={() => handleCopyToClipboard(newToken, '新 API 密钥')}>
+              复制新密钥
+            </ToastAction>
+          ),
+        });
+        onLog?.(`主控 "${apiName}" 的 API 密钥已轮换并保存，但新密钥验证失败 (连接已标记为未验证): ${verificationError}`, 'ERROR');
+      } else {
+        toast({
+          title: 'API 密钥已轮换',
+          description: `主控 “${apiName}” 的新密钥已验证并保存。`,
+        });
+        onLog?.(`主控 "${apiName}" 的 API 密钥已轮换并更新到连接配置。`, 'SUCCESS');
+      }
+      recordAudit({ ...auditMaster, action: 'master.rotate-key', result: 'success', ...(verificationError ? { error: `新密钥验证失败: ${verificationError}` } : {}) });
+      setIsRotateKeyDialogOpen(false);
+      queryClient.invalidateQueries({ queryKey: ['instances', apiId] });
+      queryClient.invalidateQueries({ queryKey: ['masterInfo', apiId] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'API 密钥轮换失败',
+        description: `${formatApiErrorMessage(error)} 已保留原密钥。`,
+        variant: 'destructive',
+      });
+      onLog?.(`主控 "${apiName}" API 密钥轮换失败 (已保留原密钥): ${error.message || '未知错误'}`, 'ERROR');
+      recordAudit({ ...auditMaster, action: 'master.rotate-key', result: 'failure', error: error.message || '未知错误' });
+      setIsRotateKeyDialogOpen(false);
     },
   });
 
@@ -144,17 +279,48 @@ export function InstanceList({ apiId, apiName, apiRoot, apiToken, activeApiConfi
     }
   };
 
-  const filteredInstances = instances?.filter(instance =>
-    instance.id.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    instance.url.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    (instance.id !== '********' && instance.type.toLowerCase().includes(searchTerm.toLowerCase())) ||
-    (instance.id === '********' && ('api key'.includes(searchTerm.toLowerCase()) || '密钥'.includes(searchTerm.toLowerCase()) || (apiName && apiName.toLowerCase().includes(searchTerm.toLowerCase())) ))
-  );
+  useEffect(() => {
+    const next = writeInstanceTableView(view, new URLSearchParams(window.location.search)).toString();
+    if (next !== window.location.search.replace(/^\?/, '')) {
+      window.history.replaceState(null, '', next ? `?${next}` : window.location.pathname);
+    }
+  }, [view]);
+
+  const updateView = (patch: Partial<InstanceTableView>) => setView(prev => ({ ...prev, ...patch }));
 
-  const deletableInstances = useMemo(() => filteredInstances?.filter(inst => inst.id !== '********') || [], [filteredInstances]);
+  // Ascending, then descending, then back to the master's order.
+  const handleSort = (sortKey: InstanceSortKey) => {
+    setView(prev => prev.sort !== sortKey
+      ? { ...prev, sort: sortKey, dir: 'asc' }
+      : prev.dir === 'asc' ? { ...prev, dir: 'desc' } : { ...prev, sort: null, dir: 'asc' });
+  };
+
+  const parsedQuery = useMemo(() => parseInstanceQuery(searchTerm), [searchTerm]);
+
+  // The API key row only answers plain words: its labels, or the key itself.
+  const filteredInstances = useMemo(() => instances?.filter(instance => instance.id === '********'
+    ? !hasFieldTerms(parsedQuery) && parsedQuery.terms.every(term => term.negated !== (
+        instance.url.toLowerCase().includes(term.value) ||
+        ['api key', '密钥', apiName?.toLowerCase() ?? ''].some(label => label.includes(term.value))
+      ))
+    : matchesInstanceQuery(instance, parsedQuery, { masterId: apiId, masterName: apiName })
+  ), [instances, parsedQuery, apiId, apiName]);
 
-  const apiKeyInstance = filteredInstances?.find(inst => inst.id === '********');
-  const otherInstances = filteredInstances?.filter(inst => inst.id !== '********');
+  const hasColumnFilters = hasInstanceColumnFilters(view);
+
+  const deletableInstances = useMemo(() => applyInstanceTableView(filteredInstances ?? [], view), [filteredInstances, view]);
+
+  // The API key row stays pinned on top, but only while no column filter is set: it has no type or TLS mode.
+  const apiKeyInstance = hasColumnFilters ? undefined : filteredInstances?.find(inst => inst.id === '********');
+  const tableRows = useMemo(
+    () => (apiKeyInstance ? [apiKeyInstance, ...deletableInstances] : deletableInstances),
+    [apiKeyInstance, deletableInstances]
+  );
+  const virtualRows = useVirtualRows({
+    count: tableRows.length,
+    estimateRowHeight: ESTIMATED_ROW_HEIGHT,
+    enabled: tableRows.length > VIRTUALIZE_ROW_THRESHOLD,
+  });
 
 
   const handleSelectInstance = (instanceId: string) => {
@@ -182,8 +348,9 @@ export function InstanceList({ apiId, apiName, apiRoot, apiToken, activeApiConfi
     setIsBulkDeleting(true);
     onLog?.(`开始批量删除 ${selectedInstanceIds.size} 个实例...`, 'ACTION');
 
+    const batchId = createAuditBatchId();
     const results = await Promise.allSettled(
-      Array.from(selectedInstanceIds).map(id => deleteInstanceMutation.mutateAsync(id))
+      Array.from(selectedInstanceIds).map(instanceId => deleteInstanceMutation.mutateAsync({ instanceId, batchId }))
     );
 
     let successCount = 0;
@@ -209,6 +376,40 @@ export function InstanceList({ apiId, apiName, apiRoot, apiToken, activeApiConfi
   };
 
 
+  const openBulkActionDialog = (action: InstanceAction) => {
+    const selected = (instances ?? []).filter(inst => selectedInstanceIds.has(inst.id));
+    if (selected.length > 0) setBulkAction({ action, instances: selected });
+  };
+
+  const runBulkInstanceAction = async (instance: Instance, action: InstanceAction, batchId: string) => {
+    if (!client) throw new Error("主控配置不完整。");
+    const audit = { ...auditMaster, action: `instance.${action}` as const, instanceId: instance.id, urlBefore: instance.url, batchId };
+    try {
+      const updated = await client.updateInstance(instance.id, { action }, { audit: { batchId } });
+      recordAudit({ ...audit, result: 'success', urlAfter: updated.url });
+      return updated;
+    } catch (error: any) {
+      recordAudit({ ...audit, result: 'failure', error: error.message || '未知错误' });
+      throw error;
+    }
+  };
+
+  const handleBulkActionComplete = ({ action, succeeded, failed, skipped, cancelled, failures }: BulkActionSummary) => {
+    const actionText = INSTANCE_ACTION_LABELS[action];
+    const parts = [`${succeeded} 成功`, `${failed} 失败`];
+    if (skipped > 0) parts.push(`${skipped} 跳过`);
+    if (cancelled > 0) parts.push(`${cancelled} 取消`);
+    failures.forEach(({ instanceId, error }) => onLog?.(`实例 ${instanceId} ${actionText}失败: ${error}`, 'ERROR'));
+    onLog?.(`批量${actionText}完成: ${parts.join(', ')}。`, failed > 0 ? 'ERROR' : 'SUCCESS');
+    toast({
+      title: failed > 0 ? `批量${actionText}部分失败` : `批量${actionText}完成`,
+      description: parts.join('，') + '。',
+      variant: failed > 0 ? 'destructive' : undefined,
+    });
+    queryClient.invalidateQueries({ queryKey: ['instances', apiId] });
+    queryClient.invalidateQueries({ queryKey: ['allInstancesForTraffic'] });
+  };
+
   const renderSkeletons = () => {
     return Array.from({ length: 3 }).map((_, i) => (
       <TableRow key={`skeleton-${i}`}>
@@ -351,6 +552,7 @@ export function InstanceList({ apiId, apiName, apiRoot, apiToken, activeApiConfi
     return (
       <TableRow
         key={instance.id}
+        data-virtual-row
         className="text-foreground/90 hover:text-foreground"
         onDoubleClick={() => instance.id !== '********' && setSelectedInstanceForDetails(instance)}
         data-state={selectedInstanceIds.has(instance.id) ? "selected" : ""}
@@ -437,6 +639,17 @@ export function InstanceList({ apiId, apiName, apiRoot, apiToken, activeApiConfi
                   isLoading={updateInstanceMutation.isPending && updateInstanceMutation.variables?.instanceId === instance.id}
               />
             )}
+            {instance.id === '********' && onApiKeyRotated && capabilities.features.apiKeyRotation && canManage && (
+              <button
+                  className="p-2 rounded-md hover:bg-muted"
+                  onClick={() => setIsRotateKeyDialogOpen(true)}
+                  aria-label="轮换密钥"
+                  title="轮换密钥"
+                  disabled={rotateApiKeyMutation.isPending}
+              >
+                <RotateCw className={`h-4 w-4 ${rotateApiKeyMutation.isPending ? 'animate-spin' : ''}`} />
+              </button>
+            )}
             <button
                 className="p-2 rounded-md hover:bg-muted"
                 onClick={() => setSelectedInstanceForDetails(instance)}
@@ -444,12 +657,22 @@ export function InstanceList({ apiId, apiName, apiRoot, apiToken, activeApiConfi
             >
                 <Eye className="h-4 w-4" />
             </button>
-            {instance.id !== '********' && (
+            {instance.id !== '********' && canManage && (
+              <button
+                  className="p-2 rounded-md hover:bg-muted"
+                  onClick={() => setSelectedInstanceForEdit(instance)}
+                  aria-label="编辑"
+                  disabled={isBulkDeleting}
+              >
+                <Pencil className="h-4 w-4" />
+              </button>
+            )}
+            {instance.id !== '********' && canManage && (
               <button
                   className="p-2 rounded-md hover:bg-destructive/10 text-destructive"
                   onClick={() => setSelectedInstanceForDelete(instance)}
                   aria-label="删除"
-                  disabled={isBulkDeleting || deleteInstanceMutation.isPending && deleteInstanceMutation.variables === instance.id}
+                  disabled={isBulkDeleting || deleteInstanceMutation.isPending && deleteInstanceMutation.variables?.instanceId === instance.id}
               >
                 <Trash2 className="h-4 w-4" />
               </button>
@@ -460,29 +683,26 @@ export function InstanceList({ apiId, apiName, apiRoot, apiToken, activeApiConfi
   }
 
   const getTableBodyContent = () => {
-    const rowsToRender: React.ReactNode[] = [];
-
     if (isLoadingInstances && !instancesError) {
       return renderSkeletons();
     }
 
-    if (filteredInstances && filteredInstances.length > 0) {
-      if (apiKeyInstance) {
-        rowsToRender.push(renderInstanceRow(apiKeyInstance));
-      }
-      if (otherInstances) {
-        rowsToRender.push(...otherInstances.map(instance => renderInstanceRow(instance)));
-      }
-    }
-
-    if (rowsToRender.length > 0) {
-      return rowsToRender;
+    if (tableRows.length > 0) {
+      return (
+        <>
+          {virtualRows.paddingTop > 0 && <tr aria-hidden style={{ height: virtualRows.paddingTop }} />}
+          {tableRows.slice(virtualRows.start, virtualRows.end).map(instance => renderInstanceRow(instance))}
+          {virtualRows.paddingBottom > 0 && <tr aria-hidden style={{ height: virtualRows.paddingBottom }} />}
+        </>
+      );
     }
 
     let message = "加载中或无可用实例数据。";
     if (apiId && !isLoadingInstances && !instancesError) {
       if (instances && instances.length === 0) {
           message = `主控 "${activeApiConfig?.name || apiName}" 下无实例。`;
+      } else if (hasColumnFilters) {
+          message = `在 "${activeApiConfig?.name || apiName}" 中未找到符合筛选条件的实例。`;
       } else if (searchTerm) {
           message = `在 "${activeApiConfig?.name || apiName}" 中未找到与 "${searchTerm}" 匹配的实例。`;
       }
@@ -507,10 +727,45 @@ export function InstanceList({ apiId, apiName, apiRoot, apiToken, activeApiConfi
       <CardHeader className="flex flex-col sm:flex-row justify-between items-start sm:items-center">
         <div>
           <CardTitle className="font-title">实例概览 (主控: {apiName || 'N/A'})</CardTitle>
-          <CardDescription className="font-sans">管理和监控 NodePass 实例。</CardDescription>
+          <CardDescription className="font-sans flex items-center gap-2">
+            管理和监控 NodePass 实例。
+            {apiId && (
+              <Badge
+                variant="outline"
+                className={`text-xs font-sans ${isLive ? 'border-green-500 text-green-600' : 'text-muted-foreground'}`}
+                title={isLive ? '通过事件流实时更新' : '事件流未连接，每 15 秒轮询一次'}
+              >
+                {isLive ? '实时' : '轮询'}
+              </Badge>
+            )}
+          </CardDescription>
         </div>
         <div className="flex items-center gap-2 mt-4 sm:mt-0 w-full sm:w-auto">
-           {selectedInstanceIds.size > 1 && (
+           {selectedInstanceIds.size > 1 && canManage && (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" size="sm" disabled={isBulkDeleting || !!bulkAction} className="font-sans h-9">
+                  <Layers className="mr-2 h-4 w-4" />
+                  批量操作 ({selectedInstanceIds.size})
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end" className="font-sans">
+                <DropdownMenuItem onClick={() => openBulkActionDialog('start')}>
+                  <Play className="mr-2 h-4 w-4" />
+                  启动选中
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => openBulkActionDialog('stop')}>
+                  <Square className="mr-2 h-4 w-4" />
+                  停止选中
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => openBulkActionDialog('restart')}>
+                  <RotateCcw className="mr-2 h-4 w-4" />
+                  重启选中
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          )}
+           {selectedInstanceIds.size > 1 && canManage && (
             <Button
               variant="destructive"
               size="sm"
@@ -522,17 +777,13 @@ export function InstanceList({ apiId, apiName, apiRoot, apiToken, activeApiConfi
               删除选中 ({selectedInstanceIds.size})
             </Button>
           )}
-          <div className="relative w-full sm:w-auto flex-grow sm:flex-grow-0">
-            <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-            <Input
-              type="search"
-              placeholder="搜索实例..."
-              value={searchTerm}
-              onChange={(e) => setSearchTerm(e.target.value)}
-              className="pl-8 w-full font-sans h-9"
-            />
-          </div>
-          <Button onClick={onOpenCreateInstanceDialog} disabled={!apiRoot || !apiToken} className="font-sans h-9">
+          <InstanceQueryInput
+            value={searchTerm}
+            onChange={(q) => updateView({ q })}
+            masterNames={apiName ? [apiName] : []}
+            className="w-full sm:w-72 flex-grow sm:flex-grow-0"
+          />
+          <Button onClick={onOpenCreateInstanceDialog} disabled={!apiRoot || !apiToken || !canManage} className="font-sans h-9">
             <PlusCircle className="mr-2 h-4 w-4" />
             创建新实例
           </Button>
@@ -545,12 +796,67 @@ export function InstanceList({ apiId, apiName, apiRoot, apiToken, activeApiConfi
           </div>
         )}
         {apiId && instancesError && (
-          <div className="text-destructive-foreground bg-destructive p-4 rounded-md flex items-center font-sans">
-            <AlertTriangle className="h-5 w-5 mr-2" />
-            加载实例错误: {instancesError.message}
+          <div className="text-destructive-foreground bg-destructive p-4 rounded-md font-sans space-y-2">
+            <div className="flex items-center">
+              <AlertTriangle className="h-5 w-5 mr-2 shrink-0" />
+              加载实例错误: {instancesError.message}
+            </div>
+            {getApiErrorRemediation(instancesError) && (
+              <p className="text-sm pl-7">{getApiErrorRemediation(instancesError)}</p>
+            )}
+            {instancesError instanceof NodePassAuthError && onRequestApiKeyUpdate && (
+              <div className="pl-7">
+                <Button variant="secondary" size="sm" onClick={onRequestApiKeyUpdate} className="font-sans">
+                  <KeyRound className="mr-2 h-4 w-4" />
+                  重新输入 API 密钥
+                </Button>
+              </div>
+            )}
           </div>
         )}
         {apiId && !instancesError && (
+        <div className="flex flex-wrap items-center gap-2 mb-4">
+          <Select value={view.status ?? ALL} onValueChange={(value) => updateView({ status: value === ALL ? null : value as InstanceTableView['status'] })}>
+            <SelectTrigger className="w-[140px] h-9 font-sans" aria-label="按状态筛选"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL} className="font-sans">全部状态</SelectItem>
+              {INSTANCE_STATUS_FILTER_OPTIONS.map(option => (
+                <SelectItem key={option.value} value={option.value} className="font-sans">{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={view.type ?? ALL} onValueChange={(value) => updateView({ type: value === ALL ? null : value as InstanceTableView['type'] })}>
+            <SelectTrigger className="w-[140px] h-9 font-sans" aria-label="按类型筛选"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL} className="font-sans">全部类型</SelectItem>
+              {INSTANCE_TYPE_FILTER_OPTIONS.map(option => (
+                <SelectItem key={option.value} value={option.value} className="font-sans">{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={view.tls ?? ALL} onValueChange={(value) => updateView({ tls: value === ALL ? null : value as InstanceTableView['tls'] })}>
+            <SelectTrigger className="w-[160px] h-9 font-sans" aria-label="按 TLS 模式筛选"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL} className="font-sans">全部 TLS 模式</SelectItem>
+              {INSTANCE_TLS_FILTER_OPTIONS.map(option => (
+                <SelectItem key={option.value} value={option.value} className="font-sans">TLS {option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {hasColumnFilters && (
+            <Button variant="ghost" size="sm" onClick={() => updateView({ status: null, type: null, tls: null })} className="font-sans h-9">
+              <FilterX className="mr-2 h-4 w-4" />
+              清除筛选
+            </Button>
+          )}
+          {instances && (
+            <span className="ml-auto text-xs text-muted-foreground font-sans">
+              显示 {deletableInstances.length} / {instances.filter(inst => inst.id !== '********').length} 个实例
+            </span>
+          )}
+        </div>
+        )}
+        {apiId && !instancesError && (
         <div className="overflow-x-auto">
           <Table>
             <TableHeader>
@@ -571,15 +877,15 @@ export function InstanceList({ apiId, apiName, apiRoot, apiToken, activeApiConfi
                   />
                 </TableHead>
                 <TableHead className="font-sans">ID</TableHead>
-                <TableHead className="font-sans">类型</TableHead>
-                <TableHead className="font-sans">状态</TableHead>
-                <TableHead className="font-sans">隧道地址</TableHead>
+                <SortableHead label="类型" sortKey="type" view={view} onSort={handleSort} />
+                <SortableHead label="状态" sortKey="status" view={view} onSort={handleSort} />
+                <SortableHead label="隧道地址 (端口)" sortKey="port" view={view} onSort={handleSort} />
                 <TableHead className="font-sans">目标地址</TableHead>
-                <TableHead className="text-left whitespace-nowrap font-sans">流量 (TCP | UDP)</TableHead>
+                <SortableHead label="流量 (TCP | UDP)" sortKey="traffic" view={view} onSort={handleSort} className="text-left whitespace-nowrap" />
                 <TableHead className="text-right font-sans">操作</TableHead>
               </TableRow>
             </TableHeader>
-            <TableBody>
+            <TableBody ref={virtualRows.bodyRef}>
               {getTableBodyContent()}
             </TableBody>
           </Table>
@@ -588,18 +894,50 @@ export function InstanceList({ apiId, apiName, apiRoot, apiToken, activeApiConfi
       </CardContent>
 
       <InstanceDetailsModal
-        instance={selectedInstanceForDetails}
+        instance={selectedInstanceForDetails ? (instances?.find(inst => inst.id === selectedInstanceForDetails.id) ?? selectedInstanceForDetails) : null}
         open={!!selectedInstanceForDetails}
         onOpenChange={(open) => !open && setSelectedInstanceForDetails(null)}
         apiRoot={apiRoot}
         apiToken={apiToken}
+        onEdit={(instance) => {
+          setSelectedInstanceForDetails(null);
+          setSelectedInstanceForEdit(instance);
+        }}
+      />
+      <CreateInstanceDialog
+        open={!!selectedInstanceForEdit}
+        onOpenChange={(open) => !open && setSelectedInstanceForEdit(null)}
+        apiId={apiId}
+        apiRoot={apiRoot}
+        apiToken={apiToken}
+        apiName={apiName}
+        activeApiConfig={activeApiConfig}
+        onLog={onLog}
+        instanceToEdit={selectedInstanceForEdit ? (instances?.find(inst => inst.id === selectedInstanceForEdit.id) ?? selectedInstanceForEdit) : null}
       />
       <DeleteInstanceDialog
         instance={selectedInstanceForDelete}
         open={!!selectedInstanceForDelete}
         onOpenChange={(open) => !open && setSelectedInstanceForDelete(null)}
-        onConfirmDelete={(id) => deleteInstanceMutation.mutate(id)}
-        isLoading={deleteInstanceMutation.isPending && deleteInstanceMutation.variables === selectedInstanceForDelete?.id}
+        onConfirmDelete={(id) => deleteInstanceMutation.mutate({ instanceId: id })}
+        isLoading={deleteInstanceMutation.isPending && deleteInstanceMutation.variables?.instanceId === selectedInstanceForDelete?.id}
+      />
+      <ConfirmationDialog
+        open={isRotateKeyDialogOpen}
+        onOpenChange={setIsRotateKeyDialogOpen}
+        title="轮换 API 密钥"
+        description={<>主控 “{apiName}” 将生成新的 API 密钥，旧密钥立即失效。新密钥验证通过后会自动保存到此连接；其他使用旧密钥的面板或脚本需要手动更新。</>}
+        onConfirm={() => rotateApiKeyMutation.mutate()}
+        confirmText="轮换密钥"
+        ConfirmButtonIcon={RotateCw}
+        isLoading={rotateApiKeyMutation.isPending}
+      />
+      <BulkInstanceActionDialog
+        action={bulkAction?.action ?? null}
+        instances={bulkAction?.instances ?? []}
+        onOpenChange={(open) => { if (!open) setBulkAction(null); }}
+        runAction={runBulkInstanceAction}
+        onComplete={handleBulkActionComplete}
       />
       <BulkDeleteInstancesDialog
         selectedInstances={
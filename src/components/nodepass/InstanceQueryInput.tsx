@@ -0,0 +1,152 @@
+"use client";
+
+import React, { useMemo, useRef, useState } from 'react';
+import { Search, AlertTriangle } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { cn } from '@/lib/utils';
+import { getInstanceQuerySuggestions, parseInstanceQuery, type InstanceQueryError } from '@/lib/instance-query';
+
+interface InstanceQueryInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  masterNames?: string[]; // Completions for master:
+  placeholder?: string;
+  className?: string;
+}
+
+// The query with its invalid terms marked, shown under the input while it has errors.
+function HighlightedQuery({ query, errors }: { query: string; errors: InstanceQueryError[] }) {
+  const parts: React.ReactNode[] = [];
+  let offset = 0;
+  errors.forEach((error, index) => {
+    if (error.start > offset) parts.push(query.slice(offset, error.start));
+    parts.push(
+      <mark key={index} className="bg-destructive/15 text-destructive underline decoration-wavy decoration-destructive rounded-sm">
+        {query.slice(error.start, error.end)}
+      </mark>
+    );
+    offset = error.end;
+  });
+  parts.push(query.slice(offset));
+  return <div className="font-mono text-xs whitespace-pre-wrap break-all">{parts}</div>;
+}
+
+/** Search box for the instance query language, with completions and error highlighting. */
+export function InstanceQueryInput({ value, onChange, masterNames, placeholder = '搜索实例，如 type:server status:error', className }: InstanceQueryInputProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [focused, setFocused] = useState(false);
+  const [caret, setCaret] = useState(0);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [dismissed, setDismissed] = useState(false);
+
+  const parsed = useMemo(() => parseInstanceQuery(value), [value]);
+  // The term being typed is not flagged until the caret leaves it.
+  const errors = focused ? parsed.errors.filter(error => caret < error.start || caret > error.end) : parsed.errors;
+  const suggestions = useMemo(
+    () => getInstanceQuerySuggestions(value, caret, { masterNames }),
+    [value, caret, masterNames]
+  );
+  const showSuggestions = focused && !dismissed && (suggestions.items.length > 0 || !!suggestions.hint);
+  const showErrors = focused && errors.length > 0;
+  const errorSummary = errors.map(error => error.message).join('\n');
+
+  const syncCaret = () => {
+    setCaret(inputRef.current?.selectionStart ?? value.length);
+  };
+
+  const applySuggestion = (index: number) => {
+    const item = suggestions.items[index];
+    if (!item) return;
+    const next = value.slice(0, suggestions.from) + item.insert + value.slice(suggestions.to);
+    const nextCaret = suggestions.from + item.insert.length;
+    onChange(next);
+    setCaret(nextCaret);
+    setActiveIndex(0);
+    requestAnimationFrame(() => inputRef.current?.setSelectionRange(nextCaret, nextCaret));
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'Escape') {
+      setDismissed(true);
+      return;
+    }
+    if (!showSuggestions || suggestions.items.length === 0) return;
+    if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+      event.preventDefault();
+      const step = event.key === 'ArrowDown' ? 1 : -1;
+      setActiveIndex(prev => (prev + step + suggestions.items.length) % suggestions.items.length);
+    } else if (event.key === 'Enter' || event.key === 'Tab') {
+      event.preventDefault();
+      applySuggestion(Math.min(activeIndex, suggestions.items.length - 1));
+    }
+  };
+
+  return (
+    <div className={cn('relative', className)}>
+      <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+      <Input
+        ref={inputRef}
+        type="search"
+        placeholder={placeholder}
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setCaret(e.target.selectionStart ?? e.target.value.length);
+          setActiveIndex(0);
+          setDismissed(false);
+        }}
+        onKeyDown={handleKeyDown}
+        onKeyUp={syncCaret}
+        onClick={syncCaret}
+        onFocus={() => { setFocused(true); syncCaret(); }}
+        onBlur={() => setFocused(false)}
+        className={cn('pl-8 w-full font-sans h-9', errors.length > 0 && 'border-destructive focus-visible:border-destructive')}
+        title={errorSummary || undefined}
+        aria-invalid={errors.length > 0}
+        aria-autocomplete="list"
+        aria-expanded={showSuggestions}
+        spellCheck={false}
+        autoComplete="off"
+      />
+      {!focused && errors.length > 0 && (
+        <AlertTriangle className="absolute right-2.5 top-1/2 -translate-y-1/2 h-4 w-4 text-destructive pointer-events-none" />
+      )}
+      {(showSuggestions || showErrors) && (
+        <div className="absolute left-0 right-0 top-full mt-1 z-50 min-w-[16rem] rounded-md border bg-popover text-popover-foreground shadow-md">
+          {showSuggestions && suggestions.items.length > 0 && (
+            <ul role="listbox" className="max-h-60 overflow-y-auto p-1">
+              {suggestions.items.map((item, index) => (
+                <li
+                  key={item.insert}
+                  role="option"
+                  aria-selected={index === activeIndex}
+                  // Keep focus in the input; a click would otherwise blur it before applying.
+                  onMouseDown={(e) => { e.preventDefault(); applySuggestion(index); }}
+                  onMouseEnter={() => setActiveIndex(index)}
+                  className={cn(
+                    'flex items-center justify-between gap-4 rounded-sm px-2 py-1.5 text-sm cursor-pointer',
+                    index === activeIndex && 'bg-accent text-accent-foreground'
+                  )}
+                >
+                  <span className="font-mono">{item.label}</span>
+                  {item.description && <span className="text-xs text-muted-foreground font-sans">{item.description}</span>}
+                </li>
+              ))}
+            </ul>
+          )}
+          {showSuggestions && suggestions.hint && (
+            <p className="px-3 py-2 text-xs text-muted-foreground font-sans">{suggestions.hint}</p>
+          )}
+          {showErrors && (
+            <div className="border-t first:border-t-0 px-3 py-2 space-y-1">
+              <HighlightedQuery query={value} errors={errors} />
+              {errors.map((error, index) => (
+                <p key={index} className="text-xs text-destructive font-sans">{error.message}</p>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
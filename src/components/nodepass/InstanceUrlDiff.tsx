@@ -0,0 +1,49 @@
+
+"use client";
+
+import React from 'react';
+import { ArrowRight } from 'lucide-react';
+import { diffNodePassUrls, maskTunnelKeyInUrl } from '@/lib/url-utils';
+
+interface InstanceUrlDiffProps {
+  beforeUrl: string;
+  afterUrl: string;
+}
+
+export function InstanceUrlDiff({ beforeUrl, afterUrl }: InstanceUrlDiffProps) {
+  const changes = diffNodePassUrls(beforeUrl, afterUrl);
+
+  return (
+    <div className="space-y-3 font-sans">
+      <div className="rounded-md border border-border/50 divide-y divide-border/50">
+        {changes.length === 0 && (
+          <p className="text-xs text-muted-foreground p-2">配置未发生变化。</p>
+        )}
+        {changes.map(change => (
+          <div key={change.field} className="grid grid-cols-[6rem_1fr] gap-2 p-2 text-xs items-center">
+            <span className="text-muted-foreground">{change.label}</span>
+            <div className="flex flex-wrap items-center gap-1.5 font-mono break-all">
+              <span className={change.before ? 'text-destructive line-through' : 'text-muted-foreground italic'}>
+                {change.before ?? '(未设置)'}
+              </span>
+              <ArrowRight className="h-3 w-3 text-muted-foreground shrink-0" />
+              <span className={change.after ? 'text-green-600 dark:text-green-400' : 'text-muted-foreground italic'}>
+                {change.after ?? '(移除)'}
+              </span>
+            </div>
+          </div>
+        ))}
+      </div>
+      <div className="space-y-1 text-xs">
+        <div>
+          <span className="text-muted-foreground">原 URL:</span>
+          <p className="font-mono break-all bg-muted/30 rounded p-1.5 mt-0.5">{maskTunnelKeyInUrl(beforeUrl)}</p>
+        </div>
+        <div>
+          <span className="text-muted-foreground">新 URL:</span>
+          <p className="font-mono break-all bg-muted/30 rounded p-1.5 mt-0.5">{maskTunnelKeyInUrl(afterUrl)}</p>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+
+"use client";
+
+import React, { useMemo } from 'react';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Search, X } from 'lucide-react';
+import type { NamedApiConfig } from '@/hooks/use-api-key';
+import {
+  UNGROUPED_LABEL,
+  collectGroups,
+  collectTags,
+  isMasterFilterActive,
+  type MasterFilter,
+  EMPTY_MASTER_FILTER,
+} from '@/lib/master-groups';
+
+// Select values can't be empty strings, so "any" and "ungrouped" get sentinel values.
+const ANY_VALUE = '__any__';
+const UNGROUPED_VALUE = '__ungrouped__';
+
+interface MasterFilterBarProps {
+  configs: NamedApiConfig[];
+  filter: MasterFilter;
+  onFilterChange: (filter: MasterFilter) => void;
+  compact?: boolean; // Stacked layout for narrow sidebars.
+}
+
+export function MasterFilterBar({ configs, filter, onFilterChange, compact = false }: MasterFilterBarProps) {
+  const groups = useMemo(() => collectGroups(configs), [configs]);
+  const tags = useMemo(() => collectTags(configs), [configs]);
+  const hasUngrouped = configs.some(c => !c.group);
+
+  const groupValue = filter.group === null ? ANY_VALUE : filter.group === '' ? UNGROUPED_VALUE : filter.group;
+  const selectClass = compact ? 'h-8 text-xs font-sans' : 'h-9 w-[140px] text-sm font-sans';
+
+  return (
+    <div className={compact ? 'space-y-1.5' : 'flex flex-wrap items-center gap-2'}>
+      <div className={`relative ${compact ? '' : 'flex-grow sm:flex-grow-0 sm:w-64'}`}>
+        <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 h-3.5 w-3.5 text-muted-foreground" />
+        <Input
+          value={filter.query}
+          onChange={(e) => onFilterChange({ ...filter, query: e.target.value })}
+          placeholder="搜索名称、地址、tag:标签"
+          className={`pl-8 font-sans ${compact ? 'h-8 text-xs' : 'h-9 text-sm'}`}
+        />
+      </div>
+      {(groups.length > 0 || tags.length > 0) && (
+        <div className={compact ? 'grid grid-cols-2 gap-1.5' : 'flex gap-2'}>
+          {groups.length > 0 && (
+            <Select
+              value={groupValue}
+              onValueChange={(value) => onFilterChange({ ...filter, group: value === ANY_VALUE ? null : value === UNGROUPED_VALUE ? '' : value })}
+            >
+              <SelectTrigger className={selectClass}>
+                <SelectValue placeholder="分组" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY_VALUE} className="font-sans">全部分组</SelectItem>
+                {groups.map(group => <SelectItem key={group} value={group} className="font-sans">{group}</SelectItem>)}
+                {hasUngrouped && <SelectItem value={UNGROUPED_VALUE} className="font-sans">{UNGROUPED_LABEL}</SelectItem>}
+              </SelectContent>
+            </Select>
+          )}
+          {tags.length > 0 && (
+            <Select
+              value={filter.tag ?? ANY_VALUE}
+              onValueChange={(value) => onFilterChange({ ...filter, tag: value === ANY_VALUE ? null : value })}
+            >
+              <SelectTrigger className={selectClass}>
+                <SelectValue placeholder="标签" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY_VALUE} className="font-sans">全部标签</SelectItem>
+                {tags.map(tag => <SelectItem key={tag} value={tag} className="font-sans">{tag}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+      )}
+      {isMasterFilterActive(filter) && !compact && (
+        <Button variant="ghost" size="sm" onClick={() => onFilterChange(EMPTY_MASTER_FILTER)} className="h-9 font-sans">
+          <X className="mr-1 h-3.5 w-3.5" />
+          清除
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+"use client";
+
+import React from 'react';
+import { cn } from '@/lib/utils';
+import { useMasterHealth } from '@/hooks/use-master-health';
+import {
+  MASTER_HEALTH_STATUS_LABELS,
+  formatUptimePercent,
+  type MasterHealthSample,
+  type MasterHealthStatus,
+  type MasterHealthSummary,
+} from '@/lib/master-health';
+
+const STATUS_DOT_CLASSES: Record<MasterHealthStatus, string> = {
+  unknown: 'bg-muted-foreground/40',
+  healthy: 'bg-green-500',
+  degraded: 'bg-yellow-500',
+  down: 'bg-destructive',
+};
+
+function describeHealth(summary: MasterHealthSummary): string {
+  if (summary.status === 'unknown') return MASTER_HEALTH_STATUS_LABELS.unknown;
+  const lines = [`健康状态: ${MASTER_HEALTH_STATUS_LABELS[summary.status]}`];
+  if (summary.latestLatencyMs !== null) lines.push(`延迟: ${summary.latestLatencyMs} ms (平均 ${summary.averageLatencyMs} ms)`);
+  lines.push(`可用率: ${formatUptimePercent(summary.uptimePercent)} (最近 ${summary.sampleCount} 次检测)`);
+  if (summary.lastError) lines.push(`问题: ${summary.lastError}`);
+  if (summary.lastCheckedAt) lines.push(`检测于: ${new Date(summary.lastCheckedAt).toLocaleTimeString('zh-CN', { hour12: false })}`);
+  return lines.join('\n');
+}
+
+export function MasterHealthDot({ masterId, className }: { masterId: string; className?: string }) {
+  const { summary } = useMasterHealth(masterId);
+  return (
+    <span
+      className={cn('inline-block h-2 w-2 rounded-full flex-shrink-0', STATUS_DOT_CLASSES[summary.status], className)}
+      title={describeHealth(summary)}
+      aria-label={`健康状态: ${MASTER_HEALTH_STATUS_LABELS[summary.status]}`}
+    />
+  );
+}
+
+// Latency over the history; unreachable samples are marked in red along the bottom edge.
+export function MasterHealthSparkline({ samples, width = 80, height = 20, className }: { samples: MasterHealthSample[]; width?: number; height?: number; className?: string }) {
+  if (samples.length < 2) return <svg width={width} height={height} className={className} aria-hidden />;
+  const maxLatency = Math.max(1, ...samples.map(sample => sample.latencyMs ?? 0));
+  const step = width / (samples.length - 1);
+  const y = (latency: number) => height - 1 - (latency / maxLatency) * (height - 2);
+  const segments: string[] = [];
+  let current = '';
+  samples.forEach((sample, index) => {
+    if (sample.latencyMs === null) {
+      if (current) segments.push(current);
+      current = '';
+      return;
+    }
+    current += `${current ? ' L' : 'M'}${(index * step).toFixed(1)},${y(sample.latencyMs).toFixed(1)}`;
+  });
+  if (current) segments.push(current);
+  return (
+    <svg width={width} height={height} className={cn('overflow-visible', className)} aria-hidden>
+      {segments.map((path, index) => (
+        <path key={index} d={path} fill="none" stroke="hsl(var(--primary))" strokeWidth={1.5} strokeLinejoin="round" />
+      ))}
+      {samples.map((sample, index) => !sample.reachable && (
+        <rect key={`down-${index}`} x={index * step - 1} y={height - 3} width={2} height={3} className="fill-destructive" />
+      ))}
+    </svg>
+  );
+}
+
+// Dot, latency sparkline and uptime; used in the master list.
+export function MasterHealthSummaryView({ masterId }: { masterId: string }) {
+  const { samples, summary } = useMasterHealth(masterId);
+  return (
+    <div className="flex items-center gap-2 text-xs font-sans" title={describeHealth(summary)}>
+      <span className={cn('inline-block h-2 w-2 rounded-full flex-shrink-0', STATUS_DOT_CLASSES[summary.status])} />
+      {summary.status === 'unknown' ? (
+        <span className="text-muted-foreground">{MASTER_HEALTH_STATUS_LABELS.unknown}</span>
+      ) : (
+        <>
+          <MasterHealthSparkline samples={samples} />
+          <span className="tabular-nums whitespace-nowrap">
+            {summary.latestLatencyMs !== null ? `${summary.latestLatencyMs} ms` : MASTER_HEALTH_STATUS_LABELS.down}
+          </span>
+          <span className="text-muted-foreground tabular-nums whitespace-nowrap">{formatUptimePercent(summary.uptimePercent)}</span>
+        </>
+      )}
+    </div>
+  );
+}
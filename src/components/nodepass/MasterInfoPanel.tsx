@@ -0,0 +1,123 @@
+
+"use client";
+
+import React from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { AlertTriangle, Cpu, Clock, HardDrive, Info, Monitor, RefreshCw, Route, Tag, Server } from 'lucide-react';
+import type { NamedApiConfig } from '@/hooks/use-api-key';
+import { useMasterInfo } from '@/hooks/use-master-info';
+import { getApiErrorSummary } from '@/lib/api';
+import {
+  UNKNOWN_MASTER_FIELD,
+  formatCpuUsage,
+  formatMemoryUsage,
+  formatPlatform,
+  formatUptime,
+  getApiPrefix,
+} from '@/lib/master-info';
+
+// Compact version / platform / uptime line for the connections table.
+export function MasterInfoSummary({ config }: { config: NamedApiConfig }) {
+  const { data: info, isLoading, error } = useMasterInfo(config);
+
+  if (isLoading) return <Skeleton className="h-4 w-24" />;
+  if (error) {
+    return (
+      <span className="text-xs text-destructive flex items-center font-sans" title={error.message}>
+        <AlertTriangle className="h-3.5 w-3.5 mr-1" />
+        {getApiErrorSummary(error)}
+      </span>
+    );
+  }
+  return (
+    <div className="flex flex-wrap items-center gap-1.5 text-xs font-sans">
+      <Badge variant="outline" className="font-mono text-xs">{info?.ver || UNKNOWN_MASTER_FIELD}</Badge>
+      <span className="text-muted-foreground">{formatPlatform(info)}</span>
+      {info?.uptime !== undefined && (
+        <span className="text-muted-foreground" title="运行时间">· {formatUptime(info.uptime)}</span>
+      )}
+    </div>
+  );
+}
+
+interface MasterInfoDialogProps {
+  config: NamedApiConfig | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function MasterInfoDialog({ config, open, onOpenChange }: MasterInfoDialogProps) {
+  const { data: info, isLoading, isFetching, error, refetch } = useMasterInfo(config, { enabled: open });
+
+  if (!config) return null;
+
+  const rows: Array<{ icon: React.ReactNode; label: string; value: string; mono?: boolean }> = [
+    { icon: <Tag className="h-4 w-4" />, label: '版本', value: info?.ver || UNKNOWN_MASTER_FIELD, mono: true },
+    { icon: <Monitor className="h-4 w-4" />, label: '系统/架构', value: formatPlatform(info), mono: true },
+    { icon: <Server className="h-4 w-4" />, label: '主机名', value: info?.name || info?.alias || UNKNOWN_MASTER_FIELD },
+    { icon: <Clock className="h-4 w-4" />, label: '运行时间', value: formatUptime(info?.uptime) },
+    { icon: <Cpu className="h-4 w-4" />, label: 'CPU', value: formatCpuUsage(info) },
+    { icon: <HardDrive className="h-4 w-4" />, label: '内存', value: formatMemoryUsage(info) },
+    { icon: <Route className="h-4 w-4" />, label: 'API 前缀', value: getApiPrefix(config.apiUrl), mono: true },
+  ];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="font-title flex items-center">
+            <Info className="mr-2 h-5 w-5 text-primary" />
+            主控信息
+          </DialogTitle>
+          <DialogDescription className="font-sans break-all">
+            “{config.name}” ({config.apiUrl})
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <div className="text-destructive-foreground bg-destructive p-3 rounded-md text-sm font-sans flex items-start">
+            <AlertTriangle className="h-4 w-4 mr-2 mt-0.5 shrink-0" />
+            获取主控信息失败: {error.message}
+          </div>
+        )}
+        {!error && !isLoading && info === null && (
+          <p className="text-xs text-muted-foreground font-sans">
+            该主控未提供信息接口 (/info)，可能是较旧的版本，部分信息显示为“{UNKNOWN_MASTER_FIELD}”。
+          </p>
+        )}
+
+        <div className="space-y-1">
+          {rows.map(row => (
+            <div key={row.label} className="flex items-center justify-between py-1.5 border-b border-border/50 last:border-b-0 text-sm">
+              <span className="flex items-center text-muted-foreground font-sans">
+                <span className="mr-2">{row.icon}</span>
+                {row.label}
+              </span>
+              {isLoading ? (
+                <Skeleton className="h-4 w-24" />
+              ) : (
+                <span className={`text-right break-all ml-2 ${row.mono ? 'font-mono text-xs' : 'font-sans'}`}>{row.value}</span>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="flex justify-end">
+          <Button variant="outline" size="sm" onClick={() => refetch()} disabled={isFetching} className="font-sans">
+            <RefreshCw className={`mr-1 h-3.5 w-3.5 ${isFetching ? 'animate-spin' : ''}`} />
+            刷新
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
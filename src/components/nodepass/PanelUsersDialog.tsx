@@ -0,0 +1,234 @@
+"use client";
+
+import React, { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Separator } from '@/components/ui/separator';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { KeyRound, Loader2, Trash2, UserPlus, Users } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { usePanelSession } from '@/hooks/use-panel-session';
+import {
+  MIN_PANEL_PASSWORD_LENGTH,
+  PANEL_ROLES,
+  PANEL_ROLE_LABELS,
+  createPanelUser,
+  deletePanelUser,
+  listPanelUsers,
+  updatePanelUser,
+  type PanelRole,
+  type PanelUser,
+} from '@/lib/panel-auth';
+import type { AppLogEntry } from './EventLog';
+
+interface PanelUsersDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onLog?: (message: string, type: AppLogEntry['type']) => void;
+}
+
+export function PanelUsersDialog({ open, onOpenChange, onLog }: PanelUsersDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const session = usePanelSession();
+  const [newUsername, setNewUsername] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [newRole, setNewRole] = useState<PanelRole>('viewer');
+  const [passwordResetFor, setPasswordResetFor] = useState<PanelUser | null>(null);
+  const [resetPassword, setResetPassword] = useState('');
+
+  const { data: users, isLoading, error } = useQuery<PanelUser[], Error>({
+    queryKey: ['panelUsers'],
+    queryFn: listPanelUsers,
+    enabled: open,
+  });
+
+  const onMutationError = (title: string) => (err: Error) => {
+    toast({ title, description: err.message, variant: 'destructive' });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: () => createPanelUser(newUsername.trim(), newPassword, newRole),
+    onSuccess: (user) => {
+      setNewUsername('');
+      setNewPassword('');
+      toast({ title: '账户已创建', description: `“${user.username}” (${PANEL_ROLE_LABELS[user.role]})` });
+      onLog?.(`已创建面板账户 "${user.username}" (${PANEL_ROLE_LABELS[user.role]})。`, 'ACTION');
+      queryClient.invalidateQueries({ queryKey: ['panelUsers'] });
+    },
+    onError: onMutationError('创建账户失败'),
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ user, role, password }: { user: PanelUser; role?: PanelRole; password?: string }) =>
+      updatePanelUser(user.id, { role, password }),
+    onSuccess: (user, variables) => {
+      if (variables.password) {
+        setPasswordResetFor(null);
+        setResetPassword('');
+        toast({ title: '密码已重置', description: `“${user.username}” 需使用新密码重新登录。` });
+        onLog?.(`面板账户 "${user.username}" 的密码已重置。`, 'ACTION');
+      } else {
+        onLog?.(`面板账户 "${user.username}" 的角色已改为${PANEL_ROLE_LABELS[user.role]}。`, 'ACTION');
+      }
+      queryClient.invalidateQueries({ queryKey: ['panelUsers'] });
+    },
+    onError: onMutationError('更新账户失败'),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (user: PanelUser) => deletePanelUser(user.id),
+    onSuccess: (_data, user) => {
+      toast({ title: '账户已删除', description: `“${user.username}” 已删除。` });
+      onLog?.(`已删除面板账户 "${user.username}"。`, 'ACTION');
+      queryClient.invalidateQueries({ queryKey: ['panelUsers'] });
+    },
+    onError: onMutationError('删除账户失败'),
+  });
+
+  const isBusy = createMutation.isPending || updateMutation.isPending || deleteMutation.isPending;
+  const newPasswordTooShort = newPassword.length > 0 && newPassword.length < MIN_PANEL_PASSWORD_LENGTH;
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (newUsername.trim() && newPassword.length >= MIN_PANEL_PASSWORD_LENGTH) createMutation.mutate();
+  };
+
+  const handleResetPassword = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (passwordResetFor && resetPassword.length >= MIN_PANEL_PASSWORD_LENGTH) {
+      updateMutation.mutate({ user: passwordResetFor, password: resetPassword });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-xl">
+        <DialogHeader>
+          <DialogTitle className="font-title flex items-center">
+            <Users className="mr-2 h-5 w-5 text-primary" />
+            面板账户
+          </DialogTitle>
+          <DialogDescription className="font-sans">
+            {PANEL_ROLE_LABELS.admin}可以管理主控和实例；{PANEL_ROLE_LABELS.viewer}账户只能查看实例、流量和拓扑。
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading && <Loader2 className="h-5 w-5 animate-spin text-muted-foreground mx-auto" />}
+        {error && <p className="text-sm text-destructive font-sans">加载账户失败: {error.message}</p>}
+        {users && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="font-sans">用户名</TableHead>
+                <TableHead className="font-sans w-32">角色</TableHead>
+                <TableHead className="font-sans text-right">操作</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {users.map(user => (
+                <TableRow key={user.id}>
+                  <TableCell className="font-sans">
+                    {user.username}
+                    {user.id === session.user?.id && <span className="ml-1 text-xs text-muted-foreground">(当前)</span>}
+                  </TableCell>
+                  <TableCell>
+                    <Select
+                      value={user.role}
+                      onValueChange={(role) => updateMutation.mutate({ user, role: role as PanelRole })}
+                      disabled={isBusy}
+                    >
+                      <SelectTrigger className="h-8 font-sans text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {PANEL_ROLES.map(role => (
+                          <SelectItem key={role} value={role} className="font-sans">{PANEL_ROLE_LABELS[role]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button variant="ghost" size="icon" className="h-8 w-8" title="重置密码" onClick={() => { setPasswordResetFor(user); setResetPassword(''); }} disabled={isBusy}>
+                      <KeyRound className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-destructive hover:text-destructive"
+                      title="删除账户"
+                      onClick={() => deleteMutation.mutate(user)}
+                      disabled={isBusy || user.id === session.user?.id}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        {passwordResetFor && (
+          <form onSubmit={handleResetPassword} className="flex items-end gap-2">
+            <div className="flex-grow space-y-1">
+              <Label htmlFor="panel-reset-password" className="font-sans">“{passwordResetFor.username}” 的新密码</Label>
+              <Input
+                id="panel-reset-password"
+                type="password"
+                value={resetPassword}
+                onChange={(e) => setResetPassword(e.target.value)}
+                autoComplete="new-password"
+                className="font-sans"
+              />
+            </div>
+            <Button type="button" variant="outline" onClick={() => setPasswordResetFor(null)} className="font-sans">取消</Button>
+            <Button type="submit" disabled={isBusy || resetPassword.length < MIN_PANEL_PASSWORD_LENGTH} className="font-sans">重置</Button>
+          </form>
+        )}
+
+        <Separator />
+
+        <form onSubmit={handleCreate} className="space-y-3">
+          <div className="grid grid-cols-[1fr_1fr_8rem] gap-2 items-end">
+            <div className="space-y-1">
+              <Label htmlFor="panel-new-username" className="font-sans">用户名</Label>
+              <Input id="panel-new-username" value={newUsername} onChange={(e) => setNewUsername(e.target.value)} autoComplete="off" className="font-sans" />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="panel-new-password" className="font-sans">密码</Label>
+              <Input id="panel-new-password" type="password" value={newPassword} onChange={(e) => setNewPassword(e.target.value)} autoComplete="new-password" className="font-sans" />
+            </div>
+            <Select value={newRole} onValueChange={(role) => setNewRole(role as PanelRole)}>
+              <SelectTrigger className="font-sans">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PANEL_ROLES.map(role => (
+                  <SelectItem key={role} value={role} className="font-sans">{PANEL_ROLE_LABELS[role]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {newPasswordTooShort && <p className="text-xs text-destructive font-sans">密码至少需要 {MIN_PANEL_PASSWORD_LENGTH} 个字符。</p>}
+          <div className="flex justify-end">
+            <Button type="submit" disabled={isBusy || !newUsername.trim() || newPassword.length < MIN_PANEL_PASSWORD_LENGTH} className="font-sans">
+              {createMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <UserPlus className="mr-2 h-4 w-4" />}
+              添加账户
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,267 @@
+
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Separator } from '@/components/ui/separator';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Lock, LockOpen, KeyRound, Loader2, ShieldCheck, ShieldOff } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useApiConfig } from '@/hooks/use-api-key';
+import {
+  changeVaultPassphrase,
+  lockVault,
+  setVaultAutoLockMinutes,
+  useCredentialVault,
+} from '@/hooks/use-credential-vault';
+import type { AppLogEntry } from './EventLog';
+
+const MIN_PASSPHRASE_LENGTH = 8;
+const AUTO_LOCK_OPTIONS = [0, 5, 15, 30, 60];
+
+interface VaultSettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onLog?: (message: string, type: AppLogEntry['type']) => void;
+}
+
+// Returns an error message for a new passphrase, or null when it can be used.
+function validateNewPassphrase(passphrase: string, confirmation: string): string | null {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) return `密码至少需要 ${MIN_PASSPHRASE_LENGTH} 个字符。`;
+  if (passphrase !== confirmation) return '两次输入的密码不一致。';
+  return null;
+}
+
+export function VaultSettingsDialog({ open, onOpenChange, onLog }: VaultSettingsDialogProps) {
+  const { toast } = useToast();
+  const vault = useCredentialVault();
+  const { enableCredentialVault, disableCredentialVault, storageMode } = useApiConfig();
+  const [currentPassphrase, setCurrentPassphrase] = useState('');
+  const [newPassphrase, setNewPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  useEffect(() => {
+    if (!open) {
+      setCurrentPassphrase('');
+      setNewPassphrase('');
+      setConfirmPassphrase('');
+      setError(null);
+    }
+  }, [open]);
+
+  const handleEnable = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const validationError = validateNewPassphrase(newPassphrase, confirmPassphrase);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    setIsBusy(true);
+    setError(null);
+    try {
+      await enableCredentialVault(newPassphrase);
+      setNewPassphrase('');
+      setConfirmPassphrase('');
+      toast({ title: '保险库已启用', description: '主控配置和 API 密钥现已加密保存。' });
+      onLog?.('凭据保险库已启用，主控配置已加密保存。', 'ACTION');
+    } catch (err: any) {
+      setError(`启用失败: ${err.message || '未知错误'}`);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleChangePassphrase = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const validationError = validateNewPassphrase(newPassphrase, confirmPassphrase);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    setIsBusy(true);
+    setError(null);
+    try {
+      await changeVaultPassphrase(currentPassphrase, newPassphrase);
+      setCurrentPassphrase('');
+      setNewPassphrase('');
+      setConfirmPassphrase('');
+      toast({ title: '密码已修改', description: '保险库已使用新密码重新加密。' });
+      onLog?.('凭据保险库密码已修改。', 'ACTION');
+    } catch (err: any) {
+      setError(err.message || '修改密码失败。');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleLockNow = () => {
+    lockVault();
+    onOpenChange(false);
+    onLog?.('凭据保险库已锁定。', 'INFO');
+  };
+
+  const handleDisable = () => {
+    try {
+      disableCredentialVault();
+      toast({
+        title: '保险库已停用',
+        description: '主控配置和 API 密钥已恢复为明文保存。',
+        variant: 'destructive',
+      });
+      onLog?.('凭据保险库已停用，主控配置恢复为明文保存。', 'ACTION');
+    } catch (err: any) {
+      setError(err.message || '停用失败。');
+    }
+  };
+
+  const handleAutoLockChange = (value: string) => {
+    const minutes = parseInt(value, 10);
+    setVaultAutoLockMinutes(minutes);
+    onLog?.(minutes > 0 ? `保险库自动锁定时间设为 ${minutes} 分钟。` : '保险库自动锁定已关闭。', 'INFO');
+  };
+
+  const passphraseFields = (
+    <>
+      <div className="space-y-1">
+        <Label htmlFor="vault-new-passphrase" className="font-sans">{vault.status === 'disabled' ? '密码' : '新密码'}</Label>
+        <Input
+          id="vault-new-passphrase"
+          type="password"
+          value={newPassphrase}
+          onChange={(e) => setNewPassphrase(e.target.value)}
+          autoComplete="new-password"
+          className="font-sans"
+          disabled={isBusy}
+        />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="vault-confirm-passphrase" className="font-sans">确认密码</Label>
+        <Input
+          id="vault-confirm-passphrase"
+          type="password"
+          value={confirmPassphrase}
+          onChange={(e) => setConfirmPassphrase(e.target.value)}
+          autoComplete="new-password"
+          className="font-sans"
+          disabled={isBusy}
+        />
+      </div>
+    </>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="font-title flex items-center">
+            <ShieldCheck className="mr-2 h-5 w-5 text-primary" />
+            凭据保险库
+          </DialogTitle>
+          <DialogDescription className="font-sans">
+            {vault.status === 'disabled'
+              ? '主控配置 (含 API 密钥) 当前以明文保存在浏览器中。启用保险库后将使用密码加密保存，每次打开页面需输入密码解锁。'
+              : '主控配置 (含 API 密钥) 已使用密码加密保存。密码无法找回，请妥善保管。'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && <p className="text-sm text-destructive font-sans">{error}</p>}
+
+        {vault.status === 'disabled' && storageMode === 'server' && (
+          <p className="text-sm text-muted-foreground font-sans">
+            面板当前使用服务器存储模式，主控配置保存在面板服务器上，浏览器保险库不可用。
+          </p>
+        )}
+
+        {vault.status === 'disabled' && storageMode !== 'server' && (
+          <form onSubmit={handleEnable} className="space-y-3">
+            {passphraseFields}
+            <div className="flex justify-end">
+              <Button type="submit" disabled={isBusy || !newPassphrase} className="font-sans">
+                {isBusy ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Lock className="mr-2 h-4 w-4" />}
+                启用保险库
+              </Button>
+            </div>
+          </form>
+        )}
+
+        {vault.status === 'unlocked' && (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between gap-2">
+              <Label className="font-sans">无操作自动锁定</Label>
+              <Select value={String(vault.autoLockMinutes)} onValueChange={handleAutoLockChange}>
+                <SelectTrigger className="w-32 font-sans">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {AUTO_LOCK_OPTIONS.map(minutes => (
+                    <SelectItem key={minutes} value={String(minutes)} className="font-sans">
+                      {minutes > 0 ? `${minutes} 分钟` : '从不'}
+                    </SelectItem>
+                  ))}
+                  {!AUTO_LOCK_OPTIONS.includes(vault.autoLockMinutes) && (
+                    <SelectItem value={String(vault.autoLockMinutes)} className="font-sans">{vault.autoLockMinutes} 分钟</SelectItem>
+                  )}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <Separator />
+
+            <form onSubmit={handleChangePassphrase} className="space-y-3">
+              <div className="space-y-1">
+                <Label htmlFor="vault-current-passphrase" className="font-sans">当前密码</Label>
+                <Input
+                  id="vault-current-passphrase"
+                  type="password"
+                  value={currentPassphrase}
+                  onChange={(e) => setCurrentPassphrase(e.target.value)}
+                  autoComplete="current-password"
+                  className="font-sans"
+                  disabled={isBusy}
+                />
+              </div>
+              {passphraseFields}
+              <div className="flex justify-end">
+                <Button type="submit" variant="outline" disabled={isBusy || !currentPassphrase || !newPassphrase} className="font-sans">
+                  {isBusy ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <KeyRound className="mr-2 h-4 w-4" />}
+                  修改密码
+                </Button>
+              </div>
+            </form>
+
+            <Separator />
+
+            <div className="flex flex-wrap justify-between gap-2">
+              <Button variant="outline" onClick={handleDisable} disabled={isBusy} className="font-sans text-destructive hover:text-destructive">
+                <ShieldOff className="mr-2 h-4 w-4" />
+                停用保险库
+              </Button>
+              <Button onClick={handleLockNow} disabled={isBusy} className="font-sans">
+                <Lock className="mr-2 h-4 w-4" />
+                立即锁定
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {vault.status === 'locked' && (
+          <p className="text-sm text-muted-foreground font-sans flex items-center">
+            <LockOpen className="mr-2 h-4 w-4" />
+            请先解锁保险库。
+          </p>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -18,16 +18,20 @@ import { Switch } from '@/components/ui/switch';
 import { Label } from '@/components/ui/label';
 import { useToast } from '@/hooks/use-toast';
 import { createInstanceFormSchema, type CreateInstanceFormValues, createInstanceApiSchema } from '@/zod-schemas/nodepass';
-import type { CreateInstanceRequest } from '@/types/nodepass';
-import { PlusCircle, Loader2 } from 'lucide-react';
+import type { CreateInstanceRequest, Instance } from '@/types/nodepass';
+import { PlusCircle, Loader2, Pencil, ArrowLeft } from 'lucide-react';
 import { useMutation, useQueryClient } from '@tanstack/react-query';
-import { nodePassApi } from '@/lib/api';
+import { formatApiErrorMessage, NodePassClient } from '@/lib/api';
+import { applyInstanceUrlChange, InstanceEditError } from '@/lib/instance-edit';
 import { useApiConfig, type NamedApiConfig } from '@/hooks/use-api-key';
+import { useMasterCapabilities } from '@/hooks/use-master-capabilities';
+import { recordAudit } from '@/hooks/use-audit-log';
 import type { AppLogEntry } from '../EventLog';
-import { extractHostname } from '@/lib/url-utils'; // isWildcardHostname removed as it's not used
+import { InstanceUrlDiff } from '../InstanceUrlDiff';
+import { extractHostname, diffNodePassUrls } from '@/lib/url-utils'; // isWildcardHostname removed as it's not used
 
 import { CreateInstanceFormFields } from './CreateInstanceFormFields';
-import { buildUrlFromFormValues, type BuildUrlParams, prepareClientUrlParams, prepareServerUrlParams } from './utils';
+import { buildUrlFromFormValues, type BuildUrlParams, prepareClientUrlParams, prepareServerUrlParams, findPairedServerInstance, instanceUrlToFormValues } from './utils';
 // MASTER_TLS_MODE_DISPLAY_MAP removed as it's handled in CreateInstanceFormFields
 
 interface CreateInstanceDialogProps {
@@ -39,27 +43,37 @@ interface CreateInstanceDialogProps {
   apiName: string | null;
   activeApiConfig: NamedApiConfig | null;
   onLog?: (message: string, type: AppLogEntry['type']) => void;
+  // When set, the dialog edits this instance instead of creating a new one.
+  instanceToEdit?: Instance | null;
 }
 
-export function CreateInstanceDialog({ open, onOpenChange, apiId, apiRoot, apiToken, apiName, activeApiConfig, onLog }: CreateInstanceDialogProps) {
+const EMPTY_FORM_VALUES: CreateInstanceFormValues = {
+  instanceType: '客户端',
+  isSingleEndedForward: false,
+  tunnelKey: '',
+  tunnelAddress: '',
+  targetAddress: '',
+  logLevel: 'master', // Default log level changed to master
+  tlsMode: 'master',
+  certPath: '',
+  keyPath: '',
+  advancedParams: {},
+};
+
+export function CreateInstanceDialog({ open, onOpenChange, apiId, apiRoot, apiToken, apiName, activeApiConfig, onLog, instanceToEdit }: CreateInstanceDialogProps) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
-  const { apiConfigsList, getApiRootUrl, getToken } = useApiConfig(); // getApiConfigById removed
+  const { apiConfigsList, getToken } = useApiConfig(); // getApiConfigById removed
   const [externalApiSuggestion, setExternalApiSuggestion] = useState<string | null>(null);
   const [showDetailedDescriptions, setShowDetailedDescriptions] = useState(false);
+  const [tunnelKeyHint, setTunnelKeyHint] = useState<string | null>(null);
+  const [pendingEditUrl, setPendingEditUrl] = useState<string | null>(null);
+  const isEditing = !!instanceToEdit;
+  const { capabilities } = useMasterCapabilities(activeApiConfig);
 
   const form = useForm<CreateInstanceFormValues>({
     resolver: zodResolver(createInstanceFormSchema),
-    defaultValues: {
-      instanceType: '客户端',
-      isSingleEndedForward: false,
-      tunnelAddress: '',
-      targetAddress: '',
-      logLevel: 'master', // Default log level changed to master
-      tlsMode: 'master',
-      certPath: '',
-      keyPath: '',
-    },
+    defaultValues: EMPTY_FORM_VALUES,
   });
 
   const instanceType = form.watch("instanceType");
@@ -69,20 +83,15 @@ export function CreateInstanceDialog({ open, onOpenChange, apiId, apiRoot, apiTo
 
   useEffect(() => {
     if (open) {
-      form.reset({
-        instanceType: '客户端',
-        isSingleEndedForward: false,
-        tunnelAddress: '',
-        targetAddress: '',
-        logLevel: 'master', // Default log level changed to master
-        tlsMode: 'master',
-        certPath: '',
-        keyPath: '',
-      });
+      form.reset(instanceToEdit ? instanceUrlToFormValues(instanceToEdit.url).values : EMPTY_FORM_VALUES);
       setExternalApiSuggestion(null);
       setShowDetailedDescriptions(false);
+      setTunnelKeyHint(null);
+      setPendingEditUrl(null);
     }
-  }, [open, form]);
+    // Only re-prefill when the dialog opens or targets another instance, not on live status updates.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open, form, instanceToEdit?.id]);
 
  useEffect(() => {
     if (instanceType === "客户端") {
@@ -138,40 +147,119 @@ export function CreateInstanceDialog({ open, onOpenChange, apiId, apiRoot, apiTo
     }
   }, [tunnelAddressValue, instanceType, apiConfigsList, isSingleEndedForwardWatched]);
 
-  const createInstanceMutation = useMutation({
-    mutationFn: (params: { data: CreateInstanceRequest, useApiRoot?: string, useApiToken?: string }) => {
-      const effectiveApiRoot = params.useApiRoot || apiRoot;
-      const effectiveApiToken = params.useApiToken || apiToken;
+  // A client pointed at a server we already know about inherits that server's tunnel key.
+  useEffect(() => {
+    if (instanceType !== '客户端' || isSingleEndedForwardWatched || !tunnelAddressValue) {
+      setTunnelKeyHint(null);
+      return;
+    }
+    const instancesByMaster = queryClient.getQueriesData<Instance[]>({ queryKey: ['instances'] })
+      .map(([queryKey, instances]) => ({ master: apiConfigsList.find(c => c.id === queryKey[1]), instances: instances ?? [] }))
+      .filter((entry): entry is { master: NamedApiConfig; instances: Instance[] } => !!entry.master);
+    const match = findPairedServerInstance(tunnelAddressValue, instancesByMaster);
+    if (!match) {
+      setTunnelKeyHint(null);
+      return;
+    }
+    if (!form.getFieldState('tunnelKey').isDirty) {
+      form.setValue('tunnelKey', match.tunnelKey ?? '');
+    }
+    setTunnelKeyHint(match.tunnelKey
+      ? `已同步主控 “${match.master.name}” 上服务端 ${match.instance.id.substring(0, 8)} 的隧道密钥。`
+      : `匹配到主控 “${match.master.name}” 上的服务端 ${match.instance.id.substring(0, 8)}，该服务端未设置隧道密钥。`);
+  }, [tunnelAddressValue, instanceType, isSingleEndedForwardWatched, apiConfigsList, queryClient, form]);
 
-      if (!effectiveApiRoot || !effectiveApiToken) throw new Error("API configuration is incomplete.");
+  // The paired client of a new server may be created on another master (`master`); defaults to the active one.
+  const getAuditMaster = (master: NamedApiConfig | null = activeApiConfig) =>
+    ({ masterId: master?.id ?? apiId ?? undefined, masterName: master?.name ?? apiName ?? undefined });
+
+  const createInstanceMutation = useMutation({
+    mutationFn: (params: { data: CreateInstanceRequest, master?: NamedApiConfig }) => {
+      const master = params.master ?? activeApiConfig;
+      if (!master) throw new Error("API configuration is incomplete.");
       const validatedApiData = createInstanceApiSchema.parse(params.data);
-      return nodePassApi.createInstance(validatedApiData, effectiveApiRoot, effectiveApiToken);
+      return new NodePassClient(master).createInstance(validatedApiData);
     },
     onSuccess: (createdInstance, variables) => {
+      const master = variables.master ?? activeApiConfig;
       const shortUrl = variables.data.url.length > 40 ? variables.data.url.substring(0,37) + "..." : variables.data.url;
-      const masterNameForToast = variables.useApiRoot === apiRoot ? apiName : apiConfigsList.find(c => getApiRootUrl(c.id) === variables.useApiRoot)?.name || 'a master';
+      const masterNameForToast = master?.name || apiName || 'a master';
 
       toast({
         title: '实例创建于 ' + masterNameForToast,
         description: '实例 (URL: ' + shortUrl + ') -> ID: ' + createdInstance.id.substring(0,8) + '...',
       });
       onLog?.('实例创建成功于 ' + masterNameForToast + ': ' + (createdInstance.type === 'server' ? '服务端' : '客户端') + ' - ' + createdInstance.id.substring(0,8) + '... (URL: ' + shortUrl + ')', 'SUCCESS');
+      recordAudit({ ...getAuditMaster(master), action: 'instance.create', result: 'success', instanceId: createdInstance.id, urlAfter: createdInstance.url || variables.data.url });
 
-      queryClient.invalidateQueries({ queryKey: ['instances', variables.useApiRoot === apiRoot ? apiId : apiConfigsList.find(c => getApiRootUrl(c.id) === variables.useApiRoot)?.id] });
+      queryClient.invalidateQueries({ queryKey: ['instances', master?.id ?? apiId] });
       queryClient.invalidateQueries({ queryKey: ['allInstancesForTraffic']});
     },
     onError: (error: any, variables) => {
+      const master = variables.master ?? activeApiConfig;
       const shortUrl = variables.data.url.length > 40 ? variables.data.url.substring(0,37) + "..." : variables.data.url;
-      const masterNameForToast = variables.useApiRoot === apiRoot ? apiName : apiConfigsList.find(c => getApiRootUrl(c.id) === variables.useApiRoot)?.name || 'a master';
+      const masterNameForToast = master?.name || apiName || 'a master';
       toast({
         title: '创建实例失败于 ' + masterNameForToast,
-        description: '创建 (URL: ' + shortUrl + ') 失败: ' + (error.message || '未知错误。'),
+        description: '创建 (URL: ' + shortUrl + ') 失败: ' + formatApiErrorMessage(error),
         variant: 'destructive',
       });
       onLog?.('创建实例失败于 ' + masterNameForToast + ': (URL: ' + shortUrl + ') - ' + (error.message || '未知错误'), 'ERROR');
+      recordAudit({ ...getAuditMaster(master), action: 'instance.create', result: 'failure', urlAfter: variables.data.url, error: error.message || '未知错误' });
     },
   });
 
+  const editInstanceMutation = useMutation({
+    mutationFn: ({ instance, newUrl }: { instance: Instance, newUrl: string }) => {
+      if (!activeApiConfig) throw new Error("API configuration is incomplete.");
+      createInstanceApiSchema.parse({ url: newUrl });
+      return applyInstanceUrlChange(new NodePassClient(activeApiConfig), instance, newUrl, {
+        supportsUpdate: capabilities.features.instanceUpdate,
+        onStep: (message, type) => onLog?.(message, type),
+      });
+    },
+    onSuccess: ({ instance, method, stopError }, variables) => {
+      const idText = instance.id === variables.instance.id
+        ? instance.id.substring(0, 8) + '...'
+        : variables.instance.id.substring(0, 8) + '... -> ' + instance.id.substring(0, 8) + '...';
+      toast({
+        title: stopError ? '实例配置已更新，但未能恢复停止状态' : '实例已更新于 ' + apiName,
+        description: method === 'update'
+          ? '实例 ' + idText + ' 配置已更新。'
+          : '主控不支持原地更新，实例已重建 (' + idText + ')。' + (stopError ? '停止新实例失败: ' + stopError + '，实例当前正在运行。' : ''),
+        variant: stopError ? 'destructive' : undefined,
+      });
+      onLog?.('实例配置已更新于 ' + apiName + ' (' + (method === 'update' ? '原地更新' : '重建') + '): ' + idText, 'SUCCESS');
+      recordAudit({ ...getAuditMaster(), action: 'instance.edit', result: 'success', instanceId: instance.id, urlBefore: variables.instance.url, urlAfter: instance.url || variables.newUrl, ...(stopError ? { error: '未能恢复停止状态: ' + stopError } : {}) });
+    },
+    onError: (error: any, variables) => {
+      toast({
+        title: '更新实例失败于 ' + apiName,
+        description: error instanceof InstanceEditError ? error.message : '实例 ' + variables.instance.id.substring(0, 8) + '... 更新失败: ' + formatApiErrorMessage(error),
+        variant: 'destructive',
+      });
+      onLog?.('更新实例 ' + variables.instance.id.substring(0, 8) + '... 失败: ' + (error.message || '未知错误'), 'ERROR');
+      recordAudit({ ...getAuditMaster(), action: 'instance.edit', result: 'failure', instanceId: variables.instance.id, urlBefore: variables.instance.url, urlAfter: variables.newUrl, error: error.message || '未知错误' });
+    },
+    onSettled: () => {
+      // A failed recreate may still have changed the instance list (deleted / restored under a new ID).
+      queryClient.invalidateQueries({ queryKey: ['instances', apiId] });
+      queryClient.invalidateQueries({ queryKey: ['allInstancesForTraffic']});
+    },
+  });
+
+  async function handleApplyEdit() {
+    if (!instanceToEdit || !pendingEditUrl) return;
+    onLog?.('准备更新实例 ' + instanceToEdit.id.substring(0, 8) + '... 于 "' + apiName + '": ' + pendingEditUrl, 'INFO');
+    try {
+      await editInstanceMutation.mutateAsync({ instance: instanceToEdit, newUrl: pendingEditUrl });
+      onOpenChange(false);
+    } catch (error: any) {
+      // Reported by the mutation's onError; keep the diff open so the user can go back and adjust.
+      if (error instanceof InstanceEditError) onOpenChange(false);
+    }
+  }
+
  async function onSubmitHandler(values: CreateInstanceFormValues) {
     if (!apiId || !apiRoot || !apiToken || !activeApiConfig) {
         toast({ title: "操作失败", description: "当前主控配置无效。", variant: "destructive"});
@@ -186,8 +274,9 @@ export function CreateInstanceDialog({ open, onOpenChange, apiId, apiRoot, apiTo
       onLog?.(message, type);
     };
 
+    const prefill = instanceToEdit ? instanceUrlToFormValues(instanceToEdit.url) : null;
     if (values.instanceType === '客户端') {
-      const clientSubmission = prepareClientUrlParams(values, activeApiConfig, localOnLog);
+      const clientSubmission = prepareClientUrlParams(values, activeApiConfig, localOnLog, prefill?.clientTargetHost ?? null);
       if (!clientSubmission) return;
       primaryUrlParams = clientSubmission.clientParams;
     } else { // '服务端'
@@ -202,16 +291,25 @@ export function CreateInstanceDialog({ open, onOpenChange, apiId, apiRoot, apiTo
       return;
     }
 
+    if (instanceToEdit && prefill) {
+      const newUrl = buildUrlFromFormValues(
+        { ...primaryUrlParams, unknownParams: prefill.unknownParams, preservedUserInfo: prefill.preservedUserInfo ?? undefined },
+        activeApiConfig
+      );
+      if (diffNodePassUrls(instanceToEdit.url, newUrl).length === 0) {
+        toast({ title: "配置未变化", description: "新配置与当前实例 URL 相同，无需更新。" });
+        return;
+      }
+      setPendingEditUrl(newUrl);
+      return;
+    }
+
     const primaryInstanceUrl = buildUrlFromFormValues(primaryUrlParams, activeApiConfig);
     onLog?.('准备创建主实例于 "' + activeApiConfig.name + '": ' + primaryInstanceUrl, 'INFO');
 
     try {
       if (primaryInstanceUrl) {
-        await createInstanceMutation.mutateAsync({
-            data: { url: primaryInstanceUrl },
-            useApiRoot: apiRoot,
-            useApiToken: apiToken,
-         });
+        await createInstanceMutation.mutateAsync({ data: { url: primaryInstanceUrl } });
       }
 
       const wasAnyMutationInErrorState = createInstanceMutation.isError;
@@ -231,12 +329,14 @@ export function CreateInstanceDialog({ open, onOpenChange, apiId, apiRoot, apiTo
       <DialogContent className="sm:max-w-lg p-4">
         <DialogHeader className="pb-2">
           <DialogTitle className="flex items-center font-title">
-            <PlusCircle className="mr-2 h-5 w-5 text-primary" />
-            创建新实例
+            {isEditing ? <Pencil className="mr-2 h-5 w-5 text-primary" /> : <PlusCircle className="mr-2 h-5 w-5 text-primary" />}
+            {isEditing ? '编辑实例' : '创建新实例'}
           </DialogTitle>
           <div className="flex justify-between items-center mt-1">
             <DialogDescription className="font-sans text-xs mr-4">
-              为当前主控 “{apiName || 'N/A'}” 配置新实例。
+              {isEditing
+                ? <>修改主控 “{apiName || 'N/A'}” 上实例 <span className="font-mono">{instanceToEdit?.id.substring(0, 8)}</span> 的配置。</>
+                : <>为当前主控 “{apiName || 'N/A'}” 配置新实例。</>}
             </DialogDescription>
             <div className="flex items-center space-x-2 flex-shrink-0">
               <Switch
@@ -251,6 +351,16 @@ export function CreateInstanceDialog({ open, onOpenChange, apiId, apiRoot, apiTo
           </div>
         </DialogHeader>
 
+        {pendingEditUrl && instanceToEdit ? (
+          <div className="space-y-2 py-1 max-h-[calc(65vh-50px)] overflow-y-auto pr-2">
+            <p className="text-xs font-sans text-muted-foreground">
+              {capabilities.features.instanceUpdate
+                ? '请确认以下变更。若主控不支持原地更新，将删除并重建该实例 (实例 ID 会改变)，新配置失败时自动恢复原配置。'
+                : '请确认以下变更。当前主控未提供原地更新接口，将删除并重建该实例 (实例 ID 会改变)，新配置失败时自动恢复原配置。'}
+            </p>
+            <InstanceUrlDiff beforeUrl={instanceToEdit.url} afterUrl={pendingEditUrl} />
+          </div>
+        ) : (
         <CreateInstanceFormFields
             form={form}
             instanceType={instanceType as "客户端" | "服务端"}
@@ -261,16 +371,37 @@ export function CreateInstanceDialog({ open, onOpenChange, apiId, apiRoot, apiTo
             serverInstancesForDropdown={undefined}
             isLoadingServerInstances={false}
             externalApiSuggestion={externalApiSuggestion}
+            tunnelKeyHint={tunnelKeyHint}
             onSubmitHandler={onSubmitHandler}
             showDetailedDescriptions={showDetailedDescriptions}
         />
+        )}
 
         <DialogFooter className="pt-3 font-sans">
+          {pendingEditUrl ? (
+            <Button type="button" variant="outline" onClick={() => setPendingEditUrl(null)} disabled={editInstanceMutation.isPending}>
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              返回修改
+            </Button>
+          ) : (
           <DialogClose asChild>
             <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={createInstanceMutation.isPending}>
               取消
             </Button>
           </DialogClose>
+          )}
+          {pendingEditUrl ? (
+            <Button type="button" onClick={handleApplyEdit} disabled={editInstanceMutation.isPending || !apiId}>
+              {editInstanceMutation.isPending ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  应用中...
+                </>
+              ) : (
+                '应用修改'
+              )}
+            </Button>
+          ) : (
           <Button type="submit" form="create-instance-form" disabled={createInstanceMutation.isPending || !apiId}>
             {createInstanceMutation.isPending ? (
               <>
@@ -278,9 +409,10 @@ export function CreateInstanceDialog({ open, onOpenChange, apiId, apiRoot, apiTo
                 创建中...
               </>
             ) : (
-              '创建实例'
+              isEditing ? '预览变更' : '创建实例'
             )}
           </Button>
+          )}
         </DialogFooter>
       </DialogContent>
     </Dialog>
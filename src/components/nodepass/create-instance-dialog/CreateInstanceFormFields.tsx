@@ -1,17 +1,23 @@
 
 "use client";
 
-import React from 'react';
+import React, { useState } from 'react';
 import type { UseFormReturn } from 'react-hook-form';
 import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Input } from '@/components/ui/input';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Info, Settings2, Share2, Zap } from 'lucide-react';
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
+import { Button } from '@/components/ui/button';
+import { Eye, EyeOff, Info, KeyRound, RefreshCw, Settings2, Share2, SlidersHorizontal, Zap } from 'lucide-react';
 import type { CreateInstanceFormValues } from '@/zod-schemas/nodepass';
 import type { NamedApiConfig } from '@/hooks/use-api-key';
+import { getAdvancedParams } from '@/lib/nodepass-params';
+import { generateTunnelKey } from '@/lib/url-utils';
 import { MASTER_TLS_MODE_DISPLAY_MAP } from './constants';
 
+const PARAM_DEFAULT_OPTION = 'default';
+
 interface CreateInstanceFormFieldsProps {
   form: UseFormReturn<CreateInstanceFormValues>;
   instanceType: "客户端" | "服务端";
@@ -22,6 +28,7 @@ interface CreateInstanceFormFieldsProps {
   serverInstancesForDropdown: undefined; // This prop is no longer used
   isLoadingServerInstances: false; // This prop is no longer used
   externalApiSuggestion: string | null;
+  tunnelKeyHint?: string | null;
   onSubmitHandler: (values: CreateInstanceFormValues) => void;
   showDetailedDescriptions: boolean;
 }
@@ -33,9 +40,11 @@ export function CreateInstanceFormFields({
   isSingleEndedForward,
   activeApiConfig,
   externalApiSuggestion,
+  tunnelKeyHint,
   onSubmitHandler,
   showDetailedDescriptions,
 }: CreateInstanceFormFieldsProps) {
+  const [showTunnelKey, setShowTunnelKey] = useState(false);
 
   const masterLogLevelDisplay = activeApiConfig?.masterDefaultLogLevel && activeApiConfig.masterDefaultLogLevel !== 'master'
     ? activeApiConfig.masterDefaultLogLevel.charAt(0).toUpperCase() + activeApiConfig.masterDefaultLogLevel.slice(1)
@@ -45,6 +54,8 @@ export function CreateInstanceFormFields({
     ? MASTER_TLS_MODE_DISPLAY_MAP[activeApiConfig.masterDefaultTlsMode as keyof typeof MASTER_TLS_MODE_DISPLAY_MAP] || '主控配置'
     : '主控配置';
 
+  const advancedParams = getAdvancedParams(instanceType === '服务端' ? 'server' : 'client', instanceType === '客户端' && isSingleEndedForward);
+
   return (
     <Form {...form}>
       <form onSubmit={form.handleSubmit(onSubmitHandler)} className="space-y-3 py-1 max-h-[calc(65vh-50px)] overflow-y-auto pr-2" id="create-instance-form">
@@ -145,6 +156,59 @@ export function CreateInstanceFormFields({
           )}
         />
 
+        {!(instanceType === '客户端' && isSingleEndedForward) && (
+          <FormField
+            control={form.control}
+            name="tunnelKey"
+            render={({ field }) => (
+              <FormItem className="space-y-1">
+                <FormLabel className="font-sans text-xs flex items-center">
+                  <KeyRound size={14} className="mr-1 text-muted-foreground" />
+                  隧道密钥 (可选)
+                </FormLabel>
+                <div className="flex items-center gap-1">
+                  <FormControl>
+                    <Input
+                      className="text-xs font-mono h-9"
+                      type={showTunnelKey ? 'text' : 'password'}
+                      autoComplete="off"
+                      placeholder={instanceType === '服务端' ? "留空则不设置密钥" : "需与服务端密钥一致"}
+                      {...field}
+                      value={field.value || ''}
+                    />
+                  </FormControl>
+                  <Button type="button" variant="ghost" size="icon" className="h-9 w-9 flex-shrink-0" onClick={() => setShowTunnelKey(v => !v)} aria-label={showTunnelKey ? "隐藏密钥" : "显示密钥"}>
+                    {showTunnelKey ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-9 w-9 flex-shrink-0"
+                    onClick={() => form.setValue('tunnelKey', generateTunnelKey(), { shouldDirty: true, shouldValidate: true })}
+                    title="生成随机密钥"
+                    aria-label="生成随机密钥"
+                  >
+                    <RefreshCw className="h-4 w-4" />
+                  </Button>
+                </div>
+                {showDetailedDescriptions && (
+                  <FormDescription className="font-sans text-xs mt-0.5">
+                    写入 URL 的用户信息部分 (key@host:port)。服务端与客户端的密钥必须一致才能完成握手。
+                  </FormDescription>
+                )}
+                {tunnelKeyHint && instanceType === '客户端' && (
+                  <FormDescription className="text-xs text-green-600 dark:text-green-400 mt-0.5 font-sans">
+                    <Info size={12} className="inline-block mr-1 align-text-bottom" />
+                    {tunnelKeyHint}
+                  </FormDescription>
+                )}
+                <FormMessage className="text-xs" />
+              </FormItem>
+            )}
+          />
+        )}
+
         <FormField
           control={form.control}
           name="targetAddress"
@@ -298,6 +362,66 @@ export function CreateInstanceFormFields({
             )}
           </>
         )}
+        {advancedParams.length > 0 && (
+          <Accordion type="single" collapsible className="border rounded-md px-2">
+            <AccordionItem value="advanced" className="border-b-0">
+              <AccordionTrigger className="py-2 text-xs font-sans hover:no-underline">
+                <span className="flex items-center">
+                  <SlidersHorizontal size={14} className="mr-1 text-muted-foreground" />
+                  高级参数
+                </span>
+              </AccordionTrigger>
+              <AccordionContent className="grid grid-cols-2 gap-x-3 gap-y-2 pb-2">
+                {advancedParams.map(def => (
+                  <FormField
+                    key={def.key}
+                    control={form.control}
+                    name={`advancedParams.${def.key}`}
+                    render={({ field }) => (
+                      <FormItem className="space-y-1">
+                        <FormLabel className="font-sans text-xs">
+                          {def.label} <span className="font-mono text-muted-foreground">({def.key})</span>
+                        </FormLabel>
+                        {def.kind === 'enum' ? (
+                          <Select
+                            onValueChange={(value) => field.onChange(value === PARAM_DEFAULT_OPTION ? '' : value)}
+                            value={field.value || PARAM_DEFAULT_OPTION}
+                          >
+                            <FormControl>
+                              <SelectTrigger className="text-xs font-sans h-8">
+                                <SelectValue />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              <SelectItem value={PARAM_DEFAULT_OPTION} className="font-sans text-xs">默认</SelectItem>
+                              {def.options?.map(option => (
+                                <SelectItem key={option.value} value={option.value} className="font-sans text-xs">{option.label}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        ) : (
+                          <FormControl>
+                            <Input
+                              className="text-xs font-mono h-8"
+                              placeholder={def.placeholder || '默认'}
+                              inputMode={def.kind === 'integer' ? 'numeric' : undefined}
+                              {...field}
+                              value={field.value || ''}
+                            />
+                          </FormControl>
+                        )}
+                        {showDetailedDescriptions && (
+                          <FormDescription className="font-sans text-xs mt-0.5">{def.description}</FormDescription>
+                        )}
+                        <FormMessage className="text-xs" />
+                      </FormItem>
+                    )}
+                  />
+                ))}
+              </AccordionContent>
+            </AccordionItem>
+          </Accordion>
+        )}
         {instanceType === '客户端' && isSingleEndedForward && showDetailedDescriptions && (
             <FormDescription className="font-sans text-xs mt-0.5">
                 <Info size={12} className="inline-block mr-1 align-text-bottom" />
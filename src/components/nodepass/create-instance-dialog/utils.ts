@@ -3,7 +3,9 @@
 
 import type { CreateInstanceFormValues } from '@/zod-schemas/nodepass';
 import type { NamedApiConfig, MasterLogLevel, MasterTlsMode } from '@/hooks/use-api-key';
-import { extractHostname, extractPort } from '@/lib/url-utils'; // isWildcardHostname removed
+import type { Instance } from '@/types/nodepass';
+import { extractHostname, extractPort, isWildcardHostname, parseNodePassUrl } from '@/lib/url-utils';
+import { NODEPASS_PARAMS, appendAdvancedParams, getAdvancedParams, getParamDefinition, type NodePassParamValues } from '@/lib/nodepass-params';
 
 export function formatHostForUrl(host: string | null | undefined): string {
   if (!host) return '127.0.0.1';
@@ -16,12 +18,22 @@ export function formatHostForUrl(host: string | null | undefined): string {
 export interface BuildUrlParams {
   instanceType: "客户端" | "服务端";
   isSingleEndedForward?: boolean;
+  tunnelKey?: string;
   tunnelAddress: string;
   targetAddress: string;
   logLevel: MasterLogLevel; // This will be 'debug', 'info', 'warn', or 'error' from the form
   tlsMode?: MasterTlsMode | '2' | undefined;
   certPath?: string;
   keyPath?: string;
+  advancedParams?: NodePassParamValues;
+  unknownParams?: Record<string, string>; // Carried over verbatim from an existing URL.
+  preservedUserInfo?: string; // Raw userinfo of an edited single-ended client, which has no tunnel key field.
+}
+
+// Like URLSearchParams#toString, but leaves path and address characters readable (crt=/etc/a.crt, dial=[::1]).
+function formatQueryString(query: URLSearchParams): string {
+  const encode = (part: string) => encodeURIComponent(part).replace(/%(2F|3A|40|2C|5B|5D)/g, decodeURIComponent);
+  return Array.from(query, ([key, value]) => `${encode(key)}=${encode(value)}`).join('&');
 }
 
 export function buildUrlFromFormValues(
@@ -30,7 +42,11 @@ export function buildUrlFromFormValues(
 ): string {
   const schemeType = params.instanceType === "服务端" ? "server" : "client";
 
-  let url = `${schemeType}://${params.tunnelAddress}/${params.targetAddress}`;
+  const tunnelKey = params.isSingleEndedForward ? '' : params.tunnelKey?.trim();
+  const userInfo = tunnelKey
+    ? `${encodeURIComponent(tunnelKey)}@`
+    : params.isSingleEndedForward && params.preservedUserInfo ? `${params.preservedUserInfo}@` : '';
+  let url = `${schemeType}://${userInfo}${params.tunnelAddress}/${params.targetAddress}`;
 
   const queryParams = new URLSearchParams();
 
@@ -82,7 +98,20 @@ export function buildUrlFromFormValues(
     }
   }
 
-  const queryString = queryParams.toString();
+  appendAdvancedParams(queryParams, params.advancedParams, schemeType, !!params.isSingleEndedForward);
+
+  // Carried-over registry keys keep their registry position, so an unchanged edit rebuilds the same URL.
+  const preserved = params.unknownParams ?? {};
+  const orderedParams = new URLSearchParams();
+  for (const def of NODEPASS_PARAMS) {
+    const value = queryParams.get(def.key) ?? preserved[def.key];
+    if (value !== undefined) orderedParams.append(def.key, value);
+  }
+  for (const [key, value] of Object.entries(preserved)) {
+    if (!getParamDefinition(key)) orderedParams.append(key, value);
+  }
+
+  const queryString = formatQueryString(orderedParams);
   return queryString ? `${url}?${queryString}` : url;
 }
 
@@ -94,7 +123,8 @@ interface PrepareClientUrlParamsResult {
 export function prepareClientUrlParams(
   values: CreateInstanceFormValues,
   activeApiConfig: NamedApiConfig | null,
-  onLogLocal: (message: string, type: 'INFO' | 'WARN' | 'ERROR') => void
+  onLogLocal: (message: string, type: 'INFO' | 'WARN' | 'ERROR') => void,
+  clientTargetHost: string | null = null // From InstanceFormPrefill when editing; the form only shows the port.
 ): PrepareClientUrlParamsResult | null {
   if (!activeApiConfig) {
     onLogLocal('当前客户端主控配置无效，无法准备客户端参数。', 'ERROR');
@@ -127,6 +157,7 @@ export function prepareClientUrlParams(
       tlsMode: '0', // TLS is not applicable for the instance URL in this mode
       certPath: '',
       keyPath: '',
+      advancedParams: values.advancedParams,
     };
   } else {
     const connectToServerTunnel = values.tunnelAddress;
@@ -137,20 +168,23 @@ export function prepareClientUrlParams(
       return null;
     }
 
-    let clientFullLocalForwardTargetAddress = `[::]:${(parseInt(extractPort(connectToServerTunnel) || "0", 10) + 1).toString()}`;
+    const targetHost = clientTargetHost ?? '[::]';
+    let clientFullLocalForwardTargetAddress = `${targetHost}:${(parseInt(extractPort(connectToServerTunnel) || "0", 10) + 1).toString()}`;
     if (clientLocalTargetPort && clientLocalTargetPort.trim() !== "" && /^[0-9]+$/.test(clientLocalTargetPort.trim())) {
-      clientFullLocalForwardTargetAddress = `[::]:${clientLocalTargetPort.trim()}`;
+      clientFullLocalForwardTargetAddress = `${targetHost}:${clientLocalTargetPort.trim()}`;
     }
 
     clientParams = {
       instanceType: "客户端",
       isSingleEndedForward: false,
+      tunnelKey: values.tunnelKey,
       tunnelAddress: connectToServerTunnel,
       targetAddress: clientFullLocalForwardTargetAddress,
       logLevel: clientLogLevel,
       tlsMode: clientTlsParamFromForm,
       certPath: clientCertPath,
       keyPath: clientKeyPath,
+      advancedParams: values.advancedParams,
     };
   }
   return { clientParams };
@@ -179,13 +213,132 @@ export function prepareServerUrlParams(
 
   const serverParams: BuildUrlParams = {
     instanceType: "服务端",
+    tunnelKey: values.tunnelKey,
     tunnelAddress: serverTunnelAddress,
     targetAddress: serverTargetAddress,
     logLevel: values.logLevel as MasterLogLevel, // Cast is safe due to Zod schema change
     tlsMode: values.tlsMode as MasterTlsMode | '2',
     certPath: values.certPath,
     keyPath: values.keyPath,
+    advancedParams: values.advancedParams,
   };
   return { serverParams };
 }
 
+
+
+const FORM_LOG_LEVELS: ReadonlyArray<CreateInstanceFormValues['logLevel']> = ['master', 'debug', 'info', 'warn', 'error'];
+
+export interface InstanceFormPrefill {
+  values: CreateInstanceFormValues;
+  // Query parameters the form has no field for, or will not re-emit for this role and shape;
+  // pass to buildUrlFromFormValues so they survive an edit.
+  unknownParams: Record<string, string>;
+  // Raw userinfo of a single-ended client (the form hides the tunnel key there); pass to buildUrlFromFormValues.
+  preservedUserInfo: string | null;
+  // Host part of a (non single-ended) client's target, e.g. "192.168.1.5"; pass to prepareClientUrlParams.
+  clientTargetHost: string | null;
+}
+
+// Inverse of buildUrlFromFormValues, used to prefill the form when editing an existing instance.
+// Rebuilding the untouched values (with unknownParams and preservedUserInfo) gives back `url`
+// whenever its query is in registry order.
+export function instanceUrlToFormValues(url: string): InstanceFormPrefill {
+  const parsed = parseNodePassUrl(url);
+  const unknownParams = { ...parsed.unknownParams };
+  const isServer = parsed.scheme === 'server';
+  const tunnelHost = parsed.tunnelAddress ? extractHostname(parsed.tunnelAddress) : null;
+  // Same rule InstanceList uses to label single-ended clients, plus an explicit mode=1.
+  const isSingleEndedForward = !isServer && (parsed.params.get('mode') === '1' || isWildcardHostname(tunnelHost));
+
+  let logLevel: CreateInstanceFormValues['logLevel'] = 'master';
+  if (FORM_LOG_LEVELS.includes(parsed.logLevel as CreateInstanceFormValues['logLevel'])) {
+    logLevel = parsed.logLevel as CreateInstanceFormValues['logLevel'];
+  } else if (parsed.params.get('log') !== null) {
+    unknownParams.log = parsed.params.get('log')!; // e.g. "event", which the form cannot select.
+  }
+
+  // Advanced values the form hides for this role or shape (e.g. `min` on a server) or would drop as empty.
+  const advancedParams = { ...parsed.advancedParams };
+  const shownAdvancedKeys = new Set(getAdvancedParams(isServer ? 'server' : 'client', isSingleEndedForward).map(def => def.key));
+  for (const [key, value] of Object.entries(parsed.advancedParams)) {
+    if (value === undefined || (shownAdvancedKeys.has(key) && value.trim() !== '')) continue;
+    unknownParams[key] = value;
+    delete advancedParams[key];
+  }
+
+  const tls = parsed.params.get('tls');
+  const tlsMode = isServer
+    ? (parsed.tlsMode ?? 'master')
+    : isSingleEndedForward ? '0' : (tls === '0' || tls === '1' || tls === '2' ? tls : '0');
+  // The builder writes tls only when it differs from the role's default (server 1, client 0) and
+  // never for single-ended clients; crt/key only along with tls=2.
+  const emitsTls = isServer ? tls === '0' || tls === '2' : !isSingleEndedForward && (tls === '1' || tls === '2');
+  if (tls !== null && !emitsTls) unknownParams.tls = tls;
+  for (const key of ['crt', 'key']) {
+    const value = parsed.params.get(key);
+    if (value !== null && !(emitsTls && tls === '2' && value.trim() !== '')) unknownParams[key] = value;
+  }
+
+  let targetAddress = parsed.targetAddress ?? '';
+  let clientTargetHost: string | null = null;
+  if (!isServer && !isSingleEndedForward) {
+    const port = extractPort(targetAddress);
+    if (port && targetAddress.endsWith(`:${port}`)) clientTargetHost = targetAddress.slice(0, -(port.length + 1));
+    targetAddress = port ?? ''; // The form only takes the local port for clients.
+  }
+
+  return {
+    values: {
+      instanceType: isServer ? '服务端' : '客户端',
+      isSingleEndedForward,
+      tunnelKey: parsed.tunnelKey ?? '',
+      tunnelAddress: parsed.tunnelAddress ?? '',
+      targetAddress,
+      logLevel,
+      tlsMode,
+      certPath: tlsMode === '2' ? parsed.params.get('crt') ?? '' : '',
+      keyPath: tlsMode === '2' ? parsed.params.get('key') ?? '' : '',
+      advancedParams,
+    },
+    unknownParams,
+    preservedUserInfo: isSingleEndedForward ? url.match(/^[a-zA-Z]+:\/\/([^/?#]*)@/)?.[1] || null : null,
+    clientTargetHost,
+  };
+}
+
+export interface PairedServerMatch {
+  instance: Instance;
+  master: NamedApiConfig;
+  tunnelKey: string | null;
+}
+
+function tunnelHost(address: string): string | null {
+  if (address.startsWith(':')) return null; // ":10101" listens on all interfaces.
+  return extractHostname(address);
+}
+
+// Finds a known server instance whose tunnel a client pointed at `clientTunnelAddress` would reach.
+// Servers listening on a wildcard address are matched by their master's API host.
+export function findPairedServerInstance(
+  clientTunnelAddress: string,
+  instancesByMaster: Array<{ master: NamedApiConfig; instances: Instance[] }>
+): PairedServerMatch | null {
+  const clientPort = extractPort(clientTunnelAddress);
+  const clientHost = tunnelHost(clientTunnelAddress)?.toLowerCase();
+  if (!clientPort || !clientHost) return null;
+
+  for (const { master, instances } of instancesByMaster) {
+    for (const instance of instances) {
+      if (instance.type !== 'server' || instance.id === '********') continue;
+      const parsed = parseNodePassUrl(instance.url);
+      if (!parsed.tunnelAddress || extractPort(parsed.tunnelAddress) !== clientPort) continue;
+      const serverHost = tunnelHost(parsed.tunnelAddress);
+      const effectiveHost = !serverHost || isWildcardHostname(serverHost) ? extractHostname(master.apiUrl) : serverHost;
+      if (effectiveHost?.toLowerCase() === clientHost) {
+        return { instance, master, tunnelKey: parsed.tunnelKey };
+      }
+    }
+  }
+  return null;
+}
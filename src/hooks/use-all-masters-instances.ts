@@ -0,0 +1,69 @@
+"use client";
+
+import { useCallback, useMemo } from 'react';
+import { useQueries, type UseQueryResult } from '@tanstack/react-query';
+import type { Instance } from '@/types/nodepass';
+import type { NamedApiConfig } from './use-api-key';
+import { API_KEY_INSTANCE_ID, NodePassClient } from '@/lib/api';
+
+// No event stream per master here; every master is polled instead.
+const ALL_MASTERS_REFRESH_MS = 15000;
+
+export interface MasterInstance {
+  master: NamedApiConfig;
+  instance: Instance;
+}
+
+export interface MasterLoadFailure {
+  master: NamedApiConfig;
+  error: Error | null; // Null when the master is skipped for missing URL or key.
+  refetch: () => void;
+}
+
+export interface AllMastersInstances {
+  rows: MasterInstance[];
+  failures: MasterLoadFailure[];
+  isLoading: boolean;
+  isFetching: boolean;
+  loadedCount: number; // Masters whose instances are loaded.
+  refetchAll: () => void;
+}
+
+/**
+ * Instances of every given master, fetched in parallel like the traffic page. Each master is its
+ * own ['instances', id] query, shared with the home page, so one unreachable master only adds an
+ * entry to `failures` and actions can invalidate just the master they touched.
+ */
+export function useAllMastersInstances(configs: NamedApiConfig[]): AllMastersInstances {
+  const reachableConfigs = useMemo(() => configs.filter(config => config.apiUrl && config.token), [configs]);
+
+  // A stable `combine` lets React Query keep the combined result until one of the queries changes.
+  const combine = useCallback((results: UseQueryResult<Instance[], Error>[]): AllMastersInstances => ({
+    rows: reachableConfigs.flatMap((master, index) =>
+      (results[index]?.data ?? [])
+        .filter(instance => instance.id !== API_KEY_INSTANCE_ID)
+        .map(instance => ({ master, instance }))),
+    failures: [
+      ...configs
+        .filter(config => !config.apiUrl || !config.token)
+        .map(master => ({ master, error: null, refetch: () => {} })),
+      ...reachableConfigs.flatMap((master, index) => {
+        const result = results[index];
+        return result?.error ? [{ master, error: result.error, refetch: () => { void result.refetch(); } }] : [];
+      }),
+    ],
+    isLoading: results.some(result => result.isLoading),
+    isFetching: results.some(result => result.isFetching),
+    loadedCount: results.filter(result => result.isSuccess).length,
+    refetchAll: () => results.forEach(result => { void result.refetch(); }),
+  }), [configs, reachableConfigs]);
+
+  return useQueries({
+    queries: reachableConfigs.map(config => ({
+      queryKey: ['instances', config.id],
+      queryFn: ({ signal }: { signal: AbortSignal }) => new NodePassClient(config).getInstances({ signal }),
+      refetchInterval: ALL_MASTERS_REFRESH_MS,
+    })),
+    combine,
+  });
+}
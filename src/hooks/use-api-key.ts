@@ -2,8 +2,18 @@
 
 import { useState, useEffect, useCallback, useMemo } from 'react';
 import { v4 as uuidv4 } from 'uuid'; // For generating unique IDs
+import {
+  useCredentialVault,
+  getVaultState,
+  saveVaultConfigs,
+  enableVault,
+  disableVault,
+} from './use-credential-vault';
+import { getPanelStorageState, saveServerApiConfigs, usePanelStorage } from './use-panel-storage';
+import { normalizeGroup, normalizeTags } from '@/lib/master-groups';
+import { getMasterApiRoot } from '@/lib/api';
 
-const API_CONFIGS_LIST_STORAGE_KEY = 'nodepass_api_configs_list';
+export const API_CONFIGS_LIST_STORAGE_KEY = 'nodepass_api_configs_list';
 const ACTIVE_API_CONFIG_ID_STORAGE_KEY = 'nodepass_active_api_config_id';
 
 export type MasterLogLevel = 'debug' | 'info' | 'warn' | 'error' | 'event' | 'master';
@@ -20,37 +30,84 @@ export interface NamedApiConfig extends ApiConfig {
   name: string;
   masterDefaultLogLevel?: MasterLogLevel;
   masterDefaultTlsMode?: MasterTlsMode;
+  group?: string; // 分组 (文件夹)，未设置为未分组
+  tags?: string[];
+  // 以下两项仅在面板服务器代理模式下生效 (浏览器直连时由浏览器自行校验证书)
+  tlsCertificate?: string; // 额外信任的主控证书 (PEM)，用于自签名证书
+  tlsSkipVerify?: boolean; // 完全跳过证书校验
+  apiKeyUnverified?: boolean; // 轮换后新密钥未通过验证；重新保存连接配置后清除
+}
+
+// 本页内所有 useApiConfig 实例的重新加载函数。storage 事件只在其他标签页触发，同页实例需要单独通知。
+const sameTabListeners = new Set<() => void>();
+
+// 通知除 source 外的同页实例重新读取存储。延迟到微任务执行，
+// 因为保存可能发生在 setState 的 updater 中，此时不能更新其他组件。
+function publishApiConfigChange(source: () => void) {
+  queueMicrotask(() => {
+    sameTabListeners.forEach(listener => {
+      if (listener !== source) listener();
+    });
+  });
 }
 
 export function useApiConfig() {
   const [apiConfigsList, setApiConfigsList] = useState<NamedApiConfig[]>([]);
   const [activeConfigId, setActiveConfigId] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const vault = useCredentialVault();
+  const panelStorage = usePanelStorage();
 
   // 3. 辅助函数，用于清理配置对象中的旧字段
   const getCleanConfig = (config: NamedApiConfig | null): NamedApiConfig | null => {
     if (!config) return null;
-    const { ignoreSslErrors, prefixPath, ...restConfig } = config as any; // 显式移除旧字段
-    return {
+    const { ignoreSslErrors, prefixPath, group, tags, ...restConfig } = config as any; // 显式移除旧字段
+    const cleanConfig: NamedApiConfig = {
       ...restConfig,
       masterDefaultLogLevel: config.masterDefaultLogLevel || 'master',
       masterDefaultTlsMode: config.masterDefaultTlsMode || 'master',
     };
+    // 空分组和空标签列表不保存
+    const normalizedGroup = normalizeGroup(group);
+    const normalizedTags = normalizeTags(tags);
+    if (normalizedGroup) cleanConfig.group = normalizedGroup;
+    if (normalizedTags.length > 0) cleanConfig.tags = normalizedTags;
+    return cleanConfig;
   };
 
-  useEffect(() => {
+  // 从 localStorage (或已解锁的保险库) 读取列表和活动主控；挂载时以及其他实例/标签页修改后调用
+  const reloadFromStorage = useCallback(() => {
+    // 检测存储模式期间保持加载状态，避免先显示本地列表再切换为服务器列表
+    const storageState = getPanelStorageState();
+    if (storageState.status === 'detecting') return;
     try {
+      // 保险库启用时，配置列表只存在于加密数据中；锁定状态下列表为空，由 VaultGate 显示解锁界面
+      const vaultState = getVaultState();
       const storedConfigsList = localStorage.getItem(API_CONFIGS_LIST_STORAGE_KEY);
-      if (storedConfigsList) {
-        const parsedConfigs = JSON.parse(storedConfigsList) as NamedApiConfig[];
+      if (storageState.status === 'server') {
+        // 服务器模式：列表来自面板服务器，所有浏览器共享；活动主控仍按浏览器保存
+        setApiConfigsList((storageState.configs ?? []).map(config => getCleanConfig(config)).filter(Boolean) as NamedApiConfig[]);
+      } else if (vaultState.status === 'disabled') {
+        const parsedConfigs = storedConfigsList ? JSON.parse(storedConfigsList) as NamedApiConfig[] : [];
         // 数据迁移：确保从旧存储中加载的配置是干净的
         const migratedConfigs = parsedConfigs.map(config => getCleanConfig(config)).filter(Boolean) as NamedApiConfig[];
         setApiConfigsList(migratedConfigs);
+      } else if (vaultState.status === 'unlocked' && vaultState.configs) {
+        let vaultConfigs = vaultState.configs;
+        if (storedConfigsList) {
+          // 数据迁移：启用保险库后仍残留的明文配置 (例如旧版本页面写入) 合并进保险库并删除明文
+          const leftovers = (JSON.parse(storedConfigsList) as NamedApiConfig[]).filter(c => !vaultConfigs.some(v => v.id === c.id));
+          vaultConfigs = [...vaultConfigs, ...leftovers];
+          localStorage.removeItem(API_CONFIGS_LIST_STORAGE_KEY);
+          if (leftovers.length > 0) {
+            saveVaultConfigs(vaultConfigs).catch(error => console.error("无法将明文主控配置迁移到保险库:", error));
+          }
+        }
+        setApiConfigsList(vaultConfigs.map(config => getCleanConfig(config)).filter(Boolean) as NamedApiConfig[]);
+      } else {
+        setApiConfigsList([]);
       }
-      const storedActiveConfigId = localStorage.getItem(ACTIVE_API_CONFIG_ID_STORAGE_KEY);
-      if (storedActiveConfigId) {
-        setActiveConfigId(storedActiveConfigId);
-      }
+      setActiveConfigId(localStorage.getItem(ACTIVE_API_CONFIG_ID_STORAGE_KEY));
     } catch (error) {
       console.warn("无法从 localStorage 加载主控配置列表:", error);
     } finally {
@@ -58,16 +115,45 @@ export function useApiConfig() {
     }
   }, []);
 
+  useEffect(() => {
+    reloadFromStorage();
+  }, [reloadFromStorage, vault.status, vault.configs, panelStorage.status, panelStorage.configs]);
+
+  // 同步：本页其他 useApiConfig 实例通过 publishApiConfigChange 通知，其他标签页通过 storage 事件通知。
+  // 加密列表的跨标签页同步由保险库自身处理 (见 use-credential-vault)，其结果经 vault.configs 触发上面的重新加载。
+  useEffect(() => {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === null || event.key === API_CONFIGS_LIST_STORAGE_KEY || event.key === ACTIVE_API_CONFIG_ID_STORAGE_KEY) {
+        reloadFromStorage();
+      }
+    };
+    sameTabListeners.add(reloadFromStorage);
+    window.addEventListener('storage', handleStorage);
+    return () => {
+      sameTabListeners.delete(reloadFromStorage);
+      window.removeEventListener('storage', handleStorage);
+    };
+  }, [reloadFromStorage]);
+
   const saveApiConfigsList = useCallback((configs: NamedApiConfig[]) => {
     try {
       // 确保保存到 localStorage 的数据也是干净的
       const cleanConfigs = configs.map(config => getCleanConfig(config)).filter(Boolean) as NamedApiConfig[];
-      localStorage.setItem(API_CONFIGS_LIST_STORAGE_KEY, JSON.stringify(cleanConfigs));
+      if (getPanelStorageState().status === 'server') {
+        // 保存后服务器存储会通知所有实例 (panelStorage.configs 变化)
+        saveServerApiConfigs(cleanConfigs).catch(error => console.error("无法将主控配置列表保存到面板服务器:", error));
+      } else if (getVaultState().status === 'disabled') {
+        localStorage.setItem(API_CONFIGS_LIST_STORAGE_KEY, JSON.stringify(cleanConfigs));
+        publishApiConfigChange(reloadFromStorage);
+      } else {
+        // 保存完成后保险库会通知所有实例 (vault.configs 变化)，无需在此发布
+        saveVaultConfigs(cleanConfigs).catch(error => console.error("无法加密保存主控配置列表:", error));
+      }
       setApiConfigsList(cleanConfigs);
     } catch (error) {
       console.error("无法将主控配置列表保存到 localStorage:", error);
     }
-  }, []);
+  }, [reloadFromStorage]);
 
   const saveActiveConfigId = useCallback((id: string | null) => {
     try {
@@ -77,10 +163,11 @@ export function useApiConfig() {
         localStorage.removeItem(ACTIVE_API_CONFIG_ID_STORAGE_KEY);
       }
       setActiveConfigId(id);
+      publishApiConfigChange(reloadFromStorage);
     } catch (error) {
       console.error("无法将活动主控 ID 保存到 localStorage:", error);
     }
-  }, []);
+  }, [reloadFromStorage]);
 
   const addOrUpdateApiConfig = useCallback((config: Omit<NamedApiConfig, 'id'> & { id?: string }) => {
     const newId = config.id || uuidv4();
@@ -103,6 +190,22 @@ export function useApiConfig() {
     return cleanConfig;
   }, [saveApiConfigsList]);
 
+  // 批量写入 (导入)：按 ID 覆盖已有配置或追加，只保存一次
+  const upsertApiConfigs = useCallback((configs: NamedApiConfig[]) => {
+    setApiConfigsList(prevList => {
+      const newList = [...prevList];
+      configs.forEach(config => {
+        const cleanConfig = getCleanConfig(config);
+        if (!cleanConfig) return;
+        const existingIndex = newList.findIndex(c => c.id === cleanConfig.id);
+        if (existingIndex > -1) newList[existingIndex] = cleanConfig;
+        else newList.push(cleanConfig);
+      });
+      saveApiConfigsList(newList);
+      return newList;
+    });
+  }, [saveApiConfigsList]);
+
   const deleteApiConfig = useCallback((id: string) => {
     setApiConfigsList(prevList => {
       const newList = prevList.filter(c => c.id !== id);
@@ -118,6 +221,23 @@ export function useApiConfig() {
     saveActiveConfigId(null);
   }, [saveActiveConfigId]);
 
+  // 启用保险库：加密当前列表后删除明文副本
+  const enableCredentialVault = useCallback(async (passphrase: string) => {
+    if (getPanelStorageState().status === 'server') throw new Error('服务器存储模式下主控配置保存在面板服务器上，无法使用浏览器保险库。');
+    const storedConfigsList = localStorage.getItem(API_CONFIGS_LIST_STORAGE_KEY);
+    const plainConfigs = storedConfigsList ? (JSON.parse(storedConfigsList) as NamedApiConfig[]) : apiConfigsList;
+    await enableVault(passphrase, plainConfigs.map(config => getCleanConfig(config)).filter(Boolean) as NamedApiConfig[]);
+    localStorage.removeItem(API_CONFIGS_LIST_STORAGE_KEY);
+  }, [apiConfigsList]);
+
+  // 停用保险库：需已解锁，解密后的列表以明文写回
+  const disableCredentialVault = useCallback(() => {
+    const configs = disableVault();
+    localStorage.setItem(API_CONFIGS_LIST_STORAGE_KEY, JSON.stringify(configs));
+    setApiConfigsList(configs.map(config => getCleanConfig(config)).filter(Boolean) as NamedApiConfig[]);
+    publishApiConfigChange(reloadFromStorage);
+  }, [reloadFromStorage]);
+
   const activeApiConfig = useMemo(() => {
     if (!activeConfigId) return null;
     const config = apiConfigsList.find(c => c.id === activeConfigId) || null;
@@ -134,8 +254,8 @@ export function useApiConfig() {
     const config = getApiConfigById(id);
     if (!config?.apiUrl) return null;
     
-    // 直接返回 apiUrl，并移除末尾的斜杠以保持统一
-    return config.apiUrl.replace(/\/+$/, '');
+    // 返回去掉末尾斜杠的 apiUrl；启用面板服务器代理时返回代理路径
+    return getMasterApiRoot(config);
   }, [getApiConfigById]);
 
   const getToken = useCallback((id: string): string | null => {
@@ -148,11 +268,18 @@ export function useApiConfig() {
     activeApiConfig,
     isLoading, 
     addOrUpdateApiConfig,
+    upsertApiConfigs,
     deleteApiConfig,
     setActiveApiConfigId: saveActiveConfigId,
     clearActiveApiConfig,
     getApiRootUrl,
     getToken,
     getApiConfigById,
+    storageMode: panelStorage.status,
+    storageError: panelStorage.error,
+    isProxied: panelStorage.proxy,
+    vaultStatus: vault.status,
+    enableCredentialVault,
+    disableCredentialVault,
   };
 }
\ No newline at end of file
@@ -0,0 +1,61 @@
+"use client";
+
+import { useEffect } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { isMasterProxyEnabled } from '@/lib/api';
+import {
+  appendServerAuditEntry,
+  isMasterApiAction,
+  maskAuditEntryUrls,
+  queryServerAuditLog,
+  type AuditEntry,
+  type AuditEntryInput,
+  type AuditLogQuery,
+} from '@/lib/audit-log';
+import { appendLocalAuditEntry, queryLocalAuditLog } from '@/lib/audit-log-db';
+import { usePanelStorage, whenPanelStorageReady } from './use-panel-storage';
+
+const listeners = new Set<() => void>();
+
+// Fire-and-forget: an audit write must never block or fail the operation it describes, so errors
+// only reach the console. Entries go wherever the master list lives (server file or IndexedDB).
+// Operations on masters are left to the master proxy when it is enabled, which logs them itself.
+export function recordAudit(input: AuditEntryInput): void {
+  if (isMasterProxyEnabled() && isMasterApiAction(input.action)) {
+    listeners.forEach(listener => listener()); // The proxy wrote its entry before responding.
+    return;
+  }
+  const masked = maskAuditEntryUrls(input);
+  void (async () => {
+    try {
+      if (await whenPanelStorageReady() === 'server') await appendServerAuditEntry(masked);
+      else await appendLocalAuditEntry(masked);
+      listeners.forEach(listener => listener());
+    } catch (error) {
+      console.error('无法写入审计日志:', error);
+    }
+  })();
+}
+
+const maskStoredEntries = (entries: AuditEntry[]) => entries.map(entry => maskAuditEntryUrls(entry));
+
+export function useAuditLog(query: AuditLogQuery) {
+  const { status } = usePanelStorage();
+  const result = useQuery<AuditEntry[], Error>({
+    queryKey: ['auditLog', status, query],
+    queryFn: ({ signal }) => (status === 'server' ? queryServerAuditLog(query, signal) : queryLocalAuditLog(query)),
+    enabled: status !== 'detecting',
+    // Entries written before URLs were masked on the way in may still hold tunnel keys.
+    select: maskStoredEntries,
+  });
+
+  // Entries recorded in this tab show up immediately; other browsers on refetch (window focus).
+  const { refetch } = result;
+  useEffect(() => {
+    const listener = () => { void refetch(); };
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+  }, [refetch]);
+
+  return { ...result, storageStatus: status };
+}
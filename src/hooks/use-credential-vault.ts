@@ -0,0 +1,203 @@
+"use client";
+
+import { useEffect, useSyncExternalStore } from 'react';
+import type { NamedApiConfig } from './use-api-key';
+import {
+  deriveVaultKey,
+  isSameVaultKey,
+  isVaultEnvelope,
+  openVault,
+  openVaultWithKey,
+  sealVault,
+  type VaultEnvelope,
+  type VaultKey,
+} from '@/lib/credential-vault';
+
+const VAULT_STORAGE_KEY = 'nodepass_api_configs_vault';
+const VAULT_SETTINGS_STORAGE_KEY = 'nodepass_vault_settings';
+
+export const DEFAULT_AUTO_LOCK_MINUTES = 15;
+const AUTO_LOCK_CHECK_INTERVAL_MS = 15000;
+const ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'scroll', 'touchstart'] as const;
+
+export type VaultStatus = 'disabled' | 'locked' | 'unlocked';
+
+export interface VaultState {
+  status: VaultStatus;
+  // Decrypted list while unlocked; null otherwise.
+  configs: NamedApiConfig[] | null;
+  autoLockMinutes: number; // 0 disables auto-lock.
+}
+
+interface VaultPayload {
+  configs: NamedApiConfig[];
+}
+
+// Module-level so every useApiConfig instance on the page shares one unlocked vault. The derived
+// key lives only in memory; a reload locks the vault again.
+let vaultKey: VaultKey | null = null;
+let state: VaultState | null = null;
+const listeners = new Set<() => void>();
+
+const SERVER_STATE: VaultState = { status: 'disabled', configs: null, autoLockMinutes: DEFAULT_AUTO_LOCK_MINUTES };
+
+function readEnvelope(): VaultEnvelope | null {
+  try {
+    const raw = localStorage.getItem(VAULT_STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : null;
+    return isVaultEnvelope(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+function readAutoLockMinutes(): number {
+  try {
+    const minutes = JSON.parse(localStorage.getItem(VAULT_SETTINGS_STORAGE_KEY) || '{}').autoLockMinutes;
+    return typeof minutes === 'number' && minutes >= 0 ? minutes : DEFAULT_AUTO_LOCK_MINUTES;
+  } catch {
+    return DEFAULT_AUTO_LOCK_MINUTES;
+  }
+}
+
+function getState(): VaultState {
+  if (typeof window === 'undefined') return SERVER_STATE;
+  if (!state) {
+    state = { status: readEnvelope() ? 'locked' : 'disabled', configs: null, autoLockMinutes: readAutoLockMinutes() };
+  }
+  return state;
+}
+
+function setState(next: Partial<VaultState>) {
+  state = { ...getState(), ...next };
+  listeners.forEach(listener => listener());
+}
+
+// Another tab changed the vault. Re-open it with the in-memory key when that key still fits
+// (a plain save); a new passphrase locks this tab, and a removed vault disables it.
+async function handleStorageChange(event: StorageEvent) {
+  if (event.key === VAULT_SETTINGS_STORAGE_KEY) {
+    setState({ autoLockMinutes: readAutoLockMinutes() });
+    return;
+  }
+  if (event.key !== VAULT_STORAGE_KEY && event.key !== null) return;
+  const envelope = readEnvelope();
+  if (!envelope) {
+    vaultKey = null;
+    setState({ status: 'disabled', configs: null });
+    return;
+  }
+  const key = vaultKey;
+  if (!key || !isSameVaultKey(envelope, key)) {
+    vaultKey = null;
+    setState({ status: 'locked', configs: null });
+    return;
+  }
+  try {
+    const payload = await openVaultWithKey<VaultPayload>(envelope, key);
+    if (vaultKey === key) setState({ configs: Array.isArray(payload.configs) ? payload.configs : [] });
+  } catch {
+    lockVault();
+  }
+}
+
+function subscribe(listener: () => void) {
+  if (listeners.size === 0) window.addEventListener('storage', handleStorageChange);
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0) window.removeEventListener('storage', handleStorageChange);
+  };
+}
+
+async function writeSealed(key: VaultKey, configs: NamedApiConfig[]) {
+  const envelope = await sealVault(key, { configs } satisfies VaultPayload);
+  localStorage.setItem(VAULT_STORAGE_KEY, JSON.stringify(envelope));
+}
+
+export function getVaultState(): VaultState {
+  return getState();
+}
+
+export async function unlockVault(passphrase: string): Promise<void> {
+  const envelope = readEnvelope();
+  if (!envelope) throw new Error('未找到凭据保险库。');
+  const { payload, vaultKey: key } = await openVault<VaultPayload>(envelope, passphrase);
+  vaultKey = key;
+  setState({ status: 'unlocked', configs: Array.isArray(payload.configs) ? payload.configs : [] });
+}
+
+export function lockVault() {
+  if (getState().status === 'disabled') return;
+  vaultKey = null;
+  setState({ status: 'locked', configs: null });
+}
+
+// Encrypts `configs` under a new passphrase. The caller removes its plaintext copy afterwards.
+export async function enableVault(passphrase: string, configs: NamedApiConfig[]): Promise<void> {
+  const key = await deriveVaultKey(passphrase);
+  await writeSealed(key, configs);
+  vaultKey = key;
+  setState({ status: 'unlocked', configs });
+}
+
+// Returns the decrypted list so the caller can store it in plaintext again.
+export function disableVault(): NamedApiConfig[] {
+  const current = getState();
+  if (current.status !== 'unlocked' || !current.configs) throw new Error('请先解锁凭据保险库。');
+  localStorage.removeItem(VAULT_STORAGE_KEY);
+  vaultKey = null;
+  setState({ status: 'disabled', configs: null });
+  return current.configs;
+}
+
+// Escape hatch for a forgotten passphrase: the encrypted list is discarded.
+export function resetVault() {
+  localStorage.removeItem(VAULT_STORAGE_KEY);
+  vaultKey = null;
+  setState({ status: 'disabled', configs: null });
+}
+
+export async function saveVaultConfigs(configs: NamedApiConfig[]): Promise<void> {
+  if (!vaultKey) throw new Error('凭据保险库已锁定，无法保存主控配置。');
+  await writeSealed(vaultKey, configs);
+  setState({ configs });
+}
+
+export async function changeVaultPassphrase(currentPassphrase: string, nextPassphrase: string): Promise<void> {
+  const envelope = readEnvelope();
+  if (!envelope) throw new Error('未找到凭据保险库。');
+  const { payload } = await openVault<VaultPayload>(envelope, currentPassphrase);
+  const key = await deriveVaultKey(nextPassphrase);
+  await writeSealed(key, payload.configs);
+  vaultKey = key;
+  setState({ status: 'unlocked', configs: payload.configs });
+}
+
+export function setVaultAutoLockMinutes(minutes: number) {
+  localStorage.setItem(VAULT_SETTINGS_STORAGE_KEY, JSON.stringify({ autoLockMinutes: minutes }));
+  setState({ autoLockMinutes: minutes });
+}
+
+export function useCredentialVault(): VaultState {
+  return useSyncExternalStore(subscribe, getState, () => SERVER_STATE);
+}
+
+/** Locks the vault after `autoLockMinutes` without keyboard, mouse or touch activity. */
+export function useVaultAutoLock() {
+  const { status, autoLockMinutes } = useCredentialVault();
+
+  useEffect(() => {
+    if (status !== 'unlocked' || autoLockMinutes <= 0) return;
+    let lastActivity = Date.now();
+    const onActivity = () => { lastActivity = Date.now(); };
+    ACTIVITY_EVENTS.forEach(name => window.addEventListener(name, onActivity, { passive: true }));
+    const timer = setInterval(() => {
+      if (Date.now() - lastActivity >= autoLockMinutes * 60000) lockVault();
+    }, AUTO_LOCK_CHECK_INTERVAL_MS);
+    return () => {
+      clearInterval(timer);
+      ACTIVITY_EVENTS.forEach(name => window.removeEventListener(name, onActivity));
+    };
+  }, [status, autoLockMinutes]);
+}
@@ -0,0 +1,127 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import type { Instance, InstanceEvent } from '@/types/nodepass';
+import type { ApiConfig, NamedApiConfig } from './use-api-key';
+import { NodePassEventStream, type EventStreamListener, type EventStreamStatus } from '@/lib/event-stream';
+import { getEventsUrl, getMasterApiRoot } from '@/lib/api';
+
+// Masters send `initial` one instance at a time; the snapshot is committed once they stop arriving.
+const INITIAL_SNAPSHOT_SETTLE_MS = 300;
+
+// One connection per master (keyed by events URL + token), shared by every component on the page.
+// Entries are reference-counted, so an edited, re-keyed or deleted master does not leave its old
+// stream behind retrying a dead endpoint.
+const sharedStreams = new Map<string, { stream: NodePassEventStream; subscribers: number }>();
+
+function getSharedStreamKey(config: ApiConfig): { url: string; key: string } {
+  const url = getEventsUrl(config.apiUrl.trim().replace(/\/+$/, ''));
+  return { url, key: `${url}|${config.token}` };
+}
+
+/** Subscribes to the master's shared stream; the last subscriber to leave closes and drops it. */
+export function subscribeSharedEventStream(config: ApiConfig, listener: EventStreamListener): { stream: NodePassEventStream; unsubscribe: () => void } {
+  const { url, key } = getSharedStreamKey(config);
+  let entry = sharedStreams.get(key);
+  if (!entry) {
+    entry = { stream: new NodePassEventStream({ url, token: config.token }), subscribers: 0 };
+    sharedStreams.set(key, entry);
+  }
+  const current = entry;
+  current.subscribers++;
+  const unsubscribeListener = current.stream.subscribe(listener);
+  let subscribed = true;
+  const unsubscribe = () => {
+    if (!subscribed) return;
+    subscribed = false;
+    unsubscribeListener(); // The stream closes itself once it has no listeners.
+    if (--current.subscribers === 0 && sharedStreams.get(key) === current) sharedStreams.delete(key);
+  };
+  return { stream: current.stream, unsubscribe };
+}
+
+// Status of the shared connection to a master without opening one; 'idle' when there is none.
+export function peekSharedEventStreamStatus(config: ApiConfig): EventStreamStatus {
+  return sharedStreams.get(getSharedStreamKey(config).key)?.stream.status ?? 'idle';
+}
+
+export function applyInstanceEvent(instances: Instance[] | undefined, event: InstanceEvent): Instance[] | undefined {
+  const changed = event.instance;
+  if (!changed) return instances;
+  const list = instances ?? [];
+  switch (event.type) {
+    case 'create':
+    case 'update':
+    case 'initial': {
+      const index = list.findIndex(inst => inst.id === changed.id);
+      if (index === -1) return [...list, changed];
+      const next = [...list];
+      next[index] = { ...list[index], ...changed };
+      return next;
+    }
+    case 'delete':
+      return list.filter(inst => inst.id !== changed.id);
+    default:
+      return instances;
+  }
+}
+
+/**
+ * Keeps the `['instances', apiId]` query in sync with the master's event stream. While the
+ * stream is open `isLive` is true and callers can drop their polling interval.
+ */
+export function useLiveInstances(apiId: string | null, config: NamedApiConfig | null) {
+  const queryClient = useQueryClient();
+  const [status, setStatus] = useState<EventStreamStatus>('idle');
+  // Same root as getApiRootUrl, so the instance details modal shares this connection.
+  const apiUrl = config?.apiUrl ? getMasterApiRoot(config) : undefined;
+  const token = config?.token;
+
+  useEffect(() => {
+    if (!apiId || !apiUrl || !token) {
+      setStatus('idle');
+      return;
+    }
+    const queryKey = ['instances', apiId];
+
+    let snapshot: Instance[] | null = null;
+    let snapshotTimer: ReturnType<typeof setTimeout> | null = null;
+    const commitSnapshot = () => {
+      if (snapshotTimer) clearTimeout(snapshotTimer);
+      snapshotTimer = null;
+      if (snapshot) queryClient.setQueryData<Instance[]>(queryKey, snapshot);
+      snapshot = null;
+    };
+
+    const { stream, unsubscribe } = subscribeSharedEventStream({ apiUrl, token }, {
+      onStatusChange: setStatus,
+      onEvent: (event) => {
+        if (event.type === 'initial') {
+          if (event.instances) {
+            snapshot = event.instances;
+            commitSnapshot();
+          } else if (event.instance) {
+            snapshot = applyInstanceEvent(snapshot ?? [], event) ?? [];
+            if (snapshotTimer) clearTimeout(snapshotTimer);
+            snapshotTimer = setTimeout(commitSnapshot, INITIAL_SNAPSHOT_SETTLE_MS);
+          }
+          return;
+        }
+        if (event.type === 'create' || event.type === 'update' || event.type === 'delete') {
+          commitSnapshot();
+          queryClient.setQueryData<Instance[]>(queryKey, old => applyInstanceEvent(old, event));
+          if (event.type !== 'update') queryClient.invalidateQueries({ queryKey: ['allInstancesForTraffic'] });
+        }
+      },
+    });
+    setStatus(stream.status);
+
+    return () => {
+      if (snapshotTimer) clearTimeout(snapshotTimer);
+      unsubscribe();
+    };
+  }, [apiId, apiUrl, token, queryClient]);
+
+  return { status, isLive: status === 'open' };
+}
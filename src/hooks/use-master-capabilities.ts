@@ -0,0 +1,36 @@
+"use client";
+
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import type { NamedApiConfig } from './use-api-key';
+import { NodePassClient } from '@/lib/api';
+import { DEFAULT_MASTER_CAPABILITIES, probeMasterCapabilities, type MasterCapabilities } from '@/lib/master-capabilities';
+
+// A master's feature set only changes when it is upgraded; re-probe occasionally, not per render.
+const CAPABILITIES_STALE_MS = 10 * 60 * 1000;
+
+/**
+ * Probes (once per master, cached in the query client) which features the master supports.
+ * Until the probe succeeds `capabilities` is DEFAULT_MASTER_CAPABILITIES, i.e. nothing is hidden.
+ */
+export function useMasterCapabilities(config: NamedApiConfig | null | undefined) {
+  const client = useMemo(() => (config?.apiUrl && config.token ? new NodePassClient(config) : null), [config]);
+
+  const query = useQuery<MasterCapabilities, Error>({
+    queryKey: ['masterCapabilities', config?.id, config?.apiUrl],
+    queryFn: ({ signal }) => {
+      if (!client) throw new Error("主控配置不完整。");
+      return probeMasterCapabilities(client, signal);
+    },
+    enabled: !!client,
+    staleTime: CAPABILITIES_STALE_MS,
+    gcTime: Infinity,
+    retry: false,
+  });
+
+  return {
+    capabilities: query.data ?? DEFAULT_MASTER_CAPABILITIES,
+    isProbed: query.isSuccess,
+    error: query.error,
+  };
+}
@@ -0,0 +1,147 @@
+"use client";
+
+import { useEffect, useMemo, useSyncExternalStore } from 'react';
+import type { NamedApiConfig } from './use-api-key';
+import { peekSharedEventStreamStatus } from './use-live-instances';
+import { getMasterApiRoot } from '@/lib/api';
+import {
+  HEALTH_HISTORY_LENGTH,
+  HEALTH_PROBE_INTERVAL_MS,
+  probeMaster,
+  summarizeMasterHealth,
+  type MasterHealthSample,
+  type MasterHealthSummary,
+} from '@/lib/master-health';
+
+const HEALTH_HISTORY_STORAGE_KEY = 'nodepass_master_health';
+// History of masters not seen for this long is dropped when the page loads.
+const HEALTH_HISTORY_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+type HealthHistory = Record<string, MasterHealthSample[]>;
+
+// Module-level like the panel storage store: one monitor per tab, whichever components read it.
+// History survives reloads through localStorage.
+let history: HealthHistory = {};
+let historyLoaded = false;
+let monitored: NamedApiConfig[] = [];
+// apiUrl + token per master, to notice edits that make the old samples meaningless.
+const monitoredEndpoints = new Map<string, string>();
+const inFlight = new Set<string>();
+let timer: ReturnType<typeof setInterval> | null = null;
+let lastRoundAt = 0;
+const listeners = new Set<() => void>();
+
+const EMPTY_HISTORY: HealthHistory = {};
+const EMPTY_SAMPLES: MasterHealthSample[] = [];
+
+function loadHistory() {
+  if (historyLoaded) return;
+  historyLoaded = true;
+  try {
+    const parsed = JSON.parse(localStorage.getItem(HEALTH_HISTORY_STORAGE_KEY) || '{}');
+    const cutoff = Date.now() - HEALTH_HISTORY_MAX_AGE_MS;
+    history = Object.fromEntries(
+      Object.entries(parsed as HealthHistory).filter(([, samples]) =>
+        Array.isArray(samples) && samples.length > 0 && samples[samples.length - 1].time > cutoff)
+    );
+  } catch {
+    history = {};
+  }
+}
+
+function setHistory(next: HealthHistory) {
+  history = next;
+  try {
+    localStorage.setItem(HEALTH_HISTORY_STORAGE_KEY, JSON.stringify(history));
+  } catch (error) {
+    console.warn('无法保存主控健康历史:', error);
+  }
+  listeners.forEach(listener => listener());
+}
+
+function getEndpointKey(config: NamedApiConfig) {
+  return `${config.apiUrl}|${config.token}`;
+}
+
+async function probeOne(config: NamedApiConfig) {
+  if (inFlight.has(config.id) || !config.apiUrl || !config.token) return;
+  inFlight.add(config.id);
+  try {
+    const endpointKey = getEndpointKey(config);
+    const sseOpen = peekSharedEventStreamStatus({ apiUrl: getMasterApiRoot(config), token: config.token }) === 'open';
+    const sample = await probeMaster(config, { sseOpen });
+    // Edited or removed while the probe ran.
+    if (monitoredEndpoints.get(config.id) !== endpointKey) return;
+    setHistory({ ...history, [config.id]: [...(history[config.id] ?? []), sample].slice(-HEALTH_HISTORY_LENGTH) });
+  } finally {
+    inFlight.delete(config.id);
+  }
+}
+
+function probeAll() {
+  if (document.visibilityState !== 'visible') return;
+  lastRoundAt = Date.now();
+  monitored.forEach(config => { void probeOne(config); });
+}
+
+// Hidden tabs skip their rounds; catch up as soon as the tab is visible again.
+function handleVisibilityChange() {
+  if (document.visibilityState === 'visible' && Date.now() - lastRoundAt >= HEALTH_PROBE_INTERVAL_MS) probeAll();
+}
+
+function setMonitoredMasters(configs: NamedApiConfig[]) {
+  loadHistory();
+  monitored = configs;
+  const changed: NamedApiConfig[] = [];
+  let nextHistory = history;
+  const ids = new Set(configs.map(config => config.id));
+  monitoredEndpoints.forEach((_, id) => { if (!ids.has(id)) monitoredEndpoints.delete(id); });
+  configs.forEach(config => {
+    const endpointKey = getEndpointKey(config);
+    const previous = monitoredEndpoints.get(config.id);
+    if (previous === endpointKey) return;
+    monitoredEndpoints.set(config.id, endpointKey);
+    changed.push(config);
+    // A different URL or key is effectively a different master; start its history over.
+    if (previous !== undefined && nextHistory[config.id]) {
+      nextHistory = { ...nextHistory };
+      delete nextHistory[config.id];
+    }
+  });
+  if (nextHistory !== history) setHistory(nextHistory);
+
+  if (!timer) {
+    timer = setInterval(probeAll, HEALTH_PROBE_INTERVAL_MS);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+  }
+  // New or edited masters get checked right away instead of waiting for the next round.
+  if (document.visibilityState === 'visible') changed.forEach(config => { void probeOne(config); });
+}
+
+function subscribe(listener: () => void) {
+  loadHistory();
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+}
+
+function getSnapshot(): HealthHistory {
+  return history;
+}
+
+/** Starts (or updates) background probing of the given masters. Mount once, in AppLayout. */
+export function useMasterHealthMonitor(configs: NamedApiConfig[]) {
+  useEffect(() => {
+    setMonitoredMasters(configs);
+  }, [configs]);
+}
+
+export function useMasterHealthHistory(): HealthHistory {
+  return useSyncExternalStore(subscribe, getSnapshot, () => EMPTY_HISTORY);
+}
+
+export function useMasterHealth(masterId: string | null | undefined): { samples: MasterHealthSample[]; summary: MasterHealthSummary } {
+  const allHistory = useMasterHealthHistory();
+  const samples = (masterId && allHistory[masterId]) || EMPTY_SAMPLES;
+  const summary = useMemo(() => summarizeMasterHealth(samples), [samples]);
+  return { samples, summary };
+}
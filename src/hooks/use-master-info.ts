@@ -0,0 +1,35 @@
+"use client";
+
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import type { MasterInfo } from '@/types/nodepass';
+import type { NamedApiConfig } from './use-api-key';
+import { NodePassClient, NodePassNotFoundError } from '@/lib/api';
+
+const MASTER_INFO_STALE_MS = 30000;
+const MASTER_INFO_REFRESH_MS = 60000;
+
+/**
+ * Fetches GET /info for one master. Resolves to `null` when the master predates the endpoint,
+ * so callers can tell "unknown" apart from a failed request (`error`).
+ */
+export function useMasterInfo(config: NamedApiConfig | null, options: { enabled?: boolean } = {}) {
+  const client = useMemo(() => (config?.apiUrl && config.token ? new NodePassClient(config, { retries: 0 }) : null), [config]);
+
+  return useQuery<MasterInfo | null, Error>({
+    queryKey: ['masterInfo', config?.id, config?.apiUrl],
+    queryFn: async ({ signal }) => {
+      if (!client) throw new Error("主控配置不完整。");
+      try {
+        return await client.getMasterInfo({ signal });
+      } catch (error) {
+        if (error instanceof NodePassNotFoundError) return null;
+        throw error;
+      }
+    },
+    enabled: !!client && (options.enabled ?? true),
+    staleTime: MASTER_INFO_STALE_MS,
+    refetchInterval: MASTER_INFO_REFRESH_MS,
+    retry: false,
+  });
+}
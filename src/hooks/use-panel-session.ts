@@ -0,0 +1,77 @@
+"use client";
+
+import { useSyncExternalStore } from 'react';
+import { fetchPanelSession, loginPanel, logoutPanel, setupPanelAdmin, type PanelSessionInfo } from '@/lib/panel-auth';
+import { reloadPanelStorage } from './use-panel-storage';
+
+export type PanelSessionStatus = 'loading' | 'disabled' | 'signed-out' | 'signed-in';
+
+export interface PanelSessionState extends Omit<PanelSessionInfo, 'enabled'> {
+  status: PanelSessionStatus;
+}
+
+export interface PanelSession extends PanelSessionState {
+  // Create, start/stop/restart, edit and delete. False only for signed-in viewers.
+  canManage: boolean;
+}
+
+// Module-level like the panel storage store: one session shared by every component.
+let state: PanelSessionState = { status: 'loading', needsSetup: false, user: null };
+let started = false;
+const listeners = new Set<() => void>();
+
+const INITIAL_STATE: PanelSessionState = state;
+
+function setState(next: PanelSessionState) {
+  state = next;
+  listeners.forEach(listener => listener());
+}
+
+function applySessionInfo(info: PanelSessionInfo) {
+  if (!info.enabled) {
+    setState({ status: 'disabled', needsSetup: false, user: null });
+    return;
+  }
+  const wasSignedIn = state.status === 'signed-in';
+  setState({ status: info.user ? 'signed-in' : 'signed-out', needsSetup: info.needsSetup, user: info.user });
+  // The master list is only readable with a session.
+  if (wasSignedIn !== !!info.user) void reloadPanelStorage();
+}
+
+export async function refreshPanelSession() {
+  applySessionInfo(await fetchPanelSession());
+}
+
+export async function signInToPanel(username: string, password: string) {
+  applySessionInfo(await loginPanel(username, password));
+}
+
+export async function signOutOfPanel() {
+  applySessionInfo(await logoutPanel());
+}
+
+export async function completePanelSetup(username: string, password: string) {
+  applySessionInfo(await setupPanelAdmin(username, password));
+}
+
+function subscribe(listener: () => void) {
+  if (!started) {
+    started = true;
+    void refreshPanelSession();
+    // Sessions expire or get revoked (password reset, account deleted); recheck when the tab comes back.
+    document.addEventListener('visibilitychange', () => {
+      if (document.visibilityState === 'visible' && state.status !== 'disabled') void refreshPanelSession();
+    });
+  }
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+}
+
+function getSnapshot(): PanelSessionState {
+  return state;
+}
+
+export function usePanelSession(): PanelSession {
+  const session = useSyncExternalStore(subscribe, getSnapshot, () => INITIAL_STATE);
+  return { ...session, canManage: session.status !== 'signed-in' || session.user?.role === 'admin' };
+}
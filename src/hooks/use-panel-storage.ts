@@ -0,0 +1,156 @@
+"use client";
+
+import { useSyncExternalStore } from 'react';
+import { API_CONFIGS_LIST_STORAGE_KEY, type NamedApiConfig } from './use-api-key';
+import {
+  PanelStorageError,
+  detectPanelStorageMode,
+  getPanelStateRevision,
+  loadPanelState,
+  savePanelState,
+} from '@/lib/panel-storage';
+import { setMasterProxyEnabled } from '@/lib/api';
+
+const POLL_INTERVAL_MS = 10000;
+
+export type PanelStorageStatus = 'detecting' | 'local' | 'server';
+
+export interface PanelStorageState {
+  status: PanelStorageStatus;
+  // Master list held by the server; only set in server mode.
+  configs: NamedApiConfig[] | null;
+  // Master API requests go through the panel server's proxy, which also holds the API keys.
+  proxy: boolean;
+  error: string | null;
+}
+
+// Module-level like the credential vault: every useApiConfig instance shares one copy of the server list.
+let state: PanelStorageState = { status: 'detecting', configs: null, proxy: false, error: null };
+let revision = 0;
+let started = false;
+const listeners = new Set<() => void>();
+
+const INITIAL_STATE: PanelStorageState = state;
+
+function setState(next: Partial<PanelStorageState>) {
+  state = { ...state, ...next };
+  listeners.forEach(listener => listener());
+}
+
+// Signed out of the panel (login enabled): not an error to show, the login screen covers it.
+function describeLoadError(error: any): string | null {
+  return error instanceof PanelStorageError && error.status === 401 ? null : error.message;
+}
+
+async function refreshFromServer() {
+  try {
+    const loaded = await loadPanelState<NamedApiConfig[]>('api-configs');
+    revision = loaded.revision;
+    setState({ configs: Array.isArray(loaded.value) ? loaded.value : [], error: null });
+  } catch (error: any) {
+    setState({ error: describeLoadError(error) });
+  }
+}
+
+// Picks up changes made from other browsers; only polls while the page is visible.
+function startPolling() {
+  const poll = async () => {
+    if (document.visibilityState !== 'visible') return;
+    try {
+      const info = await getPanelStateRevision();
+      if (info.revision !== revision) await refreshFromServer();
+      else if (state.error) setState({ error: null });
+    } catch (error: any) {
+      setState({ error: error.message });
+    }
+  };
+  setInterval(poll, POLL_INTERVAL_MS);
+  document.addEventListener('visibilitychange', poll);
+}
+
+async function loadServerConfigs(): Promise<NamedApiConfig[]> {
+  const loaded = await loadPanelState<NamedApiConfig[]>('api-configs');
+  revision = loaded.revision;
+  const localList = localStorage.getItem(API_CONFIGS_LIST_STORAGE_KEY);
+  if (loaded.value !== null || !localList) return Array.isArray(loaded.value) ? loaded.value : [];
+  // Migration: the first browser to open a fresh server-mode panel seeds it with its local list.
+  try {
+    await savePanelState('api-configs', JSON.parse(localList));
+  } catch (error) {
+    console.warn('无法将本地主控配置迁移到面板服务器:', error); // E.g. signed in as a viewer.
+    return [];
+  }
+  // Read back rather than keep the local copy: with the proxy enabled the server hides the keys.
+  const migrated = await loadPanelState<NamedApiConfig[]>('api-configs');
+  revision = migrated.revision;
+  return Array.isArray(migrated.value) ? migrated.value : [];
+}
+
+async function start() {
+  const info = await detectPanelStorageMode();
+  if (info.mode !== 'server') {
+    setState({ status: 'local' });
+    return;
+  }
+  const proxy = Boolean(info.proxy);
+  setMasterProxyEnabled(proxy);
+  try {
+    setState({ status: 'server', configs: await loadServerConfigs(), proxy, error: null });
+  } catch (error: any) {
+    setState({ status: 'server', configs: [], proxy, error: describeLoadError(error) });
+  }
+  startPolling();
+}
+
+// Re-reads the server list after signing in to or out of the panel.
+export async function reloadPanelStorage() {
+  if (state.status !== 'server') return;
+  try {
+    setState({ configs: await loadServerConfigs(), error: null });
+  } catch (error: any) {
+    setState({ configs: [], error: describeLoadError(error) });
+  }
+}
+
+function subscribe(listener: () => void) {
+  if (!started) {
+    started = true;
+    start();
+  }
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+}
+
+export function getPanelStorageState(): PanelStorageState {
+  return state;
+}
+
+// Resolves once the storage mode is known, starting detection if no component has subscribed yet.
+export function whenPanelStorageReady(): Promise<PanelStorageStatus> {
+  if (state.status !== 'detecting') return Promise.resolve(state.status);
+  return new Promise(resolve => {
+    const unsubscribe = subscribe(() => {
+      if (state.status === 'detecting') return;
+      unsubscribe();
+      resolve(state.status);
+    });
+  });
+}
+
+// Optimistic: listeners see the new list right away, the server write follows. useApiConfig calls this
+// from inside a state updater, so listeners are notified a microtask later rather than synchronously.
+export async function saveServerApiConfigs(configs: NamedApiConfig[]): Promise<void> {
+  await Promise.resolve();
+  setState({ configs });
+  try {
+    revision = (await savePanelState('api-configs', configs)).revision;
+    if (state.error) setState({ error: null });
+  } catch (error: any) {
+    setState({ error: error.message });
+    throw error;
+  }
+}
+
+export function usePanelStorage(): PanelStorageState {
+  return useSyncExternalStore(subscribe, getPanelStorageState, () => INITIAL_STATE);
+}
@@ -0,0 +1,80 @@
+"use client";
+
+import { useCallback, useEffect, useLayoutEffect, useRef, useState, type RefObject } from 'react';
+
+// Rendered before the first scroll measurement; enough to fill a tall screen.
+const INITIAL_ROW_COUNT = 50;
+
+interface VirtualRowsOptions {
+  count: number;
+  estimateRowHeight: number;
+  enabled: boolean;
+  overscan?: number;
+}
+
+export interface VirtualRows<T extends HTMLElement> {
+  bodyRef: RefObject<T>;
+  start: number; // First rendered row (inclusive).
+  end: number; // Last rendered row (exclusive).
+  paddingTop: number;
+  paddingBottom: number;
+}
+
+/**
+ * Windowed rendering for a table body that scrolls with the page. Only rows near the viewport
+ * are rendered; the rest are replaced by two spacers of the same height. The row height is
+ * the measured average of the rendered rows (marked with `data-virtual-row`), so rows of
+ * slightly different heights only make the scrollbar drift a little.
+ */
+export function useVirtualRows<T extends HTMLElement = HTMLTableSectionElement>({
+  count,
+  estimateRowHeight,
+  enabled,
+  overscan = 10,
+}: VirtualRowsOptions): VirtualRows<T> {
+  const bodyRef = useRef<T>(null);
+  const [rowHeight, setRowHeight] = useState(estimateRowHeight);
+  const [range, setRange] = useState({ start: 0, end: INITIAL_ROW_COUNT });
+
+  const updateRange = useCallback(() => {
+    const body = bodyRef.current;
+    if (!enabled || !body) return;
+    const top = body.getBoundingClientRect().top;
+    const start = Math.max(0, Math.floor(-top / rowHeight) - overscan);
+    const end = Math.min(count, Math.ceil((window.innerHeight - top) / rowHeight) + overscan);
+    setRange(prev => (prev.start === start && prev.end === end ? prev : { start, end: Math.max(start, end) }));
+  }, [enabled, count, rowHeight, overscan]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    updateRange();
+    window.addEventListener('scroll', updateRange, { passive: true });
+    window.addEventListener('resize', updateRange);
+    return () => {
+      window.removeEventListener('scroll', updateRange);
+      window.removeEventListener('resize', updateRange);
+    };
+  }, [enabled, updateRange]);
+
+  useLayoutEffect(() => {
+    const body = bodyRef.current;
+    if (!enabled || !body) return;
+    const rows = body.querySelectorAll<HTMLElement>(':scope > [data-virtual-row]');
+    if (rows.length === 0) return;
+    let total = 0;
+    rows.forEach(row => { total += row.offsetHeight; });
+    const measured = total / rows.length;
+    if (Math.abs(measured - rowHeight) > 1) setRowHeight(measured);
+  });
+
+  if (!enabled) return { bodyRef, start: 0, end: count, paddingTop: 0, paddingBottom: 0 };
+  const start = Math.min(range.start, count);
+  const end = Math.min(Math.max(range.end, start), count);
+  return {
+    bodyRef,
+    start,
+    end,
+    paddingTop: start * rowHeight,
+    paddingBottom: (count - end) * rowHeight,
+  };
+}
@@ -0,0 +1,139 @@
+// Typed errors thrown by the NodePass API layer (src/lib/api.ts).
+// Callers use `instanceof` (or `kind`) to decide how to react instead of parsing messages.
+
+export type NodePassApiErrorKind = 'network' | 'auth' | 'not-found' | 'conflict' | 'server' | 'timeout' | 'http';
+
+interface NodePassApiErrorInit {
+  url: string;
+  status?: number;
+  body?: any;
+  cause?: unknown;
+}
+
+export class NodePassApiError extends Error {
+  readonly kind: NodePassApiErrorKind = 'http';
+  readonly url: string;
+  readonly status?: number;
+  readonly body?: any;
+  readonly cause?: unknown;
+
+  constructor(message: string, init: NodePassApiErrorInit) {
+    super(message);
+    this.name = 'NodePassApiError';
+    this.url = init.url;
+    this.status = init.status;
+    this.body = init.body;
+    this.cause = init.cause;
+  }
+}
+
+/** The request never got a response: DNS, connection refused, or blocked by CORS. */
+export class NodePassNetworkError extends NodePassApiError {
+  readonly kind = 'network';
+  constructor(message: string, init: NodePassApiErrorInit) {
+    super(message, init);
+    this.name = 'NodePassNetworkError';
+  }
+}
+
+/** 401 / 403: the master rejected the API key. */
+export class NodePassAuthError extends NodePassApiError {
+  readonly kind = 'auth';
+  constructor(message: string, init: NodePassApiErrorInit) {
+    super(message, init);
+    this.name = 'NodePassAuthError';
+  }
+}
+
+export class NodePassNotFoundError extends NodePassApiError {
+  readonly kind = 'not-found';
+  constructor(message: string, init: NodePassApiErrorInit) {
+    super(message, init);
+    this.name = 'NodePassNotFoundError';
+  }
+}
+
+export class NodePassConflictError extends NodePassApiError {
+  readonly kind = 'conflict';
+  constructor(message: string, init: NodePassApiErrorInit) {
+    super(message, init);
+    this.name = 'NodePassConflictError';
+  }
+}
+
+export class NodePassServerError extends NodePassApiError {
+  readonly kind = 'server';
+  constructor(message: string, init: NodePassApiErrorInit) {
+    super(message, init);
+    this.name = 'NodePassServerError';
+  }
+}
+
+export class NodePassTimeoutError extends NodePassApiError {
+  readonly kind = 'timeout';
+  readonly timeoutMs: number;
+  constructor(message: string, init: NodePassApiErrorInit & { timeoutMs: number }) {
+    super(message, init);
+    this.name = 'NodePassTimeoutError';
+    this.timeoutMs = init.timeoutMs;
+  }
+}
+
+// Maps a non-2xx response onto the matching error class.
+export function createHttpError(status: number, statusText: string, url: string, body: any): NodePassApiError {
+  const detail = body?.message || body?.error || statusText;
+  const message = `API 错误: ${status} ${detail}`;
+  const init = { url, status, body };
+  if (status === 401 || status === 403) return new NodePassAuthError(message, init);
+  if (status === 404) return new NodePassNotFoundError(message, init);
+  if (status === 409) return new NodePassConflictError(message, init);
+  if (status >= 500) return new NodePassServerError(message, init);
+  return new NodePassApiError(message, init);
+}
+
+export function isNodePassApiError(error: unknown): error is NodePassApiError {
+  return error instanceof NodePassApiError;
+}
+
+// Short, user-facing hint on what to do next. Null when there is nothing specific to suggest.
+export function getApiErrorRemediation(error: unknown): string | null {
+  if (!isNodePassApiError(error)) return null;
+  switch (error.kind) {
+    case 'network':
+      return '请确认主控地址可达，且主控已允许当前面板来源的跨域 (CORS) 请求。';
+    case 'auth':
+      return '主控拒绝了当前 API 密钥，请重新输入该主控的 API 密钥。';
+    case 'not-found':
+      return '资源不存在：实例可能已被删除，或主控 API 地址的路径前缀有误。';
+    case 'conflict':
+      return '与现有资源冲突 (例如端口已被占用)，请调整配置后重试。';
+    case 'server':
+      return '主控内部错误，请查看主控日志后重试。';
+    case 'timeout':
+      return '主控响应超时，请检查主控负载或网络状况后重试。';
+    default:
+      return null;
+  }
+}
+
+// Compact label for space-constrained places such as topology node badges.
+export function getApiErrorSummary(error: unknown): string {
+  if (isNodePassApiError(error)) {
+    switch (error.kind) {
+      case 'network': return '无法连接主控';
+      case 'auth': return 'API 密钥无效';
+      case 'not-found': return '资源不存在';
+      case 'conflict': return '配置冲突';
+      case 'server': return '主控内部错误';
+      case 'timeout': return '请求超时';
+    }
+  }
+  const message = error instanceof Error ? error.message : '';
+  return message.substring(0, 30) || '失败';
+}
+
+export function formatApiErrorMessage(error: unknown): string {
+  const message = error instanceof Error ? error.message : String(error ?? '未知错误');
+  const remediation = getApiErrorRemediation(error);
+  return remediation ? `${message} ${remediation}` : message;
+}
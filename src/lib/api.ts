@@ -1,20 +1,94 @@
 
-import type { Instance as NodelessInstance, CreateInstanceRequest, UpdateInstanceRequest } from '@/types/nodepass'; // ModifyInstanceConfigRequest removed
+import type { Instance as NodelessInstance, CreateInstanceRequest, UpdateInstanceRequest, ModifyInstanceConfigRequest, MasterInfo } from '@/types/nodepass';
+import type { NamedApiConfig } from '@/hooks/use-api-key';
+import {
+  NodePassApiError,
+  NodePassNetworkError,
+  NodePassTimeoutError,
+  NodePassServerError,
+  createHttpError,
+} from './api-errors';
+import { NodePassEventStream, type EventStreamOptions } from './event-stream';
+import { isServerHeldToken } from './panel-storage';
+import { AUDIT_ACTION_HEADER, AUDIT_BATCH_HEADER, type AuditRequestHint } from './audit-log';
+
+export * from './api-errors';
 
 // Re-export Instance to avoid direct dependency on types/nodepass elsewhere if not needed.
 export type Instance = NodelessInstance;
 
+// Masters expose their own API key as this pseudo-instance; its `url` field holds the key.
+export const API_KEY_INSTANCE_ID = '********';
+
+export const DEFAULT_REQUEST_TIMEOUT_MS = 10000;
+export const DEFAULT_GET_RETRIES = 2;
+export const DEFAULT_RETRY_BASE_DELAY_MS = 500;
+
+// Per-call controls. `signal` is the caller's cancellation (e.g. React Query's queryFn signal).
+export interface RequestControl {
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  audit?: AuditRequestHint; // Only read by the panel's master proxy.
+}
+
+export interface NodePassRequestOptions extends RequestControl {
+  retries?: number;
+}
+
+export interface NodePassClientOptions {
+  timeoutMs?: number;
+  retries?: number;
+  retryBaseDelayMs?: number;
+}
+
+export const MASTER_PROXY_BASE_URL = '/api/proxy';
+
+// Set by use-panel-storage once the panel server reports whether its master proxy is enabled.
+let masterProxyEnabled = false;
+
+export function setMasterProxyEnabled(enabled: boolean) {
+  masterProxyEnabled = enabled;
+}
+
+export function isMasterProxyEnabled(): boolean {
+  return masterProxyEnabled;
+}
+
+// Where requests for this master go: the panel's proxy route when enabled, otherwise the master itself.
+export function getMasterApiRoot(config: Pick<NamedApiConfig, 'id' | 'apiUrl'>): string {
+  if (masterProxyEnabled && config.id) return `${MASTER_PROXY_BASE_URL}/${encodeURIComponent(config.id)}`;
+  return config.apiUrl.trim().replace(/\/+$/, '');
+}
 
 async function request<T>(
   fullRequestUrl: string,
   options: RequestInit = {},
-  token: string | null
+  token: string | null,
+  control: RequestControl = {}
 ): Promise<T> {
   const headers = new Headers(options.headers || {});
   headers.append('Content-Type', 'application/json');
-  if (token) {
+  if (token && !isServerHeldToken(token)) { // The proxy injects keys it holds itself.
     headers.append('X-API-Key', token);
   }
+  // Masters would fail the CORS preflight for unknown headers, so the hints only go to the proxy.
+  if (control.audit && fullRequestUrl.startsWith(`${MASTER_PROXY_BASE_URL}/`)) {
+    if (control.audit.action) headers.set(AUDIT_ACTION_HEADER, control.audit.action);
+    if (control.audit.batchId) headers.set(AUDIT_BATCH_HEADER, control.audit.batchId);
+  }
+
+  // Link the caller's signal with our own timeout so either one aborts the fetch.
+  const timeoutMs = control.timeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS;
+  const controller = new AbortController();
+  let timedOut = false;
+  const onCallerAbort = () => controller.abort(control.signal?.reason);
+  if (control.signal) {
+    if (control.signal.aborted) controller.abort(control.signal.reason);
+    else control.signal.addEventListener('abort', onCallerAbort, { once: true });
+  }
+  const timeoutHandle = timeoutMs > 0
+    ? setTimeout(() => { timedOut = true; controller.abort('timeout'); }, timeoutMs)
+    : null;
 
   let response;
   try {
@@ -23,9 +97,20 @@ async function request<T>(
       headers,
       cache: 'no-store',
       mode: 'cors', // Added mode: 'cors'
-      credentials: 'omit', // Added credentials: 'omit'
+      credentials: 'same-origin', // Masters never get cookies; the panel's own proxy needs the session cookie.
+      signal: controller.signal,
     });
   } catch (networkError: any) {
+    if (timedOut) {
+      throw new NodePassTimeoutError(`请求超时: ${fullRequestUrl} 在 ${timeoutMs}ms 内未响应。`, {
+        url: fullRequestUrl,
+        cause: networkError,
+        timeoutMs,
+      });
+    }
+    if (control.signal?.aborted) {
+      throw networkError; // Caller cancelled; propagate the AbortError untouched.
+    }
     // Handle network errors (like "Failed to fetch")
     console.error(`Network error while requesting ${fullRequestUrl}:`, networkError);
     let errorMessage = `网络请求失败: ${networkError.message}. 请检查网络连接和目标服务器 (${fullRequestUrl}) 的 CORS 配置。`;
@@ -40,9 +125,10 @@ async function request<T>(
             }
         } catch (e) { /* ignore parsing error if fullRequestUrl is malformed, e.g. not a full URL */ }
     }
-    const error = new Error(errorMessage);
-    (error as any).cause = networkError; // Preserve the original error if needed
-    throw error;
+    throw new NodePassNetworkError(errorMessage, { url: fullRequestUrl, cause: networkError });
+  } finally {
+    if (timeoutHandle) clearTimeout(timeoutHandle);
+    control.signal?.removeEventListener('abort', onCallerAbort);
   }
 
   if (!response.ok) {
@@ -53,10 +139,7 @@ async function request<T>(
       // If response is not JSON, use statusText
       errorBody = { message: response.statusText };
     }
-    const error = new Error(`API 错误: ${response.status} ${errorBody?.message || response.statusText}`);
-    (error as any).status = response.status; // Attach status for further handling if needed
-    (error as any).body = errorBody; // Attach body for further handling
-    throw error;
+    throw createHttpError(response.status, response.statusText, fullRequestUrl, errorBody);
   }
 
   if (response.status === 204) { // No Content
@@ -72,6 +155,115 @@ const checkApiRootUrl = (apiRootUrl: string | null | undefined, operation: strin
   }
 };
 
+const isRetryableError = (error: unknown): boolean => {
+  if (error instanceof NodePassNetworkError || error instanceof NodePassTimeoutError || error instanceof NodePassServerError) return true;
+  return error instanceof NodePassApiError && error.status === 429;
+};
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) { reject(signal.reason); return; }
+  const handle = setTimeout(() => { signal?.removeEventListener('abort', onAbort); resolve(); }, ms);
+  const onAbort = () => { clearTimeout(handle); reject(signal?.reason); };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * Client bound to a single NodePass master. Every call honours a per-call timeout and an
+ * optional AbortSignal; idempotent GETs are retried with exponential backoff.
+ */
+export class NodePassClient {
+  readonly config: NamedApiConfig;
+  readonly apiRoot: string;
+  private readonly timeoutMs: number;
+  private readonly retries: number;
+  private readonly retryBaseDelayMs: number;
+
+  constructor(config: NamedApiConfig, options: NodePassClientOptions = {}) {
+    checkApiRootUrl(config?.apiUrl, `连接主控 ${config?.name || ''}`.trim());
+    this.config = config;
+    this.apiRoot = getMasterApiRoot(config);
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS;
+    this.retries = options.retries ?? DEFAULT_GET_RETRIES;
+    this.retryBaseDelayMs = options.retryBaseDelayMs ?? DEFAULT_RETRY_BASE_DELAY_MS;
+  }
+
+  private async get<T>(path: string, opts: NodePassRequestOptions = {}): Promise<T> {
+    const maxRetries = opts.retries ?? this.retries;
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.send<T>(path, {}, opts);
+      } catch (error: any) {
+        if (attempt >= maxRetries || opts.signal?.aborted || !isRetryableError(error)) throw error;
+        const backoff = this.retryBaseDelayMs * Math.pow(2, attempt);
+        await sleep(backoff + Math.random() * backoff * 0.2, opts.signal);
+      }
+    }
+  }
+
+  private send<T>(path: string, init: RequestInit, opts: RequestControl = {}): Promise<T> {
+    return request<T>(`${this.apiRoot}${path}`, init, this.config.token, {
+      signal: opts.signal,
+      timeoutMs: opts.timeoutMs ?? this.timeoutMs,
+      audit: opts.audit,
+    });
+  }
+
+  getInstances(opts?: NodePassRequestOptions) {
+    return this.get<Instance[]>('/instances', opts);
+  }
+
+  getInstance(id: string, opts?: NodePassRequestOptions) {
+    return this.get<Instance>(`/instances/${id}`, opts);
+  }
+
+  createInstance(data: CreateInstanceRequest, opts?: RequestControl) {
+    return this.send<Instance>('/instances', { method: 'POST', body: JSON.stringify(data) }, opts);
+  }
+
+  updateInstance(id: string, data: UpdateInstanceRequest, opts?: RequestControl) {
+    return this.send<Instance>(`/instances/${id}`, { method: 'PATCH', body: JSON.stringify(data) }, opts);
+  }
+
+  // Restarting the API key pseudo-instance makes the master issue a new key, returned in `url`.
+  async rotateApiKey(opts?: RequestControl): Promise<string> {
+    const updated = await this.updateInstance(API_KEY_INSTANCE_ID, { action: 'restart' }, opts);
+    if (!updated?.url) {
+      throw new NodePassApiError('主控未返回新的 API 密钥。', { url: `${this.apiRoot}/instances/${API_KEY_INSTANCE_ID}`, body: updated });
+    }
+    return updated.url;
+  }
+
+  // Not implemented by older masters (405/501); see src/lib/instance-edit.ts for the fallback.
+  modifyInstanceConfig(id: string, data: ModifyInstanceConfigRequest, opts?: RequestControl) {
+    return this.send<Instance>(`/instances/${id}`, { method: 'PUT', body: JSON.stringify(data) }, opts);
+  }
+
+  deleteInstance(id: string, opts?: RequestControl) {
+    return this.send<void>(`/instances/${id}`, { method: 'DELETE' }, opts);
+  }
+
+  // Older masters answer 404 here; see useMasterInfo.
+  getMasterInfo(opts?: NodePassRequestOptions) {
+    return this.get<MasterInfo>('/info', opts);
+  }
+
+  // Served by masters that document their API; used for capability detection (master-capabilities.ts).
+  getOpenApiDocument(opts?: NodePassRequestOptions) {
+    return this.get<Record<string, any>>('/openapi.json', opts);
+  }
+
+  getEventsUrl(): string {
+    return `${this.apiRoot}/events`;
+  }
+
+  createEventStream(options: Omit<EventStreamOptions, 'url' | 'token'> = {}): NodePassEventStream {
+    return new NodePassEventStream({ ...options, url: this.getEventsUrl(), token: this.config.token });
+  }
+}
+
+export const createNodePassClient = (config: NamedApiConfig, options?: NodePassClientOptions) =>
+  new NodePassClient(config, options);
+
 export const nodePassApi = {
   getInstances: (apiRootUrl: string, token: string) => {
     checkApiRootUrl(apiRootUrl, '获取实例列表');
@@ -0,0 +1,102 @@
+// IndexedDB backend for the audit log in local storage mode. One object store keyed by entry id
+// with an index on time; the newest MAX_LOCAL_AUDIT_ENTRIES entries are kept.
+
+import { v4 as uuidv4 } from 'uuid';
+import {
+  DEFAULT_AUDIT_QUERY_LIMIT,
+  MAX_LOCAL_AUDIT_ENTRIES,
+  matchesAuditQuery,
+  type AuditEntry,
+  type AuditEntryInput,
+  type AuditLogQuery,
+} from './audit-log';
+
+const DB_NAME = 'nodepass-panel';
+const DB_VERSION = 1;
+const STORE_NAME = 'audit-log';
+const TIME_INDEX = 'time';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('浏览器不支持 IndexedDB，无法保存审计日志。'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+        store.createIndex(TIME_INDEX, 'time');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+      request.onblocked = () => reject(new Error('审计日志数据库被其他标签页占用。'));
+    });
+    // Allow a later retry (e.g. after the blocking tab closes).
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+export async function appendLocalAuditEntry(input: AuditEntryInput): Promise<AuditEntry> {
+  const db = await openDatabase();
+  const entry: AuditEntry = { ...input, id: uuidv4(), time: new Date().toISOString() };
+  const transaction = db.transaction(STORE_NAME, 'readwrite');
+  const store = transaction.objectStore(STORE_NAME);
+  store.add(entry);
+  const count = await promisifyRequest(store.count());
+  if (count > MAX_LOCAL_AUDIT_ENTRIES) {
+    // Oldest first on the time index.
+    let excess = count - MAX_LOCAL_AUDIT_ENTRIES;
+    const cursorRequest = store.index(TIME_INDEX).openCursor();
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor || excess <= 0) return;
+      cursor.delete();
+      excess--;
+      cursor.continue();
+    };
+  }
+  await transactionDone(transaction);
+  return entry;
+}
+
+// Newest first.
+export async function queryLocalAuditLog(query: AuditLogQuery): Promise<AuditEntry[]> {
+  const db = await openDatabase();
+  const limit = query.limit ?? DEFAULT_AUDIT_QUERY_LIMIT;
+  const range = query.from && query.to
+    ? IDBKeyRange.bound(query.from, query.to)
+    : query.from ? IDBKeyRange.lowerBound(query.from)
+    : query.to ? IDBKeyRange.upperBound(query.to)
+    : undefined;
+  const transaction = db.transaction(STORE_NAME, 'readonly');
+  const entries: AuditEntry[] = [];
+  const cursorRequest = transaction.objectStore(STORE_NAME).index(TIME_INDEX).openCursor(range, 'prev');
+  cursorRequest.onsuccess = () => {
+    const cursor = cursorRequest.result;
+    if (!cursor || entries.length >= limit) return;
+    const entry = cursor.value as AuditEntry;
+    if (matchesAuditQuery(entry, query)) entries.push(entry);
+    cursor.continue();
+  };
+  await transactionDone(transaction);
+  return entries;
+}
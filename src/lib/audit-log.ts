@@ -0,0 +1,196 @@
+// Audit log of mutating panel operations (instances, topology submissions, master configs).
+// Entries are kept in IndexedDB (see audit-log-db.ts) or, in server storage mode, appended to the
+// panel server's audit file through /api/panel/audit so every browser sees the same history.
+// With the master proxy enabled, operations on masters are logged by the proxy route itself (see
+// server/proxy-audit.ts); browsers then only post panel-only changes such as master configs.
+
+import { requestPanelServer } from './panel-storage';
+import { maskTunnelKeyInUrl } from './url-utils';
+
+export const AUDIT_ACTIONS = [
+  'instance.create',
+  'instance.edit',
+  'instance.delete',
+  'instance.start',
+  'instance.stop',
+  'instance.restart',
+  'topology.submit',
+  'master.add',
+  'master.update',
+  'master.delete',
+  'master.import',
+  'master.rotate-key',
+] as const;
+export type AuditAction = (typeof AUDIT_ACTIONS)[number];
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  'instance.create': '创建实例',
+  'instance.edit': '修改实例',
+  'instance.delete': '删除实例',
+  'instance.start': '启动实例',
+  'instance.stop': '停止实例',
+  'instance.restart': '重启实例',
+  'topology.submit': '拓扑提交',
+  'master.add': '添加主控',
+  'master.update': '更新主控',
+  'master.delete': '删除主控',
+  'master.import': '导入主控',
+  'master.rotate-key': '轮换 API 密钥',
+};
+
+export type AuditResult = 'success' | 'failure';
+
+// Actions that go through a master's API, and so through the master proxy when it is enabled.
+const MASTER_API_ACTIONS: readonly AuditAction[] = [
+  'instance.create',
+  'instance.edit',
+  'instance.delete',
+  'instance.start',
+  'instance.stop',
+  'instance.restart',
+  'topology.submit',
+  'master.rotate-key',
+];
+
+export function isMasterApiAction(action: AuditAction): boolean {
+  return MASTER_API_ACTIONS.includes(action);
+}
+
+// Sent with proxied master requests so the proxy's entry keeps the context only the page knows.
+// Neither header is forwarded to the master.
+export const AUDIT_BATCH_HEADER = 'X-Panel-Audit-Batch';
+export const AUDIT_ACTION_HEADER = 'X-Panel-Audit-Action'; // Only 'topology.submit', for instance creation.
+
+export interface AuditRequestHint {
+  action?: 'topology.submit';
+  batchId?: string;
+}
+
+export interface AuditEntryInput {
+  action: AuditAction;
+  result: AuditResult;
+  masterId?: string;
+  masterName?: string;
+  instanceId?: string;
+  // Instance URL, or the master API URL for master.* actions. Stored with the tunnel key masked.
+  urlBefore?: string;
+  urlAfter?: string;
+  error?: string;
+  // Shared by the entries of one bulk operation or topology submission.
+  batchId?: string;
+}
+
+export interface AuditEntry extends AuditEntryInput {
+  id: string;
+  time: string; // ISO 8601, UTC.
+  // Panel account that performed the action; set by the server when panel login is enabled.
+  actor?: string;
+}
+
+export interface AuditLogQuery {
+  masterId?: string;
+  action?: AuditAction;
+  from?: string; // ISO 8601, inclusive.
+  to?: string; // ISO 8601, inclusive.
+  limit?: number;
+}
+
+// Local history is trimmed to this many entries; the server file is append-only.
+export const MAX_LOCAL_AUDIT_ENTRIES = 5000;
+export const DEFAULT_AUDIT_QUERY_LIMIT = 1000;
+
+const AUDIT_BASE_URL = '/api/panel/audit';
+
+export function isAuditAction(value: unknown): value is AuditAction {
+  return typeof value === 'string' && (AUDIT_ACTIONS as readonly string[]).includes(value);
+}
+
+export function createAuditBatchId(): string {
+  return `batch-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+// Shared by the IndexedDB reader and the server route so both backends filter the same way.
+export function matchesAuditQuery(entry: AuditEntry, query: AuditLogQuery): boolean {
+  if (query.masterId && entry.masterId !== query.masterId) return false;
+  if (query.action && entry.action !== query.action) return false;
+  if (query.from && entry.time < query.from) return false;
+  if (query.to && entry.time > query.to) return false;
+  return true;
+}
+
+// Tunnel keys are credentials and stay out of the log; applied before either backend stores an entry.
+export function maskAuditEntryUrls<T extends AuditEntryInput>(input: T): T {
+  return {
+    ...input,
+    ...(input.urlBefore ? { urlBefore: maskTunnelKeyInUrl(input.urlBefore) } : {}),
+    ...(input.urlAfter ? { urlAfter: maskTunnelKeyInUrl(input.urlAfter) } : {}),
+  };
+}
+
+// Accepts an untrusted object (POST body, imported data); returns null unless it is a valid entry input.
+export function parseAuditEntryInput(value: any): AuditEntryInput | null {
+  if (!value || typeof value !== 'object' || !isAuditAction(value.action)) return null;
+  if (value.result !== 'success' && value.result !== 'failure') return null;
+  const optionalKeys = ['masterId', 'masterName', 'instanceId', 'urlBefore', 'urlAfter', 'error', 'batchId'] as const;
+  const input: AuditEntryInput = { action: value.action, result: value.result };
+  for (const key of optionalKeys) {
+    if (value[key] === undefined || value[key] === null) continue;
+    if (typeof value[key] !== 'string') return null;
+    input[key] = value[key];
+  }
+  return maskAuditEntryUrls(input);
+}
+
+const CSV_COLUMNS: { header: string; value: (entry: AuditEntry) => string | undefined }[] = [
+  { header: 'time', value: entry => entry.time },
+  { header: 'action', value: entry => entry.action },
+  { header: 'result', value: entry => entry.result },
+  { header: 'master_id', value: entry => entry.masterId },
+  { header: 'master_name', value: entry => entry.masterName },
+  { header: 'instance_id', value: entry => entry.instanceId },
+  { header: 'url_before', value: entry => entry.urlBefore },
+  { header: 'url_after', value: entry => entry.urlAfter },
+  { header: 'error', value: entry => entry.error },
+  { header: 'actor', value: entry => entry.actor },
+  { header: 'batch_id', value: entry => entry.batchId },
+];
+
+// Spreadsheets run cells starting with one of these as formulas; URLs, names and master errors can.
+const CSV_FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function escapeCsvField(value: string | undefined): string {
+  if (!value) return '';
+  const safe = CSV_FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+export function auditEntriesToCsv(entries: AuditEntry[]): string {
+  const lines = [CSV_COLUMNS.map(column => column.header).join(',')];
+  entries.forEach(entry => lines.push(CSV_COLUMNS.map(column => escapeCsvField(column.value(entry))).join(',')));
+  return lines.join('\r\n');
+}
+
+export function auditEntriesToJson(entries: AuditEntry[]): string {
+  return JSON.stringify(entries, null, 2);
+}
+
+function toSearchParams(query: AuditLogQuery): string {
+  const params = new URLSearchParams();
+  if (query.masterId) params.set('master', query.masterId);
+  if (query.action) params.set('action', query.action);
+  if (query.from) params.set('from', query.from);
+  if (query.to) params.set('to', query.to);
+  if (query.limit) params.set('limit', String(query.limit));
+  const search = params.toString();
+  return search ? `?${search}` : '';
+}
+
+export async function queryServerAuditLog(query: AuditLogQuery, signal?: AbortSignal): Promise<AuditEntry[]> {
+  const { entries } = await requestPanelServer<{ entries: AuditEntry[] }>(`${AUDIT_BASE_URL}${toSearchParams(query)}`, { signal });
+  return entries;
+}
+
+export async function appendServerAuditEntry(input: AuditEntryInput): Promise<AuditEntry> {
+  const { entry } = await requestPanelServer<{ entry: AuditEntry }>(AUDIT_BASE_URL, { method: 'POST', body: JSON.stringify(input) });
+  return entry;
+}
@@ -0,0 +1,97 @@
+// Export formats for master connections. All of them are understood by connections-import:
+//
+// - bundle: `{ format: 'nodepass-connections', version: 1, configs: [...] }`, tokens optional.
+//   A bare JSON array (the format of older exports) is still accepted on import.
+// - encrypted bundle: the bundle sealed with a passphrase (same PBKDF2/AES-GCM envelope as the
+//   credential vault), stored as `{ format, version, encrypted: <envelope> }`.
+// - connection URI: one master as `nodepass-master://connect?name=..&url=..&token=..`, compact
+//   enough for a QR code.
+
+import type { NamedApiConfig } from '@/hooks/use-api-key';
+import { deriveVaultKey, isVaultEnvelope, openVault, sealVault, type VaultEnvelope } from './credential-vault';
+import { isServerHeldToken } from './panel-storage';
+
+export const CONNECTIONS_BUNDLE_FORMAT = 'nodepass-connections';
+export const CONNECTION_URI_PREFIX = 'nodepass-master://connect';
+
+export interface ConnectionsBundle {
+  format: typeof CONNECTIONS_BUNDLE_FORMAT;
+  version: 1;
+  exportedAt: string;
+  tokensIncluded: boolean;
+  configs: Array<Omit<NamedApiConfig, 'token'> & { token?: string }>;
+}
+
+export interface EncryptedConnectionsBundle {
+  format: typeof CONNECTIONS_BUNDLE_FORMAT;
+  version: 1;
+  encrypted: VaultEnvelope;
+}
+
+export interface ConnectionsExportOptions {
+  includeTokens: boolean;
+}
+
+// Placeholders for keys held by the panel server (proxy mode) are never exported.
+function exportableConfig(config: NamedApiConfig, { includeTokens }: ConnectionsExportOptions) {
+  if (includeTokens && !isServerHeldToken(config.token)) return config;
+  const { token, ...rest } = config;
+  return rest;
+}
+
+export function buildConnectionsBundle(configs: NamedApiConfig[], options: ConnectionsExportOptions): ConnectionsBundle {
+  return {
+    format: CONNECTIONS_BUNDLE_FORMAT,
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    tokensIncluded: options.includeTokens && configs.some(config => !isServerHeldToken(config.token)),
+    configs: configs.map(config => exportableConfig(config, options)),
+  };
+}
+
+export function isEncryptedConnectionsBundle(value: unknown): value is EncryptedConnectionsBundle {
+  const v = value as EncryptedConnectionsBundle;
+  return !!v && v.format === CONNECTIONS_BUNDLE_FORMAT && isVaultEnvelope(v.encrypted);
+}
+
+export async function encryptConnectionsBundle(bundle: ConnectionsBundle, passphrase: string): Promise<EncryptedConnectionsBundle> {
+  const envelope = await sealVault(await deriveVaultKey(passphrase), bundle);
+  return { format: CONNECTIONS_BUNDLE_FORMAT, version: 1, encrypted: envelope };
+}
+
+// Throws VaultPassphraseError for a wrong passphrase.
+export async function decryptConnectionsBundle(bundle: EncryptedConnectionsBundle, passphrase: string): Promise<ConnectionsBundle> {
+  const { payload } = await openVault<ConnectionsBundle>(bundle.encrypted, passphrase);
+  return payload;
+}
+
+// Default log level / TLS mode ("master") are left out to keep the URI short.
+export function buildConnectionUri(config: NamedApiConfig, { includeTokens }: ConnectionsExportOptions): string {
+  const params = new URLSearchParams({ name: config.name, url: config.apiUrl });
+  if (includeTokens && config.token && !isServerHeldToken(config.token)) params.set('token', config.token);
+  if (config.masterDefaultLogLevel && config.masterDefaultLogLevel !== 'master') params.set('log', config.masterDefaultLogLevel);
+  if (config.masterDefaultTlsMode && config.masterDefaultTlsMode !== 'master') params.set('tls', config.masterDefaultTlsMode);
+  if (config.group) params.set('group', config.group);
+  if (config.tags && config.tags.length > 0) params.set('tags', config.tags.join(','));
+  return `${CONNECTION_URI_PREFIX}?${params.toString()}`;
+}
+
+export function isConnectionUri(value: string): boolean {
+  return value.trim().startsWith(CONNECTION_URI_PREFIX);
+}
+
+// Returns a raw import entry (validated later by connections-import). Fields missing from the URI stay undefined.
+export function parseConnectionUri(uri: string): Record<string, unknown> {
+  const trimmed = uri.trim();
+  if (!isConnectionUri(trimmed)) throw new Error('不是有效的主控连接链接。');
+  const params = new URLSearchParams(trimmed.slice(CONNECTION_URI_PREFIX.length).replace(/^\?/, ''));
+  return {
+    name: params.get('name') ?? undefined,
+    apiUrl: params.get('url') ?? undefined,
+    token: params.get('token') ?? undefined,
+    masterDefaultLogLevel: params.get('log') ?? undefined,
+    masterDefaultTlsMode: params.get('tls') ?? undefined,
+    group: params.get('group') ?? undefined,
+    tags: params.has('tags') ? params.get('tags')!.split(',') : undefined,
+  };
+}
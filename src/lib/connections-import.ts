@@ -0,0 +1,243 @@
+// Merge-aware import of master connection lists (any format written by "导出配置", see connections-export).
+// Every imported entry is classified against the local list before anything is saved, so the
+// user can decide per entry instead of the import silently skipping or clobbering configs.
+
+import { v4 as uuidv4 } from 'uuid';
+import type { MasterLogLevel, MasterTlsMode, NamedApiConfig } from '@/hooks/use-api-key';
+import {
+  CONNECTIONS_BUNDLE_FORMAT,
+  decryptConnectionsBundle,
+  isConnectionUri,
+  isEncryptedConnectionsBundle,
+  parseConnectionUri,
+} from './connections-export';
+import { normalizeGroup, normalizeTags } from './master-groups';
+
+export type ImportEntryStatus = 'new' | 'identical' | 'changed' | 'invalid';
+export type ImportAction = 'add' | 'skip' | 'overwrite' | 'copy';
+
+export interface ImportPreviewEntry {
+  index: number; // Position in the imported file, for display.
+  status: ImportEntryStatus;
+  config: NamedApiConfig | null; // Null for invalid entries.
+  errors: string[];
+  warnings: string[];
+  // Local config this entry corresponds to, and how it was matched.
+  match: NamedApiConfig | null;
+  matchedBy: 'id' | 'apiUrl' | null;
+  changedFields: string[];
+  actions: ImportAction[]; // Allowed actions, the first one is the default.
+}
+
+const MASTER_LOG_LEVELS: MasterLogLevel[] = ['debug', 'info', 'warn', 'error', 'event', 'master'];
+const MASTER_TLS_MODES: MasterTlsMode[] = ['0', '1', '2', 'master'];
+
+const COMPARED_FIELDS: Array<{ key: keyof NamedApiConfig; label: string }> = [
+  { key: 'name', label: '名称' },
+  { key: 'apiUrl', label: 'API 地址' },
+  { key: 'token', label: 'API 密钥' },
+  { key: 'masterDefaultLogLevel', label: '默认日志级别' },
+  { key: 'masterDefaultTlsMode', label: '默认 TLS 模式' },
+  { key: 'group', label: '分组' },
+  { key: 'tags', label: '标签' },
+  { key: 'tlsCertificate', label: '信任证书' },
+  { key: 'tlsSkipVerify', label: '跳过证书校验' },
+];
+
+export const IMPORT_STATUS_LABELS: Record<ImportEntryStatus, string> = {
+  new: '新增',
+  identical: '相同',
+  changed: '有变更',
+  invalid: '无效',
+};
+
+export const IMPORT_ACTION_LABELS: Record<ImportAction, string> = {
+  add: '导入',
+  skip: '跳过',
+  overwrite: '覆盖本地',
+  copy: '作为副本导入',
+};
+
+// Case-insensitive scheme/host, no trailing slash: "HTTP://Host:9090/api/v1/" -> "http://host:9090/api/v1".
+export function normalizeApiUrl(apiUrl: string): string {
+  try {
+    const url = new URL(apiUrl.trim());
+    return `${url.protocol}//${url.host}${url.pathname.replace(/\/+$/, '')}`;
+  } catch {
+    return apiUrl.trim().replace(/\/+$/, '').toLowerCase();
+  }
+}
+
+/** The content is an encrypted export and no passphrase was given; ask for one and parse again. */
+export class ConnectionsPassphraseRequiredError extends Error {
+  constructor() {
+    super('导入内容已加密，请输入导出时设置的密码。');
+    this.name = 'ConnectionsPassphraseRequiredError';
+  }
+}
+
+// Parses file or pasted content into raw entries: connection URIs (one per line), a bare JSON
+// array, a bundle, or an encrypted bundle (needs `passphrase`; a wrong one throws VaultPassphraseError).
+export async function parseConnectionsContent(content: string, passphrase?: string): Promise<unknown[]> {
+  const trimmed = content.trim();
+  if (isConnectionUri(trimmed)) {
+    return trimmed.split(/\s+/).filter(Boolean).map(line => parseConnectionUri(line));
+  }
+  let parsed: any;
+  try {
+    parsed = JSON.parse(trimmed);
+  } catch {
+    throw new Error('无法识别的导入内容，应为导出的 JSON 文件或主控连接链接。');
+  }
+  if (Array.isArray(parsed)) return parsed;
+  if (isEncryptedConnectionsBundle(parsed)) {
+    if (!passphrase) throw new ConnectionsPassphraseRequiredError();
+    parsed = await decryptConnectionsBundle(parsed, passphrase);
+  }
+  if (parsed?.format === CONNECTIONS_BUNDLE_FORMAT && Array.isArray(parsed.configs)) return parsed.configs;
+  throw new Error('导入文件格式无效，应为主控配置的 JSON 数组。');
+}
+
+function validateImportedConfig(raw: unknown): { config: NamedApiConfig | null; errors: string[]; warnings: string[] } {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return { config: null, errors: ['不是有效的配置对象'], warnings: [] };
+  const value = raw as Record<string, unknown>;
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  if (value.id !== undefined && (typeof value.id !== 'string' || !value.id.trim())) errors.push('ID 无效');
+  if (typeof value.name !== 'string' || !value.name.trim()) errors.push('缺少名称');
+  // Exports without tokens are valid; the key has to be filled in (or is kept from the local config on overwrite).
+  if (value.token !== undefined && typeof value.token !== 'string') errors.push('API 密钥无效');
+  else if (typeof value.token !== 'string' || !value.token.trim()) warnings.push('未包含 API 密钥');
+  if (typeof value.apiUrl !== 'string' || !value.apiUrl.trim()) {
+    errors.push('缺少 API 地址');
+  } else {
+    try {
+      const protocol = new URL(value.apiUrl.trim()).protocol;
+      if (protocol !== 'http:' && protocol !== 'https:') errors.push('API 地址必须是 http(s) URL');
+    } catch {
+      errors.push('API 地址不是有效的 URL');
+    }
+  }
+  const logLevel = value.masterDefaultLogLevel ?? 'master';
+  if (!MASTER_LOG_LEVELS.includes(logLevel as MasterLogLevel)) errors.push(`未知的日志级别 "${String(logLevel)}"`);
+  const tlsMode = value.masterDefaultTlsMode ?? 'master';
+  if (!MASTER_TLS_MODES.includes(tlsMode as MasterTlsMode)) errors.push(`未知的 TLS 模式 "${String(tlsMode)}"`);
+  if (value.group !== undefined && typeof value.group !== 'string') errors.push('分组无效');
+  if (value.tags !== undefined && (!Array.isArray(value.tags) || value.tags.some(tag => typeof tag !== 'string'))) errors.push('标签无效');
+  if (value.tlsCertificate !== undefined && typeof value.tlsCertificate !== 'string') errors.push('信任证书无效');
+  else if (typeof value.tlsCertificate === 'string' && value.tlsCertificate.trim() && !value.tlsCertificate.includes('-----BEGIN CERTIFICATE-----')) {
+    errors.push('信任证书不是 PEM 格式');
+  }
+  if (value.tlsSkipVerify !== undefined && typeof value.tlsSkipVerify !== 'boolean') errors.push('跳过证书校验设置无效');
+  if (value.tlsSkipVerify === true) warnings.push('该主控跳过证书校验');
+
+  if (errors.length > 0) return { config: null, errors, warnings };
+  const group = normalizeGroup(value.group as string | undefined);
+  const tags = normalizeTags(value.tags as string[] | undefined);
+  const tlsCertificate = typeof value.tlsCertificate === 'string' ? value.tlsCertificate.trim() : '';
+  return {
+    config: {
+      id: typeof value.id === 'string' ? value.id.trim() : uuidv4(),
+      name: (value.name as string).trim(),
+      apiUrl: (value.apiUrl as string).trim(),
+      token: typeof value.token === 'string' ? value.token.trim() : '',
+      masterDefaultLogLevel: logLevel as MasterLogLevel,
+      masterDefaultTlsMode: tlsMode as MasterTlsMode,
+      ...(group ? { group } : {}),
+      ...(tags.length > 0 ? { tags } : {}),
+      ...(tlsCertificate ? { tlsCertificate } : {}),
+      ...(typeof value.tlsSkipVerify === 'boolean' ? { tlsSkipVerify: value.tlsSkipVerify } : {}),
+    },
+    errors,
+    warnings,
+  };
+}
+
+function diffConfigs(local: NamedApiConfig, imported: NamedApiConfig): string[] {
+  return COMPARED_FIELDS.filter(({ key }) => {
+    if (key === 'apiUrl') return normalizeApiUrl(local.apiUrl) !== normalizeApiUrl(imported.apiUrl);
+    if (key === 'token' && !imported.token) return false; // Stripped from the export, not changed.
+    // Connection URIs carry no TLS settings; an overwrite keeps the local ones.
+    if ((key === 'tlsCertificate' || key === 'tlsSkipVerify') && imported[key] === undefined) return false;
+    if (key === 'tlsSkipVerify') return !!local.tlsSkipVerify !== !!imported.tlsSkipVerify;
+    if (key === 'group') return (local.group ?? '') !== (imported.group ?? '');
+    if (key === 'tags') return (local.tags ?? []).join('\n') !== (imported.tags ?? []).join('\n');
+    if (key === 'masterDefaultLogLevel' || key === 'masterDefaultTlsMode') return (local[key] || 'master') !== (imported[key] || 'master');
+    return local[key] !== imported[key];
+  }).map(({ label }) => label);
+}
+
+// Classifies every raw entry against the local list. An entry matches a local config by ID first,
+// then by API URL (the same master exported from another browser gets a different ID).
+export function buildImportPreview(rawEntries: unknown[], existing: NamedApiConfig[]): ImportPreviewEntry[] {
+  const seenIds = new Map<string, number>();
+  const seenUrls = new Map<string, number>();
+
+  return rawEntries.map((raw, index) => {
+    const { config, errors, warnings } = validateImportedConfig(raw);
+    const base = { index: index + 1, match: null, matchedBy: null, changedFields: [] as string[], warnings };
+    if (!config) return { ...base, status: 'invalid', config: null, errors, actions: ['skip'] };
+
+    const normalizedUrl = normalizeApiUrl(config.apiUrl);
+    const duplicateOf = seenIds.get(config.id) ?? seenUrls.get(normalizedUrl);
+    if (duplicateOf !== undefined) {
+      return { ...base, status: 'invalid', config, errors: [`与文件中第 ${duplicateOf} 条重复`], actions: ['skip'] };
+    }
+    seenIds.set(config.id, index + 1);
+    seenUrls.set(normalizedUrl, index + 1);
+
+    const byId = existing.find(c => c.id === config.id);
+    const match = byId ?? existing.find(c => normalizeApiUrl(c.apiUrl) === normalizedUrl) ?? null;
+    if (!match) return { ...base, status: 'new', config, errors: [], actions: ['add', 'skip'] };
+
+    const changedFields = diffConfigs(match, config);
+    const matchedBy = byId ? 'id' : 'apiUrl';
+    if (changedFields.length === 0) {
+      return { ...base, status: 'identical', config, errors: [], match, matchedBy, actions: ['skip', 'copy'] };
+    }
+    // Local configs are kept by default; overwriting is an explicit choice.
+    return { ...base, status: 'changed', config, errors: [], match, matchedBy, changedFields, actions: ['skip', 'overwrite', 'copy'] };
+  });
+}
+
+function copyName(name: string, takenNames: Set<string>): string {
+  let candidate = `${name} (副本)`;
+  for (let n = 2; takenNames.has(candidate); n++) candidate = `${name} (副本 ${n})`;
+  return candidate;
+}
+
+// Turns the chosen actions into the configs to save. Overwrites keep the local ID (so the active
+// master and topology references stay valid); copies and ID clashes get a fresh ID.
+export function resolveImportPlan(
+  entries: ImportPreviewEntry[],
+  actions: Record<number, ImportAction>,
+  existing: NamedApiConfig[]
+): NamedApiConfig[] {
+  const takenIds = new Set(existing.map(c => c.id));
+  const takenNames = new Set(existing.map(c => c.name));
+  const result: NamedApiConfig[] = [];
+
+  for (const entry of entries) {
+    const action = actions[entry.index] ?? entry.actions[0];
+    if (!entry.config || action === 'skip' || !entry.actions.includes(action)) continue;
+    let config: NamedApiConfig;
+    if (action === 'overwrite' && entry.match) {
+      config = {
+        ...entry.config,
+        id: entry.match.id,
+        token: entry.config.token || entry.match.token,
+        tlsCertificate: entry.config.tlsCertificate ?? entry.match.tlsCertificate,
+        tlsSkipVerify: entry.config.tlsSkipVerify ?? entry.match.tlsSkipVerify,
+      };
+    } else if (action === 'copy') {
+      config = { ...entry.config, id: uuidv4(), name: copyName(entry.config.name, takenNames) };
+    } else {
+      config = takenIds.has(entry.config.id) ? { ...entry.config, id: uuidv4() } : entry.config;
+    }
+    takenIds.add(config.id);
+    takenNames.add(config.name);
+    result.push(config);
+  }
+  return result;
+}
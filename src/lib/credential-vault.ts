@@ -0,0 +1,101 @@
+// Passphrase encryption for the stored master list (tokens included), via WebCrypto.
+// A key is derived from the passphrase with PBKDF2-SHA256 and the JSON payload is sealed with
+// AES-GCM. The envelope keeps the salt and KDF parameters so they can be raised later without
+// breaking existing vaults.
+
+export const VAULT_PBKDF2_ITERATIONS = 310000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+export interface VaultEnvelope {
+  version: 1;
+  kdf: 'PBKDF2-SHA256';
+  iterations: number;
+  salt: string; // base64
+  iv: string; // base64
+  ciphertext: string; // base64
+}
+
+/** Thrown when decryption fails, which with AES-GCM means a wrong passphrase (or tampered data). */
+export class VaultPassphraseError extends Error {
+  constructor(message = '密码错误，无法解锁凭据保险库。') {
+    super(message);
+    this.name = 'VaultPassphraseError';
+  }
+}
+
+export interface VaultKey {
+  key: CryptoKey;
+  salt: Uint8Array;
+  iterations: number;
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary);
+}
+
+function fromBase64(value: string): Uint8Array {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+export function isVaultEnvelope(value: unknown): value is VaultEnvelope {
+  const v = value as VaultEnvelope;
+  return !!v && v.version === 1 && v.kdf === 'PBKDF2-SHA256' && typeof v.iterations === 'number'
+    && typeof v.salt === 'string' && typeof v.iv === 'string' && typeof v.ciphertext === 'string';
+}
+
+// The derived key is non-extractable: it can encrypt and decrypt but never be read back out.
+export async function deriveVaultKey(passphrase: string, salt?: Uint8Array, iterations = VAULT_PBKDF2_ITERATIONS): Promise<VaultKey> {
+  const effectiveSalt = salt ?? crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  const key = await crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt: effectiveSalt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+  return { key, salt: effectiveSalt, iterations };
+}
+
+export async function sealVault(vaultKey: VaultKey, payload: unknown): Promise<VaultEnvelope> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const plaintext = new TextEncoder().encode(JSON.stringify(payload));
+  const ciphertext = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, vaultKey.key, plaintext));
+  return {
+    version: 1,
+    kdf: 'PBKDF2-SHA256',
+    iterations: vaultKey.iterations,
+    salt: toBase64(vaultKey.salt),
+    iv: toBase64(iv),
+    ciphertext: toBase64(ciphertext),
+  };
+}
+
+// Opens an envelope with an already derived key, e.g. one re-sealed by another tab. The key must
+// have been derived with the envelope's salt and iteration count.
+export async function openVaultWithKey<T>(envelope: VaultEnvelope, vaultKey: VaultKey): Promise<T> {
+  let plaintext: ArrayBuffer;
+  try {
+    plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(envelope.iv) }, vaultKey.key, fromBase64(envelope.ciphertext));
+  } catch {
+    throw new VaultPassphraseError();
+  }
+  return JSON.parse(new TextDecoder().decode(plaintext)) as T;
+}
+
+export function isSameVaultKey(envelope: VaultEnvelope, vaultKey: VaultKey): boolean {
+  return envelope.iterations === vaultKey.iterations && envelope.salt === toBase64(vaultKey.salt);
+}
+
+// Derives the key from the passphrase and opens the envelope. The key is returned so later saves
+// can re-seal without asking for the passphrase again.
+export async function openVault<T>(envelope: VaultEnvelope, passphrase: string): Promise<{ payload: T; vaultKey: VaultKey }> {
+  const vaultKey = await deriveVaultKey(passphrase, fromBase64(envelope.salt), envelope.iterations);
+  return { payload: await openVaultWithKey<T>(envelope, vaultKey), vaultKey };
+}
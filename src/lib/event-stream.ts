@@ -0,0 +1,296 @@
+import type { Instance, InstanceEvent, InstanceEventType } from '@/types/nodepass';
+import { NodePassAuthError, NodePassNetworkError, createHttpError } from './api-errors';
+import { isServerHeldToken } from './panel-storage';
+
+export const DEFAULT_MIN_RECONNECT_DELAY_MS = 1000;
+export const DEFAULT_MAX_RECONNECT_DELAY_MS = 30000;
+
+const INSTANCE_EVENT_TYPES: ReadonlyArray<InstanceEventType> = ['initial', 'create', 'update', 'delete', 'log', 'shutdown'];
+
+// One dispatched block of a text/event-stream body.
+export interface SseMessage {
+  event: string;
+  data: string;
+  id?: string;
+}
+
+export interface SseParserHandlers {
+  onMessage: (message: SseMessage) => void;
+  onRetry?: (retryMs: number) => void;
+}
+
+/**
+ * Incremental parser for the text/event-stream format. Feed it decoded chunks as they arrive;
+ * it dispatches a message on every blank line and keeps partial lines buffered.
+ */
+export function createSseParser(handlers: SseParserHandlers) {
+  let buffer = '';
+  let eventName = '';
+  let dataLines: string[] = [];
+  let eventId: string | undefined;
+
+  const dispatch = () => {
+    if (dataLines.length > 0) {
+      handlers.onMessage({ event: eventName || 'message', data: dataLines.join('\n'), id: eventId });
+    }
+    eventName = '';
+    dataLines = [];
+    eventId = undefined;
+  };
+
+  const processLine = (line: string) => {
+    if (line === '') { dispatch(); return; }
+    if (line.startsWith(':')) return; // Comment / keep-alive.
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.substring(0, colon);
+    let value = colon === -1 ? '' : line.substring(colon + 1);
+    if (value.startsWith(' ')) value = value.substring(1);
+    switch (field) {
+      case 'event': eventName = value; break;
+      case 'data': dataLines.push(value); break;
+      case 'id': if (!value.includes('\0')) eventId = value; break;
+      case 'retry': if (/^\d+$/.test(value)) handlers.onRetry?.(parseInt(value, 10)); break;
+    }
+  };
+
+  return {
+    push(chunk: string) {
+      buffer += chunk;
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      for (const line of lines) processLine(line.endsWith('\r') ? line.slice(0, -1) : line);
+    },
+  };
+}
+
+// Turns the JSON body of an `instance` message into an InstanceEvent. Throws on malformed payloads.
+export function parseInstanceEvent(data: string, lastEventId?: string): InstanceEvent {
+  const raw = JSON.parse(data);
+  if (!raw || !INSTANCE_EVENT_TYPES.includes(raw.type)) {
+    throw new Error(`未识别的实例事件类型: ${raw?.type}`);
+  }
+  const event: InstanceEvent = { type: raw.type, time: raw.time || new Date().toISOString(), lastEventId };
+  if (Array.isArray(raw.instance)) event.instances = raw.instance as Instance[];
+  else if (raw.instance && typeof raw.instance === 'object') event.instance = raw.instance as Instance;
+  if (typeof raw.logs === 'string') event.logs = raw.logs;
+  return event;
+}
+
+export type EventStreamStatus = 'idle' | 'connecting' | 'open' | 'reconnecting' | 'closed';
+
+export interface EventStreamDisconnect {
+  error?: Error;
+  // Delay before the next attempt, or null when the stream will not reconnect.
+  retryInMs: number | null;
+}
+
+export interface EventStreamListener {
+  onOpen?: () => void;
+  onEvent?: (event: InstanceEvent) => void;
+  onMessage?: (message: SseMessage) => void; // Non-`instance` messages.
+  onInvalidEvent?: (error: Error, message: SseMessage) => void;
+  onDisconnect?: (info: EventStreamDisconnect) => void;
+  onStatusChange?: (status: EventStreamStatus) => void;
+}
+
+export interface EventStreamOptions {
+  url: string;
+  token: string;
+  reconnect?: boolean;
+  minReconnectDelayMs?: number;
+  maxReconnectDelayMs?: number;
+}
+
+/**
+ * Typed client for a master's /events endpoint. The connection is opened by the first
+ * subscriber and closed when the last one unsubscribes. Dropped connections are retried with
+ * jittered exponential backoff and resume from the last seen event id; an auth failure or a
+ * `shutdown` event from the master ends the stream for good.
+ */
+export class NodePassEventStream {
+  private readonly listeners = new Set<EventStreamListener>();
+  private readonly options: EventStreamOptions;
+  private controller: AbortController | null = null;
+  private lastEventId: string | null = null;
+  private serverRetryMs: number | null = null;
+  private attempt = 0;
+  private currentStatus: EventStreamStatus = 'idle';
+
+  constructor(options: EventStreamOptions) {
+    this.options = options;
+  }
+
+  get status(): EventStreamStatus {
+    return this.currentStatus;
+  }
+
+  get url(): string {
+    return this.options.url;
+  }
+
+  subscribe(listener: EventStreamListener): () => void {
+    this.listeners.add(listener);
+    if (!this.controller) this.start();
+    else if (this.currentStatus === 'open') listener.onOpen?.();
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0) this.close();
+    };
+  }
+
+  close() {
+    if (this.controller && !this.controller.signal.aborted) this.controller.abort('Event stream closed');
+    this.controller = null;
+    this.setStatus('closed');
+  }
+
+  private start() {
+    const controller = new AbortController();
+    this.controller = controller;
+    this.attempt = 0;
+    void this.run(controller.signal);
+  }
+
+  private async run(signal: AbortSignal) {
+    while (!signal.aborted) {
+      this.setStatus(this.attempt === 0 ? 'connecting' : 'reconnecting');
+      let error: Error | undefined;
+      let shutdown = false;
+      try {
+        shutdown = await this.connect(signal);
+      } catch (e: any) {
+        if (signal.aborted) return;
+        error = e instanceof Error ? e : new Error(String(e));
+      }
+      if (signal.aborted) return;
+
+      const canRetry = !shutdown && this.options.reconnect !== false && !(error instanceof NodePassAuthError);
+      const retryInMs = canRetry ? this.nextDelay() : null;
+      this.emit(l => l.onDisconnect?.({ error, retryInMs }));
+      if (retryInMs === null) {
+        this.controller = null;
+        this.setStatus('closed');
+        return;
+      }
+      try {
+        await waitFor(retryInMs, signal);
+      } catch {
+        return;
+      }
+    }
+  }
+
+  // Resolves true when the master announced a shutdown, false when the body simply ended.
+  private async connect(signal: AbortSignal): Promise<boolean> {
+    const { url, token } = this.options;
+    const headers: Record<string, string> = {
+      'Accept': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+    };
+    if (!isServerHeldToken(token)) headers['X-API-Key'] = token;
+    if (this.lastEventId) headers['Last-Event-ID'] = this.lastEventId;
+
+    let response: Response;
+    try {
+      response = await fetch(url, { method: 'GET', headers, signal, cache: 'no-store', mode: 'cors', credentials: 'same-origin' });
+    } catch (networkError: any) {
+      if (signal.aborted) throw networkError;
+      throw new NodePassNetworkError(`事件流连接失败: ${networkError.message}`, { url, cause: networkError });
+    }
+    if (!response.ok) {
+      const body = await response.json().catch(() => ({ message: response.statusText }));
+      throw createHttpError(response.status, response.statusText, url, body);
+    }
+    if (!response.body) {
+      throw new NodePassNetworkError('事件流响应体为空。', { url });
+    }
+
+    this.attempt = 0;
+    this.setStatus('open');
+    this.emit(l => l.onOpen?.());
+
+    let shutdown = false;
+    const parser = createSseParser({
+      onMessage: message => { if (this.dispatch(message)) shutdown = true; },
+      onRetry: retryMs => { this.serverRetryMs = retryMs; },
+    });
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    try {
+      while (!shutdown) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        parser.push(decoder.decode(value, { stream: true }));
+      }
+    } finally {
+      reader.cancel().catch(() => { /* stream already closed */ });
+    }
+    return shutdown;
+  }
+
+  // Returns true for a `shutdown` instance event.
+  private dispatch(message: SseMessage): boolean {
+    if (message.id !== undefined) this.lastEventId = message.id;
+    if (message.event !== 'instance') {
+      this.emit(l => l.onMessage?.(message));
+      return false;
+    }
+    let event: InstanceEvent;
+    try {
+      event = parseInstanceEvent(message.data, this.lastEventId ?? undefined);
+    } catch (e: any) {
+      this.emit(l => l.onInvalidEvent?.(e instanceof Error ? e : new Error(String(e)), message));
+      return false;
+    }
+    this.emit(l => l.onEvent?.(event));
+    return event.type === 'shutdown';
+  }
+
+  private nextDelay(): number {
+    const min = this.serverRetryMs ?? this.options.minReconnectDelayMs ?? DEFAULT_MIN_RECONNECT_DELAY_MS;
+    const max = this.options.maxReconnectDelayMs ?? DEFAULT_MAX_RECONNECT_DELAY_MS;
+    const base = Math.min(max, min * Math.pow(2, this.attempt++));
+    return Math.round(base / 2 + Math.random() * base / 2);
+  }
+
+  private setStatus(status: EventStreamStatus) {
+    if (this.currentStatus === status) return;
+    this.currentStatus = status;
+    this.emit(l => l.onStatusChange?.(status));
+  }
+
+  private emit(callback: (listener: EventStreamListener) => void) {
+    for (const listener of Array.from(this.listeners)) {
+      try {
+        callback(listener);
+      } catch (e) {
+        console.error('Event stream listener threw:', e);
+      }
+    }
+  }
+}
+
+const waitFor = (ms: number, signal: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal.aborted) { reject(signal.reason); return; }
+  const handle = setTimeout(() => { signal.removeEventListener('abort', onAbort); resolve(); }, ms);
+  const onAbort = () => { clearTimeout(handle); reject(signal.reason); };
+  signal.addEventListener('abort', onAbort, { once: true });
+});
+
+// Opens the stream just long enough to see it accepted; resolves false on error or timeout.
+export function checkEventStream(options: Omit<EventStreamOptions, 'reconnect'>, timeoutMs = 10000): Promise<boolean> {
+  const stream = new NodePassEventStream({ ...options, reconnect: false });
+  return new Promise<boolean>(resolve => {
+    let unsubscribe: () => void = () => {};
+    const finish = (ok: boolean) => {
+      clearTimeout(timer);
+      unsubscribe();
+      resolve(ok);
+    };
+    const timer = setTimeout(() => finish(false), timeoutMs);
+    unsubscribe = stream.subscribe({
+      onOpen: () => finish(true),
+      onDisconnect: () => finish(false),
+    });
+  });
+}
@@ -0,0 +1,120 @@
+// Changing an existing instance's URL. Masters that implement PUT /instances/{id} update in place
+// and keep the ID; older ones only support create/delete, so we recreate the instance and put the
+// original URL back if the master rejects the new one.
+
+import type { Instance } from '@/types/nodepass';
+import { NodePassApiError, NodePassNotFoundError, type NodePassClient } from './api';
+
+export type InstanceEditMethod = 'update' | 'recreate';
+
+export interface InstanceEditResult {
+  instance: Instance;
+  method: InstanceEditMethod;
+  // Set when the recreated instance could not be stopped again like the original; the new URL is applied.
+  stopError?: string;
+}
+
+export interface InstanceEditOptions {
+  signal?: AbortSignal;
+  // False when capability detection already knows the master lacks PUT; skips straight to recreate.
+  supportsUpdate?: boolean;
+  onStep?: (message: string, type: 'INFO' | 'ERROR') => void;
+}
+
+/**
+ * The recreate fallback failed to apply the new URL. `restoredInstance` is set when the original
+ * URL was put back (under a new ID); when it is missing the original instance is gone and
+ * `originalUrl` is the only record of it.
+ */
+export class InstanceEditError extends Error {
+  readonly originalUrl: string;
+  readonly restoredInstance?: Instance;
+  readonly cause?: unknown;
+
+  constructor(message: string, init: { originalUrl: string; restoredInstance?: Instance; cause?: unknown }) {
+    super(message);
+    this.name = 'InstanceEditError';
+    this.originalUrl = init.originalUrl;
+    this.restoredInstance = init.restoredInstance;
+    this.cause = init.cause;
+  }
+}
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+// 405/501 mean the route exists without PUT; some routers answer 404 instead, which we only trust
+// once the instance itself is confirmed to still exist.
+async function isUpdateUnsupported(client: NodePassClient, instanceId: string, error: unknown, signal?: AbortSignal): Promise<boolean> {
+  if (!(error instanceof NodePassApiError)) return false;
+  if (error.status === 405 || error.status === 501) return true;
+  if (!(error instanceof NodePassNotFoundError)) return false;
+  try {
+    await client.getInstance(instanceId, { signal, retries: 0 });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function recreateInstance(
+  client: NodePassClient,
+  original: Instance,
+  newUrl: string,
+  { signal, onStep }: InstanceEditOptions
+): Promise<{ instance: Instance; stopError?: string }> {
+  // A failed stop is reported on its own: the instance exists with the new URL either way.
+  const restoreStoppedState = async (instance: Instance): Promise<{ instance: Instance; stopError?: string }> => {
+    if (original.status !== 'stopped' || instance.status === 'stopped') return { instance };
+    try {
+      return { instance: await client.updateInstance(instance.id, { action: 'stop' }, { signal }) };
+    } catch (stopError) {
+      onStep?.(`实例 ${instance.id} 已重建，但未能恢复为停止状态: ${errorMessage(stopError)}`, 'ERROR');
+      return { instance, stopError: errorMessage(stopError) };
+    }
+  };
+
+  onStep?.(`主控不支持原地更新，将删除实例 ${original.id} 后按新配置重建。`, 'INFO');
+  await client.deleteInstance(original.id, { signal });
+
+  let created: Instance;
+  try {
+    created = await client.createInstance({ url: newUrl }, { signal });
+  } catch (createError) {
+    onStep?.(`新配置创建失败: ${errorMessage(createError)}，正在恢复原配置...`, 'ERROR');
+    let restored: Instance;
+    let restoredStopError: string | undefined;
+    try {
+      ({ instance: restored, stopError: restoredStopError } = await restoreStoppedState(await client.createInstance({ url: original.url }, { signal })));
+    } catch (restoreError) {
+      throw new InstanceEditError(
+        `新配置创建失败 (${errorMessage(createError)})，且恢复原配置也失败 (${errorMessage(restoreError)})。原实例 URL: ${original.url}`,
+        { originalUrl: original.url, cause: createError }
+      );
+    }
+    onStep?.(`已按原配置恢复实例，新 ID: ${restored.id}`, 'INFO');
+    throw new InstanceEditError(
+      `新配置创建失败 (${errorMessage(createError)})，已恢复原配置，实例 ID 变为 ${restored.id}。`
+        + (restoredStopError ? `但未能恢复为停止状态 (${restoredStopError})，实例当前正在运行。` : ''),
+      { originalUrl: original.url, restoredInstance: restored, cause: createError }
+    );
+  }
+  return restoreStoppedState(created);
+}
+
+export async function applyInstanceUrlChange(
+  client: NodePassClient,
+  original: Instance,
+  newUrl: string,
+  options: InstanceEditOptions = {}
+): Promise<InstanceEditResult> {
+  if (options.supportsUpdate !== false) {
+    try {
+      const instance = await client.modifyInstanceConfig(original.id, { url: newUrl }, { signal: options.signal });
+      return { instance, method: 'update' };
+    } catch (error) {
+      if (options.signal?.aborted || !(await isUpdateUnsupported(client, original.id, error, options.signal))) throw error;
+    }
+  }
+  const { instance, stopError } = await recreateInstance(client, original, newUrl, options);
+  return { instance, method: 'recreate', ...(stopError ? { stopError } : {}) };
+}
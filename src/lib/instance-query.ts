@@ -0,0 +1,253 @@
+// Search query language for instance lists, e.g. `type:server status:error port:10000-10100 tls:2 master:hk traffic>1GB`.
+//
+// Whitespace-separated terms must all match. `field:value` restricts a term to one field, `port` and
+// `traffic` also take `>`, `>=`, `<`, `<=` and `a-b` ranges, a leading `-` negates a term and
+// double quotes keep spaces in a value (`master:"hong kong"`). Plain words match the id, URL or type
+// as a case-insensitive substring, like the old free-text search.
+
+import type { Instance } from '@/types/nodepass';
+import { getInstancePort, getInstanceTlsMode, getInstanceTotalTraffic } from './instance-table';
+
+export type InstanceQueryField = 'type' | 'status' | 'port' | 'tls' | 'master' | 'traffic' | 'id';
+type Comparator = ':' | '>' | '>=' | '<' | '<=';
+
+interface FieldDefinition {
+  description: string;
+  values?: string[]; // Closed set of accepted values, offered by autocompletion.
+  numeric?: boolean; // Accepts comparisons and ranges.
+  example?: string;
+}
+
+export const INSTANCE_QUERY_FIELDS: Record<InstanceQueryField, FieldDefinition> = {
+  type: { description: '实例类型', values: ['server', 'client'] },
+  status: { description: '运行状态', values: ['running', 'stopped', 'error'] },
+  port: { description: '隧道端口，可用范围或比较', numeric: true, example: 'port:10000-10100, port>1024' },
+  tls: { description: 'TLS 模式，master 为跟随主控', values: ['0', '1', '2', 'master'] },
+  master: { description: '主控名称 (包含匹配)' },
+  traffic: { description: '总流量，单位 B/KB/MB/GB/TB', numeric: true, example: 'traffic>1GB, traffic<10MB' },
+  id: { description: '实例 ID (包含匹配)' },
+};
+
+const FIELD_NAMES = Object.keys(INSTANCE_QUERY_FIELDS) as InstanceQueryField[];
+
+// Own keys only, so "constructor:" or "tostring:" are not taken for fields.
+const isQueryField = (name: string): name is InstanceQueryField => (FIELD_NAMES as string[]).includes(name);
+
+export interface InstanceQueryTerm {
+  start: number; // Offsets into the query string, for highlighting.
+  end: number;
+  negated: boolean;
+  field: InstanceQueryField | null; // Null for plain text.
+  value: string; // Lower-cased.
+  range: [number, number] | null; // Inclusive bounds for numeric fields.
+}
+
+export interface InstanceQueryError {
+  start: number;
+  end: number;
+  message: string;
+}
+
+export interface ParsedInstanceQuery {
+  terms: InstanceQueryTerm[]; // Valid terms only; invalid ones are reported in `errors` and ignored.
+  errors: InstanceQueryError[];
+}
+
+export interface InstanceQueryContext {
+  masterId?: string | null;
+  masterName?: string | null;
+}
+
+interface Token {
+  start: number;
+  end: number;
+  text: string; // With quotes removed.
+  unterminated: boolean;
+}
+
+function tokenize(query: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < query.length) {
+    if (/\s/.test(query[i])) { i++; continue; }
+    const start = i;
+    let text = '';
+    let unterminated = false;
+    while (i < query.length && !/\s/.test(query[i])) {
+      if (query[i] === '"') {
+        const close = query.indexOf('"', i + 1);
+        if (close === -1) {
+          text += query.slice(i + 1);
+          i = query.length;
+          unterminated = true;
+          break;
+        }
+        text += query.slice(i + 1, close);
+        i = close + 1;
+      } else {
+        text += query[i++];
+      }
+    }
+    tokens.push({ start, end: i, text, unterminated });
+  }
+  return tokens;
+}
+
+const SIZE_UNITS: Record<string, number> = { '': 1, b: 1, k: 1024, kb: 1024, m: 1024 ** 2, mb: 1024 ** 2, g: 1024 ** 3, gb: 1024 ** 3, t: 1024 ** 4, tb: 1024 ** 4 };
+
+function parseNumber(field: InstanceQueryField, text: string): number | null {
+  if (field === 'traffic') {
+    const match = text.match(/^(\d+(?:\.\d+)?)([a-z]*)$/);
+    if (!match || !(match[2] in SIZE_UNITS)) return null;
+    return Math.round(parseFloat(match[1]) * SIZE_UNITS[match[2]]);
+  }
+  if (!/^\d+$/.test(text)) return null;
+  const port = Number(text);
+  return port >= 1 && port <= 65535 ? port : null;
+}
+
+function parseRange(field: InstanceQueryField, comparator: Comparator, value: string): [number, number] | string {
+  const invalid = field === 'port' ? `无效端口 "${value}"，应为 1-65535 的整数` : `无效流量 "${value}"，例如 500MB、1.5GB`;
+  if (comparator === ':') {
+    const [low, high, ...rest] = value.split('-');
+    const min = parseNumber(field, low);
+    const max = high === undefined ? min : parseNumber(field, high);
+    if (rest.length > 0 || min === null || max === null) return invalid;
+    if (min > max) return `范围 "${value}" 的下限大于上限`;
+    return [min, max];
+  }
+  const bound = parseNumber(field, value);
+  if (bound === null) return invalid;
+  switch (comparator) {
+    case '>': return [bound + 1, Infinity];
+    case '>=': return [bound, Infinity];
+    case '<': return [-Infinity, bound - 1];
+    case '<=': return [-Infinity, bound];
+  }
+}
+
+export function parseInstanceQuery(query: string): ParsedInstanceQuery {
+  const terms: InstanceQueryTerm[] = [];
+  const errors: InstanceQueryError[] = [];
+
+  tokenize(query).forEach(token => {
+    const { start, end } = token;
+    const fail = (message: string) => errors.push({ start, end, message });
+    if (token.unterminated) return fail('引号未闭合');
+
+    const negated = token.text.startsWith('-') && token.text.length > 1;
+    const body = (negated ? token.text.slice(1) : token.text).toLowerCase();
+    const match = body.match(/^([a-z]+)(>=|<=|:|>|<)(.*)$/);
+    // Host:port pairs and URLs are plain text; any other "name:" is most likely a typo.
+    if (!match || (!isQueryField(match[1]) && (/^\d/.test(match[3]) || match[3].startsWith('//')))) {
+      terms.push({ start, end, negated, field: null, value: body, range: null });
+      return;
+    }
+    const [, name, comparator, value] = match as [string, string, Comparator, string];
+    if (!isQueryField(name)) return fail(`未知字段 "${name}"，可用: ${FIELD_NAMES.join(', ')}`);
+    const field = name;
+    const definition = INSTANCE_QUERY_FIELDS[field];
+    if (!value) return fail(`缺少 ${field} 的值`);
+    if (comparator !== ':' && !definition.numeric) return fail(`${field} 不支持 ${comparator} 比较，请使用 ${field}:值`);
+    if (definition.values && !definition.values.includes(value)) {
+      return fail(`${field} 只能是 ${definition.values.join('、')}`);
+    }
+    let range: [number, number] | null = null;
+    if (definition.numeric) {
+      const parsed = parseRange(field, comparator, value);
+      if (typeof parsed === 'string') return fail(parsed);
+      range = parsed;
+    }
+    terms.push({ start, end, negated, field, value, range });
+  });
+
+  return { terms, errors };
+}
+
+export function hasFieldTerms(query: ParsedInstanceQuery): boolean {
+  return query.terms.some(term => term.field !== null);
+}
+
+function matchesTerm(instance: Instance, term: InstanceQueryTerm, context: InstanceQueryContext): boolean {
+  const inRange = (value: number | null) => value !== null && !!term.range && value >= term.range[0] && value <= term.range[1];
+  switch (term.field) {
+    case null:
+      return instance.id.toLowerCase().includes(term.value)
+        || instance.url.toLowerCase().includes(term.value)
+        || instance.type.includes(term.value);
+    case 'type':
+      return instance.type === term.value;
+    case 'status':
+      return instance.status === term.value;
+    case 'tls':
+      return getInstanceTlsMode(instance) === term.value;
+    case 'port':
+      return inRange(getInstancePort(instance));
+    case 'traffic':
+      return inRange(getInstanceTotalTraffic(instance));
+    case 'master':
+      return !!context.masterName?.toLowerCase().includes(term.value) || context.masterId?.toLowerCase() === term.value;
+    case 'id':
+      return instance.id.toLowerCase().includes(term.value);
+    default: {
+      const unhandled: never = term.field;
+      throw new Error(`Unhandled query field: ${unhandled}`);
+    }
+  }
+}
+
+export function matchesInstanceQuery(instance: Instance, query: ParsedInstanceQuery, context: InstanceQueryContext = {}): boolean {
+  return query.terms.every(term => matchesTerm(instance, term, context) !== term.negated);
+}
+
+export interface InstanceQuerySuggestion {
+  insert: string;
+  label: string;
+  description?: string;
+}
+
+export interface InstanceQuerySuggestions {
+  from: number; // Range of the query that an accepted suggestion replaces.
+  to: number;
+  items: InstanceQuerySuggestion[];
+  hint: string | null; // Shown for fields without a closed set of values.
+}
+
+const quoteIfNeeded = (value: string) => (/\s/.test(value) ? `"${value}"` : value);
+
+/** Completions for the term under the caret: field names first, then values of the chosen field. */
+export function getInstanceQuerySuggestions(query: string, caret: number, { masterNames = [] }: { masterNames?: string[] } = {}): InstanceQuerySuggestions {
+  const token = tokenize(query).find(candidate => candidate.start <= caret && caret <= candidate.end);
+  const from = token?.start ?? caret;
+  const to = token?.end ?? caret;
+  const raw = token ? query.slice(token.start, caret) : '';
+  const prefix = raw.startsWith('-') ? '-' : '';
+  const body = raw.slice(prefix.length).toLowerCase();
+  const none = { from, to, items: [], hint: null };
+
+  const match = body.match(/^([a-z]+)(>=|<=|:|>|<)(.*)$/);
+  if (!match) {
+    // Field names are offered for an empty query, not after every completed term.
+    if (body.includes('"') || (!body && query.trim())) return none;
+    const items = FIELD_NAMES
+      .filter(name => name.startsWith(body))
+      .map(name => ({
+        insert: `${prefix}${name}${name === 'traffic' ? '>' : ':'}`,
+        label: `${name}${name === 'traffic' ? '>' : ':'}`,
+        description: INSTANCE_QUERY_FIELDS[name].description,
+      }));
+    return { from, to, items, hint: null };
+  }
+
+  const [, name, comparator, value] = match;
+  if (!isQueryField(name)) return none;
+  const field = name;
+  const definition = INSTANCE_QUERY_FIELDS[field];
+  const partial = value.replace(/^"/, '');
+  const candidates = field === 'master' ? masterNames : definition.values;
+  if (!candidates) return { from, to, items: [], hint: definition.example ? `${definition.description}，例如 ${definition.example}` : definition.description };
+  const items = candidates
+    .filter(candidate => (field === 'master' ? candidate.toLowerCase().includes(partial) : candidate.startsWith(partial)) && candidate.toLowerCase() !== partial)
+    .map(candidate => ({ insert: `${prefix}${field}${comparator}${quoteIfNeeded(candidate)} `, label: candidate }));
+  return { from, to, items, hint: null };
+}
@@ -0,0 +1,136 @@
+import type { Instance } from '@/types/nodepass';
+import { API_KEY_INSTANCE_ID } from './api';
+import { extractPort, parseNodePassUrl } from './url-utils';
+
+export type InstanceSortKey = 'type' | 'status' | 'traffic' | 'port';
+export type SortDirection = 'asc' | 'desc';
+// 'master' means the URL carries no tls parameter and the master default applies.
+export type InstanceTlsFilter = '0' | '1' | '2' | 'master';
+
+export interface InstanceTableView {
+  q: string;
+  sort: InstanceSortKey | null;
+  dir: SortDirection;
+  status: Instance['status'] | null;
+  type: Instance['type'] | null;
+  tls: InstanceTlsFilter | null;
+}
+
+export const DEFAULT_INSTANCE_TABLE_VIEW: InstanceTableView = {
+  q: '',
+  sort: null,
+  dir: 'asc',
+  status: null,
+  type: null,
+  tls: null,
+};
+
+export const INSTANCE_STATUS_FILTER_OPTIONS: { value: Instance['status']; label: string }[] = [
+  { value: 'running', label: '运行中' },
+  { value: 'stopped', label: '已停止' },
+  { value: 'error', label: '错误' },
+];
+
+export const INSTANCE_TYPE_FILTER_OPTIONS: { value: Instance['type']; label: string }[] = [
+  { value: 'server', label: '服务端' },
+  { value: 'client', label: '客户端' },
+];
+
+export const INSTANCE_TLS_FILTER_OPTIONS: { value: InstanceTlsFilter; label: string }[] = [
+  { value: '0', label: '0: 无TLS' },
+  { value: '1', label: '1: 自签名' },
+  { value: '2', label: '2: 自定义' },
+  { value: 'master', label: '跟随主控' },
+];
+
+const SORT_KEYS: InstanceSortKey[] = ['type', 'status', 'traffic', 'port'];
+// Ascending: running, then error, then stopped.
+const STATUS_ORDER: Record<Instance['status'], number> = { running: 0, error: 1, stopped: 2 };
+
+function pick<T extends string>(value: string | null, allowed: readonly T[]): T | null {
+  return value !== null && (allowed as readonly string[]).includes(value) ? (value as T) : null;
+}
+
+/** Reads the view from the page query string; unknown or malformed values fall back to the defaults. */
+export function parseInstanceTableView(params: { get(name: string): string | null }): InstanceTableView {
+  return {
+    q: params.get('q') ?? '',
+    sort: pick(params.get('sort'), SORT_KEYS),
+    dir: params.get('dir') === 'desc' ? 'desc' : 'asc',
+    status: pick(params.get('status'), INSTANCE_STATUS_FILTER_OPTIONS.map(option => option.value)),
+    type: pick(params.get('type'), INSTANCE_TYPE_FILTER_OPTIONS.map(option => option.value)),
+    tls: pick(params.get('tls'), INSTANCE_TLS_FILTER_OPTIONS.map(option => option.value)),
+  };
+}
+
+/** Writes the view into a copy of `params`, leaving unrelated parameters alone and omitting defaults. */
+export function writeInstanceTableView(view: InstanceTableView, params: { toString(): string }): URLSearchParams {
+  const next = new URLSearchParams(params.toString());
+  const set = (name: string, value: string | null) => {
+    if (value) next.set(name, value);
+    else next.delete(name);
+  };
+  set('q', view.q);
+  set('sort', view.sort);
+  set('dir', view.sort && view.dir === 'desc' ? 'desc' : null);
+  set('status', view.status);
+  set('type', view.type);
+  set('tls', view.tls);
+  return next;
+}
+
+export function hasInstanceColumnFilters(view: InstanceTableView): boolean {
+  return !!(view.status || view.type || view.tls);
+}
+
+export function getInstanceTotalTraffic(instance: Instance): number {
+  return instance.tcprx + instance.tcptx + instance.udprx + instance.udptx;
+}
+
+export function getInstancePort(instance: Instance): number | null {
+  const port = extractPort(parseNodePassUrl(instance.url).tunnelAddress || '');
+  return port ? Number(port) : null;
+}
+
+export function getInstanceTlsMode(instance: Instance): InstanceTlsFilter {
+  const tls = parseNodePassUrl(instance.url).params.get('tls');
+  return tls === '0' || tls === '1' || tls === '2' ? tls : 'master';
+}
+
+function getSortValue(instance: Instance, sort: InstanceSortKey): number | null {
+  switch (sort) {
+    case 'type':
+      return instance.type === 'client' ? 0 : 1;
+    case 'status':
+      return STATUS_ORDER[instance.status];
+    case 'traffic':
+      return getInstanceTotalTraffic(instance);
+    case 'port':
+      return getInstancePort(instance);
+  }
+}
+
+/**
+ * Applies the column filters and sort of `view` (not the free-text search, which the list
+ * matches itself). The API key pseudo-instance is left out; callers pin it above the rows.
+ * Instances without a port sort after the rest in either direction; ties keep the master's order.
+ */
+export function applyInstanceTableView(instances: Instance[], view: InstanceTableView): Instance[] {
+  const rows = instances.filter(instance =>
+    instance.id !== API_KEY_INSTANCE_ID &&
+    (!view.status || instance.status === view.status) &&
+    (!view.type || instance.type === view.type) &&
+    (!view.tls || getInstanceTlsMode(instance) === view.tls)
+  );
+  const { sort } = view;
+  if (!sort) return rows;
+  const sign = view.dir === 'desc' ? -1 : 1;
+  // Computed once per row: the port sort parses every URL.
+  return rows
+    .map(instance => ({ instance, value: getSortValue(instance, sort) }))
+    .sort((a, b) => {
+      if (a.value === null || b.value === null) return a.value === b.value ? 0 : a.value === null ? 1 : -1;
+      return sign * (a.value - b.value);
+    })
+    .map(({ instance }) => instance);
+}
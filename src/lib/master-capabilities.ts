@@ -0,0 +1,67 @@
+// What a given NodePass master supports. Masters of different versions differ in endpoints, so
+// features are gated on a per-master probe instead of assumed.
+//
+// Probe order: the OpenAPI document (authoritative for endpoints), then GET /info (version only),
+// then a "legacy" profile for masters that have neither. Without a documented endpoint list every
+// feature stays enabled; there is no table of which release added what.
+
+import type { MasterInfo } from '@/types/nodepass';
+import { NodePassApiError, NodePassAuthError, type NodePassClient } from './api';
+
+export type MasterFeature = 'instanceUpdate' | 'apiKeyRotation' | 'masterInfo';
+
+export interface MasterCapabilities {
+  version: string | null;
+  source: 'openapi' | 'info' | 'legacy';
+  features: Record<MasterFeature, boolean>;
+}
+
+// Used until a probe finishes (or when it fails). A feature is only turned off when the master
+// itself shows it is missing, never inferred from a version number.
+export const DEFAULT_MASTER_CAPABILITIES: MasterCapabilities = {
+  version: null,
+  source: 'legacy',
+  features: { instanceUpdate: true, apiKeyRotation: true, masterInfo: true },
+};
+
+// Finds a path in an OpenAPI `paths` object regardless of how the parameter is named ({id}, {instanceId}...).
+function findPathOperations(paths: Record<string, any>, pattern: RegExp): Record<string, unknown> | null {
+  const key = Object.keys(paths).find(path => pattern.test(path));
+  return key ? paths[key] : null;
+}
+
+export function capabilitiesFromOpenApi(doc: any): MasterCapabilities {
+  const paths: Record<string, any> = doc?.paths ?? {};
+  const instancePath = findPathOperations(paths, /\/instances\/\{[^}]+\}$/);
+  const infoPath = findPathOperations(paths, /\/info$/);
+  return {
+    version: typeof doc?.info?.version === 'string' ? doc.info.version : null,
+    source: 'openapi',
+    features: {
+      instanceUpdate: !!instancePath && 'put' in instancePath,
+      apiKeyRotation: !!instancePath && 'patch' in instancePath,
+      masterInfo: !!infoPath && 'get' in infoPath,
+    },
+  };
+}
+
+const isMissingEndpoint = (error: unknown) =>
+  error instanceof NodePassApiError && !(error instanceof NodePassAuthError) && error.status !== undefined && error.status < 500;
+
+export async function probeMasterCapabilities(client: NodePassClient, signal?: AbortSignal): Promise<MasterCapabilities> {
+  try {
+    return capabilitiesFromOpenApi(await client.getOpenApiDocument({ signal, retries: 0 }));
+  } catch (error) {
+    if (!isMissingEndpoint(error)) throw error;
+  }
+  let info: MasterInfo;
+  try {
+    info = await client.getMasterInfo({ signal, retries: 0 });
+  } catch (error) {
+    if (!isMissingEndpoint(error)) throw error;
+    // Neither endpoint: an old master. Missing /info is the only thing we actually know; PUT
+    // support is settled on the first edit (see instance-edit.ts).
+    return { ...DEFAULT_MASTER_CAPABILITIES, features: { ...DEFAULT_MASTER_CAPABILITIES.features, masterInfo: false } };
+  }
+  return { ...DEFAULT_MASTER_CAPABILITIES, version: info?.ver ?? null, source: 'info' };
+}
@@ -0,0 +1,77 @@
+// Grouping, tag and search helpers for master lists (NamedApiConfig.group / .tags).
+
+import type { NamedApiConfig } from '@/hooks/use-api-key';
+
+export const UNGROUPED_LABEL = '未分组';
+
+export interface MasterFilter {
+  query: string;
+  group: string | null; // null: any group; '' : only ungrouped masters.
+  tag: string | null;
+}
+
+export const EMPTY_MASTER_FILTER: MasterFilter = { query: '', group: null, tag: null };
+
+// Accepts "a, b，c" or an array; trims, drops empties and duplicates, keeps order.
+export function normalizeTags(input: string | string[] | undefined | null): string[] {
+  const parts = Array.isArray(input) ? input : (input ?? '').split(/[,，]/);
+  const seen = new Set<string>();
+  return parts
+    .map(tag => (typeof tag === 'string' ? tag.trim() : ''))
+    .filter(tag => tag && !seen.has(tag) && (seen.add(tag), true));
+}
+
+export function normalizeGroup(group: string | undefined | null): string | undefined {
+  const trimmed = typeof group === 'string' ? group.trim() : '';
+  return trimmed || undefined;
+}
+
+export function collectGroups(configs: NamedApiConfig[]): string[] {
+  return Array.from(new Set(configs.map(c => c.group).filter((g): g is string => !!g))).sort((a, b) => a.localeCompare(b, 'zh-CN'));
+}
+
+export function collectTags(configs: NamedApiConfig[]): string[] {
+  return Array.from(new Set(configs.flatMap(c => c.tags ?? []))).sort((a, b) => a.localeCompare(b, 'zh-CN'));
+}
+
+// Every whitespace-separated term must match. "tag:x" and "group:x" restrict a term to that field;
+// plain terms match the name, API URL, group or any tag (case-insensitive substring).
+export function matchesMasterQuery(config: NamedApiConfig, query: string): boolean {
+  const terms = query.trim().toLowerCase().split(/\s+/).filter(Boolean);
+  const tags = (config.tags ?? []).map(t => t.toLowerCase());
+  const group = (config.group ?? '').toLowerCase();
+  return terms.every(term => {
+    if (term.startsWith('tag:')) return tags.some(t => t.includes(term.slice(4)));
+    if (term.startsWith('group:')) return group.includes(term.slice(6));
+    return config.name.toLowerCase().includes(term)
+      || config.apiUrl.toLowerCase().includes(term)
+      || group.includes(term)
+      || tags.some(t => t.includes(term));
+  });
+}
+
+export function filterMasters(configs: NamedApiConfig[], filter: MasterFilter): NamedApiConfig[] {
+  return configs.filter(config =>
+    (filter.group === null || (config.group ?? '') === filter.group)
+    && (filter.tag === null || (config.tags ?? []).includes(filter.tag))
+    && matchesMasterQuery(config, filter.query)
+  );
+}
+
+export function isMasterFilterActive(filter: MasterFilter): boolean {
+  return filter.query.trim() !== '' || filter.group !== null || filter.tag !== null;
+}
+
+export interface MasterGroupSection {
+  group: string | null; // null: ungrouped.
+  label: string;
+  configs: NamedApiConfig[];
+}
+
+// Named groups alphabetically, ungrouped masters last; list order is kept within a group.
+export function groupMasters(configs: NamedApiConfig[]): MasterGroupSection[] {
+  const sections: MasterGroupSection[] = collectGroups(configs).map(group => ({ group, label: group, configs: configs.filter(c => c.group === group) }));
+  const ungrouped = configs.filter(c => !c.group);
+  if (ungrouped.length > 0) sections.push({ group: null, label: UNGROUPED_LABEL, configs: ungrouped });
+  return sections.filter(section => section.configs.length > 0);
+}
@@ -0,0 +1,89 @@
+import type { NamedApiConfig } from '@/hooks/use-api-key';
+import { NodePassClient, NodePassNotFoundError, getApiErrorSummary } from './api';
+import { checkEventStream } from './event-stream';
+
+export const HEALTH_PROBE_INTERVAL_MS = 30000;
+export const HEALTH_PROBE_TIMEOUT_MS = 8000;
+// 30 minutes of samples at the default interval.
+export const HEALTH_HISTORY_LENGTH = 60;
+// Above this the master counts as degraded even though it answers.
+export const HEALTH_SLOW_LATENCY_MS = 1500;
+
+export interface MasterHealthSample {
+  time: number; // Epoch ms.
+  reachable: boolean;
+  latencyMs: number | null; // Null when unreachable.
+  sse: boolean | null; // Null when not checked (master unreachable).
+  error?: string;
+}
+
+export type MasterHealthStatus = 'unknown' | 'healthy' | 'degraded' | 'down';
+
+export const MASTER_HEALTH_STATUS_LABELS: Record<MasterHealthStatus, string> = {
+  unknown: '尚未检测',
+  healthy: '正常',
+  degraded: '异常',
+  down: '不可达',
+};
+
+export interface MasterHealthSummary {
+  status: MasterHealthStatus;
+  uptimePercent: number | null; // Share of reachable samples in the history.
+  latestLatencyMs: number | null;
+  averageLatencyMs: number | null;
+  lastCheckedAt: number | null;
+  lastError: string | null;
+  sampleCount: number;
+}
+
+export function summarizeMasterHealth(samples: MasterHealthSample[]): MasterHealthSummary {
+  const latest = samples[samples.length - 1];
+  if (!latest) {
+    return { status: 'unknown', uptimePercent: null, latestLatencyMs: null, averageLatencyMs: null, lastCheckedAt: null, lastError: null, sampleCount: 0 };
+  }
+  const latencies = samples.map(sample => sample.latencyMs).filter((value): value is number => value !== null);
+  const reachableCount = samples.filter(sample => sample.reachable).length;
+  const status: MasterHealthStatus = !latest.reachable
+    ? 'down'
+    : latest.sse === false || (latest.latencyMs ?? 0) > HEALTH_SLOW_LATENCY_MS ? 'degraded' : 'healthy';
+  return {
+    status,
+    uptimePercent: (reachableCount / samples.length) * 100,
+    latestLatencyMs: latest.latencyMs,
+    averageLatencyMs: latencies.length > 0 ? Math.round(latencies.reduce((sum, value) => sum + value, 0) / latencies.length) : null,
+    lastCheckedAt: latest.time,
+    lastError: latest.error ?? (latest.sse === false ? '事件流 (SSE) 不可用' : null),
+    sampleCount: samples.length,
+  };
+}
+
+export function formatUptimePercent(percent: number | null): string {
+  if (percent === null) return '-';
+  return percent === 100 ? '100%' : `${percent.toFixed(1)}%`;
+}
+
+/**
+ * One health check: times GET /info (a 404 from older masters still proves the master answers),
+ * then checks that the event stream accepts a connection. Pass `sseOpen` when the page already
+ * holds an open stream to the master, to skip opening another one.
+ */
+export async function probeMaster(config: NamedApiConfig, { sseOpen = false }: { sseOpen?: boolean } = {}): Promise<MasterHealthSample> {
+  const time = Date.now();
+  let client: NodePassClient;
+  try {
+    client = new NodePassClient(config, { retries: 0, timeoutMs: HEALTH_PROBE_TIMEOUT_MS });
+  } catch (error) {
+    return { time, reachable: false, latencyMs: null, sse: null, error: getApiErrorSummary(error) };
+  }
+  const started = performance.now();
+  try {
+    await client.getMasterInfo();
+  } catch (error) {
+    if (!(error instanceof NodePassNotFoundError)) {
+      return { time, reachable: false, latencyMs: null, sse: null, error: getApiErrorSummary(error) };
+    }
+  }
+  const latencyMs = Math.round(performance.now() - started);
+  const sse = sseOpen || await checkEventStream({ url: client.getEventsUrl(), token: config.token }, HEALTH_PROBE_TIMEOUT_MS);
+  return { time, reachable: true, latencyMs, sse };
+}
@@ -0,0 +1,49 @@
+// Display helpers for the master's GET /info response (see MasterInfo in types/nodepass).
+
+import type { MasterInfo } from '@/types/nodepass';
+
+export const UNKNOWN_MASTER_FIELD = '未知';
+
+// Path portion of a master API URL, e.g. "http://host:9090/api/v1" -> "/api/v1".
+export function getApiPrefix(apiUrl: string): string {
+  try {
+    const path = new URL(apiUrl).pathname.replace(/\/+$/, '');
+    return path || '/';
+  } catch {
+    return UNKNOWN_MASTER_FIELD;
+  }
+}
+
+export function formatUptime(seconds: number | undefined): string {
+  if (seconds === undefined || !Number.isFinite(seconds) || seconds < 0) return UNKNOWN_MASTER_FIELD;
+  const days = Math.floor(seconds / 86400);
+  const hours = Math.floor((seconds % 86400) / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  if (days > 0) return `${days}天 ${hours}小时`;
+  if (hours > 0) return `${hours}小时 ${minutes}分`;
+  return `${minutes}分 ${Math.floor(seconds % 60)}秒`;
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes === 0) return '0 B';
+  const k = 1024;
+  const sizes = ['B', 'KB', 'MB', 'GB', 'TB'];
+  const i = Math.min(Math.floor(Math.log(bytes) / Math.log(k)), sizes.length - 1);
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(1)) + ' ' + sizes[i];
+}
+
+export function formatPlatform(info: MasterInfo | null | undefined): string {
+  if (!info?.os && !info?.arch) return UNKNOWN_MASTER_FIELD;
+  return [info.os, info.arch].filter(Boolean).join('/');
+}
+
+export function formatCpuUsage(info: MasterInfo | null | undefined): string {
+  return typeof info?.cpu === 'number' ? `${info.cpu.toFixed(1)}%` : UNKNOWN_MASTER_FIELD;
+}
+
+export function formatMemoryUsage(info: MasterInfo | null | undefined): string {
+  if (typeof info?.mem_total !== 'number' || info.mem_total <= 0) return UNKNOWN_MASTER_FIELD;
+  if (typeof info.mem_used !== 'number') return formatBytes(info.mem_total);
+  const percent = (info.mem_used / info.mem_total) * 100;
+  return `${formatBytes(info.mem_used)} / ${formatBytes(info.mem_total)} (${percent.toFixed(0)}%)`;
+}
@@ -0,0 +1,128 @@
+// Registry of the query parameters a NodePass instance URL understands.
+// Parsing (url-utils), URL building (create-instance-dialog/utils), Zod validation and the
+// "高级参数" form section are all driven from this list, so a new master option only needs an entry here.
+
+export type NodePassParamRole = 'server' | 'client';
+export type NodePassParamKind = 'integer' | 'duration' | 'enum' | 'text';
+
+export interface NodePassParamOption {
+  value: string;
+  label: string;
+}
+
+export interface NodePassParamDefinition {
+  key: string;
+  label: string;
+  description: string;
+  kind: NodePassParamKind;
+  appliesTo: ReadonlyArray<NodePassParamRole>;
+  // False when the option has no effect on a single-ended forwarding client.
+  singleEnded?: boolean;
+  // Handled by dedicated form fields (log level, TLS) rather than the generic advanced section.
+  managed?: boolean;
+  options?: ReadonlyArray<NodePassParamOption>;
+  min?: number;
+  max?: number;
+  placeholder?: string;
+}
+
+// Form / builder representation: URL key -> raw value. Empty or missing means "not set".
+export type NodePassParamValues = Partial<Record<string, string>>;
+
+const BOTH: ReadonlyArray<NodePassParamRole> = ['server', 'client'];
+const SWITCH_OPTIONS: ReadonlyArray<NodePassParamOption> = [
+  { value: '0', label: '0: 关闭' },
+  { value: '1', label: '1: 开启' },
+];
+
+export const NODEPASS_PARAMS: ReadonlyArray<NodePassParamDefinition> = [
+  { key: 'log', label: '日志级别', description: '实例的日志记录级别。', kind: 'enum', appliesTo: BOTH, managed: true,
+    options: ['debug', 'info', 'warn', 'error', 'event'].map(value => ({ value, label: value })) },
+  { key: 'tls', label: 'TLS 模式', description: '数据通道的 TLS 加密模式。', kind: 'enum', appliesTo: BOTH, managed: true, singleEnded: false,
+    options: [{ value: '0', label: '0: 无TLS' }, { value: '1', label: '1: 自签名' }, { value: '2', label: '2: 自定义' }] },
+  { key: 'crt', label: '证书路径', description: 'TLS 模式 2 使用的证书文件。', kind: 'text', appliesTo: BOTH, managed: true, singleEnded: false },
+  { key: 'key', label: '密钥路径', description: 'TLS 模式 2 使用的私钥文件。', kind: 'text', appliesTo: BOTH, managed: true, singleEnded: false },
+
+  { key: 'mode', label: '运行模式', description: '0 自动检测；服务端 1 为反向模式、2 为正向模式；客户端 1 为单端转发、2 为双端握手。', kind: 'enum', appliesTo: BOTH,
+    options: [{ value: '0', label: '0: 自动' }, { value: '1', label: '1: 模式 1' }, { value: '2', label: '2: 模式 2' }] },
+  { key: 'min', label: '最小连接池', description: '客户端预先建立的最小隧道连接数。', kind: 'integer', appliesTo: ['client'], singleEnded: false, min: 1, max: 65535, placeholder: '64' },
+  { key: 'max', label: '最大连接池', description: '隧道连接池的容量上限。', kind: 'integer', appliesTo: BOTH, singleEnded: false, min: 1, max: 65535, placeholder: '1024' },
+  { key: 'read', label: '读取超时', description: '连接无数据时的读取超时，Go 时长格式。', kind: 'duration', appliesTo: BOTH, placeholder: '例: 10s, 1m, 1h' },
+  { key: 'rate', label: '速率限制 (Mbps)', description: '实例带宽上限，0 表示不限制。', kind: 'integer', appliesTo: BOTH, min: 0, max: 1000000, placeholder: '0' },
+  { key: 'slot', label: '连接槽位', description: '实例允许的最大并发连接数。', kind: 'integer', appliesTo: BOTH, min: 0, max: 1000000, placeholder: '65536' },
+  { key: 'proxy', label: 'PROXY 协议', description: '向目标发送 PROXY protocol v1 头以传递客户端真实地址。', kind: 'enum', appliesTo: BOTH, options: SWITCH_OPTIONS },
+  { key: 'notcp', label: '禁用 TCP', description: '为 1 时不转发 TCP 流量。', kind: 'enum', appliesTo: BOTH, options: SWITCH_OPTIONS },
+  { key: 'noudp', label: '禁用 UDP', description: '为 1 时不转发 UDP 流量。', kind: 'enum', appliesTo: BOTH, options: SWITCH_OPTIONS },
+  { key: 'dial', label: '出站源地址', description: '连接目标时绑定的本地 IP。', kind: 'text', appliesTo: BOTH, placeholder: '例: 192.168.1.10' },
+];
+
+const PARAMS_BY_KEY = new Map(NODEPASS_PARAMS.map(def => [def.key, def]));
+
+export function getParamDefinition(key: string): NodePassParamDefinition | undefined {
+  return PARAMS_BY_KEY.get(key);
+}
+
+// Parameters shown in the generic "高级参数" section for a given instance shape.
+export function getAdvancedParams(role: NodePassParamRole, isSingleEnded = false): NodePassParamDefinition[] {
+  return NODEPASS_PARAMS.filter(def =>
+    !def.managed && def.appliesTo.includes(role) && !(isSingleEnded && def.singleEnded === false)
+  );
+}
+
+const DURATION_REGEX = /^(\d+(\.\d+)?(ns|us|µs|ms|s|m|h))+$/;
+
+// Returns an error message, or null when the value is acceptable. Empty values are always valid.
+export function validateParamValue(def: NodePassParamDefinition, value: string | undefined): string | null {
+  const trimmed = value?.trim() ?? '';
+  if (trimmed === '') return null;
+  switch (def.kind) {
+    case 'integer': {
+      if (!/^\d+$/.test(trimmed)) return `${def.label}必须是整数。`;
+      const n = parseInt(trimmed, 10);
+      if ((def.min !== undefined && n < def.min) || (def.max !== undefined && n > def.max)) {
+        return `${def.label}应在 ${def.min ?? 0} 到 ${def.max ?? '∞'} 之间。`;
+      }
+      return null;
+    }
+    case 'duration':
+      return DURATION_REGEX.test(trimmed) ? null : `${def.label}格式无效 (例: 500ms, 10s, 1h)。`;
+    case 'enum':
+      return def.options?.some(o => o.value === trimmed) ? null : `${def.label}取值无效。`;
+    case 'text':
+      return /[\s&#?]/.test(trimmed) ? `${def.label}不能包含空格或 & # ? 字符。` : null;
+  }
+}
+
+// Registry-known, non-managed values present in a query string.
+export function readAdvancedParamValues(query: URLSearchParams): NodePassParamValues {
+  const values: NodePassParamValues = {};
+  for (const def of NODEPASS_PARAMS) {
+    if (def.managed) continue;
+    const value = query.get(def.key);
+    if (value !== null) values[def.key] = value;
+  }
+  return values;
+}
+
+// Query parameters the registry does not know about, kept so a rebuilt URL does not drop them.
+export function readUnknownParams(query: URLSearchParams): Record<string, string> {
+  const unknown: Record<string, string> = {};
+  query.forEach((value, key) => {
+    if (!PARAMS_BY_KEY.has(key)) unknown[key] = value;
+  });
+  return unknown;
+}
+
+// Appends set, applicable advanced values in registry order.
+export function appendAdvancedParams(
+  query: URLSearchParams,
+  values: NodePassParamValues | undefined,
+  role: NodePassParamRole,
+  isSingleEnded = false
+) {
+  if (!values) return;
+  for (const def of getAdvancedParams(role, isSingleEnded)) {
+    const value = values[def.key]?.trim();
+    if (value) query.set(def.key, value);
+  }
+}
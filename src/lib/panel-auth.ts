@@ -0,0 +1,81 @@
+// Client for panel login and account management (route handlers under /api/panel/session and
+// /api/panel/users). Login exists only in server mode with NODEPASS_PANEL_AUTH enabled; otherwise
+// the session endpoint reports `enabled: false` and every visitor may do everything.
+
+import { requestPanelServer } from './panel-storage';
+
+export type PanelRole = 'admin' | 'viewer';
+
+export const PANEL_ROLES: PanelRole[] = ['admin', 'viewer'];
+
+export const PANEL_ROLE_LABELS: Record<PanelRole, string> = {
+  admin: '管理员',
+  viewer: '只读',
+};
+
+export const MIN_PANEL_PASSWORD_LENGTH = 8;
+
+export interface PanelUser {
+  id: string;
+  username: string;
+  role: PanelRole;
+  createdAt: string;
+}
+
+export interface PanelSessionInfo {
+  enabled: boolean;
+  // No account exists yet; the first visitor creates the initial admin.
+  needsSetup: boolean;
+  user: PanelUser | null;
+}
+
+export interface PanelUserUpdate {
+  role?: PanelRole;
+  password?: string;
+}
+
+const SESSION_URL = '/api/panel/session';
+const USERS_URL = '/api/panel/users';
+
+export function isPanelRole(value: unknown): value is PanelRole {
+  return PANEL_ROLES.includes(value as PanelRole);
+}
+
+// Anything but an explicit `enabled: true` (404 on static hosting, network error) means no login.
+export async function fetchPanelSession(): Promise<PanelSessionInfo> {
+  try {
+    const info = await requestPanelServer<PanelSessionInfo>(SESSION_URL);
+    return info?.enabled ? info : { enabled: false, needsSetup: false, user: null };
+  } catch {
+    return { enabled: false, needsSetup: false, user: null };
+  }
+}
+
+export function loginPanel(username: string, password: string): Promise<PanelSessionInfo> {
+  return requestPanelServer<PanelSessionInfo>(SESSION_URL, { method: 'POST', body: JSON.stringify({ username, password }) });
+}
+
+export function logoutPanel(): Promise<PanelSessionInfo> {
+  return requestPanelServer<PanelSessionInfo>(SESSION_URL, { method: 'DELETE' });
+}
+
+// Creates the first admin account and signs it in. Rejected once any account exists.
+export function setupPanelAdmin(username: string, password: string): Promise<PanelSessionInfo> {
+  return requestPanelServer<PanelSessionInfo>(`${SESSION_URL}/setup`, { method: 'POST', body: JSON.stringify({ username, password }) });
+}
+
+export async function listPanelUsers(): Promise<PanelUser[]> {
+  return (await requestPanelServer<{ users: PanelUser[] }>(USERS_URL)).users;
+}
+
+export async function createPanelUser(username: string, password: string, role: PanelRole): Promise<PanelUser> {
+  return (await requestPanelServer<{ user: PanelUser }>(USERS_URL, { method: 'POST', body: JSON.stringify({ username, password, role }) })).user;
+}
+
+export async function updatePanelUser(id: string, update: PanelUserUpdate): Promise<PanelUser> {
+  return (await requestPanelServer<{ user: PanelUser }>(`${USERS_URL}/${encodeURIComponent(id)}`, { method: 'PATCH', body: JSON.stringify(update) })).user;
+}
+
+export async function deletePanelUser(id: string): Promise<void> {
+  await requestPanelServer<{ ok: true }>(`${USERS_URL}/${encodeURIComponent(id)}`, { method: 'DELETE' });
+}
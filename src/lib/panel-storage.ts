@@ -0,0 +1,75 @@
+// Client for the optional server persistence mode (route handlers under /api/panel/state).
+// In the default local mode the panel keeps everything in localStorage and these endpoints report
+// `mode: 'local'` (or do not exist at all, e.g. on static hosting).
+
+export const PANEL_STATE_KEYS = ['api-configs'] as const;
+export type PanelStateKey = (typeof PANEL_STATE_KEYS)[number];
+
+export type PanelStorageMode = 'local' | 'server';
+
+const PANEL_STATE_BASE_URL = '/api/panel/state';
+
+export interface PanelStateInfo {
+  mode: PanelStorageMode;
+  revision: number;
+  // Master API traffic goes through /api/proxy (server mode only, NODEPASS_PANEL_PROXY).
+  proxy?: boolean;
+}
+
+// With the proxy enabled the server keeps master API keys to itself and hands browsers this
+// placeholder instead. Requests carrying it get the real key injected by the proxy, and saving a
+// config with it keeps the stored key.
+export const SERVER_HELD_TOKEN = '__nodepass_server_held_token__';
+
+export function isServerHeldToken(token: string | null | undefined): boolean {
+  return token === SERVER_HELD_TOKEN;
+}
+
+export interface PanelStateValue<T> {
+  value: T | null; // Null when the key has never been written.
+  revision: number;
+}
+
+export class PanelStorageError extends Error {
+  readonly status?: number;
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = 'PanelStorageError';
+    this.status = status;
+  }
+}
+
+// Shared by the panel's own API clients (this module and panel-auth).
+export async function requestPanelServer<T>(url: string, init?: RequestInit): Promise<T> {
+  let response: Response;
+  try {
+    response = await fetch(url, { cache: 'no-store', ...init, headers: { 'Content-Type': 'application/json', ...init?.headers } });
+  } catch (error: any) {
+    throw new PanelStorageError(`无法连接面板服务器: ${error?.message || '网络错误'}`);
+  }
+  const body = await response.json().catch(() => null);
+  if (!response.ok) throw new PanelStorageError(body?.error || `面板服务器返回 ${response.status}`, response.status);
+  return body as T;
+}
+
+// Anything other than an explicit `mode: 'server'` (404, HTML, network error) means local mode.
+export async function detectPanelStorageMode(signal?: AbortSignal): Promise<PanelStateInfo> {
+  try {
+    const info = await requestPanelServer<PanelStateInfo>(PANEL_STATE_BASE_URL, { signal });
+    return info?.mode === 'server' ? info : { mode: 'local', revision: 0 };
+  } catch {
+    return { mode: 'local', revision: 0 };
+  }
+}
+
+export function getPanelStateRevision(signal?: AbortSignal): Promise<PanelStateInfo> {
+  return requestPanelServer<PanelStateInfo>(PANEL_STATE_BASE_URL, { signal });
+}
+
+export function loadPanelState<T>(key: PanelStateKey, signal?: AbortSignal): Promise<PanelStateValue<T>> {
+  return requestPanelServer<PanelStateValue<T>>(`${PANEL_STATE_BASE_URL}/${key}`, { signal });
+}
+
+export function savePanelState(key: PanelStateKey, value: unknown): Promise<{ revision: number }> {
+  return requestPanelServer<{ revision: number }>(`${PANEL_STATE_BASE_URL}/${key}`, { method: 'PUT', body: JSON.stringify({ value }) });
+}
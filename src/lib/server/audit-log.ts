@@ -0,0 +1,58 @@
+// Server-side audit log (server storage mode). Append-only JSON Lines file, one entry per line
+// (NODEPASS_PANEL_AUDIT_FILE, default ./data/audit-log.jsonl). Nothing is ever rewritten or trimmed;
+// rotate the file externally if it grows too large.
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import {
+  DEFAULT_AUDIT_QUERY_LIMIT,
+  maskAuditEntryUrls,
+  matchesAuditQuery,
+  type AuditEntry,
+  type AuditEntryInput,
+  type AuditLogQuery,
+} from '@/lib/audit-log';
+
+function getAuditFilePath(): string {
+  return path.resolve(process.env.NODEPASS_PANEL_AUDIT_FILE || path.join('data', 'audit-log.jsonl'));
+}
+
+// Shared through globalThis like the panel store, so appends from all route handlers are serialized.
+const globalForAudit = globalThis as typeof globalThis & { __nodepassAuditQueue?: Promise<unknown> };
+
+export function appendAuditEntry(input: AuditEntryInput, actor?: string): Promise<AuditEntry> {
+  const entry: AuditEntry = { ...maskAuditEntryUrls(input), id: randomUUID(), time: new Date().toISOString(), ...(actor ? { actor } : {}) };
+  const filePath = getAuditFilePath();
+  const run = (globalForAudit.__nodepassAuditQueue ?? Promise.resolve()).then(async () => {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.appendFile(filePath, `${JSON.stringify(entry)}\n`, { mode: 0o600 });
+    return entry;
+  });
+  globalForAudit.__nodepassAuditQueue = run.catch(() => undefined);
+  return run;
+}
+
+// Newest first. Lines that fail to parse (e.g. a partial line after a crash) are skipped.
+export async function queryAuditLog(query: AuditLogQuery): Promise<AuditEntry[]> {
+  let content: string;
+  try {
+    content = await fs.readFile(getAuditFilePath(), 'utf8');
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') return [];
+    throw error;
+  }
+  const limit = query.limit ?? DEFAULT_AUDIT_QUERY_LIMIT;
+  const lines = content.split('\n');
+  const entries: AuditEntry[] = [];
+  for (let i = lines.length - 1; i >= 0 && entries.length < limit; i--) {
+    if (!lines[i].trim()) continue;
+    try {
+      const entry = JSON.parse(lines[i]) as AuditEntry;
+      if (matchesAuditQuery(entry, query)) entries.push(entry);
+    } catch {
+      // Ignore corrupt lines.
+    }
+  }
+  return entries;
+}
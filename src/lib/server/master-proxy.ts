@@ -0,0 +1,202 @@
+// Server-side forwarding of master API traffic (route handler under src/app/api/proxy). Only
+// imported by route handlers.
+//
+// Enabled with NODEPASS_PANEL_PROXY=1 on top of server storage mode: the proxy looks masters up in
+// the panel store, so it can inject their API keys and apply per-master certificate trust
+// (tlsCertificate / tlsSkipVerify on the config). Browsers then only ever talk to the panel origin.
+// Panel login implies the proxy: browsers holding master keys could bypass the viewer role.
+
+import http from 'http';
+import https from 'https';
+import { Readable } from 'stream';
+import type { NamedApiConfig } from '@/hooks/use-api-key';
+import { SERVER_HELD_TOKEN, isServerHeldToken } from '@/lib/panel-storage';
+import { getPanelStore, isServerStorageEnabled } from './panel-store';
+import { isPanelAuthEnabled } from './panel-auth';
+
+// Request headers passed through to the master; everything else (cookies, origin, ...) is dropped.
+const FORWARDED_REQUEST_HEADERS = ['accept', 'content-type', 'cache-control', 'last-event-id'];
+const FORWARDED_RESPONSE_HEADERS = ['content-type', 'cache-control', 'last-event-id'];
+
+export class MasterProxyError extends Error {
+  readonly status: number;
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'MasterProxyError';
+    this.status = status;
+  }
+}
+
+export interface ProxiedRequest {
+  method: string;
+  path: string; // Below the master's API root, starting with '/'.
+  search: string;
+  headers: Headers;
+  body?: ArrayBuffer;
+  signal?: AbortSignal;
+}
+
+export function isMasterProxyEnabled(): boolean {
+  const flag = process.env.NODEPASS_PANEL_PROXY;
+  return isServerStorageEnabled() && (flag === '1' || flag === 'true' || isPanelAuthEnabled());
+}
+
+/**
+ * Cross-site request guard for mutating proxy calls: the session cookie is sent along with forms
+ * and fetches from other sites, so those must come from the panel's own pages. Requests without
+ * Origin and Sec-Fetch-Site (curl, scripts) are not browser-initiated and pass. A JSON content type
+ * is required for bodies, which plain HTML forms cannot send.
+ */
+export function assertSameOriginJsonRequest(headers: Headers, body: ArrayBuffer): void {
+  const fetchSite = headers.get('sec-fetch-site');
+  const origin = headers.get('origin');
+  const host = headers.get('x-forwarded-host') ?? headers.get('host');
+  let sameOrigin = fetchSite ? fetchSite === 'same-origin' : true;
+  if (origin) {
+    try {
+      sameOrigin &&= new URL(origin).host === host;
+    } catch {
+      sameOrigin = false;
+    }
+  }
+  if (!sameOrigin) throw new MasterProxyError('拒绝来自其他站点的主控操作请求。', 403);
+  const contentType = headers.get('content-type')?.split(';')[0].trim().toLowerCase();
+  if (body.byteLength > 0 && contentType !== 'application/json') {
+    throw new MasterProxyError('主控操作请求的内容类型必须是 application/json。', 415);
+  }
+}
+
+async function loadStoredConfigs(): Promise<NamedApiConfig[]> {
+  const entry = await getPanelStore().get('api-configs');
+  return Array.isArray(entry?.value) ? entry.value as NamedApiConfig[] : [];
+}
+
+export async function getProxiedMaster(masterId: string): Promise<NamedApiConfig> {
+  const master = (await loadStoredConfigs()).find(config => config.id === masterId);
+  if (!master) throw new MasterProxyError(`面板服务器上不存在主控 "${masterId}"。`, 404);
+  return master;
+}
+
+// What browsers get to see of the stored master list while the proxy is enabled.
+export function redactApiConfigs(configs: unknown): unknown {
+  if (!Array.isArray(configs)) return configs;
+  return configs.map(config => (config?.token ? { ...config, token: SERVER_HELD_TOKEN } : config));
+}
+
+// Browsers save the list with placeholders in place of keys; put the stored keys back.
+export async function restoreServerHeldTokens(configs: unknown): Promise<unknown> {
+  if (!Array.isArray(configs) || !configs.some(config => isServerHeldToken(config?.token))) return configs;
+  const stored = await loadStoredConfigs();
+  return configs.map(config => {
+    if (!isServerHeldToken(config?.token)) return config;
+    return { ...config, token: stored.find(existing => existing.id === config.id)?.token ?? '' };
+  });
+}
+
+function getTlsOptions(master: NamedApiConfig): https.RequestOptions {
+  if (master.tlsSkipVerify) return { rejectUnauthorized: false };
+  if (master.tlsCertificate?.trim()) {
+    // The pinned certificate is the only trust anchor, so the host name check adds nothing; self-signed
+    // master certificates are rarely issued for the address the panel uses to reach them.
+    return { ca: master.tlsCertificate, checkServerIdentity: () => undefined };
+  }
+  return {};
+}
+
+/** Sends one request to the master and returns its response, streaming the body (SSE included). */
+export function forwardToMaster(master: NamedApiConfig, proxied: ProxiedRequest): Promise<Response> {
+  let target: URL;
+  try {
+    target = new URL(`${master.apiUrl.trim().replace(/\/+$/, '')}${proxied.path}${proxied.search}`);
+  } catch {
+    return Promise.reject(new MasterProxyError(`主控 "${master.name}" 的 API 地址无效。`, 400));
+  }
+
+  const headers: Record<string, string> = {};
+  for (const name of FORWARDED_REQUEST_HEADERS) {
+    const value = proxied.headers.get(name);
+    if (value) headers[name] = value;
+  }
+  // A key sent by the browser wins (e.g. checking a freshly rotated key); otherwise inject the stored one.
+  const browserToken = proxied.headers.get('x-api-key');
+  const token = browserToken && !isServerHeldToken(browserToken) ? browserToken : master.token;
+  if (token) headers['x-api-key'] = token;
+  if (proxied.body) headers['content-length'] = String(proxied.body.byteLength);
+
+  const isHttps = target.protocol === 'https:';
+  return new Promise((resolve, reject) => {
+    const request = (isHttps ? https : http).request(target, {
+      method: proxied.method,
+      headers,
+      signal: proxied.signal,
+      ...(isHttps ? getTlsOptions(master) : {}),
+    }, response => {
+      const responseHeaders = new Headers();
+      for (const name of FORWARDED_RESPONSE_HEADERS) {
+        const value = response.headers[name];
+        if (typeof value === 'string') responseHeaders.set(name, value);
+      }
+      const status = response.statusCode ?? 502;
+      if (status === 204 || status === 304) {
+        response.resume();
+        resolve(new Response(null, { status, headers: responseHeaders }));
+        return;
+      }
+      resolve(new Response(Readable.toWeb(response) as ReadableStream<Uint8Array>, { status, headers: responseHeaders }));
+    });
+    request.on('error', (error: NodeJS.ErrnoException) => {
+      if (proxied.signal?.aborted) {
+        reject(error);
+        return;
+      }
+      const hint = error.code && /CERT|SELF_SIGNED|TLS|SSL/.test(error.code)
+        ? '如主控使用自签名证书，请在该主控的配置中添加信任证书或跳过证书校验。'
+        : '';
+      reject(new MasterProxyError(`面板服务器无法连接主控 "${master.name}": ${error.message}。${hint}`, 502));
+    });
+    if (proxied.body) request.write(Buffer.from(proxied.body));
+    request.end();
+  });
+}
+
+// Masters list their own API key as the `********` pseudo-instance (its `url` is the key). Viewers
+// must not see it, or they could call the master directly and sidestep the read-only role.
+export const API_KEY_INSTANCE_ID = '********';
+const API_KEY_INSTANCE_PATTERN = /"id"\s*:\s*"\*{8}"/;
+
+function dropSseMessages(shouldDrop: (block: string) => boolean): TransformStream<Uint8Array, Uint8Array> {
+  const decoder = new TextDecoder();
+  const encoder = new TextEncoder();
+  let buffer = '';
+  return new TransformStream({
+    transform(chunk, controller) {
+      buffer += decoder.decode(chunk, { stream: true });
+      const blocks = buffer.split(/\r?\n\r?\n/);
+      buffer = blocks.pop() ?? '';
+      for (const block of blocks) {
+        if (!shouldDrop(block)) controller.enqueue(encoder.encode(`${block}\n\n`));
+      }
+    },
+    flush(controller) {
+      if (buffer && !shouldDrop(buffer)) controller.enqueue(encoder.encode(buffer));
+    },
+  });
+}
+
+export async function withoutApiKeyInstance(response: Response): Promise<Response> {
+  if (!response.ok || !response.body) return response;
+  const contentType = response.headers.get('content-type') || '';
+  if (contentType.includes('text/event-stream')) {
+    const body = response.body.pipeThrough(dropSseMessages(block => API_KEY_INSTANCE_PATTERN.test(block)));
+    return new Response(body, { status: response.status, headers: response.headers });
+  }
+  if (!contentType.includes('application/json')) return response;
+  const data = await response.json();
+  if (Array.isArray(data)) {
+    return Response.json(data.filter(item => item?.id !== API_KEY_INSTANCE_ID), { status: response.status });
+  }
+  if (data?.id === API_KEY_INSTANCE_ID) {
+    return Response.json({ error: '当前账户为只读角色，无权查看主控 API 密钥。' }, { status: 403 });
+  }
+  return Response.json(data, { status: response.status });
+}
@@ -0,0 +1,273 @@
+// Panel accounts and sessions (server mode with NODEPASS_PANEL_AUTH=1). Only imported by route
+// handlers.
+//
+// Accounts live in the panel store under the server-only `users` key with scrypt password hashes.
+// A session is a random token in an HttpOnly cookie; the store keeps only its SHA-256 hash, so a
+// leaked state file does not hand out live sessions. Repeated failed logins lock the username and
+// the client address out for a growing period (`login-attempts` key).
+
+import { createHash, randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { NextResponse, type NextRequest } from 'next/server';
+import { v4 as uuidv4 } from 'uuid';
+import { MIN_PANEL_PASSWORD_LENGTH, type PanelRole, type PanelUser } from '@/lib/panel-auth';
+import { getPanelStore, isServerStorageEnabled } from './panel-store';
+
+export const SESSION_COOKIE_NAME = 'nodepass_panel_session';
+const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const SCRYPT_KEY_LENGTH = 64;
+// Failed logins allowed before a lockout; each further failure doubles it, up to the maximum.
+const LOGIN_FAILURES_BEFORE_LOCKOUT = 5;
+const LOGIN_LOCKOUT_BASE_MS = 30 * 1000;
+const LOGIN_LOCKOUT_MAX_MS = 15 * 60 * 1000;
+// A counter with no failure for this long starts over.
+const LOGIN_FAILURE_RESET_MS = 60 * 60 * 1000;
+
+interface StoredUser extends PanelUser {
+  passwordHash: string;
+}
+
+interface StoredSession {
+  tokenHash: string;
+  userId: string;
+  expiresAt: string;
+}
+
+// Keyed by `user:<lower-cased name>` and `ip:<address>`.
+interface LoginAttemptRecord {
+  failures: number;
+  lastFailureAt: string;
+  lockedUntil?: string;
+}
+type LoginAttempts = Record<string, LoginAttemptRecord>;
+
+export class PanelAuthError extends Error {
+  readonly status: number;
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'PanelAuthError';
+    this.status = status;
+  }
+}
+
+export function isPanelAuthEnabled(): boolean {
+  const flag = process.env.NODEPASS_PANEL_AUTH;
+  return isServerStorageEnabled() && (flag === '1' || flag === 'true');
+}
+
+function scryptAsync(password: string, salt: Buffer): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, SCRYPT_KEY_LENGTH, (error, key) => (error ? reject(error) : resolve(key)));
+  });
+}
+
+// Stored as `scrypt$<salt>$<hash>`, both base64.
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt);
+  return `scrypt$${salt.toString('base64')}$${hash.toString('base64')}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, salt, hash] = stored.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+  const expected = Buffer.from(hash, 'base64');
+  const actual = await scryptAsync(password, Buffer.from(salt, 'base64'));
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+function hashSessionToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+function toPublicUser({ passwordHash, ...user }: StoredUser): PanelUser {
+  return user;
+}
+
+async function loadUsers(): Promise<StoredUser[]> {
+  const entry = await getPanelStore().get('users');
+  return Array.isArray(entry?.value) ? entry.value as StoredUser[] : [];
+}
+
+export async function hasPanelUsers(): Promise<boolean> {
+  return (await loadUsers()).length > 0;
+}
+
+export async function listPanelUsers(): Promise<PanelUser[]> {
+  return (await loadUsers()).map(toPublicUser);
+}
+
+function validateCredentials(username: string, password: string) {
+  if (!/^[\w.@-]{1,64}$/.test(username)) {
+    throw new PanelAuthError('用户名只能包含字母、数字、下划线、点、@ 和 -，且不超过 64 个字符。', 400);
+  }
+  if (password.length < MIN_PANEL_PASSWORD_LENGTH) {
+    throw new PanelAuthError(`密码至少需要 ${MIN_PANEL_PASSWORD_LENGTH} 个字符。`, 400);
+  }
+}
+
+// With `onlyIfFirst` the account is created only while no account exists (first-run setup).
+export async function createPanelUser(username: string, password: string, role: PanelRole, { onlyIfFirst = false } = {}): Promise<PanelUser> {
+  validateCredentials(username, password);
+  const user: StoredUser = { id: uuidv4(), username, role, createdAt: new Date().toISOString(), passwordHash: await hashPassword(password) };
+  await getPanelStore().update<StoredUser[]>('users', current => {
+    const users = current ?? [];
+    if (onlyIfFirst && users.length > 0) throw new PanelAuthError('面板已完成初始化，请直接登录。', 409);
+    if (users.some(existing => existing.username.toLowerCase() === username.toLowerCase())) {
+      throw new PanelAuthError(`用户名 "${username}" 已存在。`, 409);
+    }
+    return [...users, user];
+  });
+  return toPublicUser(user);
+}
+
+// Every change keeps at least one admin, so the panel can never lock itself out.
+function assertAdminRemains(users: StoredUser[]) {
+  if (!users.some(user => user.role === 'admin')) {
+    throw new PanelAuthError('至少需要保留一个管理员账户。', 409);
+  }
+}
+
+export async function updatePanelUser(id: string, update: { role?: PanelRole; password?: string }): Promise<PanelUser> {
+  if (update.password !== undefined && update.password.length < MIN_PANEL_PASSWORD_LENGTH) {
+    throw new PanelAuthError(`密码至少需要 ${MIN_PANEL_PASSWORD_LENGTH} 个字符。`, 400);
+  }
+  const passwordHash = update.password !== undefined ? await hashPassword(update.password) : undefined;
+  let updated: StoredUser | undefined;
+  await getPanelStore().update<StoredUser[]>('users', current => {
+    const users = (current ?? []).map(user => {
+      if (user.id !== id) return user;
+      updated = { ...user, ...(update.role ? { role: update.role } : {}), ...(passwordHash ? { passwordHash } : {}) };
+      return updated;
+    });
+    if (!updated) throw new PanelAuthError('用户不存在。', 404);
+    assertAdminRemains(users);
+    return users;
+  });
+  // A new password signs the account out everywhere.
+  if (passwordHash) await deleteSessionsOf(id);
+  return toPublicUser(updated!);
+}
+
+export async function deletePanelUser(id: string): Promise<void> {
+  await getPanelStore().update<StoredUser[]>('users', current => {
+    const users = current ?? [];
+    if (!users.some(user => user.id === id)) throw new PanelAuthError('用户不存在。', 404);
+    const remaining = users.filter(user => user.id !== id);
+    assertAdminRemains(remaining);
+    return remaining;
+  });
+  await deleteSessionsOf(id);
+}
+
+export async function authenticate(username: string, password: string): Promise<PanelUser | null> {
+  const user = (await loadUsers()).find(candidate => candidate.username.toLowerCase() === username.toLowerCase());
+  if (!user) {
+    await hashPassword(password); // Same cost as a real check, so response time does not reveal unknown names.
+    return null;
+  }
+  return (await verifyPassword(password, user.passwordHash)) ? toPublicUser(user) : null;
+}
+
+// The first X-Forwarded-For hop when the panel runs behind a reverse proxy. The header can be forged
+// by clients that reach the panel directly, which is why the username is limited as well.
+export function getClientAddress(request: NextRequest): string {
+  const forwarded = request.headers.get('x-forwarded-for')?.split(',')[0]?.trim();
+  return forwarded || request.headers.get('x-real-ip')?.trim() || 'unknown';
+}
+
+function loginAttemptKeys(username: string, address: string): string[] {
+  return [`user:${username.toLowerCase()}`, `ip:${address}`];
+}
+
+/** Seconds until the username or address may try to log in again; 0 when not locked out. */
+export async function getLoginLockout(username: string, address: string): Promise<number> {
+  const entry = await getPanelStore().get('login-attempts');
+  const attempts = (entry?.value ?? {}) as LoginAttempts;
+  const lockedUntil = Math.max(0, ...loginAttemptKeys(username, address).map(key => Date.parse(attempts[key]?.lockedUntil ?? '') || 0));
+  return Math.max(0, Math.ceil((lockedUntil - Date.now()) / 1000));
+}
+
+export async function recordLoginAttempt(username: string, address: string, succeeded: boolean): Promise<void> {
+  const keys = loginAttemptKeys(username, address);
+  await getPanelStore().update<LoginAttempts>('login-attempts', current => {
+    const now = Date.now();
+    // Drop stale counters so the record does not grow with every address that ever tried.
+    const attempts = Object.fromEntries(Object.entries(current ?? {}).filter(([, record]) =>
+      now - Date.parse(record.lastFailureAt) < LOGIN_FAILURE_RESET_MS || Date.parse(record.lockedUntil ?? '') > now));
+    if (succeeded) {
+      keys.forEach(key => { delete attempts[key]; });
+      return attempts;
+    }
+    for (const key of keys) {
+      const failures = (attempts[key]?.failures ?? 0) + 1;
+      const excess = failures - LOGIN_FAILURES_BEFORE_LOCKOUT;
+      const lockoutMs = excess >= 0 ? Math.min(LOGIN_LOCKOUT_BASE_MS * 2 ** excess, LOGIN_LOCKOUT_MAX_MS) : 0;
+      attempts[key] = {
+        failures,
+        lastFailureAt: new Date(now).toISOString(),
+        ...(lockoutMs > 0 ? { lockedUntil: new Date(now + lockoutMs).toISOString() } : {}),
+      };
+    }
+    return attempts;
+  });
+}
+
+export async function createSession(userId: string): Promise<{ token: string; expiresAt: Date }> {
+  const token = randomBytes(32).toString('base64url');
+  const expiresAt = new Date(Date.now() + SESSION_TTL_MS);
+  const session: StoredSession = { tokenHash: hashSessionToken(token), userId, expiresAt: expiresAt.toISOString() };
+  await getPanelStore().update<StoredSession[]>('sessions', current => {
+    const now = Date.now();
+    return [...(current ?? []).filter(existing => Date.parse(existing.expiresAt) > now), session];
+  });
+  return { token, expiresAt };
+}
+
+export async function deleteSession(token: string): Promise<void> {
+  const tokenHash = hashSessionToken(token);
+  await getPanelStore().update<StoredSession[]>('sessions', current => (current ?? []).filter(session => session.tokenHash !== tokenHash));
+}
+
+async function deleteSessionsOf(userId: string): Promise<void> {
+  await getPanelStore().update<StoredSession[]>('sessions', current => (current ?? []).filter(session => session.userId !== userId));
+}
+
+export async function getSessionUser(request: NextRequest): Promise<PanelUser | null> {
+  const token = request.cookies.get(SESSION_COOKIE_NAME)?.value;
+  if (!token) return null;
+  const tokenHash = hashSessionToken(token);
+  const sessionsEntry = await getPanelStore().get('sessions');
+  const sessions = Array.isArray(sessionsEntry?.value) ? sessionsEntry.value as StoredSession[] : [];
+  const session = sessions.find(candidate => candidate.tokenHash === tokenHash);
+  if (!session || Date.parse(session.expiresAt) <= Date.now()) return null;
+  const user = (await loadUsers()).find(candidate => candidate.id === session.userId);
+  return user ? toPublicUser(user) : null;
+}
+
+export function setSessionCookie(response: NextResponse, request: NextRequest, token: string, expiresAt: Date) {
+  response.cookies.set(SESSION_COOKIE_NAME, token, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: request.nextUrl.protocol === 'https:' || request.headers.get('x-forwarded-proto') === 'https',
+    path: '/',
+    expires: expiresAt,
+  });
+}
+
+export function clearSessionCookie(response: NextResponse) {
+  response.cookies.set(SESSION_COOKIE_NAME, '', { httpOnly: true, sameSite: 'lax', path: '/', maxAge: 0 });
+}
+
+/**
+ * Guard for route handlers. Resolves to the signed-in user (null when login is disabled), or to
+ * the 401/403 response to return. `role: 'admin'` additionally rejects viewers.
+ */
+export async function requirePanelUser(request: NextRequest, { role }: { role?: PanelRole } = {}): Promise<PanelUser | null | NextResponse> {
+  if (!isPanelAuthEnabled()) return null;
+  const user = await getSessionUser(request);
+  if (!user) return NextResponse.json({ error: '请先登录面板。' }, { status: 401 });
+  if (role === 'admin' && user.role !== 'admin') {
+    return NextResponse.json({ error: '当前账户为只读角色，无权执行此操作。' }, { status: 403 });
+  }
+  return user;
+}
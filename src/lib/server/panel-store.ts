@@ -0,0 +1,125 @@
+// Server-side persistence for panel state (server mode, see src/app/api/panel). Only imported by
+// route handlers: it uses the Node.js file system and must never end up in a client bundle.
+//
+// Server mode is enabled with NODEPASS_PANEL_STORAGE=server. State is a small key/value document
+// stored in a JSON file (NODEPASS_PANEL_DATA_FILE, default ./data/panel-state.json). Every write to
+// a browser-visible key bumps a global revision so browsers can cheaply poll for changes made
+// elsewhere. Server-only keys (accounts, sessions, failed logins) live in the same document but are never served
+// by /api/panel/state and do not bump the revision.
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { PANEL_STATE_KEYS, type PanelStateKey } from '@/lib/panel-storage';
+
+export type PanelPrivateKey = 'users' | 'sessions' | 'login-attempts';
+export type PanelStoreKey = PanelStateKey | PanelPrivateKey;
+
+export interface PanelStoreEntry {
+  value: unknown;
+  updatedAt: string;
+}
+
+/** Storage backend for server mode. The JSON file store is the only one shipped; others (e.g. SQLite) plug in here. */
+export interface PanelStore {
+  getRevision(): Promise<number>;
+  get(key: PanelStoreKey): Promise<PanelStoreEntry | null>;
+  set(key: PanelStoreKey, value: unknown): Promise<number>; // Resolves to the new revision.
+  // Read-modify-write without interleaving other writes; resolves to the new revision.
+  update<T>(key: PanelStoreKey, updater: (current: T | undefined) => T): Promise<number>;
+  delete(key: PanelStoreKey): Promise<number>;
+}
+
+interface PanelStateDocument {
+  version: 1;
+  revision: number;
+  entries: Partial<Record<PanelStoreKey, PanelStoreEntry>>;
+}
+
+const EMPTY_DOCUMENT: PanelStateDocument = { version: 1, revision: 0, entries: {} };
+
+// The file is re-read on every access: route handlers may be bundled separately (each with its own
+// module instance), so an in-memory copy could go stale. The file is small.
+export class JsonFilePanelStore implements PanelStore {
+  // Writes are chained so concurrent requests never interleave read-modify-write cycles.
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  private async load(): Promise<PanelStateDocument> {
+    try {
+      const parsed = JSON.parse(await fs.readFile(this.filePath, 'utf8'));
+      return parsed?.version === 1 && parsed.entries ? parsed : { ...EMPTY_DOCUMENT, entries: {} };
+    } catch (error: any) {
+      if (error?.code !== 'ENOENT') throw error;
+      return { ...EMPTY_DOCUMENT, entries: {} };
+    }
+  }
+
+  // Write to a temp file and rename, so a crash mid-write never leaves a truncated state file.
+  // The file holds master API keys, hence owner-only permissions.
+  private async persist(document: PanelStateDocument) {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(document, null, 2), { mode: 0o600 });
+    await fs.rename(tempPath, this.filePath);
+  }
+
+  private mutate(key: PanelStoreKey, update: (document: PanelStateDocument) => void): Promise<number> {
+    const run = this.queue.then(async () => {
+      const current = await this.load();
+      const revision = isPanelStateKey(key) ? current.revision + 1 : current.revision;
+      const next: PanelStateDocument = { ...current, entries: { ...current.entries }, revision };
+      update(next);
+      await this.persist(next);
+      return next.revision;
+    });
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  async getRevision() {
+    return (await this.load()).revision;
+  }
+
+  async get(key: PanelStoreKey) {
+    return (await this.load()).entries[key] ?? null;
+  }
+
+  set(key: PanelStoreKey, value: unknown) {
+    return this.mutate(key, document => {
+      document.entries[key] = { value, updatedAt: new Date().toISOString() };
+    });
+  }
+
+  update<T>(key: PanelStoreKey, updater: (current: T | undefined) => T) {
+    return this.mutate(key, document => {
+      const value = updater(document.entries[key]?.value as T | undefined);
+      document.entries[key] = { value, updatedAt: new Date().toISOString() };
+    });
+  }
+
+  delete(key: PanelStoreKey) {
+    return this.mutate(key, document => {
+      delete document.entries[key];
+    });
+  }
+}
+
+export function isServerStorageEnabled(): boolean {
+  return process.env.NODEPASS_PANEL_STORAGE === 'server';
+}
+
+export function isPanelStateKey(key: string): key is PanelStateKey {
+  return (PANEL_STATE_KEYS as readonly string[]).includes(key);
+}
+
+// Shared through globalThis so all route handlers use one write queue.
+const globalForStore = globalThis as typeof globalThis & { __nodepassPanelStore?: PanelStore };
+
+export function getPanelStore(): PanelStore {
+  if (!globalForStore.__nodepassPanelStore) {
+    const filePath = path.resolve(process.env.NODEPASS_PANEL_DATA_FILE || path.join('data', 'panel-state.json'));
+    globalForStore.__nodepassPanelStore = new JsonFilePanelStore(filePath);
+  }
+  return globalForStore.__nodepassPanelStore;
+}
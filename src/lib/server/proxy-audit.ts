@@ -0,0 +1,126 @@
+// Audit entries for master operations that pass through the master proxy (route handler under
+// src/app/api/proxy). Written on the server with the session user as actor, so they do not depend
+// on the browser reporting what it did. Only imported by route handlers.
+
+import type { NamedApiConfig } from '@/hooks/use-api-key';
+import {
+  AUDIT_ACTION_HEADER,
+  AUDIT_BATCH_HEADER,
+  type AuditAction,
+  type AuditEntryInput,
+} from '@/lib/audit-log';
+import { appendAuditEntry } from './audit-log';
+import { API_KEY_INSTANCE_ID, forwardToMaster } from './master-proxy';
+
+const INSTANCE_ACTIONS = ['start', 'stop', 'restart'] as const;
+
+export interface ProxiedMutation {
+  action: AuditAction;
+  instanceId?: string;
+  requestedUrl?: string; // From the body of creations and edits; logged when the master returns no URL.
+  batchId?: string;
+}
+
+function readJson(body: ArrayBuffer): any {
+  try {
+    return JSON.parse(new TextDecoder().decode(body));
+  } catch {
+    return null;
+  }
+}
+
+/** The audited operation behind a mutating proxy request, or null for requests that are not logged. */
+export function describeProxiedMutation(method: string, path: string[], headers: Headers, body: ArrayBuffer): ProxiedMutation | null {
+  if (path[0] !== 'instances' || path.length > 2) return null;
+  const batchId = headers.get(AUDIT_BATCH_HEADER)?.slice(0, 64) || undefined;
+  const json = readJson(body);
+  const requestedUrl = typeof json?.url === 'string' ? json.url as string : undefined;
+  const [, instanceId] = path;
+  if (!instanceId) {
+    if (method !== 'POST') return null;
+    const action = headers.get(AUDIT_ACTION_HEADER) === 'topology.submit' ? 'topology.submit' : 'instance.create';
+    return { action, requestedUrl, batchId };
+  }
+  switch (method) {
+    case 'PUT':
+      return { action: 'instance.edit', instanceId, requestedUrl, batchId };
+    case 'DELETE':
+      return { action: 'instance.delete', instanceId, batchId };
+    case 'PATCH': {
+      const requested = json?.action;
+      if (!INSTANCE_ACTIONS.includes(requested)) return null;
+      // Restarting the API key pseudo-instance rotates the key; its URL is the new key and is not logged.
+      if (instanceId === API_KEY_INSTANCE_ID) return requested === 'restart' ? { action: 'master.rotate-key' } : null;
+      return { action: `instance.${requested as (typeof INSTANCE_ACTIONS)[number]}`, instanceId, batchId };
+    }
+    default:
+      return null;
+  }
+}
+
+// Edits and deletions only return the new state (if anything), so the old URL is read first.
+// Best effort: an unreachable master simply leaves urlBefore empty.
+export async function readUrlBefore(master: NamedApiConfig, mutation: ProxiedMutation, signal?: AbortSignal): Promise<string | undefined> {
+  if (!mutation.instanceId || (mutation.action !== 'instance.edit' && mutation.action !== 'instance.delete')) return undefined;
+  try {
+    const response = await forwardToMaster(master, {
+      method: 'GET',
+      path: `/instances/${encodeURIComponent(mutation.instanceId)}`,
+      search: '',
+      headers: new Headers({ accept: 'application/json' }),
+      signal,
+    });
+    if (!response.ok) {
+      await response.body?.cancel();
+      return undefined;
+    }
+    const instance = await response.json();
+    return typeof instance?.url === 'string' ? instance.url : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+async function describeOutcome(outcome: Response | Error): Promise<Pick<AuditEntryInput, 'result' | 'instanceId' | 'urlAfter' | 'error'>> {
+  if (outcome instanceof Error) return { result: 'failure', error: outcome.message };
+  const data = outcome.status === 204 ? null : await outcome.json().catch(() => null);
+  if (!outcome.ok) {
+    return { result: 'failure', error: `API 错误: ${outcome.status} ${data?.message || data?.error || outcome.statusText}` };
+  }
+  return {
+    result: 'success',
+    instanceId: typeof data?.id === 'string' ? data.id : undefined,
+    urlAfter: typeof data?.url === 'string' ? data.url : undefined,
+  };
+}
+
+/**
+ * Appends the entry for one proxied operation. `outcome` is a clone of the master's response (read
+ * here) or the error that stopped the request. Never throws: the operation itself already happened.
+ */
+export async function recordProxiedMutation(
+  master: NamedApiConfig,
+  mutation: ProxiedMutation,
+  outcome: Response | Error,
+  { urlBefore, actor }: { urlBefore?: string; actor?: string }
+): Promise<void> {
+  try {
+    const { instanceId, urlAfter, ...result } = await describeOutcome(outcome);
+    const isKeyRotation = mutation.action === 'master.rotate-key';
+    const loggedInstanceId = isKeyRotation ? undefined : mutation.instanceId ?? instanceId;
+    const loggedUrlAfter = isKeyRotation ? undefined : urlAfter ?? mutation.requestedUrl;
+    const input: AuditEntryInput = {
+      action: mutation.action,
+      masterId: master.id,
+      masterName: master.name,
+      ...(loggedInstanceId ? { instanceId: loggedInstanceId } : {}),
+      ...(urlBefore ? { urlBefore } : {}),
+      ...(loggedUrlAfter ? { urlAfter: loggedUrlAfter } : {}),
+      ...(mutation.batchId ? { batchId: mutation.batchId } : {}),
+      ...result,
+    };
+    await appendAuditEntry(input, actor);
+  } catch (error) {
+    console.error('写入代理审计日志失败:', error);
+  }
+}
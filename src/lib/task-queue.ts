@@ -0,0 +1,48 @@
+export type TaskOutcome<R> =
+  | { status: 'fulfilled'; value: R }
+  | { status: 'rejected'; reason: unknown }
+  | { status: 'cancelled' };
+
+export interface ConcurrencyOptions<T, R> {
+  signal?: AbortSignal;
+  onStart?: (item: T, index: number) => void;
+  onSettle?: (item: T, index: number, outcome: TaskOutcome<R>) => void;
+}
+
+/**
+ * Runs `worker` over `items` with at most `limit` calls in flight, like Promise.allSettled but
+ * bounded. Aborting `signal` stops new items from starting; they settle as 'cancelled' while
+ * the ones already running finish normally. Outcomes are returned in input order.
+ */
+export async function runWithConcurrency<T, R>(
+  items: readonly T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>,
+  { signal, onStart, onSettle }: ConcurrencyOptions<T, R> = {}
+): Promise<TaskOutcome<R>[]> {
+  const outcomes = new Array<TaskOutcome<R>>(items.length);
+  let next = 0;
+
+  const runLane = async () => {
+    while (next < items.length) {
+      const index = next++;
+      const item = items[index];
+      let outcome: TaskOutcome<R>;
+      if (signal?.aborted) {
+        outcome = { status: 'cancelled' };
+      } else {
+        onStart?.(item, index);
+        try {
+          outcome = { status: 'fulfilled', value: await worker(item, index) };
+        } catch (reason) {
+          outcome = { status: 'rejected', reason };
+        }
+      }
+      outcomes[index] = outcome;
+      onSettle?.(item, index, outcome);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, runLane));
+  return outcomes;
+}
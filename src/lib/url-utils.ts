@@ -1,10 +1,12 @@
-
-"use client";
-
 import type { MasterLogLevel, MasterTlsMode } from '@/hooks/use-api-key';
+import { getParamDefinition, readAdvancedParamValues, readUnknownParams, type NodePassParamValues } from './nodepass-params';
+
+const isRegistryOption = (key: string, value: string | null): boolean =>
+  !!value && !!getParamDefinition(key)?.options?.some(option => option.value === value);
 
 export interface ParsedNodePassUrl {
   scheme: 'server' | 'client' | null;
+  tunnelKey: string | null; // userinfo part, e.g. server://key@host:port/target
   tunnelAddress: string | null;
   targetAddress: string | null;
   params: URLSearchParams;
@@ -12,11 +14,14 @@ export interface ParsedNodePassUrl {
   tlsMode: MasterTlsMode | null;
   certPath: string | null;
   keyPath: string | null;
+  advancedParams: NodePassParamValues;
+  unknownParams: Record<string, string>;
 }
 
 export function parseNodePassUrl(url: string): ParsedNodePassUrl {
   const result: ParsedNodePassUrl = {
     scheme: null,
+    tunnelKey: null,
     tunnelAddress: null,
     targetAddress: null,
     params: new URLSearchParams(),
@@ -24,6 +29,8 @@ export function parseNodePassUrl(url: string): ParsedNodePassUrl {
     tlsMode: null,
     certPath: null,
     keyPath: null,
+    advancedParams: {},
+    unknownParams: {},
   };
 
   if (!url) return result;
@@ -48,13 +55,15 @@ export function parseNodePassUrl(url: string): ParsedNodePassUrl {
     if (queryPart) {
       result.params = new URLSearchParams(queryPart);
       const log = result.params.get('log');
-      if (log && ['debug', 'info', 'warn', 'error', 'event'].includes(log)) {
+      if (isRegistryOption('log', log)) {
         result.logLevel = log as MasterLogLevel;
       }
+      result.advancedParams = readAdvancedParamValues(result.params);
+      result.unknownParams = readUnknownParams(result.params);
 
       if (result.scheme === 'server') {
         const tls = result.params.get('tls');
-        if (tls && ['0', '1', '2'].includes(tls)) {
+        if (isRegistryOption('tls', tls)) {
           result.tlsMode = tls as MasterTlsMode;
         } else {
            result.tlsMode = 'master';
@@ -69,7 +78,18 @@ export function parseNodePassUrl(url: string): ParsedNodePassUrl {
 
     const addresses = pathPart.split('/');
     if (addresses.length > 0) {
-      result.tunnelAddress = addresses[0] || null;
+      let tunnelPart = addresses[0];
+      const atIndex = tunnelPart.lastIndexOf('@');
+      if (atIndex !== -1) {
+        const rawKey = tunnelPart.substring(0, atIndex);
+        try {
+          result.tunnelKey = decodeURIComponent(rawKey) || null;
+        } catch {
+          result.tunnelKey = rawKey || null;
+        }
+        tunnelPart = tunnelPart.substring(atIndex + 1);
+      }
+      result.tunnelAddress = tunnelPart || null;
     }
     if (addresses.length > 1) {
       result.targetAddress = addresses.slice(1).join('/') || null;
@@ -80,6 +100,61 @@ export function parseNodePassUrl(url: string): ParsedNodePassUrl {
   return result;
 }
 
+const TUNNEL_KEY_MASK = '••••••';
+
+// Replaces the tunnel key (URL userinfo) with a mask for display.
+export function maskTunnelKeyInUrl(url: string): string {
+  if (!url) return url;
+  return url.replace(/^([a-zA-Z]+:\/\/)([^/@?#]*)@/, (_match, scheme) => `${scheme}${TUNNEL_KEY_MASK}@`);
+}
+
+export function hasTunnelKey(url: string | null | undefined): boolean {
+  return !!url && /^[a-zA-Z]+:\/\/[^/@?#]+@/.test(url);
+}
+
+export function generateTunnelKey(byteLength = 16): string {
+  const bytes = new Uint8Array(byteLength);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+}
+
+export interface NodePassUrlChange {
+  field: string;
+  label: string;
+  before: string | null;
+  after: string | null;
+}
+
+// Component-wise differences between two instance URLs, in URL order. Tunnel keys are masked.
+export function diffNodePassUrls(beforeUrl: string, afterUrl: string): NodePassUrlChange[] {
+  const before = parseNodePassUrl(beforeUrl);
+  const after = parseNodePassUrl(afterUrl);
+  const changes: NodePassUrlChange[] = [];
+  const push = (field: string, label: string, a: string | null, b: string | null) => {
+    if ((a ?? '') !== (b ?? '')) changes.push({ field, label, before: a || null, after: b || null });
+  };
+
+  push('scheme', '类型', before.scheme, after.scheme);
+  if ((before.tunnelKey ?? '') !== (after.tunnelKey ?? '')) {
+    changes.push({
+      field: 'tunnelKey',
+      label: '隧道密钥',
+      before: before.tunnelKey ? TUNNEL_KEY_MASK : null,
+      after: after.tunnelKey ? `${TUNNEL_KEY_MASK} (已更改)` : null,
+    });
+  }
+  push('tunnelAddress', '隧道地址', before.tunnelAddress, after.tunnelAddress);
+  push('targetAddress', '目标地址', before.targetAddress, after.targetAddress);
+
+  const keys = new Set<string>();
+  before.params.forEach((_value, key) => keys.add(key));
+  after.params.forEach((_value, key) => keys.add(key));
+  for (const key of keys) {
+    push(`param:${key}`, getParamDefinition(key)?.label ?? key, before.params.get(key), after.params.get(key));
+  }
+  return changes;
+}
+
 export function extractHostname(urlOrHostPort: string | null | undefined): string | null {
   if (!urlOrHostPort) return null;
 
@@ -18,13 +18,35 @@ export interface UpdateInstanceRequest {
   action: "start" | "stop" | "restart";
 }
 
-// ModifyInstanceConfigRequest interface removed
+// Body of PUT /instances/{id}: replaces the instance URL while keeping its ID.
+export interface ModifyInstanceConfigRequest {
+  url: string;
+}
+
+export type InstanceEventType = 'initial' | 'create' | 'update' | 'delete' | 'log' | 'shutdown';
 
-// Add instanceDetails to InstanceEvent for structured data
+// Payload of an `event: instance` message on the master's /events stream.
 export interface InstanceEvent {
-  type: 'initial' | 'create' | 'update' | 'delete' | 'log' | 'shutdown' | 'error';
-  data: any;
-  instanceDetails?: Instance;
-  level?: string;
-  timestamp: string;
+  type: InstanceEventType;
+  time: string;
+  instance?: Instance;
+  instances?: Instance[]; // Some master versions send `initial` as a single batch.
+  logs?: string;
+  lastEventId?: string;
+}
+
+// Response of GET /info. Older masters lack the endpoint and newer ones add fields over time,
+// so every field is optional.
+export interface MasterInfo {
+  ver?: string;
+  os?: string;
+  arch?: string;
+  name?: string; // Hostname of the machine running the master.
+  alias?: string;
+  uptime?: number; // Seconds.
+  cpu?: number; // Usage in percent.
+  mem_total?: number; // Bytes.
+  mem_used?: number; // Bytes.
+  log?: string;
+  tls?: string;
 }
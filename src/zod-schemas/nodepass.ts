@@ -1,5 +1,19 @@
 
 import { z } from 'zod';
+import { NODEPASS_PARAMS, validateParamValue } from '@/lib/nodepass-params';
+
+// One optional string per non-managed registry parameter, validated by the registry itself.
+export const advancedParamsSchema = z.object(
+  Object.fromEntries(
+    NODEPASS_PARAMS.filter(def => !def.managed).map(def => [
+      def.key,
+      z.string().optional().superRefine((value, ctx) => {
+        const message = validateParamValue(def, value);
+        if (message) ctx.addIssue({ code: z.ZodIssueCode.custom, message });
+      }),
+    ])
+  ) as Record<string, z.ZodType<string | undefined>>
+);
 
 // Schema for the detailed create instance form
 export const createInstanceFormSchema = z.object({
@@ -7,6 +21,7 @@ export const createInstanceFormSchema = z.object({
     required_error: "实例类型是必需的。",
   }),
   isSingleEndedForward: z.optional(z.boolean()),
+  tunnelKey: z.optional(z.string().regex(/^[A-Za-z0-9._~-]*$/, "隧道密钥只能包含字母、数字和 . _ ~ - 字符。")),
   tunnelAddress: z.string().min(1, "此字段是必需的。"),
   targetAddress: z.optional(z.string()),
   logLevel: z.enum(["master", "debug", "info", "warn", "error"], { // Added "master"
@@ -15,6 +30,7 @@ export const createInstanceFormSchema = z.object({
   tlsMode: z.string(),
   certPath: z.optional(z.string()),
   keyPath: z.optional(z.string()),
+  advancedParams: z.optional(advancedParamsSchema),
 }).superRefine((data, ctx) => {
   if (data.instanceType === "客户端") {
     if (data.isSingleEndedForward) {
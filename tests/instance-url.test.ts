@@ -0,0 +1,62 @@
+// Editing an instance prefills the form from its URL and rebuilds the URL from the form; an
+// unchanged form must give back the original URL.
+
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { NamedApiConfig } from '@/hooks/use-api-key';
+import type { CreateInstanceFormValues } from '@/zod-schemas/nodepass';
+import {
+  buildUrlFromFormValues,
+  instanceUrlToFormValues,
+  prepareClientUrlParams,
+  prepareServerUrlParams,
+} from '@/components/nodepass/create-instance-dialog/utils';
+
+const master: NamedApiConfig = { id: 'm1', name: 'M1', apiUrl: 'http://10.0.0.1:9090/api', token: 'key' };
+
+// What CreateInstanceDialog does on submit when editing.
+function rebuild(url: string, edit: (values: CreateInstanceFormValues) => CreateInstanceFormValues = values => values): string {
+  const prefill = instanceUrlToFormValues(url);
+  const values = edit(prefill.values);
+  const onLog = (message: string) => assert.fail(message);
+  const params = values.instanceType === '客户端'
+    ? prepareClientUrlParams(values, master, onLog, prefill.clientTargetHost)?.clientParams
+    : prepareServerUrlParams(values, onLog)?.serverParams;
+  assert.ok(params);
+  return buildUrlFromFormValues({ ...params, unknownParams: prefill.unknownParams, preservedUserInfo: prefill.preservedUserInfo ?? undefined }, master);
+}
+
+describe('instance URL round trip', () => {
+  const unchanged = [
+    'server://:10101/127.0.0.1:8080',
+    'server://secret@[::]:10101/127.0.0.1:8080?log=debug&tls=2&crt=/etc/nodepass/a.crt&key=/etc/nodepass/a.key&max=1024&rate=100',
+    'server://:10101/127.0.0.1:8080?tls=1&min=64',
+    'server://:10101/127.0.0.1:8080?log=event&tls=0&crt=/left/over.crt&mode=2&read=10s&proxy=1&future=on',
+    'server://:10101/127.0.0.1:8080?dial=[::1]&x-custom=a,b',
+    'client://secret@10.0.0.2:10101/127.0.0.1:8081?log=info&tls=0&min=64&max=512',
+    'client://secret@10.0.0.2:10101/192.168.1.5:8081?tls=2&crt=/a.crt&key=/a.key&slot=100',
+    'client://10.0.0.2:10101/[::]:8081?tls=1&notcp=1&noudp=0',
+    'client://secret@:1080/example.com:80?tls=1&crt=/a.crt&mode=1&min=8&max=64&rate=10',
+    'client://old%3Akey@[::]:1080/example.com:80?log=warn',
+  ];
+
+  for (const url of unchanged) {
+    test(url, () => assert.equal(rebuild(url), url));
+  }
+
+  test('keeps parameters the form hides when another field changes', () => {
+    const url = 'server://:10101/127.0.0.1:8080?tls=1&min=64&rate=100';
+    const edited = rebuild(url, values => ({ ...values, advancedParams: { ...values.advancedParams, rate: '200' } }));
+    assert.equal(edited, 'server://:10101/127.0.0.1:8080?tls=1&min=64&rate=200');
+  });
+
+  test('lets a form value replace a carried-over one', () => {
+    const url = 'client://secret@10.0.0.2:10101/127.0.0.1:8081?tls=0';
+    assert.equal(rebuild(url, values => ({ ...values, tlsMode: '1' })), 'client://secret@10.0.0.2:10101/127.0.0.1:8081?tls=1');
+  });
+
+  test('drops a shown advanced value the user cleared', () => {
+    const url = 'server://:10101/127.0.0.1:8080?rate=100';
+    assert.equal(rebuild(url, values => ({ ...values, advancedParams: { ...values.advancedParams, rate: '' } })), 'server://:10101/127.0.0.1:8080');
+  });
+});
@@ -0,0 +1,215 @@
+// Integration tests for the master API client, run offline against scripts/mock-master.ts.
+
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { startMockMaster, type MockMaster } from '../scripts/mock-master';
+import {
+  API_KEY_INSTANCE_ID,
+  NodePassAuthError,
+  NodePassClient,
+  NodePassConflictError,
+  NodePassNotFoundError,
+  nodePassApi,
+} from '@/lib/api';
+import type { EventStreamStatus } from '@/lib/event-stream';
+import { applyInstanceUrlChange } from '@/lib/instance-edit';
+import { probeMasterCapabilities } from '@/lib/master-capabilities';
+import type { NamedApiConfig } from '@/hooks/use-api-key';
+import type { InstanceEvent } from '@/types/nodepass';
+import { buildUrlFromFormValues } from '@/components/nodepass/create-instance-dialog/utils';
+import { calculateClientTunnelAddressForServer } from '@/app/topology/topologyLogic';
+
+const configFor = (master: MockMaster, id = 'mock'): NamedApiConfig => ({
+  id,
+  name: `Mock ${id}`,
+  apiUrl: master.apiUrl,
+  token: master.apiKey,
+});
+
+// Resolves with the first event matching `predicate`, collecting everything the stream delivers.
+function subscribeEvents(client: NodePassClient) {
+  const stream = client.createEventStream({ reconnect: false });
+  const events: InstanceEvent[] = [];
+  const statuses: EventStreamStatus[] = [];
+  const waiters = new Set<{ predicate: (event: InstanceEvent) => boolean; resolve: (event: InstanceEvent) => void }>();
+  const unsubscribe = stream.subscribe({
+    onEvent: event => {
+      events.push(event);
+      for (const waiter of Array.from(waiters)) {
+        if (!waiter.predicate(event)) continue;
+        waiters.delete(waiter);
+        waiter.resolve(event);
+      }
+    },
+    onStatusChange: status => statuses.push(status),
+  });
+  const next = (predicate: (event: InstanceEvent) => boolean, timeoutMs = 5000) => new Promise<InstanceEvent>((resolve, reject) => {
+    const seen = events.find(predicate);
+    if (seen) return resolve(seen);
+    const timer = setTimeout(() => reject(new Error('Timed out waiting for an event')), timeoutMs);
+    waiters.add({ predicate, resolve: event => { clearTimeout(timer); resolve(event); } });
+  });
+  return { stream, events, statuses, next, unsubscribe };
+}
+
+describe('NodePassClient against the mock master', () => {
+  let master: MockMaster;
+  let client: NodePassClient;
+
+  before(async () => {
+    master = await startMockMaster({ port: 0, tickMs: 0, quiet: true });
+    client = new NodePassClient(configFor(master), { retries: 0 });
+  });
+
+  after(() => master.stop());
+
+  test('creates, reads, updates and deletes instances', async () => {
+    const created = await client.createInstance({ url: 'server://:10101/127.0.0.1:8080?log=info' });
+    assert.equal(created.type, 'server');
+    assert.equal(created.status, 'running');
+
+    const listed = await client.getInstances();
+    assert.ok(listed.some(instance => instance.id === API_KEY_INSTANCE_ID));
+    assert.ok(listed.some(instance => instance.id === created.id));
+
+    const stopped = await client.updateInstance(created.id, { action: 'stop' });
+    assert.equal(stopped.status, 'stopped');
+    const started = await client.updateInstance(created.id, { action: 'start' });
+    assert.equal(started.status, 'running');
+
+    const modified = await client.modifyInstanceConfig(created.id, { url: 'server://:10102/127.0.0.1:8080' });
+    assert.equal(modified.id, created.id);
+    assert.equal((await client.getInstance(created.id)).url, 'server://:10102/127.0.0.1:8080');
+
+    await client.deleteInstance(created.id);
+    await assert.rejects(client.getInstance(created.id), NodePassNotFoundError);
+  });
+
+  test('maps a tunnel address clash to a conflict error', async () => {
+    const first = await client.createInstance({ url: 'server://:10201/127.0.0.1:80' });
+    await assert.rejects(client.createInstance({ url: 'server://:10201/127.0.0.1:81' }), NodePassConflictError);
+    await client.deleteInstance(first.id);
+  });
+
+  test('supports the legacy nodePassApi helpers', async () => {
+    const created = await nodePassApi.createInstance({ url: 'client://127.0.0.1:10301/127.0.0.1:8081' }, master.apiUrl, master.apiKey);
+    assert.equal((await nodePassApi.getInstance(created.id, master.apiUrl, master.apiKey)).url, created.url);
+    assert.equal((await nodePassApi.updateInstance(created.id, { action: 'restart' }, master.apiUrl, master.apiKey)).status, 'running');
+    assert.ok((await nodePassApi.getInstances(master.apiUrl, master.apiKey)).some(instance => instance.id === created.id));
+    await nodePassApi.deleteInstance(created.id, master.apiUrl, master.apiKey);
+  });
+
+  test('streams the snapshot, instance changes and scripted logs', async () => {
+    const events = subscribeEvents(client);
+    try {
+      await events.next(event => event.type === 'initial' && event.instance?.id === API_KEY_INSTANCE_ID);
+
+      const created = await client.createInstance({ url: 'server://:10401/127.0.0.1:8080' });
+      await events.next(event => event.type === 'create' && event.instance?.id === created.id);
+
+      master.tick();
+      const handshake = await events.next(event => event.type === 'log' && !!event.logs?.includes('Tunnel handshaked'));
+      assert.match(handshake.logs!, /in \d+ ms/);
+
+      master.tick();
+      const traffic = await events.next(event => event.type === 'log' && !!event.logs?.includes('TRAFFIC_STATS'));
+      assert.equal(traffic.instance?.id, created.id);
+      assert.ok(events.events.every(event => !!event.lastEventId));
+
+      await client.updateInstance(created.id, { action: 'stop' });
+      await events.next(event => event.type === 'update' && event.instance?.id === created.id && event.instance.status === 'stopped');
+      await client.deleteInstance(created.id);
+      await events.next(event => event.type === 'delete' && event.instance?.id === created.id);
+      assert.equal(events.stream.status, 'open');
+    } finally {
+      events.unsubscribe();
+    }
+    assert.equal(events.stream.status, 'closed');
+  });
+
+  test('submits a server and the client connecting to it, as the topology editor does', async () => {
+    const config = configFor(master);
+    const serverUrl = buildUrlFromFormValues({
+      instanceType: '服务端',
+      tunnelKey: 'topology-key',
+      tunnelAddress: '[::]:10501',
+      targetAddress: '127.0.0.1:8080',
+      logLevel: 'info',
+      tlsMode: '1',
+    }, config);
+    const clientTunnelAddress = calculateClientTunnelAddressForServer({ label: 'S', role: 'S', tunnelAddress: '[::]:10501' }, config);
+    assert.equal(clientTunnelAddress, 'localhost:10501');
+    const clientUrl = buildUrlFromFormValues({
+      instanceType: '客户端',
+      tunnelKey: 'topology-key',
+      tunnelAddress: clientTunnelAddress,
+      targetAddress: '127.0.0.1:9090',
+      logLevel: 'info',
+      tlsMode: '1',
+    }, config);
+
+    const audit = { action: 'topology.submit' as const, batchId: 'batch-1' };
+    const server = await client.createInstance({ url: serverUrl }, { audit });
+    const connected = await client.createInstance({ url: clientUrl }, { audit });
+    assert.equal(server.url, 'server://topology-key@[::]:10501/127.0.0.1:8080?log=info');
+    assert.equal(connected.url, 'client://topology-key@localhost:10501/127.0.0.1:9090?log=info&tls=1');
+    await client.deleteInstance(server.id);
+    await client.deleteInstance(connected.id);
+  });
+
+  test('rotates the API key and rejects the old one', async () => {
+    const oldKey = master.apiKey;
+    const newKey = await client.rotateApiKey();
+    assert.notEqual(newKey, oldKey);
+    assert.equal(newKey, master.apiKey);
+    await assert.rejects(client.getInstances(), NodePassAuthError);
+    client = new NodePassClient(configFor(master), { retries: 0 });
+    assert.ok(Array.isArray(await client.getInstances()));
+  });
+});
+
+describe('applyInstanceUrlChange against the mock master', () => {
+  test('updates in place when the master supports PUT', async () => {
+    const master = await startMockMaster({ port: 0, tickMs: 0, quiet: true });
+    try {
+      const client = new NodePassClient(configFor(master), { retries: 0 });
+      const original = await client.createInstance({ url: 'server://:10601/127.0.0.1:8080' });
+      const result = await applyInstanceUrlChange(client, original, 'server://:10602/127.0.0.1:8080');
+      assert.equal(result.method, 'update');
+      assert.equal(result.instance.id, original.id);
+    } finally {
+      await master.stop();
+    }
+  });
+
+  test('recreates the instance and keeps it stopped when the master lacks PUT', async () => {
+    const master = await startMockMaster({ port: 0, tickMs: 0, quiet: true, supportsPut: false });
+    try {
+      const client = new NodePassClient(configFor(master), { retries: 0 });
+      const created = await client.createInstance({ url: 'server://:10701/127.0.0.1:8080' });
+      const original = await client.updateInstance(created.id, { action: 'stop' });
+      const result = await applyInstanceUrlChange(client, original, 'server://:10702/127.0.0.1:8080');
+      assert.equal(result.method, 'recreate');
+      assert.notEqual(result.instance.id, original.id);
+      assert.equal(result.instance.status, 'stopped');
+      assert.equal(result.stopError, undefined);
+      await assert.rejects(client.getInstance(original.id), NodePassNotFoundError);
+    } finally {
+      await master.stop();
+    }
+  });
+});
+
+describe('probeMasterCapabilities against the mock master', () => {
+  test('reads endpoint support from the OpenAPI document, whatever the version', async () => {
+    const master = await startMockMaster({ port: 0, tickMs: 0, quiet: true, supportsPut: false, version: 'v0.0.1' });
+    try {
+      const capabilities = await probeMasterCapabilities(new NodePassClient(configFor(master), { retries: 0 }));
+      assert.equal(capabilities.source, 'openapi');
+      assert.equal(capabilities.version, 'v0.0.1');
+      assert.deepEqual(capabilities.features, { instanceUpdate: false, apiKeyRotation: true, masterInfo: true });
+    } finally {
+      await master.stop();
+    }
+  });
+});